@@ -1,24 +1,57 @@
-import { configureStore } from '@reduxjs/toolkit';
+import { configureStore, type ThunkAction, type UnknownAction } from '@reduxjs/toolkit';
 import { setupListeners } from '@reduxjs/toolkit/query';
 
 import designReducer from '../entities/design/model/slice';
+import canvasSettingsReducer from '../features/canvas/model/canvasSettingsSlice';
 import historyReducer from '../features/canvas/model/historySlice';
+import { registerHistoryListeners } from '../features/canvas/model/historyListeners';
 import presenceReducer from '../features/canvas/model/presenceSlice';
+import selectionReducer from '../features/canvas/model/selectionSlice';
+import { registerSyncListeners } from '../features/canvas/model/syncListeners';
+import syncReducer from '../features/canvas/model/syncSlice';
+import toolReducer from '../features/canvas/model/toolSlice';
+import viewportReducer from '../features/canvas/model/viewportSlice';
+import { registerCommandsListeners } from '../features/commands/model/commandsListeners';
+import commandsReducer from '../features/commands/model/commandsSlice';
+import commentsReducer from '../features/comments/model/commentsSlice';
+import { registerAutosaveListeners } from '../features/designs/model/autosaveListeners';
+import autosaveReducer from '../features/designs/model/autosaveSlice';
+import { registerDashboardListeners } from '../features/designs/model/dashboardListeners';
+import dashboardReducer from '../features/designs/model/dashboardSlice';
+import { registerVersionListeners } from '../features/versions/model/versionListeners';
+import versionsReducer from '../features/versions/model/versionsSlice';
 import { baseApi } from '../shared/api/baseApi';
+import { listenerMiddleware } from './listenerMiddleware';
 
 export const store = configureStore({
   reducer: {
     [baseApi.reducerPath]: baseApi.reducer,
+    autosave: autosaveReducer,
+    canvasSettings: canvasSettingsReducer,
+    commands: commandsReducer,
+    comments: commentsReducer,
+    dashboard: dashboardReducer,
     design: designReducer,
     history: historyReducer,
     presence: presenceReducer,
+    selection: selectionReducer,
+    sync: syncReducer,
+    tool: toolReducer,
+    versions: versionsReducer,
+    viewport: viewportReducer,
   },
   middleware: (getDefaultMiddleware) =>
-    getDefaultMiddleware().concat(baseApi.middleware),
+    getDefaultMiddleware().prepend(listenerMiddleware.middleware).concat(baseApi.middleware),
 });
 
 export type RootState = ReturnType<typeof store.getState>;
 export type AppDispatch = typeof store.dispatch;
+export type AppThunk<ReturnType = void> = ThunkAction<ReturnType, RootState, unknown, UnknownAction>;
 
 setupListeners(store.dispatch);
-
+registerHistoryListeners();
+registerSyncListeners();
+registerAutosaveListeners();
+registerDashboardListeners();
+registerCommandsListeners();
+registerVersionListeners();
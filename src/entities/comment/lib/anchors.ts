@@ -0,0 +1,59 @@
+import { findElementLocation } from '../../design/lib/elementTree';
+import { toDesignSpace, toLocalDelta, type Point } from '../../design/lib/geometry';
+import type { DesignElement } from '../../design/model/types';
+import type { CommentAnchor } from '../model/types';
+
+export interface ResolvedAnchor extends Point {
+  /** The anchored element no longer exists; the pin sits where it was placed. */
+  isDetached: boolean;
+}
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Anchors a comment at a design-space point, attached to `elementId` when given so it
+ * keeps its place on the element through moves and rotations.
+ */
+export const createCommentAnchor = (
+  elements: DesignElement[],
+  point: Point,
+  elementId?: string
+): CommentAnchor => {
+  const location = elementId ? findElementLocation(elements, elementId) : undefined;
+  const x = round(point.x);
+  const y = round(point.y);
+  if (!location) return { type: 'point', x, y };
+
+  const origin = toDesignSpace(
+    { x: location.element.x, y: location.element.y },
+    location.ancestors
+  );
+  const offset = toLocalDelta({ x: point.x - origin.x, y: point.y - origin.y }, [
+    ...location.ancestors,
+    location.element,
+  ]);
+  return {
+    type: 'element',
+    elementId: location.element.id,
+    offsetX: round(offset.x),
+    offsetY: round(offset.y),
+    x,
+    y,
+  };
+};
+
+/** Where a pin belongs in design space right now. */
+export const resolveCommentAnchor = (
+  anchor: CommentAnchor,
+  elements: DesignElement[]
+): ResolvedAnchor => {
+  if (anchor.type === 'point') return { x: anchor.x, y: anchor.y, isDetached: false };
+
+  const location = findElementLocation(elements, anchor.elementId);
+  if (!location) return { x: anchor.x, y: anchor.y, isDetached: true };
+  const position = toDesignSpace({ x: anchor.offsetX, y: anchor.offsetY }, [
+    ...location.ancestors,
+    location.element,
+  ]);
+  return { ...position, isDetached: false };
+};
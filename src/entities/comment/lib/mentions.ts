@@ -0,0 +1,62 @@
+import type { CommentMention } from '../model/types';
+
+/** Characters allowed in a mention handle, e.g. `@jane.doe` or `@guest-4f2a`. */
+const HANDLE_CHAR = /[\w.-]/;
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * The `@handle` being typed at the caret, if any: `start` is the index of the `@`,
+ * `query` what follows it so far.
+ */
+export const getMentionQuery = (text: string, caret: number) => {
+  const start = text.lastIndexOf('@', caret - 1);
+  if (start < 0 || (start > 0 && !/\s/.test(text[start - 1]))) return undefined;
+  const query = text.slice(start + 1, caret);
+  return [...query].every((char) => HANDLE_CHAR.test(char)) ? { start, query } : undefined;
+};
+
+/** Every `@username` of the given people in `text`, as ranges in reading order. */
+export const findMentions = (
+  text: string,
+  people: Pick<CommentMention, 'userId' | 'username'>[]
+): CommentMention[] =>
+  people
+    .flatMap(({ userId, username }) =>
+      [...text.matchAll(new RegExp(`(?<=^|\\s)@${escapeRegExp(username)}(?![\\w.-])`, 'g'))].map(
+        (match) => ({ userId, username, start: match.index, length: username.length + 1 })
+      )
+    )
+    .sort((a, b) => a.start - b.start);
+
+export interface TextSegment {
+  text: string;
+  mention?: CommentMention;
+}
+
+/**
+ * Splits comment text into plain runs and mentions for display. Ranges that no longer
+ * line up with the text are ignored; comments without ranges are matched by name.
+ */
+export const splitMentions = (text: string, mentions: CommentMention[]): TextSegment[] => {
+  const ranged = mentions.filter(
+    (mention) =>
+      mention.start !== undefined &&
+      text.slice(mention.start, mention.start + (mention.length ?? 0)) === `@${mention.username}`
+  );
+  const resolved = ranged.length
+    ? [...ranged].sort((a, b) => (a.start ?? 0) - (b.start ?? 0))
+    : findMentions(text, mentions);
+
+  const segments: TextSegment[] = [];
+  let cursor = 0;
+  resolved.forEach((mention) => {
+    const start = mention.start ?? 0;
+    if (start < cursor) return;
+    if (start > cursor) segments.push({ text: text.slice(cursor, start) });
+    segments.push({ text: `@${mention.username}`, mention });
+    cursor = start + `@${mention.username}`.length;
+  });
+  if (cursor < text.length) segments.push({ text: text.slice(cursor) });
+  return segments;
+};
@@ -0,0 +1,38 @@
+import type { Comment, CommentStatus } from '../model/types';
+
+export interface CommentThread {
+  root: Comment;
+  /** Oldest first. */
+  replies: Comment[];
+  /** 1-based and stable: the thread's position among all threads by creation time. */
+  number: number;
+}
+
+const byCreatedAt = (a: Comment, b: Comment) => a.createdAt.localeCompare(b.createdAt);
+
+export const getThreadStatus = (thread: CommentThread): CommentStatus =>
+  thread.root.status ?? 'open';
+
+/**
+ * Groups a design's flat comment list into threads, oldest first. Replies whose thread
+ * is missing (e.g. deleted on the server) are dropped.
+ */
+export const groupCommentThreads = (comments: Comment[]): CommentThread[] => {
+  const repliesByRootId = new Map<string, Comment[]>();
+  comments.forEach((comment) => {
+    if (!comment.parentId) return;
+    repliesByRootId.set(comment.parentId, [
+      ...(repliesByRootId.get(comment.parentId) ?? []),
+      comment,
+    ]);
+  });
+
+  return comments
+    .filter((comment) => !comment.parentId)
+    .sort(byCreatedAt)
+    .map((root, index) => ({
+      root,
+      replies: (repliesByRootId.get(root._id) ?? []).sort(byCreatedAt),
+      number: index + 1,
+    }));
+};
@@ -0,0 +1,37 @@
+import { z } from 'zod';
+
+import type { Comment, CommentAnchor, CommentMention } from './types';
+
+const commentMentionSchema: z.ZodType<CommentMention, CommentMention> = z.object({
+  userId: z.string().optional(),
+  username: z.string().min(1),
+  start: z.number().int().nonnegative().optional(),
+  length: z.number().int().positive().optional(),
+});
+
+const commentAnchorSchema: z.ZodType<CommentAnchor, CommentAnchor> = z.discriminatedUnion('type', [
+  z.object({ type: z.literal('point'), x: z.number(), y: z.number() }),
+  z.object({
+    type: z.literal('element'),
+    elementId: z.string().min(1),
+    offsetX: z.number(),
+    offsetY: z.number(),
+    x: z.number(),
+    y: z.number(),
+  }),
+]);
+
+export const commentSchema: z.ZodType<Comment, Comment> = z.object({
+  _id: z.string().min(1),
+  designId: z.string().min(1),
+  authorId: z.string().optional(),
+  authorName: z.string(),
+  text: z.string(),
+  mentions: z.array(commentMentionSchema),
+  createdAt: z.string(),
+  parentId: z.string().min(1).optional(),
+  anchor: commentAnchorSchema.optional(),
+  status: z.enum(['open', 'resolved']).optional(),
+  resolvedAt: z.string().optional(),
+  resolvedBy: z.string().optional(),
+});
@@ -1,14 +1,41 @@
 export interface CommentMention {
   userId?: string;
   username: string;
+  /**
+   * Where `@username` sits in the comment text. Missing on comments written before
+   * ranges were stored; those are matched by name when displayed.
+   */
+  start?: number;
+  length?: number;
 }
 
+export type CommentStatus = 'open' | 'resolved';
+
+/**
+ * Where a thread is pinned. Element anchors store the offset inside the element so the
+ * pin follows it, plus the design-space spot it was placed at for when it is deleted.
+ */
+export type CommentAnchor =
+  | { type: 'point'; x: number; y: number }
+  | { type: 'element'; elementId: string; offsetX: number; offsetY: number; x: number; y: number };
+
 export interface Comment {
   _id: string;
   designId: string;
+  /** Missing on comments posted before authors were tracked. */
+  authorId?: string;
   authorName: string;
   text: string;
   mentions: CommentMention[];
   createdAt: string;
+  /** Set on replies; points at the comment that started the thread. */
+  parentId?: string;
+  /** Thread roots only; unpinned threads apply to the whole design. */
+  anchor?: CommentAnchor;
+  /** Thread roots only; missing means open. */
+  status?: CommentStatus;
+  resolvedAt?: string;
+  resolvedBy?: string;
+  /** Client-only: posted optimistically and not yet confirmed by the server. */
+  isPending?: boolean;
 }
-
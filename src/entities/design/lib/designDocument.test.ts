@@ -0,0 +1,67 @@
+import { describe, expect, it } from 'vitest';
+
+import { CURRENT_SCHEMA_VERSION } from '../model/schema';
+import type { Design } from '../model/types';
+import { DESIGN_FILE_FORMAT, parseDesignFile, serializeDesignFile } from './designDocument';
+
+const design: Design = {
+  _id: 'design-1',
+  name: 'Poster',
+  width: 1080,
+  height: 1350,
+  createdAt: '2026-01-01T00:00:00.000Z',
+  updatedAt: '2026-01-02T00:00:00.000Z',
+  elements: [
+    {
+      id: 'rect-1',
+      type: 'rect',
+      x: 0,
+      y: 0,
+      width: 100,
+      height: 100,
+      rotation: 0,
+      zIndex: 0,
+      opacity: 1,
+      fill: '#000000',
+      stroke: '#ffffff',
+      strokeWidth: 0,
+      radius: 0,
+    },
+  ],
+};
+
+const designFile = (fields: Record<string, unknown>) =>
+  JSON.stringify({ format: DESIGN_FILE_FORMAT, schemaVersion: CURRENT_SCHEMA_VERSION, ...fields });
+
+describe('parseDesignFile', () => {
+  it('reads back what serializeDesignFile wrote', () => {
+    expect(parseDesignFile(serializeDesignFile(design))).toEqual({
+      ...design,
+      schemaVersion: CURRENT_SCHEMA_VERSION,
+    });
+  });
+
+  it('rejects text that is not JSON', () => {
+    expect(() => parseDesignFile('{ nope')).toThrow('This file is not valid JSON.');
+  });
+
+  it('rejects JSON that is not a design export', () => {
+    const message = 'This is not a design file (expected a .design.json export).';
+    expect(() => parseDesignFile(JSON.stringify(design))).toThrow(message);
+    expect(() => parseDesignFile('null')).toThrow(message);
+  });
+
+  it('names the invalid fields of a broken design', () => {
+    const broken = { ...design, elements: [{ ...design.elements[0], opacity: 'full' }] };
+
+    expect(() => parseDesignFile(designFile({ design: broken }))).toThrow(
+      /^Design file is invalid:\nelements\[0\]\.opacity: /
+    );
+  });
+
+  it('explains a file from a newer editor', () => {
+    expect(() =>
+      parseDesignFile(designFile({ schemaVersion: CURRENT_SCHEMA_VERSION + 1, design }))
+    ).toThrow(/saved by a newer version of the editor/);
+  });
+});
@@ -0,0 +1,63 @@
+import { z } from 'zod';
+
+import { parseOrThrow } from '../../../shared/lib/validation';
+import { CURRENT_SCHEMA_VERSION, designElementSchema, designSchema } from '../model/schema';
+import type { Design, DesignElement } from '../model/types';
+import { migrateDesignDocument } from './migrations';
+
+/** Marks `.design.json` files so unrelated JSON is rejected with a clear message. */
+export const DESIGN_FILE_FORMAT = 'design-collab';
+export const DESIGN_FILE_EXTENSION = '.design.json';
+
+/** Upgrades and validates a design from storage or the network. */
+export const parseDesign = (value: unknown, what = 'Design'): Design =>
+  parseOrThrow(designSchema, migrateDesignDocument(value), what);
+
+/** Same as `parseDesign` for a bare element tree, e.g. a realtime snapshot. */
+export const parseElements = (
+  elements: unknown,
+  schemaVersion?: number,
+  what = 'Design elements'
+): DesignElement[] =>
+  parseOrThrow(
+    z.array(designElementSchema),
+    migrateDesignDocument({ schemaVersion, elements }).elements,
+    what
+  );
+
+/** A portable, self-describing copy of one design. */
+export const serializeDesignFile = (design: Design) =>
+  JSON.stringify(
+    {
+      format: DESIGN_FILE_FORMAT,
+      schemaVersion: CURRENT_SCHEMA_VERSION,
+      exportedAt: new Date().toISOString(),
+      design,
+    },
+    null,
+    2
+  );
+
+/**
+ * Reads a `.design.json` file written by this or an older version of the editor.
+ * Throws with a readable explanation for anything else.
+ */
+export const parseDesignFile = (text: string): Design => {
+  let file: unknown;
+  try {
+    file = JSON.parse(text);
+  } catch {
+    throw new Error('This file is not valid JSON.');
+  }
+  if (
+    !file ||
+    typeof file !== 'object' ||
+    !('format' in file) ||
+    file.format !== DESIGN_FILE_FORMAT
+  ) {
+    throw new Error(`This is not a design file (expected a ${DESIGN_FILE_EXTENSION} export).`);
+  }
+  const { schemaVersion, design } = file as { schemaVersion?: unknown; design?: unknown };
+  const versioned = design && typeof design === 'object' ? { ...design, schemaVersion } : design;
+  return parseDesign(versioned, 'Design file');
+};
@@ -0,0 +1,66 @@
+import type { Design, DesignElement } from '../model/types';
+import { findElementLocation, flattenElements } from './elementTree';
+
+export interface ElementChange {
+  elementId: string;
+  type: DesignElement['type'];
+  kind: 'added' | 'removed' | 'changed';
+  /** Changed properties, sorted; `parent` when the element moved to another container. */
+  keys: string[];
+}
+
+export interface DesignChanges {
+  /** Design-level properties that differ: name, width, height. */
+  design: (keyof Design)[];
+  elements: ElementChange[];
+}
+
+const DESIGN_KEYS: (keyof Design)[] = ['name', 'width', 'height'];
+
+const isSameValue = (a: unknown, b: unknown) =>
+  a === b || (typeof a === 'object' && JSON.stringify(a) === JSON.stringify(b));
+
+const getParentId = (elements: DesignElement[], id: string) =>
+  findElementLocation(elements, id)?.ancestors.at(-1)?.id ?? null;
+
+/**
+ * What differs between two copies of a design, element by element, in the order the
+ * elements appear in `to` (removed ones last). Nested elements are compared on their
+ * own, so editing a child does not also report its containers as changed.
+ */
+export const diffDesigns = (from: Design, to: Design): DesignChanges => {
+  const before = new Map(flattenElements(from.elements).map((element) => [element.id, element]));
+  const after = flattenElements(to.elements);
+  const afterIds = new Set(after.map((element) => element.id));
+
+  const elements = after.flatMap((element): ElementChange[] => {
+    const previous = before.get(element.id);
+    if (!previous) return [{ elementId: element.id, type: element.type, kind: 'added', keys: [] }];
+
+    const prevRecord = previous as unknown as Record<string, unknown>;
+    const nextRecord = element as unknown as Record<string, unknown>;
+    const keys = Object.keys({ ...prevRecord, ...nextRecord })
+      .filter((key) => key !== 'children' && !isSameValue(prevRecord[key], nextRecord[key]))
+      .sort();
+    if (getParentId(from.elements, element.id) !== getParentId(to.elements, element.id)) {
+      keys.push('parent');
+    }
+    return keys.length
+      ? [{ elementId: element.id, type: element.type, kind: 'changed', keys }]
+      : [];
+  });
+
+  const removed = [...before.values()]
+    .filter((element) => !afterIds.has(element.id))
+    .map((element): ElementChange => ({
+      elementId: element.id,
+      type: element.type,
+      kind: 'removed',
+      keys: [],
+    }));
+
+  return {
+    design: DESIGN_KEYS.filter((key) => from[key] !== to[key]),
+    elements: [...elements, ...removed],
+  };
+};
@@ -0,0 +1,104 @@
+import type { ContainerElement, DesignElement } from '../model/types';
+
+export const isContainerElement = (element: DesignElement): element is ContainerElement =>
+  element.type === 'group' || element.type === 'frame';
+
+/**
+ * Where an element lives in the tree. `siblings` is the actual array holding it, so
+ * reducers can write through it on an Immer draft.
+ */
+export interface ElementLocation {
+  element: DesignElement;
+  siblings: DesignElement[];
+  index: number;
+  /** Outermost first; empty for root-level elements. */
+  ancestors: ContainerElement[];
+}
+
+export const findElementLocation = (
+  elements: DesignElement[],
+  id: string,
+  ancestors: ContainerElement[] = []
+): ElementLocation | undefined => {
+  for (let index = 0; index < elements.length; index += 1) {
+    const element = elements[index];
+    if (element.id === id) {
+      return { element, siblings: elements, index, ancestors };
+    }
+    if (isContainerElement(element)) {
+      const nested = findElementLocation(element.children, id, [...ancestors, element]);
+      if (nested) return nested;
+    }
+  }
+  return undefined;
+};
+
+export const findElement = (elements: DesignElement[], id: string) =>
+  findElementLocation(elements, id)?.element;
+
+export const getAncestors = (elements: DesignElement[], id: string) =>
+  findElementLocation(elements, id)?.ancestors ?? [];
+
+export const getParent = (elements: DesignElement[], id: string) =>
+  getAncestors(elements, id).at(-1);
+
+/** Depth-first, parents before their children. */
+export const flattenElements = (elements: DesignElement[]): DesignElement[] =>
+  elements.flatMap((element) =>
+    isContainerElement(element) ? [element, ...flattenElements(element.children)] : [element]
+  );
+
+export const sortByZIndex = <T extends { zIndex: number }>(elements: T[]) =>
+  [...elements].sort((a, b) => a.zIndex - b.zIndex);
+
+/** Replaces elements by id wherever they sit in the tree; returns a new tree. */
+export const replaceElements = (
+  elements: DesignElement[],
+  replacements: Map<string, DesignElement>
+): DesignElement[] =>
+  elements.map((element) => {
+    const replacement = replacements.get(element.id) ?? element;
+    return isContainerElement(replacement)
+      ? { ...replacement, children: replaceElements(replacement.children, replacements) }
+      : replacement;
+  });
+
+/** Removes elements by id (and everything inside them); returns a new tree. */
+export const removeElements = (elements: DesignElement[], ids: Set<string>): DesignElement[] =>
+  elements
+    .filter((element) => !ids.has(element.id))
+    .map((element) =>
+      isContainerElement(element)
+        ? { ...element, children: removeElements(element.children, ids) }
+        : element
+    );
+
+/** A copy of an element with fresh ids for it and everything inside it. */
+export const cloneWithNewIds = (element: DesignElement): DesignElement =>
+  isContainerElement(element)
+    ? { ...element, id: crypto.randomUUID(), children: element.children.map(cloneWithNewIds) }
+    : { ...element, id: crypto.randomUUID() };
+
+/** Rewrites sibling zIndex values to 0..n-1, preserving their current order. */
+export const normalizeZIndex = (elements: DesignElement[]): DesignElement[] =>
+  sortByZIndex(elements).map((element, zIndex) =>
+    element.zIndex === zIndex ? element : { ...element, zIndex }
+  );
+
+/**
+ * Applies `update` to the sibling list that lives under `parentId` (the root list
+ * when `parentId` is undefined); returns a new tree.
+ */
+export const updateSiblings = (
+  elements: DesignElement[],
+  parentId: string | undefined,
+  update: (siblings: DesignElement[]) => DesignElement[]
+): DesignElement[] => {
+  if (parentId === undefined) return update(elements);
+  return elements.map((element) => {
+    if (!isContainerElement(element)) return element;
+    return element.id === parentId
+      ? { ...element, children: update(element.children) }
+      : { ...element, children: updateSiblings(element.children, parentId, update) };
+  });
+};
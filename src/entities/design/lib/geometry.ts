@@ -0,0 +1,106 @@
+import type { DesignElement } from '../model/types';
+
+export interface Point {
+  x: number;
+  y: number;
+}
+
+export interface Bounds {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/** Anything that carries a local coordinate space: an origin plus a rotation. */
+type Transformable = Pick<DesignElement, 'x' | 'y' | 'rotation'>;
+
+const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+
+export const rotatePoint = (point: Point, degrees: number): Point => {
+  if (!degrees) return point;
+  const cos = Math.cos(toRadians(degrees));
+  const sin = Math.sin(toRadians(degrees));
+  return { x: point.x * cos - point.y * sin, y: point.x * sin + point.y * cos };
+};
+
+/** Maps a point from a container's local space into the space the container sits in. */
+export const toParentSpace = (point: Point, container: Transformable): Point => {
+  const rotated = rotatePoint(point, container.rotation);
+  return { x: container.x + rotated.x, y: container.y + rotated.y };
+};
+
+/** Maps a point through a chain of ancestors (outermost first) into design space. */
+export const toDesignSpace = (point: Point, ancestors: Transformable[]): Point =>
+  ancestors.reduceRight((current, ancestor) => toParentSpace(current, ancestor), point);
+
+/** Converts a design-space offset into the local space of an element's parent. */
+export const toLocalDelta = (delta: Point, ancestors: Transformable[]): Point =>
+  rotatePoint(delta, -ancestors.reduce((total, ancestor) => total + ancestor.rotation, 0));
+
+export const boundsFromCorners = (corners: Point[]): Bounds => {
+  const xs = corners.map((corner) => corner.x);
+  const ys = corners.map((corner) => corner.y);
+  const minX = Math.min(...xs);
+  const minY = Math.min(...ys);
+  return { x: minX, y: minY, width: Math.max(...xs) - minX, height: Math.max(...ys) - minY };
+};
+
+export const unionBounds = (bounds: Bounds[]): Bounds | undefined => {
+  if (!bounds.length) return undefined;
+  const minX = Math.min(...bounds.map((box) => box.x));
+  const minY = Math.min(...bounds.map((box) => box.y));
+  const maxX = Math.max(...bounds.map((box) => box.x + box.width));
+  const maxY = Math.max(...bounds.map((box) => box.y + box.height));
+  return { x: minX, y: minY, width: maxX - minX, height: maxY - minY };
+};
+
+const boxCorners = ({ x, y, width, height }: Bounds): Point[] => [
+  { x, y },
+  { x: x + width, y },
+  { x: x + width, y: y + height },
+  { x, y: y + height },
+];
+
+/**
+ * The element's outline as four corners in its parent's space. Boxes rotate around
+ * their top-left corner (Konva's default origin); circles are centred on x/y; groups
+ * wrap whatever their children currently cover.
+ */
+export const getElementCorners = (element: DesignElement): Point[] => {
+  if (element.type === 'circle') {
+    return boxCorners({
+      x: element.x - element.radius,
+      y: element.y - element.radius,
+      width: element.radius * 2,
+      height: element.radius * 2,
+    });
+  }
+
+  const localBox =
+    element.type === 'group'
+      ? (unionBounds(element.children.map((child) => getElementBounds(child))) ?? {
+          x: 0,
+          y: 0,
+          width: 0,
+          height: 0,
+        })
+      : { x: 0, y: 0, width: element.width, height: element.height };
+
+  return boxCorners(localBox).map((corner) => toParentSpace(corner, element));
+};
+
+/** Axis-aligned box around an element in design space. */
+export const getElementBounds = (element: DesignElement, ancestors: Transformable[] = []): Bounds =>
+  boundsFromCorners(getElementCorners(element).map((corner) => toDesignSpace(corner, ancestors)));
+
+export const boundsIntersect = (a: Bounds, b: Bounds) =>
+  a.x < b.x + b.width && a.x + a.width > b.x && a.y < b.y + b.height && a.y + a.height > b.y;
+
+/** Builds a positive-size box from two arbitrary corner points (e.g. a marquee drag). */
+export const boundsFromPoints = (start: Point, end: Point): Bounds => ({
+  x: Math.min(start.x, end.x),
+  y: Math.min(start.y, end.y),
+  width: Math.abs(end.x - start.x),
+  height: Math.abs(end.y - start.y),
+});
@@ -0,0 +1,139 @@
+import type { ContainerElement, DesignElement, GroupElement } from '../model/types';
+import {
+  findElementLocation,
+  isContainerElement,
+  normalizeZIndex,
+  updateSiblings,
+} from './elementTree';
+import { getElementBounds, toParentSpace, unionBounds } from './geometry';
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Moves a group's origin onto the top-left of its children's bounds so x/y/width/
+ * height keep describing what is actually drawn. Children are shifted the other way,
+ * so nothing moves on screen.
+ */
+export const fitGroupToChildren = (group: GroupElement): GroupElement => {
+  const local = unionBounds(group.children.map((child) => getElementBounds(child)));
+  if (!local) return group;
+
+  const offsetX = round(local.x);
+  const offsetY = round(local.y);
+  const width = round(local.width);
+  const height = round(local.height);
+  if (!offsetX && !offsetY && width === group.width && height === group.height) return group;
+
+  const origin = toParentSpace({ x: offsetX, y: offsetY }, group);
+  return {
+    ...group,
+    x: round(origin.x),
+    y: round(origin.y),
+    width,
+    height,
+    children: group.children.map((child) => ({
+      ...child,
+      x: child.x - offsetX,
+      y: child.y - offsetY,
+    })),
+  };
+};
+
+/**
+ * Re-fits every group in the tree, innermost first, and drops groups left empty.
+ * Untouched branches keep their identity so memoised consumers do not re-render.
+ */
+export const refitGroups = (elements: DesignElement[]): DesignElement[] => {
+  let changed = false;
+  const next = elements.flatMap((element): DesignElement[] => {
+    if (!isContainerElement(element)) return [element];
+    const children = refitGroups(element.children);
+    if (element.type === 'group' && !children.length) {
+      changed = true;
+      return [];
+    }
+    const withChildren = children === element.children ? element : { ...element, children };
+    const fitted = withChildren.type === 'group' ? fitGroupToChildren(withChildren) : withChildren;
+    if (fitted !== element) changed = true;
+    return [fitted];
+  });
+  return changed ? next : elements;
+};
+
+interface WrapOptions {
+  containerId: string;
+  type: ContainerElement['type'];
+}
+
+/**
+ * Wraps sibling elements in a new group or frame that sits where the topmost of them
+ * was in the stacking order. Ids that do not share the first element's parent are
+ * ignored. Children keep their on-screen position.
+ */
+export const wrapElements = (
+  elements: DesignElement[],
+  elementIds: string[],
+  { containerId, type }: WrapOptions
+): DesignElement[] => {
+  const first = elementIds.length ? findElementLocation(elements, elementIds[0]) : undefined;
+  if (!first) return elements;
+
+  const members = first.siblings.filter((element) => elementIds.includes(element.id));
+  const bounds = unionBounds(members.map((member) => getElementBounds(member)));
+  if (!bounds) return elements;
+
+  const origin = { x: round(bounds.x), y: round(bounds.y) };
+  const children = normalizeZIndex(
+    members.map((member) => ({ ...member, x: member.x - origin.x, y: member.y - origin.y }))
+  );
+  const base = {
+    id: containerId,
+    ...origin,
+    width: round(bounds.width),
+    height: round(bounds.height),
+    rotation: 0,
+    zIndex: Math.max(...members.map((member) => member.zIndex)),
+    opacity: 1,
+    children,
+  };
+  const container: ContainerElement =
+    type === 'frame'
+      ? { ...base, type: 'frame', fill: 'transparent', clipContent: true }
+      : { ...base, type: 'group' };
+
+  const memberIds = new Set(members.map((member) => member.id));
+  return updateSiblings(elements, first.ancestors.at(-1)?.id, (siblings) =>
+    normalizeZIndex([...siblings.filter((element) => !memberIds.has(element.id)), container])
+  );
+};
+
+/**
+ * Dissolves a group or frame, lifting its children into the container's parent with
+ * their absolute position, rotation and effective opacity preserved.
+ */
+export const unwrapElement = (elements: DesignElement[], containerId: string): DesignElement[] => {
+  const location = findElementLocation(elements, containerId);
+  if (!location || !isContainerElement(location.element)) return elements;
+  const container = location.element;
+
+  const lifted = [...container.children]
+    .sort((a, b) => a.zIndex - b.zIndex)
+    .map((child, order) => {
+      const position = toParentSpace({ x: child.x, y: child.y }, container);
+      return {
+        ...child,
+        x: round(position.x),
+        y: round(position.y),
+        rotation: round(child.rotation + container.rotation),
+        opacity: round(child.opacity * container.opacity),
+        // Slot the children in between the container and whatever sat above it.
+        zIndex: container.zIndex + order / container.children.length,
+      };
+    });
+
+  return updateSiblings(elements, location.ancestors.at(-1)?.id, (siblings) =>
+    normalizeZIndex(
+      siblings.flatMap((element) => (element.id === containerId ? lifted : [element]))
+    )
+  );
+};
@@ -0,0 +1,25 @@
+import type { DesignElement, FontWeight } from '../model/types';
+
+export const elementTypeLabel: Record<DesignElement['type'], string> = {
+  text: 'Text',
+  rect: 'Rectangle',
+  circle: 'Circle',
+  image: 'Image',
+  group: 'Group',
+  frame: 'Frame',
+};
+
+export const getLayerName = (element: DesignElement) =>
+  element.name?.trim() || elementTypeLabel[element.type];
+
+export const fontWeightLabel: Record<FontWeight, string> = {
+  100: 'Thin',
+  200: 'Extra Light',
+  300: 'Light',
+  400: 'Regular',
+  500: 'Medium',
+  600: 'Semibold',
+  700: 'Bold',
+  800: 'Extra Bold',
+  900: 'Black',
+};
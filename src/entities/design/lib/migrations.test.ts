@@ -0,0 +1,80 @@
+import { describe, expect, it } from 'vitest';
+
+import { CURRENT_SCHEMA_VERSION } from '../model/schema';
+import { getSchemaVersion, migrateDesignDocument } from './migrations';
+
+/** A text element as the first, unversioned format stored it. */
+const legacyText = {
+  id: 'text-1',
+  type: 'text',
+  x: 0,
+  y: 0,
+  width: 200,
+  height: 40,
+  rotation: 0,
+  zIndex: 0,
+  opacity: 1,
+  text: 'Hello',
+  fontFamily: 'Inter',
+  fontSize: 24,
+  fontWeight: 'bold',
+  fill: '#000000',
+  align: 'left',
+};
+
+describe('migrateDesignDocument', () => {
+  it('upgrades unversioned text, including text nested in groups', () => {
+    const migrated = migrateDesignDocument({
+      elements: [{ id: 'group-1', type: 'group', children: [legacyText] }],
+    });
+
+    expect(migrated).toEqual({
+      schemaVersion: CURRENT_SCHEMA_VERSION,
+      elements: [
+        {
+          id: 'group-1',
+          type: 'group',
+          children: [
+            {
+              ...legacyText,
+              fontWeight: 700,
+              lineHeight: 1,
+              letterSpacing: 0,
+              sizing: 'fixed',
+            },
+          ],
+        },
+      ],
+    });
+  });
+
+  it('leaves a current document as it is', () => {
+    const text = { ...legacyText, fontWeight: 300, lineHeight: 1.5, letterSpacing: 2 };
+    const document = {
+      schemaVersion: CURRENT_SCHEMA_VERSION,
+      elements: [{ ...text, sizing: 'auto-height' }],
+    };
+
+    expect(migrateDesignDocument(document)).toEqual(document);
+  });
+
+  it('refuses a document from a newer schema', () => {
+    expect(() =>
+      migrateDesignDocument({ schemaVersion: CURRENT_SCHEMA_VERSION + 1, elements: [] })
+    ).toThrow(/saved by a newer version of the editor/);
+  });
+
+  it('passes anything that is not an object through for validation to reject', () => {
+    expect(migrateDesignDocument(null)).toBeNull();
+    expect(migrateDesignDocument([legacyText])).toEqual([legacyText]);
+  });
+});
+
+describe('getSchemaVersion', () => {
+  it('treats a missing or malformed version as the first one', () => {
+    expect(getSchemaVersion({})).toBe(1);
+    expect(getSchemaVersion({ schemaVersion: '3' })).toBe(1);
+    expect(getSchemaVersion({ schemaVersion: 0 })).toBe(1);
+    expect(getSchemaVersion({ schemaVersion: 2 })).toBe(2);
+  });
+});
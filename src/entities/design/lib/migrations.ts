@@ -0,0 +1,88 @@
+import { CURRENT_SCHEMA_VERSION } from '../model/schema';
+
+/** A design (or any object holding `elements`) as stored, before validation. */
+type DesignDocument = Record<string, unknown> & { elements?: unknown };
+type RawElement = Record<string, unknown>;
+
+interface Migration {
+  /** The schema version this migration produces. */
+  version: number;
+  migrate: (document: DesignDocument) => DesignDocument;
+}
+
+/** Applies `update` to every element in the tree, depth first. */
+const mapElements = (
+  document: DesignDocument,
+  update: (element: RawElement) => RawElement
+): DesignDocument => {
+  const visit = (elements: unknown): unknown =>
+    Array.isArray(elements)
+      ? elements.map((element: unknown) => {
+          if (!element || typeof element !== 'object') return element;
+          const updated = update(element as RawElement);
+          return 'children' in updated
+            ? { ...updated, children: visit(updated.children) }
+            : updated;
+        })
+      : elements;
+  return { ...document, elements: visit(document.elements) };
+};
+
+/**
+ * Oldest first. Documents without a `schemaVersion` predate versioning and are
+ * treated as version 1, so every migration must be safe to run on data that is
+ * already up to date. Version 2 only started stamping documents with a version; the
+ * format itself did not change, so it needs no step.
+ */
+const MIGRATIONS: Migration[] = [
+  {
+    // Text gained numeric weights, line height, letter spacing and sizing modes. The
+    // defaults match how text was drawn before: single-spaced in a fixed box.
+    version: 3,
+    migrate: (document) =>
+      mapElements(document, (element) => {
+        if (element.type !== 'text') return element;
+        const weights: Record<string, number> = { normal: 400, bold: 700 };
+        return {
+          ...element,
+          fontWeight:
+            typeof element.fontWeight === 'string'
+              ? (weights[element.fontWeight] ?? element.fontWeight)
+              : element.fontWeight,
+          lineHeight: element.lineHeight ?? 1,
+          letterSpacing: element.letterSpacing ?? 0,
+          sizing: element.sizing ?? 'fixed',
+        };
+      }),
+  },
+];
+
+export const getSchemaVersion = (document: unknown) => {
+  const version =
+    document && typeof document === 'object' && 'schemaVersion' in document
+      ? document.schemaVersion
+      : undefined;
+  return typeof version === 'number' && Number.isInteger(version) && version > 0 ? version : 1;
+};
+
+/**
+ * Upgrades a stored design to the current schema version. Anything that is not an
+ * object is returned untouched for validation to reject. Throws for documents from a
+ * newer schema than this build understands, rather than silently dropping data.
+ */
+export const migrateDesignDocument = <T>(document: T): T => {
+  if (!document || typeof document !== 'object' || Array.isArray(document)) return document;
+  const version = getSchemaVersion(document);
+  if (version > CURRENT_SCHEMA_VERSION) {
+    throw new Error(
+      `This design was saved by a newer version of the editor (format v${version}; ` +
+        `this editor reads up to v${CURRENT_SCHEMA_VERSION}). Reload to update.`
+    );
+  }
+
+  const migrated = MIGRATIONS.filter((migration) => migration.version > version).reduce(
+    (current, migration) => migration.migrate(current),
+    document as DesignDocument
+  );
+  return { ...migrated, schemaVersion: CURRENT_SCHEMA_VERSION } as T;
+};
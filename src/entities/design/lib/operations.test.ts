@@ -0,0 +1,33 @@
+import { describe, expect, it } from 'vitest';
+
+import type { DesignElement, RectElement } from '../model/types';
+import { applyOperations, diffElements } from './operations';
+
+const rect: RectElement = {
+  id: 'rect-1',
+  type: 'rect',
+  x: 0,
+  y: 0,
+  width: 100,
+  height: 100,
+  rotation: 0,
+  zIndex: 0,
+  opacity: 1,
+  fill: '#000000',
+  stroke: '#ffffff',
+  strokeWidth: 0,
+  radius: 0,
+};
+
+/** What a collaborator receives: the operations after a trip through JSON. */
+const overTheWire = (previous: DesignElement[], next: DesignElement[]) =>
+  JSON.parse(JSON.stringify(diffElements(previous, next)));
+
+describe('diffElements', () => {
+  it('carries removed optional properties to collaborators', () => {
+    const named = { ...rect, name: 'Card' };
+    const operations = overTheWire([named], [{ ...rect, x: 10 }]);
+
+    expect(applyOperations([named], operations)).toEqual([{ ...rect, x: 10 }]);
+  });
+});
@@ -0,0 +1,141 @@
+import type { DesignElement, ElementOperation } from '../model/types';
+import {
+  findElementLocation,
+  isContainerElement,
+  removeElements,
+  updateSiblings,
+} from './elementTree';
+
+/** Properties that are structure rather than content; they travel as add/reorder. */
+const STRUCTURAL_KEYS = new Set(['id', 'type', 'children', 'zIndex']);
+
+interface IndexedElement {
+  element: DesignElement;
+  parentId: string | null;
+}
+
+const indexTree = (
+  elements: DesignElement[],
+  parentId: string | null = null,
+  index = new Map<string, IndexedElement>()
+) => {
+  elements.forEach((element) => {
+    index.set(element.id, { element, parentId });
+    if (isContainerElement(element)) indexTree(element.children, element.id, index);
+  });
+  return index;
+};
+
+const isSameValue = (a: unknown, b: unknown) =>
+  a === b || (typeof a === 'object' && JSON.stringify(a) === JSON.stringify(b));
+
+const withoutChildren = (element: DesignElement): DesignElement =>
+  isContainerElement(element) ? { ...element, children: [] } : element;
+
+/**
+ * Describes how `previous` became `next` as operations, ordered so they can be
+ * replayed: adds (parents first), then moves, then property updates, then deletes.
+ */
+export const diffElements = (
+  previous: DesignElement[],
+  next: DesignElement[]
+): ElementOperation[] => {
+  if (previous === next) return [];
+  const before = indexTree(previous);
+  const after = indexTree(next);
+
+  const adds: ElementOperation[] = [];
+  const reorders: ElementOperation[] = [];
+  const updates: ElementOperation[] = [];
+  after.forEach(({ element, parentId }, id) => {
+    const old = before.get(id);
+    if (!old) {
+      adds.push({ kind: 'add', element: withoutChildren(element), parentId });
+      return;
+    }
+    if (old.element === element && old.parentId === parentId) return;
+    if (old.parentId !== parentId || old.element.zIndex !== element.zIndex) {
+      reorders.push({ kind: 'reorder', elementId: id, parentId, zIndex: element.zIndex });
+    }
+    const oldProps = old.element as unknown as Record<string, unknown>;
+    const newProps = element as unknown as Record<string, unknown>;
+    const changedKeys = Object.keys({ ...oldProps, ...newProps }).filter(
+      (key) => !STRUCTURAL_KEYS.has(key) && !isSameValue(oldProps[key], newProps[key])
+    );
+    const props = Object.fromEntries(
+      changedKeys.filter((key) => newProps[key] !== undefined).map((key) => [key, newProps[key]])
+    );
+    const removed = changedKeys.filter((key) => newProps[key] === undefined);
+    if (changedKeys.length) {
+      updates.push({
+        kind: 'update',
+        elementId: id,
+        props,
+        ...(removed.length && { removed }),
+      });
+    }
+  });
+
+  // Deleting a container takes whatever is still inside it, so skip its descendants.
+  const deletes: ElementOperation[] = [];
+  before.forEach(({ parentId }, id) => {
+    if (after.has(id) || (parentId && !after.has(parentId) && before.has(parentId))) return;
+    deletes.push({ kind: 'delete', elementId: id });
+  });
+
+  return [...adds, ...reorders, ...updates, ...deletes];
+};
+
+const insertInto = (
+  elements: DesignElement[],
+  parentId: string | null,
+  element: DesignElement
+): DesignElement[] => {
+  const parent = parentId ? findElementLocation(elements, parentId)?.element : undefined;
+  // An unknown or non-container parent (e.g. deleted concurrently) falls back to the root.
+  const targetId = parent && isContainerElement(parent) ? parent.id : undefined;
+  return updateSiblings(elements, targetId, (siblings) => [...siblings, element]);
+};
+
+/** Applies operations in order; operations on elements that no longer exist are ignored. */
+export const applyOperations = (
+  elements: DesignElement[],
+  operations: ElementOperation[]
+): DesignElement[] =>
+  operations.reduce((tree, operation) => {
+    switch (operation.kind) {
+      case 'add':
+        if (findElementLocation(tree, operation.element.id)) return tree;
+        return insertInto(tree, operation.parentId, operation.element);
+      case 'update': {
+        const location = findElementLocation(tree, operation.elementId);
+        if (!location) return tree;
+        const updated = { ...location.element, ...operation.props } as Record<string, unknown>;
+        operation.removed?.forEach((key) => delete updated[key]);
+        return updateSiblings(tree, location.ancestors.at(-1)?.id, (siblings) =>
+          siblings.map((sibling) =>
+            sibling.id === operation.elementId ? (updated as unknown as DesignElement) : sibling
+          )
+        );
+      }
+      case 'reorder': {
+        const location = findElementLocation(tree, operation.elementId);
+        if (!location) return tree;
+        const moved = { ...location.element, zIndex: operation.zIndex };
+        const currentParentId = location.ancestors.at(-1)?.id ?? null;
+        if (currentParentId === operation.parentId) {
+          return updateSiblings(tree, currentParentId ?? undefined, (siblings) =>
+            siblings.map((sibling) => (sibling.id === moved.id ? moved : sibling))
+          );
+        }
+        return insertInto(
+          removeElements(tree, new Set([operation.elementId])),
+          operation.parentId,
+          moved
+        );
+      }
+      case 'delete':
+      default:
+        return removeElements(tree, new Set([operation.elementId]));
+    }
+  }, elements);
@@ -0,0 +1,49 @@
+import { describe, expect, it } from 'vitest';
+
+import type { DesignElement, RectElement } from '../model/types';
+import { arrangeElements } from './ordering';
+
+const layer = (id: string, zIndex: number): RectElement => ({
+  id,
+  type: 'rect',
+  x: 0,
+  y: 0,
+  width: 10,
+  height: 10,
+  rotation: 0,
+  zIndex,
+  opacity: 1,
+  fill: '#000000',
+  stroke: '#ffffff',
+  strokeWidth: 0,
+  radius: 0,
+});
+
+// Deliberately out of order: arranging goes by zIndex, not array position.
+const siblings = [layer('c', 2), layer('a', 0), layer('d', 3), layer('b', 1)];
+
+/** Ids from bottom to top. */
+const stackOf = (elements: DesignElement[]) =>
+  [...elements].sort((first, second) => first.zIndex - second.zIndex).map(({ id }) => id);
+
+describe('arrangeElements', () => {
+  it('moves an element one step up or down', () => {
+    expect(stackOf(arrangeElements(siblings, ['b'], 'forward'))).toEqual(['a', 'c', 'b', 'd']);
+    expect(stackOf(arrangeElements(siblings, ['c'], 'backward'))).toEqual(['a', 'c', 'b', 'd']);
+  });
+
+  it('moves a run of selected elements as a block', () => {
+    expect(stackOf(arrangeElements(siblings, ['a', 'b'], 'forward'))).toEqual(['c', 'a', 'b', 'd']);
+  });
+
+  it('sends elements to the front or back, keeping their order among themselves', () => {
+    expect(stackOf(arrangeElements(siblings, ['c', 'a'], 'front'))).toEqual(['b', 'd', 'a', 'c']);
+    expect(stackOf(arrangeElements(siblings, ['d', 'b'], 'back'))).toEqual(['b', 'd', 'a', 'c']);
+  });
+
+  it('keeps the identity of siblings that did not move', () => {
+    const arranged = arrangeElements(siblings, ['d'], 'forward');
+
+    siblings.forEach((sibling) => expect(arranged).toContain(sibling));
+  });
+});
@@ -0,0 +1,73 @@
+import type { DesignElement } from '../model/types';
+import { sortByZIndex } from './elementTree';
+
+export type ArrangeCommand = 'forward' | 'backward' | 'front' | 'back';
+
+/** Swaps each moved element with the unmoved neighbour `step` places along. */
+const shift = (ordered: DesignElement[], ids: Set<string>, step: 1 | -1) => {
+  const next = [...ordered];
+  const indexes = next.map((_, index) => index);
+  // Walk against the direction of travel so a run of moved elements moves as a block.
+  (step > 0 ? indexes.reverse() : indexes).forEach((index) => {
+    const neighbour = next[index + step];
+    if (ids.has(next[index].id) && neighbour && !ids.has(neighbour.id)) {
+      next[index + step] = next[index];
+      next[index] = neighbour;
+    }
+  });
+  return next;
+};
+
+/**
+ * Rewrites the zIndex of a sibling list (0 = bottom) with the given elements moved one
+ * step up or down, or all the way to the top or bottom. Siblings that end up where
+ * they were keep their identity.
+ */
+export const arrangeElements = (
+  siblings: DesignElement[],
+  elementIds: string[],
+  command: ArrangeCommand
+): DesignElement[] => {
+  const ids = new Set(elementIds);
+  const ordered = sortByZIndex(siblings);
+  const moved = ordered.filter((element) => ids.has(element.id));
+  const rest = ordered.filter((element) => !ids.has(element.id));
+  const arranged = {
+    forward: () => shift(ordered, ids, 1),
+    backward: () => shift(ordered, ids, -1),
+    front: () => [...rest, ...moved],
+    back: () => [...moved, ...rest],
+  }[command]();
+  return arranged.map((element, zIndex) =>
+    element.zIndex === zIndex ? element : { ...element, zIndex }
+  );
+};
+
+/**
+ * Moves one element directly above or below a sibling, as when dragging it in the
+ * layers panel. Returns the siblings unchanged if either id is missing.
+ */
+export const moveElementNextTo = (
+  siblings: DesignElement[],
+  elementId: string,
+  targetId: string,
+  placement: 'above' | 'below'
+): DesignElement[] => {
+  const element = siblings.find((sibling) => sibling.id === elementId);
+  if (!element || elementId === targetId) return siblings;
+  const rest = sortByZIndex(siblings).filter((sibling) => sibling.id !== elementId);
+  const targetIndex = rest.findIndex((sibling) => sibling.id === targetId);
+  if (targetIndex < 0) return siblings;
+  rest.splice(placement === 'above' ? targetIndex + 1 : targetIndex, 0, element);
+  return rest.map((sibling, zIndex) =>
+    sibling.zIndex === zIndex ? sibling : { ...sibling, zIndex }
+  );
+};
+
+/** Adds a new element directly above or below an existing sibling. */
+export const insertElementNextTo = (
+  siblings: DesignElement[],
+  element: DesignElement,
+  targetId: string,
+  placement: 'above' | 'below'
+): DesignElement[] => moveElementNextTo([...siblings, element], element.id, targetId, placement);
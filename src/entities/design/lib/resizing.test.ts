@@ -0,0 +1,76 @@
+import { describe, expect, it } from 'vitest';
+
+import type { DesignGuide, RectElement } from '../model/types';
+import { resizeDesignContent } from './resizing';
+
+const rect: RectElement = {
+  id: 'rect-1',
+  type: 'rect',
+  x: 100,
+  y: 100,
+  width: 200,
+  height: 200,
+  rotation: 0,
+  zIndex: 0,
+  opacity: 1,
+  fill: '#000000',
+  stroke: '#ffffff',
+  strokeWidth: 0,
+  radius: 20,
+};
+
+const guides: DesignGuide[] = [
+  { id: 'guide-x', axis: 'x', position: 500 },
+  { id: 'guide-y', axis: 'y', position: 400 },
+];
+
+const design = { width: 1000, height: 1000, elements: [rect], guides };
+
+describe('resizeDesignContent', () => {
+  it('scales layers by the smaller factor and keeps their centres in proportion', () => {
+    const resized = resizeDesignContent(design, {
+      width: 500,
+      height: 1000,
+      mode: 'scale',
+      anchor: { x: 0, y: 0 },
+    });
+
+    expect(resized).toEqual({
+      width: 500,
+      height: 1000,
+      elements: [{ ...rect, x: 50, y: 150, width: 100, height: 100, radius: 10 }],
+      guides: [
+        { id: 'guide-x', axis: 'x', position: 250 },
+        { id: 'guide-y', axis: 'y', position: 400 },
+      ],
+    });
+  });
+
+  it('keeps layer sizes and moves everything with the anchor', () => {
+    const resized = resizeDesignContent(design, {
+      width: 1200,
+      height: 800,
+      mode: 'anchor',
+      anchor: { x: 0.5, y: 0.5 },
+    });
+
+    expect(resized).toEqual({
+      width: 1200,
+      height: 800,
+      elements: [{ ...rect, x: 200, y: 0 }],
+      guides: [
+        { id: 'guide-x', axis: 'x', position: 600 },
+        { id: 'guide-y', axis: 'y', position: 300 },
+      ],
+    });
+  });
+
+  it('leaves layers in place when anchored top-left, and a design without guides alone', () => {
+    const resized = resizeDesignContent(
+      { ...design, guides: undefined },
+      { width: 2000, height: 300, mode: 'anchor', anchor: { x: 0, y: 0 } }
+    );
+
+    expect(resized).toEqual({ width: 2000, height: 300, elements: [rect], guides: undefined });
+  });
+});
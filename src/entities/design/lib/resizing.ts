@@ -0,0 +1,83 @@
+import type { Design, DesignElement } from '../model/types';
+import { getElementBounds, type Point } from './geometry';
+import { scaleElement } from './scaling';
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * `scale` grows or shrinks every layer with the design and spreads them out in
+ * proportion; `anchor` keeps layers at their size and pins them to one of nine points.
+ */
+export type ResizeMode = 'scale' | 'anchor';
+
+/** Fractions of the design's size: `{ x: 0, y: 0 }` is the top-left corner. */
+export interface ResizeAnchor {
+  x: 0 | 0.5 | 1;
+  y: 0 | 0.5 | 1;
+}
+
+export interface ResizeOptions {
+  width: number;
+  height: number;
+  mode: ResizeMode;
+  anchor: ResizeAnchor;
+}
+
+const moveElement = (element: DesignElement, offset: Point): DesignElement => ({
+  ...element,
+  x: round(element.x + offset.x),
+  y: round(element.y + offset.y),
+});
+
+const centerOf = (element: DesignElement): Point => {
+  const bounds = getElementBounds(element);
+  return { x: bounds.x + bounds.width / 2, y: bounds.y + bounds.height / 2 };
+};
+
+/**
+ * Scales a top-level layer by the smaller of the two factors, so nothing is stretched,
+ * and moves it so its centre lands where it was relative to the whole design.
+ */
+const scaleInPlace = (element: DesignElement, scaleX: number, scaleY: number) => {
+  const center = centerOf(element);
+  const scaled = scaleElement(element, Math.min(scaleX, scaleY), Math.min(scaleX, scaleY));
+  const scaledCenter = centerOf(scaled);
+  return moveElement(scaled, {
+    x: center.x * scaleX - scaledCenter.x,
+    y: center.y * scaleY - scaledCenter.y,
+  });
+};
+
+/** The design's size, layers and guides after changing its size to `options`. */
+export const resizeDesignContent = (
+  design: Pick<Design, 'width' | 'height' | 'elements' | 'guides'>,
+  { width, height, mode, anchor }: ResizeOptions
+): Pick<Design, 'width' | 'height' | 'elements' | 'guides'> => {
+  if (mode === 'scale') {
+    const scaleX = width / design.width;
+    const scaleY = height / design.height;
+    return {
+      width,
+      height,
+      elements: design.elements.map((element) => scaleInPlace(element, scaleX, scaleY)),
+      guides: design.guides?.map((guide) => ({
+        ...guide,
+        position: round(guide.position * (guide.axis === 'x' ? scaleX : scaleY)),
+      })),
+    };
+  }
+
+  const offset = {
+    x: (width - design.width) * anchor.x,
+    y: (height - design.height) * anchor.y,
+  };
+  return {
+    width,
+    height,
+    elements: design.elements.map((element) => moveElement(element, offset)),
+    guides: design.guides?.map((guide) => ({
+      ...guide,
+      position: round(guide.position + offset[guide.axis]),
+    })),
+  };
+};
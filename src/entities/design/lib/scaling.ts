@@ -0,0 +1,51 @@
+import type { DesignElement } from '../model/types';
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Scales an element's geometry (and its children's) about its parent's origin.
+ * Non-uniform factors stretch boxes; lengths with no axis, such as circle radii and
+ * corner radii, use the smaller factor so shapes never overflow their new box.
+ */
+export const scaleElement = (
+  element: DesignElement,
+  scaleX: number,
+  scaleY: number
+): DesignElement => {
+  const uniform = Math.min(scaleX, scaleY);
+  const base = {
+    x: round(element.x * scaleX),
+    y: round(element.y * scaleY),
+    width: round(element.width * scaleX),
+    height: round(element.height * scaleY),
+  };
+
+  switch (element.type) {
+    case 'circle': {
+      const radius = round(element.radius * uniform);
+      return { ...element, ...base, radius, width: radius * 2, height: radius * 2 };
+    }
+    case 'rect':
+      return { ...element, ...base, radius: round(element.radius * uniform) };
+    case 'text':
+      return {
+        ...element,
+        ...base,
+        fontSize: round(element.fontSize * scaleY),
+        letterSpacing: round(element.letterSpacing * scaleY),
+        runs: element.runs?.map((run) =>
+          run.fontSize === undefined ? run : { ...run, fontSize: round(run.fontSize * scaleY) }
+        ),
+      };
+    case 'group':
+    case 'frame':
+      return {
+        ...element,
+        ...base,
+        children: element.children.map((child) => scaleElement(child, scaleX, scaleY)),
+      };
+    case 'image':
+    default:
+      return { ...element, ...base };
+  }
+};
@@ -0,0 +1,164 @@
+import { measureTextWidth } from '../../../shared/lib/measureText';
+import type { DesignElement, TextElement } from '../model/types';
+import { getBaseStyle, getTextSegments, type TextStyle } from './textRuns';
+
+export interface TextFragment {
+  text: string;
+  /** Offset from the element's left edge. */
+  x: number;
+  width: number;
+  style: TextStyle;
+}
+
+export interface TextLine {
+  top: number;
+  height: number;
+  /** Where glyphs sit, from the element's top edge. */
+  baseline: number;
+  fragments: TextFragment[];
+}
+
+export interface TextLayout {
+  lines: TextLine[];
+  /** Height of all lines together; what an `auto-height` box is sized to. */
+  height: number;
+}
+
+/** Share of the font size above the baseline; close enough for the fonts we offer. */
+const ASCENT = 0.8;
+
+/** CSS font shorthand, for canvas contexts and measuring. */
+export const toCssFont = (style: TextStyle) =>
+  `${style.italic ? 'italic ' : ''}${style.fontWeight} ${style.fontSize}px ${style.fontFamily}`;
+
+interface Piece {
+  text: string;
+  style: TextStyle;
+  width: number;
+}
+
+type Token = { kind: 'word' | 'space'; pieces: Piece[] } | { kind: 'newline'; style: TextStyle };
+
+/**
+ * Splits styled text into words, runs of spaces and line breaks. A word whose style
+ * changes part-way through is still one word, so it never wraps at the style change.
+ */
+const tokenize = (element: TextElement): Token[] => {
+  const tokens: Token[] = [];
+  getTextSegments(element).forEach(({ text, style }) => {
+    text.match(/\n| +|[^ \n]+/g)?.forEach((part) => {
+      if (part === '\n') {
+        tokens.push({ kind: 'newline', style });
+        return;
+      }
+      const kind = part.startsWith(' ') ? 'space' : 'word';
+      const piece = {
+        text: part,
+        style,
+        width: measureTextWidth(part, toCssFont(style)) + element.letterSpacing * part.length,
+      };
+      const last = tokens.at(-1);
+      if (last && last.kind === kind) {
+        last.pieces.push(piece);
+      } else {
+        tokens.push({ kind, pieces: [piece] });
+      }
+    });
+  });
+  return tokens;
+};
+
+const sumWidths = (pieces: Piece[]) => pieces.reduce((total, piece) => total + piece.width, 0);
+
+/** Joins neighbouring pieces that share a style and positions them along the line. */
+const toFragments = (pieces: Piece[], offset: number) => {
+  const fragments: TextFragment[] = [];
+  let x = offset;
+  pieces.forEach((piece) => {
+    const last = fragments.at(-1);
+    if (last && last.style === piece.style) {
+      last.text += piece.text;
+      last.width += piece.width;
+    } else {
+      fragments.push({ text: piece.text, x, width: piece.width, style: piece.style });
+    }
+    x += piece.width;
+  });
+  return fragments;
+};
+
+/**
+ * Breaks a text element into positioned lines the way the canvas draws it: explicit
+ * line breaks first, then greedy word wrapping at `width` (the element's own width
+ * unless a resize is in progress). Each line is as tall as its largest font times
+ * the element's line height.
+ */
+export const layoutText = (element: TextElement, width = element.width): TextLayout => {
+  const rows: { pieces: Piece[]; style: TextStyle }[] = [];
+  let pieces: Piece[] = [];
+  let lineWidth = 0;
+  let spaces: Piece[] = [];
+  let style = getBaseStyle(element);
+
+  const breakLine = () => {
+    rows.push({ pieces, style });
+    pieces = [];
+    lineWidth = 0;
+    spaces = [];
+  };
+
+  tokenize(element).forEach((token) => {
+    if (token.kind === 'newline') {
+      style = token.style;
+      breakLine();
+      return;
+    }
+    if (token.kind === 'space') {
+      spaces.push(...token.pieces);
+      return;
+    }
+    const wordWidth = sumWidths(token.pieces);
+    const spaceWidth = sumWidths(spaces);
+    // Spaces at a wrap are dropped; a word too long for any line overflows it.
+    if (pieces.length && lineWidth + spaceWidth + wordWidth > width) {
+      breakLine();
+    } else {
+      pieces.push(...spaces);
+      lineWidth += spaceWidth;
+      spaces = [];
+    }
+    pieces.push(...token.pieces);
+    lineWidth += wordWidth;
+    style = token.pieces[token.pieces.length - 1].style;
+  });
+  breakLine();
+
+  let top = 0;
+  const lines = rows.map((row) => {
+    // An empty line is as tall as the line break that made it.
+    const fontSize = row.pieces.length
+      ? Math.max(...row.pieces.map((piece) => piece.style.fontSize))
+      : row.style.fontSize;
+    const height = fontSize * element.lineHeight;
+    const rowWidth = sumWidths(row.pieces);
+    const offset = { left: 0, center: (width - rowWidth) / 2, right: width - rowWidth }[
+      element.align
+    ];
+    const line = {
+      top,
+      height,
+      baseline: top + (height - fontSize) / 2 + fontSize * ASCENT,
+      fragments: toFragments(row.pieces, offset),
+    };
+    top += height;
+    return line;
+  });
+  return { lines, height: top };
+};
+
+/** Sizes an `auto-height` text element to its content; other elements are returned as is. */
+export const fitTextHeight = (element: DesignElement): DesignElement => {
+  if (element.type !== 'text' || element.sizing !== 'auto-height') return element;
+  const height = Math.ceil(layoutText(element).height);
+  return height === element.height ? element : { ...element, height };
+};
@@ -0,0 +1,128 @@
+import type { FontWeight, TextElement, TextRun } from '../model/types';
+
+/** What a run can override. */
+export type RunStyle = Omit<TextRun, 'start' | 'length'>;
+
+/** The fully resolved look of a stretch of text. */
+export interface TextStyle {
+  fontFamily: string;
+  fontSize: number;
+  fontWeight: FontWeight;
+  italic: boolean;
+  fill: string;
+}
+
+export interface TextSegment {
+  text: string;
+  style: TextStyle;
+}
+
+const RUN_STYLE_KEYS = ['fontWeight', 'italic', 'fill', 'fontSize'] as const;
+
+const isSameRunStyle = (a: RunStyle, b: RunStyle) =>
+  RUN_STYLE_KEYS.every((key) => a[key] === b[key]);
+
+export const getBaseStyle = (element: TextElement): TextStyle => ({
+  fontFamily: element.fontFamily,
+  fontSize: element.fontSize,
+  fontWeight: element.fontWeight,
+  italic: !!element.italic,
+  fill: element.fill,
+});
+
+/** One run style per character of `text`; characters outside every run get `{}`. */
+export const getCharStyles = (text: string, runs: TextRun[] = []): RunStyle[] => {
+  const styles: RunStyle[] = Array.from({ length: text.length }, () => ({}));
+  runs.forEach(({ start, length, ...style }) => {
+    for (let index = start; index < Math.min(start + length, text.length); index += 1) {
+      styles[index] = { ...styles[index], ...style };
+    }
+  });
+  return styles;
+};
+
+/**
+ * Merges per-character styles back into runs. Overrides equal to the element's own
+ * style are dropped, so runs only record what actually differs.
+ */
+export const toRuns = (styles: RunStyle[], base: TextStyle): TextRun[] => {
+  const runs: TextRun[] = [];
+  styles.forEach((style, index) => {
+    const effective = Object.fromEntries(
+      RUN_STYLE_KEYS.flatMap((key) =>
+        style[key] === undefined || style[key] === base[key] ? [] : [[key, style[key]]]
+      )
+    ) as RunStyle;
+    if (!Object.keys(effective).length) return;
+    const last = runs.at(-1);
+    if (last && last.start + last.length === index && isSameRunStyle(last, effective)) {
+      last.length += 1;
+    } else {
+      runs.push({ start: index, length: 1, ...effective });
+    }
+  });
+  return runs;
+};
+
+/** Applies `patch` to characters `start` to `end` (exclusive) and returns the new runs. */
+export const applyRunStyle = (
+  element: TextElement,
+  start: number,
+  end: number,
+  patch: RunStyle
+): TextRun[] => {
+  const styles = getCharStyles(element.text, element.runs).map((style, index) =>
+    index >= start && index < end ? { ...style, ...patch } : style
+  );
+  return toRuns(styles, getBaseStyle(element));
+};
+
+/**
+ * Keeps runs attached to the right characters when the text is edited as plain text:
+ * the unchanged start and end keep their styles, and inserted characters take the
+ * style of the character before them.
+ */
+export const replaceText = (element: TextElement, text: string): TextRun[] => {
+  const previous = element.text;
+  const styles = getCharStyles(previous, element.runs);
+  let prefix = 0;
+  while (prefix < previous.length && prefix < text.length && previous[prefix] === text[prefix]) {
+    prefix += 1;
+  }
+  let suffix = 0;
+  while (
+    suffix < previous.length - prefix &&
+    suffix < text.length - prefix &&
+    previous[previous.length - 1 - suffix] === text[text.length - 1 - suffix]
+  ) {
+    suffix += 1;
+  }
+  const inserted = text.length - prefix - suffix;
+  const insertedStyle = styles[prefix - 1] ?? styles[prefix] ?? {};
+  return toRuns(
+    [
+      ...styles.slice(0, prefix),
+      ...Array.from({ length: inserted }, () => insertedStyle),
+      ...styles.slice(previous.length - suffix),
+    ],
+    getBaseStyle(element)
+  );
+};
+
+/** The text split wherever its style changes, each piece with its resolved style. */
+export const getTextSegments = (element: TextElement): TextSegment[] => {
+  const base = getBaseStyle(element);
+  const styles = getCharStyles(element.text, element.runs);
+  const segments: TextSegment[] = [];
+  // Offsets are UTF-16 code units, like every other string index.
+  for (let index = 0; index < element.text.length; index += 1) {
+    const char = element.text[index];
+    const style = styles[index];
+    if (index > 0 && isSameRunStyle(styles[index - 1], style)) {
+      segments[segments.length - 1].text += char;
+    } else {
+      segments.push({ text: char, style: { ...base, ...style } });
+    }
+  }
+  return segments;
+};
@@ -0,0 +1,160 @@
+import { z } from 'zod';
+
+import type { Design, DesignElement, ElementOperation } from './types';
+
+/**
+ * Version of the element model these schemas describe. Bump it together with a new
+ * migration in `lib/migrations.ts` whenever stored documents need upgrading.
+ */
+export const CURRENT_SCHEMA_VERSION = 3;
+
+const color = z.string();
+
+const baseElementShape = {
+  id: z.string().min(1),
+  x: z.number(),
+  y: z.number(),
+  width: z.number().nonnegative(),
+  height: z.number().nonnegative(),
+  rotation: z.number(),
+  zIndex: z.number(),
+  opacity: z.number().min(0).max(1),
+  locked: z.boolean().optional(),
+  name: z.string().optional(),
+  hidden: z.boolean().optional(),
+};
+
+const fontWeightSchema = z.literal([100, 200, 300, 400, 500, 600, 700, 800, 900]);
+
+const textRunSchema = z.object({
+  start: z.number().int().nonnegative(),
+  length: z.number().int().positive(),
+  fontWeight: fontWeightSchema.optional(),
+  italic: z.boolean().optional(),
+  fill: color.optional(),
+  fontSize: z.number().positive().optional(),
+});
+
+const textElementSchema = z.object({
+  ...baseElementShape,
+  type: z.literal('text'),
+  text: z.string(),
+  fontFamily: z.string().min(1),
+  fontSize: z.number().positive(),
+  fontWeight: fontWeightSchema,
+  italic: z.boolean().optional(),
+  fill: color,
+  align: z.enum(['left', 'center', 'right']),
+  lineHeight: z.number().positive(),
+  letterSpacing: z.number(),
+  sizing: z.enum(['auto-height', 'fixed']),
+  runs: z.array(textRunSchema).optional(),
+});
+
+const imageElementSchema = z.object({
+  ...baseElementShape,
+  type: z.literal('image'),
+  src: z.string(),
+  fit: z.enum(['contain', 'cover']),
+});
+
+const shapeShape = {
+  fill: color,
+  stroke: color,
+  strokeWidth: z.number().nonnegative(),
+  radius: z.number().nonnegative(),
+};
+
+const rectElementSchema = z.object({ ...baseElementShape, type: z.literal('rect'), ...shapeShape });
+
+const circleElementSchema = z.object({
+  ...baseElementShape,
+  type: z.literal('circle'),
+  ...shapeShape,
+});
+
+const groupElementSchema = z.object({
+  ...baseElementShape,
+  type: z.literal('group'),
+  get children(): z.ZodArray<z.ZodType<DesignElement, DesignElement>> {
+    return z.array(designElementSchema);
+  },
+});
+
+const frameElementSchema = z.object({
+  ...baseElementShape,
+  type: z.literal('frame'),
+  fill: color,
+  clipContent: z.boolean(),
+  get children(): z.ZodArray<z.ZodType<DesignElement, DesignElement>> {
+    return z.array(designElementSchema);
+  },
+});
+
+export const designElementSchema: z.ZodType<DesignElement, DesignElement> = z.discriminatedUnion(
+  'type',
+  [
+    textElementSchema,
+    imageElementSchema,
+    rectElementSchema,
+    circleElementSchema,
+    groupElementSchema,
+    frameElementSchema,
+  ]
+);
+
+export const designGuideSchema = z.object({
+  id: z.string().min(1),
+  axis: z.enum(['x', 'y']),
+  position: z.number(),
+});
+
+export const designSchema: z.ZodType<Design, Design> = z.object({
+  _id: z.string().min(1),
+  name: z.string(),
+  width: z.number().positive(),
+  height: z.number().positive(),
+  elements: z.array(designElementSchema),
+  createdAt: z.string(),
+  updatedAt: z.string(),
+  thumbnailUrl: z.string().optional(),
+  schemaVersion: z.number().int().positive().optional(),
+  guides: z.array(designGuideSchema).optional(),
+});
+
+/**
+ * What an `update` operation may carry: any content property of any element type.
+ * Structure (`id`, `type`, `children`, `zIndex`) travels as add/reorder instead.
+ */
+const elementPropsSchema = z
+  .object({
+    ...baseElementShape,
+    ...textElementSchema.shape,
+    ...imageElementSchema.shape,
+    ...shapeShape,
+    clipContent: z.boolean(),
+  })
+  .omit({ id: true, type: true, zIndex: true })
+  .partial()
+  .strict();
+
+export const elementOperationSchema: z.ZodType<ElementOperation> = z.discriminatedUnion('kind', [
+  z.object({
+    kind: z.literal('add'),
+    element: designElementSchema,
+    parentId: z.string().nullable(),
+  }),
+  z.object({
+    kind: z.literal('update'),
+    elementId: z.string(),
+    props: elementPropsSchema,
+    removed: z.array(elementPropsSchema.keyof()).optional(),
+  }),
+  z.object({ kind: z.literal('delete'), elementId: z.string() }),
+  z.object({
+    kind: z.literal('reorder'),
+    elementId: z.string(),
+    parentId: z.string().nullable(),
+    zIndex: z.number(),
+  }),
+]);
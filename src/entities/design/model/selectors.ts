@@ -1,6 +1,7 @@
 import { createSelector } from '@reduxjs/toolkit';
 
 import type { RootState } from '../../../app/store';
+import { flattenElements } from '../lib/elementTree';
 
 const selectDesignState = (state: RootState) => state.design;
 
@@ -16,3 +17,10 @@ export const selectActiveDesign = createSelector(
   (designs, activeId) => designs.find((design) => design._id === activeId)
 );
 
+/** Every element of the active design by id, including those nested in groups and frames. */
+export const selectActiveElementsById = createSelector([selectActiveDesign], (design) =>
+  new Map(flattenElements(design?.elements ?? []).map((element) => [element.id, element]))
+);
+
+export const selectActiveElementById = (state: RootState, elementId: string) =>
+  selectActiveElementsById(state).get(elementId);
@@ -1,6 +1,17 @@
-import { createSlice, type PayloadAction } from '@reduxjs/toolkit';
+import { createSlice, isAnyOf, type PayloadAction } from '@reduxjs/toolkit';
 
-import type { Design, DesignElement } from './types';
+import { findElementLocation, removeElements, updateSiblings } from '../lib/elementTree';
+import { refitGroups, unwrapElement, wrapElements } from '../lib/grouping';
+import { applyOperations } from '../lib/operations';
+import { insertElementNextTo } from '../lib/ordering';
+import type {
+  ContainerElement,
+  Design,
+  DesignElement,
+  DesignFrame,
+  DesignGuide,
+  ElementOperation,
+} from './types';
 
 interface DesignState {
   items: Design[];
@@ -28,9 +39,12 @@ const seedDesign: Design = {
       text: 'Design Collaboration Demo',
       fontFamily: 'Inter',
       fontSize: 48,
-      fontWeight: 'bold',
+      fontWeight: 700,
       fill: '#f8fafc',
       align: 'left',
+      lineHeight: 1,
+      letterSpacing: 0,
+      sizing: 'fixed',
     },
     {
       id: 'cta',
@@ -77,6 +91,17 @@ const designSlice = createSlice({
     setActiveDesignId(state, action: PayloadAction<string | undefined>) {
       state.activeDesignId = action.payload;
     },
+    /** Drops a design from the workspace; close it first if it is open. */
+    removeDesign(state, action: PayloadAction<string>) {
+      state.items = state.items.filter((d) => d._id !== action.payload);
+    },
+    /** Renames a design here; the server copy is renamed on its own, not by autosave. */
+    setDesignName(state, action: PayloadAction<{ designId: string; name: string }>) {
+      const design = state.items.find((d) => d._id === action.payload.designId);
+      if (!design) return;
+      design.name = action.payload.name;
+      design.updatedAt = new Date().toISOString();
+    },
     upsertDesign(state, action: PayloadAction<Design>) {
       const existingIndex = state.items.findIndex((d) => d._id === action.payload._id);
       if (existingIndex >= 0) {
@@ -91,17 +116,221 @@ const designSlice = createSlice({
     ) {
       const design = state.items.find((d) => d._id === action.payload.designId);
       if (!design) return;
-      const elementIndex = design.elements.findIndex((el) => el.id === action.payload.element.id);
-      if (elementIndex >= 0) {
-        design.elements[elementIndex] = action.payload.element;
+      const location = findElementLocation(design.elements, action.payload.element.id);
+      if (location) {
+        location.siblings[location.index] = action.payload.element;
       } else {
         design.elements.push(action.payload.element);
       }
+      design.elements = refitGroups(design.elements);
+      design.updatedAt = new Date().toISOString();
+    },
+    updateElements(
+      state,
+      action: PayloadAction<{ designId: string; elements: DesignElement[] }>
+    ) {
+      const design = state.items.find((d) => d._id === action.payload.designId);
+      if (!design) return;
+      action.payload.elements.forEach((element) => {
+        const location = findElementLocation(design.elements, element.id);
+        if (location) {
+          location.siblings[location.index] = element;
+        }
+      });
+      design.elements = refitGroups(design.elements);
+      design.updatedAt = new Date().toISOString();
+    },
+    /** Adds new top-level elements, e.g. inserted images. */
+    addElements(state, action: PayloadAction<{ designId: string; elements: DesignElement[] }>) {
+      const design = state.items.find((d) => d._id === action.payload.designId);
+      if (!design) return;
+      design.elements.push(...action.payload.elements);
+      design.updatedAt = new Date().toISOString();
+    },
+    /** Adds new elements directly above or below existing ones, in the same container. */
+    insertElements(
+      state,
+      action: PayloadAction<{
+        designId: string;
+        insertions: { element: DesignElement; nextToId: string; placement: 'above' | 'below' }[];
+      }>
+    ) {
+      const design = state.items.find((d) => d._id === action.payload.designId);
+      if (!design) return;
+      action.payload.insertions.forEach(({ element, nextToId, placement }) => {
+        const location = findElementLocation(design.elements, nextToId);
+        if (!location) return;
+        design.elements = updateSiblings(
+          design.elements,
+          location.ancestors.at(-1)?.id,
+          (siblings) => insertElementNextTo(siblings, element, nextToId, placement)
+        );
+      });
+      design.elements = refitGroups(design.elements);
+      design.updatedAt = new Date().toISOString();
+    },
+    /** Removes elements (and everything inside them) wherever they sit in the tree. */
+    deleteElements(state, action: PayloadAction<{ designId: string; elementIds: string[] }>) {
+      const design = state.items.find((d) => d._id === action.payload.designId);
+      if (!design) return;
+      design.elements = refitGroups(
+        removeElements(design.elements, new Set(action.payload.elementIds))
+      );
+      design.updatedAt = new Date().toISOString();
+    },
+    /** Wraps siblings in a new group or frame, keeping their on-screen position. */
+    wrapInContainer(
+      state,
+      action: PayloadAction<{
+        designId: string;
+        elementIds: string[];
+        containerId: string;
+        type: ContainerElement['type'];
+      }>
+    ) {
+      const { designId, elementIds, containerId, type } = action.payload;
+      const design = state.items.find((d) => d._id === designId);
+      if (!design) return;
+      design.elements = refitGroups(
+        wrapElements(design.elements, elementIds, { containerId, type })
+      );
+      design.updatedAt = new Date().toISOString();
+    },
+    /** Dissolves groups/frames into their parent, keeping children's absolute geometry. */
+    unwrapContainers(state, action: PayloadAction<{ designId: string; elementIds: string[] }>) {
+      const design = state.items.find((d) => d._id === action.payload.designId);
+      if (!design) return;
+      design.elements = refitGroups(
+        action.payload.elementIds.reduce(unwrapElement, design.elements)
+      );
+      design.updatedAt = new Date().toISOString();
+    },
+    /**
+     * Swaps the whole element array, e.g. when undo/redo restores a snapshot, along with
+     * the canvas size and guides when the snapshot was taken on a different frame.
+     */
+    restoreElements(
+      state,
+      action: PayloadAction<{ designId: string; elements: DesignElement[]; frame?: DesignFrame }>
+    ) {
+      const { designId, elements, frame } = action.payload;
+      const design = state.items.find((d) => d._id === designId);
+      if (!design) return;
+      design.elements = elements;
+      if (frame) {
+        design.width = frame.width;
+        design.height = frame.height;
+        design.guides = frame.guides;
+      }
+      design.updatedAt = new Date().toISOString();
+    },
+    /**
+     * Swaps in a whole set of elements as a local edit, e.g. restoring a saved version.
+     * Unlike `restoreElements` this is recorded in undo history.
+     */
+    replaceElements(
+      state,
+      action: PayloadAction<{ designId: string; elements: DesignElement[] }>
+    ) {
+      const design = state.items.find((d) => d._id === action.payload.designId);
+      if (!design) return;
+      design.elements = action.payload.elements;
+      design.updatedAt = new Date().toISOString();
+    },
+    /**
+     * Changes the design's dimensions along with the layers and guides fitted to them,
+     * as one undoable step.
+     */
+    setDesignSize(
+      state,
+      action: PayloadAction<{ designId: string; elements: DesignElement[] } & DesignFrame>
+    ) {
+      const { designId, width, height, elements, guides } = action.payload;
+      const design = state.items.find((d) => d._id === designId);
+      if (!design) return;
+      design.width = width;
+      design.height = height;
+      design.elements = elements;
+      design.guides = guides;
+      design.updatedAt = new Date().toISOString();
+    },
+    /** A collaborator's resize; never saved or recorded here, the resizing tab saves it. */
+    applyRemoteDesignSize(state, action: PayloadAction<{ designId: string } & DesignFrame>) {
+      const { designId, width, height, guides } = action.payload;
+      const design = state.items.find((d) => d._id === designId);
+      if (!design) return;
+      design.width = width;
+      design.height = height;
+      design.guides = guides;
+    },
+    /** Replaces the design's ruler guides; they are saved with it but not undoable. */
+    setGuides(state, action: PayloadAction<{ designId: string; guides: DesignGuide[] }>) {
+      const design = state.items.find((d) => d._id === action.payload.designId);
+      if (!design) return;
+      design.guides = action.payload.guides;
+      design.updatedAt = new Date().toISOString();
+    },
+    /** Collaborators' edits; already conflict-resolved, and never recorded in history. */
+    applyRemoteOperations(
+      state,
+      action: PayloadAction<{ designId: string; operations: ElementOperation[] }>
+    ) {
+      const design = state.items.find((d) => d._id === action.payload.designId);
+      if (!design) return;
+      design.elements = refitGroups(applyOperations(design.elements, action.payload.operations));
       design.updatedAt = new Date().toISOString();
     },
+    /** Adopts the server's copy of the elements, e.g. after it rejected a local edit. */
+    receiveServerElements(
+      state,
+      action: PayloadAction<{ designId: string; elements: DesignElement[] }>
+    ) {
+      const design = state.items.find((d) => d._id === action.payload.designId);
+      if (!design) return;
+      design.elements = action.payload.elements;
+    },
   },
 });
 
-export const { setActiveDesignId, upsertDesign, updateElement } = designSlice.actions;
+export const {
+  setActiveDesignId,
+  removeDesign,
+  setDesignName,
+  upsertDesign,
+  updateElement,
+  updateElements,
+  addElements,
+  insertElements,
+  deleteElements,
+  wrapInContainer,
+  unwrapContainers,
+  restoreElements,
+  replaceElements,
+  setDesignSize,
+  applyRemoteDesignSize,
+  setGuides,
+  applyRemoteOperations,
+  receiveServerElements,
+} = designSlice.actions;
+
+/** Local edits to a design's elements or canvas size; these are what undo history records. */
+export const isElementMutation = isAnyOf(
+  updateElement,
+  updateElements,
+  addElements,
+  insertElements,
+  deleteElements,
+  wrapInContainer,
+  unwrapContainers,
+  replaceElements,
+  setDesignSize
+);
+
+/** Every change that originates in this tab, including undo/redo; these get broadcast. */
+export const isLocalElementChange = isAnyOf(isElementMutation, restoreElements);
+
+/** Everything autosave should persist: element edits plus design-level settings. */
+export const isLocalDesignChange = isAnyOf(isLocalElementChange, setGuides);
+
 export default designSlice.reducer;
 
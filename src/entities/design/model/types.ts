@@ -1,4 +1,4 @@
-export type ElementType = 'text' | 'image' | 'rect' | 'circle';
+export type ElementType = 'text' | 'image' | 'rect' | 'circle' | 'group' | 'frame';
 
 export interface BaseElement {
   id: string;
@@ -11,6 +11,22 @@ export interface BaseElement {
   zIndex: number;
   opacity: number;
   locked?: boolean;
+  /** Shown in the layers panel; an empty or missing name falls back to the type. */
+  name?: string;
+  /** Hidden layers are neither drawn nor exported, but stay in the tree. */
+  hidden?: boolean;
+}
+
+export type FontWeight = 100 | 200 | 300 | 400 | 500 | 600 | 700 | 800 | 900;
+
+/** Styles a range of a text element's characters, overriding the element's own style. */
+export interface TextRun {
+  start: number;
+  length: number;
+  fontWeight?: FontWeight;
+  italic?: boolean;
+  fill?: string;
+  fontSize?: number;
 }
 
 export interface TextElement extends BaseElement {
@@ -18,9 +34,18 @@ export interface TextElement extends BaseElement {
   text: string;
   fontFamily: string;
   fontSize: number;
-  fontWeight: 'normal' | 'bold';
+  fontWeight: FontWeight;
+  italic?: boolean;
   fill: string;
   align: 'left' | 'center' | 'right';
+  /** Multiple of each line's largest font size. */
+  lineHeight: number;
+  /** Extra space after every character, in design units. */
+  letterSpacing: number;
+  /** `auto-height` grows the box to fit the text; `fixed` keeps the box as drawn. */
+  sizing: 'auto-height' | 'fixed';
+  /** Non-overlapping, sorted by `start`; characters outside any run use the element's style. */
+  runs?: TextRun[];
 }
 
 export interface ImageElement extends BaseElement {
@@ -45,7 +70,42 @@ export interface CircleElement extends BaseElement {
   radius: number;
 }
 
-export type DesignElement = TextElement | ImageElement | RectElement | CircleElement;
+/**
+ * Groups hold children positioned relative to the group's origin. Their width/height
+ * always track the children's bounds; scaling a group scales its children.
+ */
+export interface GroupElement extends BaseElement {
+  type: 'group';
+  children: DesignElement[];
+}
+
+/**
+ * Frames are fixed boxes with their own background that clip children to their
+ * bounds. Resizing a frame changes the box, not the children.
+ */
+export interface FrameElement extends BaseElement {
+  type: 'frame';
+  children: DesignElement[];
+  fill: string;
+  clipContent: boolean;
+}
+
+export type ContainerElement = GroupElement | FrameElement;
+
+export type DesignElement =
+  | TextElement
+  | ImageElement
+  | RectElement
+  | CircleElement
+  | GroupElement
+  | FrameElement;
+
+/** A ruler guide: a vertical line at `position` when `axis` is `x`, horizontal for `y`. */
+export interface DesignGuide {
+  id: string;
+  axis: 'x' | 'y';
+  position: number;
+}
 
 export interface Design {
   _id: string;
@@ -56,5 +116,27 @@ export interface Design {
   createdAt: string;
   updatedAt: string;
   thumbnailUrl?: string;
+  /** Version of the element format the design was last written in; see `lib/migrations`. */
+  schemaVersion?: number;
+  guides?: DesignGuide[];
 }
 
+/** A design's canvas size together with the guides laid out on it. */
+export type DesignFrame = Pick<Design, 'width' | 'height' | 'guides'>;
+
+
+/**
+ * A single change to a design's element tree, as exchanged with collaborators.
+ * Containers are added empty; their children arrive as their own `add` or `reorder`.
+ */
+export type ElementOperation =
+  | { kind: 'add'; element: DesignElement; parentId: string | null }
+  | {
+      kind: 'update';
+      elementId: string;
+      props: Partial<Record<string, unknown>>;
+      /** Optional properties the element no longer has; JSON cannot carry `undefined`. */
+      removed?: string[];
+    }
+  | { kind: 'delete'; elementId: string }
+  | { kind: 'reorder'; elementId: string; parentId: string | null; zIndex: number };
@@ -0,0 +1,48 @@
+import type { User } from '../model/types';
+
+const STORAGE_KEY = 'design-collab:user';
+
+/** Cursor and avatar colours that stay legible on the dark canvas. */
+const USER_COLORS = ['#f97316', '#22c55e', '#06b6d4', '#a855f7', '#ec4899', '#eab308', '#3b82f6'];
+
+const isUser = (value: unknown): value is User =>
+  Boolean(value) &&
+  typeof value === 'object' &&
+  typeof (value as User).id === 'string' &&
+  typeof (value as User).name === 'string' &&
+  typeof (value as User).color === 'string';
+
+const createGuest = (): User => {
+  const id = crypto.randomUUID();
+  return {
+    id,
+    name: `Guest ${id.slice(0, 4).toUpperCase()}`,
+    color: USER_COLORS[Math.floor(Math.random() * USER_COLORS.length)],
+  };
+};
+
+let cachedUser: User | null = null;
+
+/**
+ * The person using this browser. Until there is sign-in, a guest identity is created
+ * on first visit and kept in localStorage so it survives reloads.
+ */
+export const getLocalUser = (): User => {
+  if (cachedUser) return cachedUser;
+  try {
+    const stored: unknown = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? 'null');
+    if (isUser(stored)) {
+      cachedUser = stored;
+      return stored;
+    }
+  } catch {
+    // Corrupt or inaccessible storage: fall through to a fresh guest.
+  }
+  cachedUser = createGuest();
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(cachedUser));
+  } catch {
+    // Private mode or quota: the guest just won't persist.
+  }
+  return cachedUser;
+};
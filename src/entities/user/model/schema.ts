@@ -0,0 +1,9 @@
+import { z } from 'zod';
+
+import type { DirectoryUser } from './types';
+
+export const directoryUserSchema: z.ZodType<DirectoryUser, DirectoryUser> = z.object({
+  id: z.string().min(1),
+  name: z.string(),
+  username: z.string().min(1),
+});
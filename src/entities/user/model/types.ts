@@ -0,0 +1,12 @@
+export interface User {
+  id: string;
+  name: string;
+  color: string;
+}
+
+/** A teammate as listed by the users API, e.g. for @mentions. */
+export interface DirectoryUser {
+  id: string;
+  name: string;
+  username: string;
+}
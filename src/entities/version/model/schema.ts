@@ -0,0 +1,21 @@
+import { z } from 'zod';
+
+import { designSchema } from '../../design/model/schema';
+import type { DesignVersion, DesignVersionSummary } from './types';
+
+const versionFields = {
+  _id: z.string().min(1),
+  designId: z.string().min(1),
+  kind: z.enum(['named', 'auto']),
+  name: z.string().optional(),
+  authorName: z.string().optional(),
+  createdAt: z.string(),
+};
+
+export const designVersionSummarySchema: z.ZodType<DesignVersionSummary, DesignVersionSummary> =
+  z.object(versionFields);
+
+export const designVersionSchema: z.ZodType<DesignVersion, DesignVersion> = z.object({
+  ...versionFields,
+  snapshot: designSchema,
+});
@@ -0,0 +1,20 @@
+import type { Design } from '../../design/model/types';
+
+/** Named versions are saved on purpose; auto ones are taken at most hourly while editing. */
+export type DesignVersionKind = 'named' | 'auto';
+
+/** A version as listed in the history, without its (possibly large) content. */
+export interface DesignVersionSummary {
+  _id: string;
+  designId: string;
+  kind: DesignVersionKind;
+  /** Missing on auto snapshots. */
+  name?: string;
+  authorName?: string;
+  createdAt: string;
+}
+
+export interface DesignVersion extends DesignVersionSummary {
+  /** The design as it was when the version was taken. */
+  snapshot: Design;
+}
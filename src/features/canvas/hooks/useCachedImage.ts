@@ -0,0 +1,15 @@
+import { useEffect, useSyncExternalStore } from 'react';
+
+import { getCachedImage, loadImage, subscribeToImageCache } from '../lib/imageCache';
+
+/** The decoded bitmap for `src` plus its loading state; starts loading on first use. */
+export const useCachedImage = (src: string) => {
+  const entry = useSyncExternalStore(subscribeToImageCache, () => getCachedImage(src));
+
+  useEffect(() => {
+    // Failures are reflected in the cache entry's status.
+    if (src) loadImage(src).catch(() => undefined);
+  }, [src]);
+
+  return entry;
+};
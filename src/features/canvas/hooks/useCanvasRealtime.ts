@@ -1,45 +1,86 @@
 import { useEffect } from 'react';
 
 import { useAppDispatch } from '../../../app/hooks';
+import type { ElementOperationBatch } from '../../../services/socket/events';
+import {
+  collaboratorPresenceSchema,
+  elementOperationBatchSchema,
+  validatePayload,
+} from '../../../services/socket/schemas';
 import { createSocket } from '../../../services/socket/socketClient';
+import { env } from '../../../shared/config/env';
+import { clientId } from '../../../shared/lib/clientId';
 import type { CollaboratorPresence } from '../model/presenceSlice';
-import {
-  removeCollaborator,
-  setConnectionState,
-  upsertCollaborator,
-} from '../model/presenceSlice';
+import { removeCollaborator, resetPresence, upsertCollaborator } from '../model/presenceSlice';
+import { connectionStatusChanged, syncSessionEnded, syncSessionStarted } from '../model/syncSlice';
+import { receiveRemoteBatch, rejoinDesign, restoreQueuedBatches } from '../model/syncThunks';
 
 export const useCanvasRealtime = (designId?: string) => {
   const dispatch = useAppDispatch();
 
   useEffect(() => {
-    if (!designId) return undefined;
+    if (!designId || !env.isRealtimeConfigured) return undefined;
 
     const socket = createSocket();
+    let isActive = true;
 
-    const handleConnect = () => dispatch(setConnectionState(true));
-    const handleDisconnect = () => dispatch(setConnectionState(false));
+    // Every connect, including the first, rejoins the room and catches up.
+    const handleConnect = () => dispatch(rejoinDesign(designId));
+    const handleDisconnect = () => {
+      dispatch(resetPresence());
+      dispatch(connectionStatusChanged(navigator.onLine ? 'reconnecting' : 'offline'));
+    };
+    const handleReconnectAttempt = () => dispatch(connectionStatusChanged('reconnecting'));
+    const handleReconnectFailed = () => dispatch(connectionStatusChanged('offline'));
+    const handleOffline = () => dispatch(connectionStatusChanged('offline'));
+    const handleOnline = () => {
+      if (socket.connected) return;
+      dispatch(connectionStatusChanged('reconnecting'));
+      socket.connect();
+    };
     const handlePresence = (payload: CollaboratorPresence) => {
-      dispatch(upsertCollaborator(payload));
+      const presence = validatePayload(collaboratorPresenceSchema, payload);
+      if (presence && presence.id !== clientId) dispatch(upsertCollaborator(presence));
     };
     const handleLeave = (id: string) => {
       dispatch(removeCollaborator(id));
     };
+    const handleOperations = (payload: ElementOperationBatch) => {
+      const batch = validatePayload(elementOperationBatchSchema, payload);
+      if (batch?.designId === designId) dispatch(receiveRemoteBatch(batch));
+    };
 
     socket.on('connect', handleConnect);
     socket.on('disconnect', handleDisconnect);
+    socket.io.on('reconnect_attempt', handleReconnectAttempt);
+    socket.io.on('reconnect_failed', handleReconnectFailed);
     socket.on('presence:update', handlePresence);
     socket.on('presence:leave', handleLeave);
-    socket.emit('design:join', { designId });
+    socket.on('element:ops', handleOperations);
+    window.addEventListener('offline', handleOffline);
+    window.addEventListener('online', handleOnline);
+
+    dispatch(syncSessionStarted(designId));
+    dispatch(connectionStatusChanged(navigator.onLine ? 'connecting' : 'offline'));
+    // Queued edits from an earlier session must be loaded before the first replay.
+    dispatch(restoreQueuedBatches(designId)).then(() => {
+      if (isActive && socket.connected) dispatch(rejoinDesign(designId));
+    });
 
     return () => {
+      isActive = false;
       socket.emit('design:leave', { designId });
       socket.off('connect', handleConnect);
       socket.off('disconnect', handleDisconnect);
+      socket.io.off('reconnect_attempt', handleReconnectAttempt);
+      socket.io.off('reconnect_failed', handleReconnectFailed);
       socket.off('presence:update', handlePresence);
       socket.off('presence:leave', handleLeave);
-      dispatch(setConnectionState(false));
+      socket.off('element:ops', handleOperations);
+      window.removeEventListener('offline', handleOffline);
+      window.removeEventListener('online', handleOnline);
+      dispatch(syncSessionEnded());
+      dispatch(resetPresence());
     };
   }, [designId, dispatch]);
 };
-
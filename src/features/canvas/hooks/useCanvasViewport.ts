@@ -0,0 +1,206 @@
+import { useEffect, useRef, useState } from 'react';
+import type Konva from 'konva';
+
+import type { Bounds, Point } from '../../../entities/design/lib/geometry';
+import { isEditableTarget } from '../../../shared/lib/dom';
+import {
+  centerOn,
+  fitToScreen,
+  stepZoom,
+  zoomAround,
+  zoomByWheel,
+  type Size,
+  type Viewport,
+} from '../lib/viewport';
+
+interface CanvasViewportOptions {
+  /** The design's size; "fit" frames the whole artboard. */
+  artboard: Size;
+  viewport?: Viewport;
+  onViewportChange: (viewport: Viewport) => void;
+  /** Reports the canvas's on-screen size, for zooming from outside the canvas. */
+  onScreenResize?: (size: Size) => void;
+  /** The hand tool is on: a plain left-drag pans, as with Space held. */
+  isHandTool?: boolean;
+}
+
+const FALLBACK_VIEWPORT: Viewport = { zoom: 1, x: 0, y: 0 };
+
+const distance = (a: Touch, b: Touch) => Math.hypot(a.clientX - b.clientX, a.clientY - b.clientY);
+
+/**
+ * Pan and zoom for the canvas: wheel and pinch zoom around the pointer, and Space+drag,
+ * hand tool and middle-mouse pan. Keyboard zoom lives in the command registry. The
+ * viewport itself is owned by the caller so it can be kept per design; until one exists
+ * the design is fitted to the screen.
+ */
+export const useCanvasViewport = ({
+  artboard: { width, height },
+  viewport,
+  onViewportChange,
+  onScreenResize,
+  isHandTool = false,
+}: CanvasViewportOptions) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [size, setSize] = useState<Size>();
+  const [isSpaceHeld, setIsSpaceHeld] = useState(false);
+  const [isPanning, setIsPanning] = useState(false);
+  const pinchRef = useRef<{ distance: number; center: Point } | null>(null);
+
+  const bounds: Bounds = { x: 0, y: 0, width, height };
+  const current = viewport ?? (size ? fitToScreen(bounds, size) : FALLBACK_VIEWPORT);
+  // Handlers registered once read the latest values through this ref.
+  const latestRef = useRef({ viewport: current, size, bounds, onViewportChange });
+  useEffect(() => {
+    latestRef.current = { viewport: current, size, bounds, onViewportChange };
+  });
+
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return undefined;
+    const observer = new ResizeObserver(([entry]) => {
+      const { width, height } = entry.contentRect;
+      setSize({ width: Math.round(width), height: Math.round(height) });
+    });
+    observer.observe(container);
+    return () => observer.disconnect();
+  }, []);
+
+  useEffect(() => {
+    if (size) onScreenResize?.(size);
+  }, [onScreenResize, size]);
+
+  // Remember the fitted viewport so the design reopens where it was left.
+  useEffect(() => {
+    if (!viewport && size) onViewportChange(fitToScreen({ x: 0, y: 0, width, height }, size));
+  }, [height, onViewportChange, size, viewport, width]);
+
+  const screenCenter = (): Point => ({
+    x: (latestRef.current.size?.width ?? 0) / 2,
+    y: (latestRef.current.size?.height ?? 0) / 2,
+  });
+
+  const zoomTo = (zoom: number) =>
+    onViewportChange(zoomAround(latestRef.current.viewport, screenCenter(), zoom));
+  const zoomBy = (direction: 1 | -1) =>
+    zoomTo(stepZoom(latestRef.current.viewport.zoom, direction));
+  const fit = () => {
+    const { size: screen } = latestRef.current;
+    if (screen) onViewportChange(fitToScreen(latestRef.current.bounds, screen));
+  };
+  /** Centres the screen on a design point, keeping the zoom. */
+  const navigateTo = (point: Point) => {
+    const { size: screen, viewport: latest } = latestRef.current;
+    if (!screen) return;
+    onViewportChange(centerOn({ ...point, width: 0, height: 0 }, screen, latest.zoom));
+  };
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (isEditableTarget(event.target)) return;
+      if (event.code === 'Space') {
+        // Stop the page from scrolling while Space is held to pan.
+        event.preventDefault();
+        if (!event.repeat) setIsSpaceHeld(true);
+        return;
+      }
+    };
+    const handleKeyUp = (event: KeyboardEvent) => {
+      if (event.code === 'Space') setIsSpaceHeld(false);
+    };
+    const handleBlur = () => setIsSpaceHeld(false);
+
+    window.addEventListener('keydown', handleKeyDown);
+    window.addEventListener('keyup', handleKeyUp);
+    window.addEventListener('blur', handleBlur);
+    return () => {
+      window.removeEventListener('keydown', handleKeyDown);
+      window.removeEventListener('keyup', handleKeyUp);
+      window.removeEventListener('blur', handleBlur);
+    };
+  }, []);
+
+  const handleWheel = (event: Konva.KonvaEventObject<WheelEvent>) => {
+    event.evt.preventDefault();
+    const pointer = event.target.getStage()?.getPointerPosition();
+    if (!pointer) return;
+    // Trackpad pinches arrive as Ctrl+wheel with small deltas; mouse wheels move in
+    // large notches. Clamping keeps both at a comfortable speed.
+    const deltaY = event.evt.ctrlKey
+      ? event.evt.deltaY * 6
+      : Math.max(-120, Math.min(120, event.evt.deltaY));
+    onViewportChange(zoomByWheel(current, pointer, deltaY));
+  };
+
+  /** Starts a pan for Space+drag, the hand tool or the middle button; returns whether it did. */
+  const startPan = (event: MouseEvent) => {
+    if (event.button !== 1 && !(event.button === 0 && (isSpaceHeld || isHandTool))) return false;
+    event.preventDefault();
+    const origin = { x: event.clientX, y: event.clientY };
+    const start = current;
+    setIsPanning(true);
+
+    const handleMove = (moveEvent: MouseEvent) =>
+      latestRef.current.onViewportChange({
+        ...start,
+        x: start.x + moveEvent.clientX - origin.x,
+        y: start.y + moveEvent.clientY - origin.y,
+      });
+    const handleUp = () => {
+      setIsPanning(false);
+      window.removeEventListener('mousemove', handleMove);
+      window.removeEventListener('mouseup', handleUp);
+    };
+    window.addEventListener('mousemove', handleMove);
+    window.addEventListener('mouseup', handleUp);
+    return true;
+  };
+
+  /** Two-finger pinch and pan on touch screens; returns whether the touch was a pinch. */
+  const handlePinch = (event: TouchEvent) => {
+    const [first, second] = Array.from(event.touches);
+    const container = containerRef.current;
+    if (!first || !second || !container) {
+      pinchRef.current = null;
+      return false;
+    }
+    event.preventDefault();
+    const rect = container.getBoundingClientRect();
+    const center = {
+      x: (first.clientX + second.clientX) / 2 - rect.left,
+      y: (first.clientY + second.clientY) / 2 - rect.top,
+    };
+    const previous = pinchRef.current;
+    pinchRef.current = { distance: distance(first, second), center };
+    if (!previous) return true;
+
+    const zoomed = zoomAround(
+      current,
+      previous.center,
+      (current.zoom * pinchRef.current.distance) / previous.distance
+    );
+    onViewportChange({
+      ...zoomed,
+      x: zoomed.x + center.x - previous.center.x,
+      y: zoomed.y + center.y - previous.center.y,
+    });
+    return true;
+  };
+
+  return {
+    containerRef,
+    size,
+    viewport: current,
+    /** Space is held or the hand tool is on: the next drag pans instead of selecting or moving. */
+    isPanReady: isSpaceHeld || isHandTool || isPanning,
+    isPanning,
+    handleWheel,
+    startPan,
+    handlePinch,
+    zoomTo,
+    zoomIn: () => zoomBy(1),
+    zoomOut: () => zoomBy(-1),
+    fit,
+    navigateTo,
+  };
+};
@@ -0,0 +1,76 @@
+import { useEffect } from 'react';
+
+import { useAppDispatch } from '../../../app/hooks';
+import { flattenElements } from '../../../entities/design/lib/elementTree';
+import { isEditableTarget } from '../../../shared/lib/dom';
+import { isImageFile } from '../../../shared/lib/file';
+import {
+  CLIPBOARD_MIME_TYPE,
+  parseClipboard,
+  serializeClipboard,
+  type ClipboardPayload,
+} from '../lib/clipboard';
+import { copySelection, cutSelection, pasteElements, pasteText } from '../model/clipboardThunks';
+
+/** What other apps receive: the words of any copied text layers. */
+const toPlainText = (payload: ClipboardPayload) =>
+  flattenElements(payload.elements)
+    .flatMap((element) => (element.type === 'text' ? [element.text] : []))
+    .join('\n');
+
+/**
+ * Copies, cuts and pastes layers through the system clipboard, so they travel between
+ * designs and browser tabs. Pasted plain text becomes a text layer; pasted images are
+ * left to `useImageInsertion`.
+ */
+export const useClipboard = (designId?: string) => {
+  const dispatch = useAppDispatch();
+
+  useEffect(() => {
+    if (!designId) return undefined;
+
+    // Form fields and text selected on the page keep the browser's own copy and cut.
+    const isCanvasEvent = (event: Event) =>
+      !isEditableTarget(event.target) && (document.getSelection()?.isCollapsed ?? true);
+
+    const write = (event: ClipboardEvent, payload: ClipboardPayload | undefined) => {
+      if (!payload || !event.clipboardData) return;
+      event.preventDefault();
+      event.clipboardData.setData(CLIPBOARD_MIME_TYPE, serializeClipboard(payload));
+      event.clipboardData.setData('text/plain', toPlainText(payload));
+    };
+
+    const handleCopy = (event: ClipboardEvent) => {
+      if (isCanvasEvent(event)) write(event, dispatch(copySelection()));
+    };
+
+    const handleCut = (event: ClipboardEvent) => {
+      if (isCanvasEvent(event)) write(event, dispatch(cutSelection()));
+    };
+
+    const handlePaste = (event: ClipboardEvent) => {
+      const data = event.clipboardData;
+      if (isEditableTarget(event.target) || !data) return;
+      const payload = parseClipboard(data.getData(CLIPBOARD_MIME_TYPE));
+      if (payload) {
+        event.preventDefault();
+        dispatch(pasteElements(payload));
+        return;
+      }
+      if (Array.from(data.files).some(isImageFile)) return;
+      const text = data.getData('text/plain').replace(/\r\n?/g, '\n');
+      if (!text.trim()) return;
+      event.preventDefault();
+      dispatch(pasteText(text));
+    };
+
+    window.addEventListener('copy', handleCopy);
+    window.addEventListener('cut', handleCut);
+    window.addEventListener('paste', handlePaste);
+    return () => {
+      window.removeEventListener('copy', handleCopy);
+      window.removeEventListener('cut', handleCut);
+      window.removeEventListener('paste', handlePaste);
+    };
+  }, [designId, dispatch]);
+};
@@ -0,0 +1,55 @@
+import { useEffect, useEffectEvent, useState } from 'react';
+
+import { useAppDispatch } from '../../../app/hooks';
+import type { Point } from '../../../entities/design/lib/geometry';
+import { getErrorMessage } from '../../../shared/api/errors';
+import { isEditableTarget } from '../../../shared/lib/dom';
+import { isImageFile } from '../../../shared/lib/file';
+import { insertImageFiles } from '../model/imageThunks';
+
+/**
+ * Adds images to the design from any source (file picker, drop, paste) and tracks the
+ * upload so the toolbar can report progress and failures. Also binds pasting images.
+ */
+export const useImageInsertion = (designId?: string) => {
+  const dispatch = useAppDispatch();
+  const [pendingCount, setPendingCount] = useState(0);
+  const [error, setError] = useState<string | null>(null);
+
+  const insertFiles = async (files: File[], position?: Point) => {
+    if (!designId || !files.length) return;
+    setError(null);
+    setPendingCount((count) => count + 1);
+    try {
+      await dispatch(insertImageFiles(designId, files, position));
+    } catch (insertError) {
+      setError(getErrorMessage(insertError, 'Could not add the image.'));
+    } finally {
+      setPendingCount((count) => count - 1);
+    }
+  };
+
+  const handlePastedFiles = useEffectEvent((files: File[]) => insertFiles(files));
+
+  useEffect(() => {
+    if (!designId) return undefined;
+
+    const handlePaste = (event: ClipboardEvent) => {
+      if (isEditableTarget(event.target)) return;
+      const files = Array.from(event.clipboardData?.files ?? []).filter(isImageFile);
+      if (!files.length) return;
+      event.preventDefault();
+      handlePastedFiles(files);
+    };
+
+    window.addEventListener('paste', handlePaste);
+    return () => window.removeEventListener('paste', handlePaste);
+  }, [designId]);
+
+  return {
+    insertFiles,
+    isUploading: pendingCount > 0,
+    error,
+    dismissError: () => setError(null),
+  };
+};
@@ -0,0 +1,54 @@
+import { useEffect, useRef, useState } from 'react';
+
+import type { Point } from '../../../entities/design/lib/geometry';
+import { getLocalUser } from '../../../entities/user/lib/localUser';
+import { createSocket } from '../../../services/socket/socketClient';
+import { env } from '../../../shared/config/env';
+import { clientId } from '../../../shared/lib/clientId';
+import { throttle } from '../../../shared/lib/throttle';
+
+/** Pointer updates are frequent; ~20 per second is plenty for smooth remote cursors. */
+const PRESENCE_THROTTLE_MS = 50;
+
+interface BroadcastState {
+  cursor?: Point;
+  selectedIds: string[];
+}
+
+/**
+ * Shares this tab's cursor and selection with everyone in the design. Returns the
+ * callback to feed pointer positions into (`undefined` when the pointer leaves). Does
+ * nothing without a realtime server.
+ */
+export const usePresenceBroadcast = (designId: string | undefined, selectedIds: string[]) => {
+  const stateRef = useRef<BroadcastState>({ selectedIds });
+  const [send] = useState(() =>
+    throttle((targetDesignId: string, state: BroadcastState) => {
+      const user = getLocalUser();
+      // Volatile: a stale cursor is not worth buffering while disconnected.
+      createSocket().volatile.emit('presence:update', {
+        designId: targetDesignId,
+        id: clientId,
+        userId: user.id,
+        name: user.name,
+        color: user.color,
+        ...state,
+        lastActiveAt: new Date().toISOString(),
+      });
+    }, PRESENCE_THROTTLE_MS)
+  );
+
+  useEffect(() => {
+    if (!designId || !env.isRealtimeConfigured) return;
+    stateRef.current = { ...stateRef.current, selectedIds };
+    send(designId, stateRef.current);
+  }, [designId, selectedIds, send]);
+
+  useEffect(() => () => send.cancel(), [send]);
+
+  return (cursor: Point | undefined) => {
+    if (!designId || !env.isRealtimeConfigured) return;
+    stateRef.current = { ...stateRef.current, cursor };
+    send(designId, stateRef.current);
+  };
+};
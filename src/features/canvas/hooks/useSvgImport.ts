@@ -0,0 +1,38 @@
+import { useState } from 'react';
+
+import { useAppDispatch } from '../../../app/hooks';
+import { getErrorMessage } from '../../../shared/api/errors';
+import { importSvgFile, type SvgImportReport } from '../model/svgThunks';
+
+/** Imports SVG files as editable elements and keeps the last import's report. */
+export const useSvgImport = (designId?: string) => {
+  const dispatch = useAppDispatch();
+  const [isImporting, setIsImporting] = useState(false);
+  const [report, setReport] = useState<SvgImportReport | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const importFile = async (file: File) => {
+    if (!designId) return;
+    setIsImporting(true);
+    setReport(null);
+    setError(null);
+    try {
+      setReport(await dispatch(importSvgFile(designId, file)));
+    } catch (importError) {
+      setError(getErrorMessage(importError, `Could not import ${file.name}.`));
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  return {
+    importFile,
+    isImporting,
+    report,
+    error,
+    dismiss: () => {
+      setReport(null);
+      setError(null);
+    },
+  };
+};
@@ -0,0 +1,108 @@
+import { getAncestors } from '../../../entities/design/lib/elementTree';
+import {
+  getElementBounds,
+  toLocalDelta,
+  unionBounds,
+  type Bounds,
+} from '../../../entities/design/lib/geometry';
+import type { DesignElement } from '../../../entities/design/model/types';
+
+export type Alignment = 'left' | 'center' | 'right' | 'top' | 'middle' | 'bottom';
+export type DistributeAxis = 'horizontal' | 'vertical';
+
+/**
+ * Moves an element by a design-space offset. Nested elements are positioned in their
+ * parent's (possibly rotated) space, so the offset is mapped into it first.
+ */
+const translate = (
+  element: DesignElement,
+  tree: DesignElement[],
+  dx: number,
+  dy: number
+): DesignElement => {
+  const local = toLocalDelta({ x: dx, y: dy }, getAncestors(tree, element.id));
+  const roundedDx = Math.round(local.x);
+  const roundedDy = Math.round(local.y);
+  return roundedDx || roundedDy
+    ? { ...element, x: element.x + roundedDx, y: element.y + roundedDy }
+    : element;
+};
+
+/** Design-space bounds of an element that may sit anywhere in `tree`. */
+const getBounds = (element: DesignElement, tree: DesignElement[]) =>
+  getElementBounds(element, getAncestors(tree, element.id));
+
+/**
+ * Lines the elements up against `target`, which is the selection's own bounds for
+ * multi-selections and usually the design frame for a single element.
+ */
+export const alignElements = (
+  elements: DesignElement[],
+  alignment: Alignment,
+  target: Bounds,
+  tree: DesignElement[]
+): DesignElement[] =>
+  elements.map((element) => {
+    const box = getBounds(element, tree);
+    switch (alignment) {
+      case 'left':
+        return translate(element, tree, target.x - box.x, 0);
+      case 'center':
+        return translate(element, tree, target.x + (target.width - box.width) / 2 - box.x, 0);
+      case 'right':
+        return translate(element, tree, target.x + target.width - (box.x + box.width), 0);
+      case 'top':
+        return translate(element, tree, 0, target.y - box.y);
+      case 'middle':
+        return translate(element, tree, 0, target.y + (target.height - box.height) / 2 - box.y);
+      case 'bottom':
+      default:
+        return translate(element, tree, 0, target.y + target.height - (box.y + box.height));
+    }
+  });
+
+export const getAlignmentTarget = (
+  elements: DesignElement[],
+  design: { width: number; height: number; elements: DesignElement[] }
+): Bounds | undefined =>
+  elements.length === 1
+    ? { x: 0, y: 0, width: design.width, height: design.height }
+    : unionBounds(elements.map((element) => getBounds(element, design.elements)));
+
+/**
+ * Evens out the gaps between elements along an axis. The outermost elements stay
+ * put; everything in between is spaced so every gap is the same size.
+ */
+export const distributeElements = (
+  elements: DesignElement[],
+  axis: DistributeAxis,
+  tree: DesignElement[]
+): DesignElement[] => {
+  if (elements.length < 3) return elements;
+
+  const isHorizontal = axis === 'horizontal';
+  const entries = elements
+    .map((element) => ({ element, box: getBounds(element, tree) }))
+    .sort((a, b) => (isHorizontal ? a.box.x - b.box.x : a.box.y - b.box.y));
+  const start = (box: Bounds) => (isHorizontal ? box.x : box.y);
+  const size = (box: Bounds) => (isHorizontal ? box.width : box.height);
+
+  const first = entries[0].box;
+  const last = entries[entries.length - 1].box;
+  const span = start(last) + size(last) - start(first);
+  const occupied = entries.reduce((total, entry) => total + size(entry.box), 0);
+  const gap = (span - occupied) / (entries.length - 1);
+
+  let cursor = start(first);
+  const moved = new Map<string, DesignElement>();
+  entries.forEach(({ element, box }) => {
+    const delta = cursor - start(box);
+    moved.set(
+      element.id,
+      isHorizontal ? translate(element, tree, delta, 0) : translate(element, tree, 0, delta)
+    );
+    cursor += size(box) + gap;
+  });
+
+  return elements.map((element) => moved.get(element.id) ?? element);
+};
@@ -0,0 +1,63 @@
+import { z } from 'zod';
+
+import { toDesignSpace } from '../../../entities/design/lib/geometry';
+import type { ElementLocation } from '../../../entities/design/lib/elementTree';
+import { CURRENT_SCHEMA_VERSION, designElementSchema } from '../../../entities/design/model/schema';
+import type { DesignElement } from '../../../entities/design/model/types';
+
+/**
+ * Copied layers, detached from their containers: every element is top-level and
+ * positioned in design space, so they can be pasted into any design.
+ */
+export interface ClipboardPayload {
+  schemaVersion: number;
+  /** Where the layers were copied from; pasting back into it offsets them. */
+  designId: string;
+  elements: DesignElement[];
+}
+
+/** Custom clipboard type, so other apps never mistake the payload for their own data. */
+export const CLIPBOARD_MIME_TYPE = 'application/x-design-collab+json';
+
+const clipboardPayloadSchema = z.object({
+  schemaVersion: z.literal(CURRENT_SCHEMA_VERSION),
+  designId: z.string(),
+  elements: z.array(designElementSchema).min(1),
+});
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Lifts a nested element out of its containers, keeping where and how it appears on
+ * the canvas: absolute position, rotation and effective opacity.
+ */
+export const toDetachedElement = ({ element, ancestors }: ElementLocation): DesignElement => {
+  const origin = toDesignSpace({ x: element.x, y: element.y }, ancestors);
+  return {
+    ...element,
+    x: round(origin.x),
+    y: round(origin.y),
+    rotation: round(
+      ancestors.reduce((total, ancestor) => total + ancestor.rotation, element.rotation)
+    ),
+    opacity: round(
+      ancestors.reduce((total, ancestor) => total * ancestor.opacity, element.opacity)
+    ),
+  };
+};
+
+export const serializeClipboard = (payload: ClipboardPayload) => JSON.stringify(payload);
+
+/**
+ * Reads a payload back, e.g. from another tab. Anything malformed, or written by a
+ * build with a different element model, is ignored rather than half-pasted.
+ */
+export const parseClipboard = (data: string): ClipboardPayload | undefined => {
+  if (!data) return undefined;
+  try {
+    const result = clipboardPayloadSchema.safeParse(JSON.parse(data));
+    return result.success ? result.data : undefined;
+  } catch {
+    return undefined;
+  }
+};
@@ -0,0 +1,99 @@
+import type { Point } from '../../../entities/design/lib/geometry';
+import { layoutText } from '../../../entities/design/lib/textLayout';
+import type { Design, ImageElement, TextElement } from '../../../entities/design/model/types';
+import { measureTextWidth } from '../../../shared/lib/measureText';
+
+/** New images never cover more than this share of the design in either direction. */
+const MAX_INSERT_RATIO = 0.6;
+
+/** One above everything currently at the top level of the design. */
+export const getNextZIndex = (design: Pick<Design, 'elements'>) =>
+  design.elements.reduce((max, element) => Math.max(max, element.zIndex), -1) + 1;
+
+export const createImageElement = ({
+  src,
+  naturalSize,
+  center,
+  design,
+  zIndex,
+}: {
+  src: string;
+  naturalSize: { width: number; height: number };
+  center: Point;
+  design: Pick<Design, 'width' | 'height'>;
+  zIndex: number;
+}): ImageElement => {
+  const scale = Math.min(
+    1,
+    (design.width * MAX_INSERT_RATIO) / naturalSize.width,
+    (design.height * MAX_INSERT_RATIO) / naturalSize.height
+  );
+  const width = Math.max(1, Math.round(naturalSize.width * scale));
+  const height = Math.max(1, Math.round(naturalSize.height * scale));
+
+  return {
+    id: crypto.randomUUID(),
+    type: 'image',
+    x: Math.round(center.x - width / 2),
+    y: Math.round(center.y - height / 2),
+    width,
+    height,
+    rotation: 0,
+    zIndex,
+    opacity: 1,
+    src,
+    fit: 'contain',
+  };
+};
+
+const TEXT_DEFAULTS = {
+  fontFamily: 'Inter',
+  fontSize: 32,
+  fontWeight: 400,
+  fill: '#f8fafc',
+  align: 'left',
+  lineHeight: 1.2,
+  letterSpacing: 0,
+} satisfies Partial<TextElement>;
+
+/**
+ * A text element as wide as its longest line (within the same limit as images), growing
+ * downwards as it wraps.
+ */
+export const createTextElement = ({
+  text,
+  center,
+  design,
+  zIndex,
+}: {
+  text: string;
+  center: Point;
+  design: Pick<Design, 'width' | 'height'>;
+  zIndex: number;
+}): TextElement => {
+  const font = `${TEXT_DEFAULTS.fontWeight} ${TEXT_DEFAULTS.fontSize}px ${TEXT_DEFAULTS.fontFamily}`;
+  const longestLine = Math.max(...text.split('\n').map((line) => measureTextWidth(line, font)));
+  const width = Math.round(Math.min(longestLine + 2, design.width * MAX_INSERT_RATIO));
+  const element: TextElement = {
+    ...TEXT_DEFAULTS,
+    id: crypto.randomUUID(),
+    type: 'text',
+    x: 0,
+    y: 0,
+    width,
+    height: TEXT_DEFAULTS.fontSize,
+    rotation: 0,
+    zIndex,
+    opacity: 1,
+    text,
+    sizing: 'auto-height',
+  };
+  const height = Math.ceil(layoutText(element).height);
+
+  return {
+    ...element,
+    x: Math.round(center.x - width / 2),
+    y: Math.round(center.y - height / 2),
+    height,
+  };
+};
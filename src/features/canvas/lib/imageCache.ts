@@ -0,0 +1,55 @@
+export type ImageStatus = 'empty' | 'loading' | 'loaded' | 'error';
+
+export interface CachedImage {
+  status: ImageStatus;
+  image?: HTMLImageElement;
+}
+
+const EMPTY: CachedImage = { status: 'empty' };
+const LOADING: CachedImage = { status: 'loading' };
+
+/**
+ * Decoded bitmaps shared by every canvas node (and later exports) that draws the same
+ * source. Entries are replaced, never mutated, so they can back useSyncExternalStore.
+ */
+const entries = new Map<string, CachedImage>();
+const requests = new Map<string, Promise<HTMLImageElement>>();
+const listeners = new Set<() => void>();
+
+const setEntry = (src: string, entry: CachedImage) => {
+  entries.set(src, entry);
+  listeners.forEach((listener) => listener());
+};
+
+export const subscribeToImageCache = (listener: () => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+export const getCachedImage = (src: string): CachedImage =>
+  src ? (entries.get(src) ?? LOADING) : EMPTY;
+
+/** Loads (once) and decodes an image; rejects if the source cannot be displayed. */
+export const loadImage = (src: string) => {
+  const pending = requests.get(src);
+  if (pending) return pending;
+
+  const request = new Promise<HTMLImageElement>((resolve, reject) => {
+    const image = new window.Image();
+    // Remote images must be CORS-enabled or exporting the canvas would be blocked.
+    if (!src.startsWith('data:') && !src.startsWith('blob:')) image.crossOrigin = 'anonymous';
+    image.onload = () => {
+      setEntry(src, { status: 'loaded', image });
+      resolve(image);
+    };
+    image.onerror = () => {
+      setEntry(src, { status: 'error' });
+      reject(new Error(`Could not load image ${src.slice(0, 64)}`));
+    };
+    image.src = src;
+  });
+  requests.set(src, request);
+  return request;
+};
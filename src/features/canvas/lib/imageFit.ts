@@ -0,0 +1,40 @@
+import type { ImageElement } from '../../../entities/design/model/types';
+
+interface Size {
+  width: number;
+  height: number;
+}
+
+export interface ImageLayout {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  /** Source rectangle to sample, in image pixels; only set when cropping. */
+  crop?: { x: number; y: number; width: number; height: number };
+}
+
+/**
+ * Where to draw an image inside its element box. `contain` letterboxes the whole
+ * image; `cover` fills the box and crops the overflow evenly from both sides.
+ */
+export const getImageLayout = (fit: ImageElement['fit'], image: Size, box: Size): ImageLayout => {
+  if (!image.width || !image.height) return { x: 0, y: 0, ...box };
+
+  if (fit === 'cover') {
+    const scale = Math.max(box.width / image.width, box.height / image.height);
+    const width = box.width / scale;
+    const height = box.height / scale;
+    return {
+      x: 0,
+      y: 0,
+      ...box,
+      crop: { x: (image.width - width) / 2, y: (image.height - height) / 2, width, height },
+    };
+  }
+
+  const scale = Math.min(box.width / image.width, box.height / image.height);
+  const width = image.width * scale;
+  const height = image.height * scale;
+  return { x: (box.width - width) / 2, y: (box.height - height) / 2, width, height };
+};
@@ -0,0 +1,106 @@
+import type Konva from 'konva';
+
+import { scaleElement } from '../../../entities/design/lib/scaling';
+import type { DesignElement } from '../../../entities/design/model/types';
+
+export const MIN_ELEMENT_SIZE = 4;
+/** Konva name of the background rect drawn inside every frame group. */
+export const FRAME_BACKGROUND_NAME = 'frame-background';
+
+const round = (value: number, precision = 0) => {
+  const factor = 10 ** precision;
+  return Math.round(value * factor) / factor;
+};
+
+/**
+ * Reads the geometry a Transformer or drag gesture left on a Konva node, bakes any
+ * scale into the element's own size fields and returns the updated element.
+ * The node's scale is reset so the next render starts from a clean transform.
+ */
+export const getElementFromNode = (element: DesignElement, node: Konva.Node): DesignElement => {
+  const scaleX = Math.abs(node.scaleX());
+  const scaleY = Math.abs(node.scaleY());
+  node.scaleX(1);
+  node.scaleY(1);
+
+  const position = {
+    x: round(node.x()),
+    y: round(node.y()),
+    rotation: round(node.rotation(), 2),
+  };
+
+  if (element.type === 'circle') {
+    // Circles are positioned by their centre and sized by `radius`; the Transformer
+    // keeps their ratio, so either axis gives the same scale.
+    const radius = Math.max(MIN_ELEMENT_SIZE / 2, round(element.radius * Math.max(scaleX, scaleY)));
+    return { ...element, ...position, radius, width: radius * 2, height: radius * 2 };
+  }
+
+  if (element.type === 'group') {
+    // Groups have no box of their own: scaling one scales everything inside it. The
+    // reducer re-fits the group's bounds afterwards.
+    const scaled = scaleElement({ ...element, x: 0, y: 0 }, scaleX, scaleY);
+    return { ...scaled, ...position };
+  }
+
+  return {
+    ...element,
+    ...position,
+    width: Math.max(MIN_ELEMENT_SIZE, round(node.width() * scaleX)),
+    height: Math.max(MIN_ELEMENT_SIZE, round(node.height() * scaleY)),
+  };
+};
+
+/**
+ * Text reflows instead of stretching: fold the live scale back into width/height
+ * while the user is still dragging a handle.
+ */
+export const bakeTextScale = (node: Konva.Node) => {
+  node.setAttrs({
+    width: Math.max(MIN_ELEMENT_SIZE, node.width() * node.scaleX()),
+    height: Math.max(MIN_ELEMENT_SIZE, node.height() * node.scaleY()),
+    scaleX: 1,
+    scaleY: 1,
+  });
+};
+
+/**
+ * Frames resize their box, never their children: fold the live scale back into the
+ * frame's size, clip and background so the contents stay put mid-gesture.
+ */
+export const bakeFrameScale = (node: Konva.Node) => {
+  const width = Math.max(MIN_ELEMENT_SIZE, node.width() * node.scaleX());
+  const height = Math.max(MIN_ELEMENT_SIZE, node.height() * node.scaleY());
+  node.setAttrs({ width, height, scaleX: 1, scaleY: 1 });
+  if (node.getAttr('clipWidth') !== undefined) {
+    node.setAttrs({ clipWidth: width, clipHeight: height });
+  }
+  (node as Konva.Group).findOne(`.${FRAME_BACKGROUND_NAME}`)?.setAttrs({ width, height });
+};
+
+/**
+ * Konva sizes a Group by its children and ignores clipping, so a frame whose content
+ * overflows would get an oversized Transformer box. Report the frame's own box instead.
+ */
+export const applyBoxClientRect = (node: Konva.Group) => {
+  node.getClientRect = (config = {}) => {
+    const box = { x: 0, y: 0, width: node.width(), height: node.height() };
+    if (config.skipTransform) return box;
+    const transform = node.getAbsoluteTransform(config.relativeTo);
+    const corners = [
+      transform.point({ x: 0, y: 0 }),
+      transform.point({ x: box.width, y: 0 }),
+      transform.point({ x: box.width, y: box.height }),
+      transform.point({ x: 0, y: box.height }),
+    ];
+    const xs = corners.map((corner) => corner.x);
+    const ys = corners.map((corner) => corner.y);
+    const minX = Math.min(...xs);
+    const minY = Math.min(...ys);
+    return { x: minX, y: minY, width: Math.max(...xs) - minX, height: Math.max(...ys) - minY };
+  };
+};
+
+/** Pointer position in design coordinates, whatever transform the stage carries. */
+export const getDesignPointerPosition = (stage: Konva.Stage | null) =>
+  stage?.getRelativePointerPosition() ?? null;
@@ -0,0 +1,63 @@
+import { describe, expect, it } from 'vitest';
+
+import type { ElementOperation, RectElement } from '../../../entities/design/model/types';
+import { filterWinningOperations, recordStamps, type Stamp, type StampTable } from './lww';
+
+const rect: RectElement = {
+  id: 'rect-1',
+  type: 'rect',
+  x: 0,
+  y: 0,
+  width: 100,
+  height: 100,
+  rotation: 0,
+  zIndex: 0,
+  opacity: 1,
+  fill: '#000000',
+  stroke: '#ffffff',
+  strokeWidth: 0,
+  radius: 0,
+};
+
+const add: ElementOperation = { kind: 'add', element: rect, parentId: null };
+const remove: ElementOperation = { kind: 'delete', elementId: rect.id };
+const move: ElementOperation = { kind: 'update', elementId: rect.id, props: { x: 50 } };
+
+const stampAt = (clock: number, clientId = 'a'): Stamp => ({ clock, clientId });
+
+/** Records each operation as the receiving client would after filtering it. */
+const receive = (stamps: StampTable, operation: ElementOperation, stamp: Stamp) => {
+  const winners = filterWinningOperations([operation], stamp, stamps);
+  recordStamps(stamps, operation, stamp);
+  return winners;
+};
+
+describe('filterWinningOperations', () => {
+  it('lets an add newer than a tombstone recreate the element', () => {
+    const stamps: StampTable = {};
+    receive(stamps, add, stampAt(1));
+    receive(stamps, remove, stampAt(2));
+
+    expect(receive(stamps, add, stampAt(3))).toEqual([add]);
+    expect(receive(stamps, move, stampAt(4))).toEqual([move]);
+  });
+
+  it('keeps a tombstone against edits and older adds', () => {
+    const stamps: StampTable = {};
+    receive(stamps, add, stampAt(1));
+    receive(stamps, remove, stampAt(3));
+
+    expect(receive(stamps, move, stampAt(4))).toEqual([]);
+    expect(receive(stamps, add, stampAt(2, 'b'))).toEqual([]);
+  });
+
+  it('ignores a delete stamped before the latest add', () => {
+    const stamps: StampTable = {};
+    receive(stamps, add, stampAt(1));
+    receive(stamps, remove, stampAt(2));
+    receive(stamps, add, stampAt(4));
+
+    expect(receive(stamps, remove, stampAt(3, 'b'))).toEqual([]);
+    expect(receive(stamps, move, stampAt(5))).toEqual([move]);
+  });
+});
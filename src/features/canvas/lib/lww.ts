@@ -0,0 +1,99 @@
+import type { ElementOperation } from '../../../entities/design/model/types';
+
+/**
+ * Lamport timestamp of a write. Ties on `clock` are broken by client id, so every
+ * collaborator picks the same winner without coordinating.
+ */
+export interface Stamp {
+  clock: number;
+  clientId: string;
+}
+
+/** Per element id, the stamp of the last write that won for each property. */
+export type StampTable = Record<string, Record<string, Stamp>>;
+
+/** Pseudo-properties for writes that are not a plain property value. */
+export const POSITION_KEY = '@position';
+export const DELETED_KEY = '@deleted';
+/** When the element was last (re)created; an add newer than a tombstone brings it back. */
+export const ADDED_KEY = '@added';
+/** Design-level writes are stamped under a pseudo element id; the canvas size is one. */
+export const DESIGN_KEY = '@design';
+export const FRAME_KEY = '@frame';
+
+export const isNewerStamp = (candidate: Stamp, current: Stamp | undefined) =>
+  !current ||
+  candidate.clock > current.clock ||
+  (candidate.clock === current.clock && candidate.clientId > current.clientId);
+
+/** The (element id, property) pairs an operation writes. */
+export const getWrittenKeys = (operation: ElementOperation): [string, string][] => {
+  switch (operation.kind) {
+    case 'add':
+      return [ADDED_KEY, POSITION_KEY, ...Object.keys(operation.element)]
+        .filter((key) => key !== 'id' && key !== 'children')
+        .map((key) => [operation.element.id, key]);
+    case 'update':
+      return [...Object.keys(operation.props), ...(operation.removed ?? [])].map((key) => [
+        operation.elementId,
+        key,
+      ]);
+    case 'reorder':
+      return [[operation.elementId, POSITION_KEY]];
+    case 'delete':
+    default:
+      return [[operation.elementId, DELETED_KEY]];
+  }
+};
+
+/**
+ * Records the stamps an operation writes. A delete older than the element's latest add
+ * leaves no tombstone, and a newer add clears one, so a re-added element can be edited.
+ */
+export const recordStamps = (stamps: StampTable, operation: ElementOperation, stamp: Stamp) => {
+  getWrittenKeys(operation).forEach(([elementId, key]) => {
+    const known = (stamps[elementId] ??= {});
+    if (key === DELETED_KEY && known[ADDED_KEY] && !isNewerStamp(stamp, known[ADDED_KEY])) return;
+    if (isNewerStamp(stamp, known[key])) known[key] = stamp;
+  });
+  if (operation.kind === 'add') {
+    const known = stamps[operation.element.id];
+    if (known[DELETED_KEY] && isNewerStamp(stamp, known[DELETED_KEY])) delete known[DELETED_KEY];
+  }
+};
+
+/**
+ * Last-writer-wins per property: keeps only the parts of a remote batch that are newer
+ * than what this client has already applied. Deletes win over edits, so nothing but a
+ * newer add touches an element once it has a tombstone; an add, in turn, survives a
+ * delete that was stamped before it.
+ */
+export const filterWinningOperations = (
+  operations: ElementOperation[],
+  stamp: Stamp,
+  stamps: StampTable
+): ElementOperation[] =>
+  operations.flatMap((operation): ElementOperation[] => {
+    const id = operation.kind === 'add' ? operation.element.id : operation.elementId;
+    const known = stamps[id] ?? {};
+    if (known[DELETED_KEY]) {
+      return operation.kind === 'add' && isNewerStamp(stamp, known[DELETED_KEY]) ? [operation] : [];
+    }
+
+    switch (operation.kind) {
+      case 'update': {
+        const props = Object.fromEntries(
+          Object.entries(operation.props).filter(([key]) => isNewerStamp(stamp, known[key]))
+        );
+        const removed = operation.removed?.filter((key) => isNewerStamp(stamp, known[key])) ?? [];
+        if (!Object.keys(props).length && !removed.length) return [];
+        return [{ ...operation, props, removed: removed.length ? removed : undefined }];
+      }
+      case 'add':
+      case 'reorder':
+        return isNewerStamp(stamp, known[POSITION_KEY]) ? [operation] : [];
+      case 'delete':
+      default:
+        return !known[ADDED_KEY] || isNewerStamp(stamp, known[ADDED_KEY]) ? [operation] : [];
+    }
+  });
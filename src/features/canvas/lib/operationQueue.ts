@@ -0,0 +1,48 @@
+import type { ElementOperationBatch } from '../../../services/socket/events';
+import { openDatabase, requestToPromise } from '../../../shared/lib/indexedDb';
+
+const DATABASE_NAME = 'design-collab';
+const DATABASE_VERSION = 1;
+const STORE_NAME = 'operationQueue';
+
+let databasePromise: Promise<IDBDatabase> | null = null;
+
+const getDatabase = () => {
+  databasePromise ??= openDatabase(DATABASE_NAME, DATABASE_VERSION, (database) => {
+    if (!database.objectStoreNames.contains(STORE_NAME)) {
+      const store = database.createObjectStore(STORE_NAME, { keyPath: 'batchId' });
+      store.createIndex('designId', 'designId');
+    }
+  });
+  return databasePromise;
+};
+
+const withStore = async <T>(
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>
+) => {
+  const database = await getDatabase();
+  return requestToPromise(run(database.transaction(STORE_NAME, mode).objectStore(STORE_NAME)));
+};
+
+/*
+ * Outbound batches are mirrored to IndexedDB so edits made offline survive a reload.
+ * Storage is best-effort: if IndexedDB is unavailable the queue lives in memory only.
+ */
+
+export const persistQueuedBatch = (batch: ElementOperationBatch) =>
+  withStore('readwrite', (store) => store.put(batch)).catch(() => undefined);
+
+export const removeQueuedBatch = (batchId: string) =>
+  withStore('readwrite', (store) => store.delete(batchId)).catch(() => undefined);
+
+export const clearQueuedBatches = async (designId: string) => {
+  const batches = await loadQueuedBatches(designId);
+  await Promise.all(batches.map((batch) => removeQueuedBatch(batch.batchId)));
+};
+
+/** Queued batches for a design, oldest first. */
+export const loadQueuedBatches = (designId: string) =>
+  withStore('readonly', (store) => store.index('designId').getAll(designId))
+    .then((batches: ElementOperationBatch[]) => [...batches].sort((a, b) => a.clock - b.clock))
+    .catch((): ElementOperationBatch[] => []);
@@ -0,0 +1,32 @@
+/** Thickness of the rulers along the top and left edges of the canvas, in pixels. */
+export const RULER_SIZE = 20;
+
+/** Labelled ticks are kept at least this far apart on screen. */
+const MIN_TICK_SPACING = 56;
+const TICK_STEPS = [1, 2, 5, 10, 20, 50, 100, 200, 500, 1000, 2000, 5000, 10000];
+
+export interface RulerTick {
+  /** Design units. */
+  value: number;
+  /** Screen pixels from the ruler's start. */
+  offset: number;
+}
+
+/** The smallest round step whose ticks stay readable at this zoom. */
+export const getRulerStep = (zoom: number) =>
+  TICK_STEPS.find((step) => step * zoom >= MIN_TICK_SPACING) ?? TICK_STEPS[TICK_STEPS.length - 1];
+
+/**
+ * Ticks for a ruler `length` pixels long, where design 0 sits at `origin` pixels
+ * (the viewport's x for the top ruler, y for the left one).
+ */
+export const getRulerTicks = (origin: number, zoom: number, length: number): RulerTick[] => {
+  const step = getRulerStep(zoom);
+  const first = Math.floor(-origin / zoom / step) * step;
+  const last = (length - origin) / zoom;
+  const ticks: RulerTick[] = [];
+  for (let value = first; value <= last; value += step) {
+    ticks.push({ value, offset: origin + value * zoom });
+  }
+  return ticks;
+};
@@ -0,0 +1,44 @@
+import type Konva from 'konva';
+
+import type { DesignElement } from '../../../entities/design/model/types';
+
+/** Walks up from the Konva node under the pointer to the nearest node drawing an element. */
+export const findElementIdForNode = (
+  node: Konva.Node | null,
+  isElementId: (id: string) => boolean
+) => {
+  let current = node;
+  while (current) {
+    const id = current.id();
+    if (id && isElementId(id)) return id;
+    current = current.getParent();
+  }
+  return undefined;
+};
+
+/**
+ * What a click on `chain` (the hit element's ancestors, outermost first, then the
+ * element itself) should select. Groups are opaque until the user has drilled into
+ * them, so a click lands on the outermost one; frames are transparent and only get
+ * picked through their own background. Deep selection (Ctrl/⌘) skips all of that.
+ */
+export const getSelectionTarget = (
+  chain: DesignElement[],
+  selectedIds: string[],
+  deep = false
+): DesignElement | undefined => {
+  const leaf = chain.at(-1);
+  if (deep) return leaf;
+  for (const element of chain.slice(0, -1)) {
+    if (element.type !== 'group') continue;
+    const isEntered = element.children.some((child) => selectedIds.includes(child.id));
+    if (!isEntered) return element;
+  }
+  return leaf;
+};
+
+/** One level deeper than the selected element in `chain`, e.g. on double-click. */
+export const getDrillTarget = (chain: DesignElement[], selectedIds: string[]) => {
+  const index = chain.findIndex((element) => selectedIds.includes(element.id));
+  return index >= 0 ? chain[index + 1] : undefined;
+};
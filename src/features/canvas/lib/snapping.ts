@@ -0,0 +1,189 @@
+import { flattenElements, isContainerElement } from '../../../entities/design/lib/elementTree';
+import { getElementBounds, type Bounds, type Point } from '../../../entities/design/lib/geometry';
+import type { DesignElement, DesignGuide } from '../../../entities/design/model/types';
+
+type Axis = 'x' | 'y';
+
+/** A smart guide: a line at `position` on `axis`, drawn from `start` to `end` across it. */
+export interface SnapLine {
+  axis: Axis;
+  position: number;
+  start: number;
+  end: number;
+}
+
+/** The gap between the moved box and a neighbour it lines up with, measured along `axis`. */
+export interface SpacingMark {
+  axis: Axis;
+  start: number;
+  end: number;
+  /** Where the measurement sits on the other axis. */
+  offset: number;
+}
+
+export interface SnapResult {
+  /** The move after snapping, in design units. */
+  delta: Point;
+  lines: SnapLine[];
+  spacings: SpacingMark[];
+}
+
+export interface SnapContext {
+  /** Boxes of everything that can be snapped to, in design space. */
+  targets: Bounds[];
+  artboard: { width: number; height: number };
+  guides: DesignGuide[];
+  snapToObjects: boolean;
+  /** Grid spacing to round onto when no object is close enough; off when undefined. */
+  gridSize?: number;
+  /** How close (in design units) an edge must come before it snaps. */
+  threshold: number;
+}
+
+/** Screen pixels within which edges snap; divided by the zoom before use. */
+export const SNAP_DISTANCE = 6;
+
+/** Lines that count as "the same" after snapping, to absorb rounding. */
+const EPSILON = 0.5;
+
+interface Candidate {
+  value: number;
+  /** The box the line belongs to; undefined for the artboard and ruler guides. */
+  source?: Bounds;
+}
+
+const start = (box: Bounds, axis: Axis) => (axis === 'x' ? box.x : box.y);
+const size = (box: Bounds, axis: Axis) => (axis === 'x' ? box.width : box.height);
+const other = (axis: Axis): Axis => (axis === 'x' ? 'y' : 'x');
+
+/** Leading edge, centre and trailing edge along an axis. */
+const edges = (box: Bounds, axis: Axis) => [
+  start(box, axis),
+  start(box, axis) + size(box, axis) / 2,
+  start(box, axis) + size(box, axis),
+];
+
+const getCandidates = (context: SnapContext, axis: Axis): Candidate[] => [
+  ...context.targets.flatMap((source) => edges(source, axis).map((value) => ({ value, source }))),
+  ...[0, 0.5, 1].map((ratio) => ({
+    value: (axis === 'x' ? context.artboard.width : context.artboard.height) * ratio,
+  })),
+  ...context.guides
+    .filter((guide) => guide.axis === axis)
+    .map((guide) => ({ value: guide.position })),
+];
+
+/** The smallest correction that lines one of the box's edges up with a candidate. */
+const findOffset = (box: Bounds, axis: Axis, context: SnapContext) => {
+  let best: number | undefined;
+  if (context.snapToObjects) {
+    const candidates = getCandidates(context, axis);
+    edges(box, axis).forEach((edge) => {
+      candidates.forEach(({ value }) => {
+        const offset = value - edge;
+        if (
+          Math.abs(offset) <= context.threshold &&
+          (best === undefined || Math.abs(offset) < Math.abs(best))
+        ) {
+          best = offset;
+        }
+      });
+    });
+  }
+  if (best === undefined && context.gridSize) {
+    const edge = start(box, axis);
+    best = Math.round(edge / context.gridSize) * context.gridSize - edge;
+  }
+  return best ?? 0;
+};
+
+/** Guide lines for every candidate the snapped box now touches, merged per position. */
+const getLines = (box: Bounds, axis: Axis, context: SnapContext): SnapLine[] => {
+  if (!context.snapToObjects) return [];
+  const cross = other(axis);
+  const boxEdges = edges(box, axis);
+  const byPosition = new Map<number, SnapLine>();
+
+  getCandidates(context, axis).forEach(({ value, source }) => {
+    const edge = boxEdges.find((candidate) => Math.abs(candidate - value) < EPSILON);
+    if (edge === undefined) return;
+    const span = source
+      ? [start(source, cross), start(source, cross) + size(source, cross)]
+      : [0, axis === 'x' ? context.artboard.height : context.artboard.width];
+    const from = Math.min(span[0], start(box, cross));
+    const to = Math.max(span[1], start(box, cross) + size(box, cross));
+    const existing = byPosition.get(edge);
+    byPosition.set(edge, {
+      axis,
+      position: edge,
+      start: Math.min(from, existing?.start ?? from),
+      end: Math.max(to, existing?.end ?? to),
+    });
+  });
+  return [...byPosition.values()];
+};
+
+/**
+ * For each line, the gap to the nearest element lined up along it that does not
+ * overlap the box, e.g. the vertical space between two left-aligned cards.
+ */
+const getSpacings = (box: Bounds, axis: Axis, context: SnapContext): SpacingMark[] => {
+  if (!context.snapToObjects) return [];
+  const cross = other(axis);
+  const boxStart = start(box, cross);
+  const boxEnd = boxStart + size(box, cross);
+  const boxEdges = edges(box, axis);
+
+  return boxEdges.flatMap((edge) => {
+    const gaps = context.targets
+      .filter((target) => edges(target, axis).some((value) => Math.abs(value - edge) < EPSILON))
+      .flatMap((target) => {
+        const targetStart = start(target, cross);
+        const targetEnd = targetStart + size(target, cross);
+        if (targetEnd <= boxStart) return [{ start: targetEnd, end: boxStart }];
+        if (targetStart >= boxEnd) return [{ start: boxEnd, end: targetStart }];
+        return [];
+      })
+      .sort((a, b) => a.end - a.start - (b.end - b.start));
+    return gaps.length ? [{ axis: cross, ...gaps[0], offset: edge }] : [];
+  });
+};
+
+/**
+ * Adjusts a proposed move of `box` by `delta` so its edges or centre line up with
+ * nearby elements, the design bounds or ruler guides, falling back to the grid.
+ * Returns the snapped move and the guides to show for it.
+ */
+export const snapMove = (box: Bounds, delta: Point, context: SnapContext): SnapResult => {
+  const moved = { ...box, x: box.x + delta.x, y: box.y + delta.y };
+  const snappedDelta = {
+    x: delta.x + findOffset(moved, 'x', context),
+    y: delta.y + findOffset(moved, 'y', context),
+  };
+  const snapped = { ...box, x: box.x + snappedDelta.x, y: box.y + snappedDelta.y };
+  return {
+    delta: snappedDelta,
+    lines: [...getLines(snapped, 'x', context), ...getLines(snapped, 'y', context)],
+    spacings: [...getSpacings(snapped, 'x', context), ...getSpacings(snapped, 'y', context)],
+  };
+};
+
+/**
+ * Design-space boxes of every visible element that is not being moved. Groups that contain a
+ * moved element are skipped, since their bounds follow it around.
+ */
+export const getSnapTargets = (elements: DesignElement[], movingIds: Set<string>) => {
+  const collect = (siblings: DesignElement[], ancestors: DesignElement[]): Bounds[] =>
+    siblings.flatMap((element) => {
+      if (movingIds.has(element.id) || element.hidden) return [];
+      if (!isContainerElement(element)) return [getElementBounds(element, ancestors)];
+      const nested = collect(element.children, [...ancestors, element]);
+      const containsMoving = flattenElements(element.children).some((child) =>
+        movingIds.has(child.id)
+      );
+      return element.type === 'group' && containsMoving
+        ? nested
+        : [getElementBounds(element, ancestors), ...nested];
+    });
+  return collect(elements, []);
+};
@@ -0,0 +1,520 @@
+import { normalizeZIndex } from '../../../entities/design/lib/elementTree';
+import { refitGroups } from '../../../entities/design/lib/grouping';
+import type {
+  CircleElement,
+  DesignElement,
+  FontWeight,
+  GroupElement,
+  ImageElement,
+  RectElement,
+  TextElement,
+} from '../../../entities/design/model/types';
+import { measureTextWidth } from '../../../shared/lib/measureText';
+
+export interface SvgImportResult {
+  elements: DesignElement[];
+  /** Size of the SVG's viewport, in the units the elements are expressed in. */
+  width: number;
+  height: number;
+  /** What was skipped or approximated, most frequent first, e.g. "3 × <path> elements". */
+  unsupported: string[];
+}
+
+/** 2D affine matrix `[a, b, c, d, e, f]`, as in SVG's `matrix()`. */
+type Matrix = [number, number, number, number, number, number];
+
+/** Presentation attributes that cascade from containers to their content. */
+interface InheritedStyle {
+  fill: string;
+  fillOpacity: number;
+  stroke: string;
+  strokeWidth: number;
+  fontFamily: string;
+  fontSize: number;
+  fontWeight: string;
+  textAnchor: string;
+}
+
+interface WalkContext {
+  matrix: Matrix;
+  style: InheritedStyle;
+}
+
+const IDENTITY: Matrix = [1, 0, 0, 1, 0, 0];
+
+const DEFAULT_STYLE: InheritedStyle = {
+  fill: '#000000',
+  fillOpacity: 1,
+  stroke: 'transparent',
+  strokeWidth: 1,
+  fontFamily: 'Inter',
+  fontSize: 16,
+  fontWeight: 'normal',
+  textAnchor: 'start',
+};
+
+/** Fill used where the SVG paints with a gradient or pattern. */
+const FALLBACK_PAINT = '#94a3b8';
+
+/** Elements that carry no drawable content of their own. */
+const IGNORED_TAGS = new Set(['title', 'desc', 'metadata', 'defs']);
+
+const UNSUPPORTED_TAG_NOTES: Record<string, string> = {
+  path: '<path> elements (only rectangles, circles, text and images are imported)',
+  polygon: '<polygon> elements',
+  polyline: '<polyline> elements',
+  line: '<line> elements',
+  use: '<use> references',
+  symbol: '<symbol> definitions',
+  svg: 'nested <svg> elements',
+  foreignObject: '<foreignObject> content',
+  style: '<style> rules (only attributes and inline styles are read)',
+  switch: '<switch> elements',
+};
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+const multiply = (m: Matrix, n: Matrix): Matrix => [
+  m[0] * n[0] + m[2] * n[1],
+  m[1] * n[0] + m[3] * n[1],
+  m[0] * n[2] + m[2] * n[3],
+  m[1] * n[2] + m[3] * n[3],
+  m[0] * n[4] + m[2] * n[5] + m[4],
+  m[1] * n[4] + m[3] * n[5] + m[5],
+];
+
+const applyMatrix = (m: Matrix, x: number, y: number) => ({
+  x: m[0] * x + m[2] * y + m[4],
+  y: m[1] * x + m[3] * y + m[5],
+});
+
+const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+
+const rotation = (degrees: number): Matrix => {
+  const cos = Math.cos(toRadians(degrees));
+  const sin = Math.sin(toRadians(degrees));
+  return [cos, sin, -sin, cos, 0, 0];
+};
+
+/**
+ * Splits a matrix into translate, rotate and scale, which is all an element can carry.
+ * Skew and mirroring have no equivalent and are reported by the caller.
+ */
+const decompose = (m: Matrix) => {
+  const scaleX = Math.hypot(m[0], m[1]);
+  const determinant = m[0] * m[3] - m[1] * m[2];
+  const scaleY = scaleX ? Math.abs(determinant) / scaleX : 0;
+  return {
+    rotation: round((Math.atan2(m[1], m[0]) * 180) / Math.PI),
+    scaleX,
+    scaleY,
+    isSkewed: Math.abs(m[0] * m[2] + m[1] * m[3]) > 1e-6 * scaleX * scaleX,
+    isMirrored: determinant < 0,
+  };
+};
+
+/** Attribute access and transform/style resolution, collecting notes on what was lost. */
+const createSvgReader = () => {
+  const notes = new Map<string, number>();
+
+  const note = (message: string) => {
+    notes.set(message, (notes.get(message) ?? 0) + 1);
+  };
+
+  const getNotes = () =>
+    [...notes.entries()]
+      .sort((a, b) => b[1] - a[1])
+      .map(([message, count]) => (count > 1 ? `${count} × ${message}` : message));
+
+  /** Attribute or inline `style` declaration, the latter taking precedence like CSS. */
+  const read = (node: Element, name: string) => {
+    const declaration = (node.getAttribute('style') ?? '')
+      .split(';')
+      .map((entry) => entry.split(':').map((part) => part.trim()))
+      .find(([property]) => property === name);
+    return declaration?.[1] || node.getAttribute(name) || undefined;
+  };
+
+  const length = (node: Element, name: string, fallback = 0) => {
+    const value = read(node, name);
+    if (value === undefined) return fallback;
+    if (/%|em|ex|ch|vw|vh/.test(value)) note('relative lengths (%, em) read as pixels');
+    const number = Number.parseFloat(value);
+    if (!Number.isFinite(number)) return fallback;
+    return value.endsWith('pt') ? number * (96 / 72) : number;
+  };
+
+  const transform = (node: Element): Matrix => {
+    const value = node.getAttribute('transform');
+    if (!value) return IDENTITY;
+
+    let result = IDENTITY;
+    for (const [, name, rawArgs] of value.matchAll(/(\w+)\s*\(([^)]*)\)/g)) {
+      const args = rawArgs
+        .split(/[\s,]+/)
+        .filter(Boolean)
+        .map(Number);
+      const [first = 0, second, third] = args;
+      let step: Matrix;
+      switch (name) {
+        case 'matrix':
+          step = args.length === 6 ? (args as Matrix) : IDENTITY;
+          break;
+        case 'translate':
+          step = [1, 0, 0, 1, first, second ?? 0];
+          break;
+        case 'scale':
+          step = [first, 0, 0, second ?? first, 0, 0];
+          break;
+        case 'rotate':
+          step =
+            second === undefined
+              ? rotation(first)
+              : multiply(multiply([1, 0, 0, 1, second, third ?? 0], rotation(first)), [
+                  1,
+                  0,
+                  0,
+                  1,
+                  -second,
+                  -(third ?? 0),
+                ]);
+          break;
+        case 'skewX':
+          step = [1, 0, Math.tan(toRadians(first)), 1, 0, 0];
+          break;
+        case 'skewY':
+          step = [1, Math.tan(toRadians(first)), 0, 1, 0, 0];
+          break;
+        default:
+          note(`unknown transform "${name}"`);
+          step = IDENTITY;
+      }
+      result = multiply(result, step);
+    }
+    return result;
+  };
+
+  const paint = (node: Element, value: string | undefined, fallback: string) => {
+    if (value === undefined || value === 'inherit') return fallback;
+    if (value === 'none' || value === 'transparent') return 'transparent';
+    if (value.startsWith('url(')) {
+      note(`gradient or pattern paint on <${node.tagName}> (replaced with a solid colour)`);
+      return FALLBACK_PAINT;
+    }
+    if (value === 'currentColor') return read(node, 'color') ?? fallback;
+    return value;
+  };
+
+  const style = (node: Element, inherited: InheritedStyle): InheritedStyle => {
+    const fillOpacity = read(node, 'fill-opacity');
+    const fontSize = read(node, 'font-size');
+    return {
+      fill: paint(node, read(node, 'fill'), inherited.fill),
+      fillOpacity: fillOpacity === undefined ? inherited.fillOpacity : Number(fillOpacity),
+      stroke: paint(node, read(node, 'stroke'), inherited.stroke),
+      strokeWidth: length(node, 'stroke-width', inherited.strokeWidth),
+      fontFamily:
+        read(node, 'font-family')?.split(',')[0].replace(/["']/g, '').trim() ??
+        inherited.fontFamily,
+      fontSize: fontSize === undefined ? inherited.fontSize : length(node, 'font-size'),
+      fontWeight: read(node, 'font-weight') ?? inherited.fontWeight,
+      textAnchor: read(node, 'text-anchor') ?? inherited.textAnchor,
+    };
+  };
+
+  /** Element opacity; fill opacity is folded in since elements have a single opacity. */
+  const opacity = (node: Element, style: InheritedStyle) => {
+    const value = read(node, 'opacity');
+    const opacity = value === undefined ? 1 : Number(value);
+    return round(
+      Math.min(1, Math.max(0, (Number.isFinite(opacity) ? opacity : 1) * style.fillOpacity))
+    );
+  };
+
+  const placement = (node: Element, matrix: Matrix) => {
+    const parts = decompose(matrix);
+    if (parts.isSkewed) note(`skewed <${node.tagName}> (skew dropped)`);
+    if (parts.isMirrored) note(`mirrored <${node.tagName}> (flip dropped)`);
+    return parts;
+  };
+
+  return { note, getNotes, read, length, transform, paint, style, opacity, placement };
+};
+
+type SvgReader = ReturnType<typeof createSvgReader>;
+
+const createId = () => crypto.randomUUID();
+
+const readRect = (
+  reader: SvgReader,
+  node: Element,
+  { matrix, style }: WalkContext
+): RectElement => {
+  const { rotation: angle, scaleX, scaleY } = reader.placement(node, matrix);
+  const origin = applyMatrix(matrix, reader.length(node, 'x'), reader.length(node, 'y'));
+  const rx = reader.length(node, 'rx', reader.length(node, 'ry'));
+  return {
+    id: createId(),
+    type: 'rect',
+    x: round(origin.x),
+    y: round(origin.y),
+    width: round(reader.length(node, 'width') * scaleX),
+    height: round(reader.length(node, 'height') * scaleY),
+    rotation: angle,
+    zIndex: 0,
+    opacity: reader.opacity(node, style),
+    fill: style.fill,
+    stroke: style.stroke,
+    strokeWidth: style.stroke === 'transparent' ? 0 : round(style.strokeWidth * scaleX),
+    radius: round(rx * Math.min(scaleX, scaleY)),
+  };
+};
+
+const readCircle = (
+  reader: SvgReader,
+  node: Element,
+  { matrix, style }: WalkContext
+): CircleElement | undefined => {
+  const isEllipse = node.tagName === 'ellipse';
+  const rx = reader.length(node, isEllipse ? 'rx' : 'r');
+  const ry = isEllipse ? reader.length(node, 'ry', rx) : rx;
+  const { rotation: angle, scaleX, scaleY } = reader.placement(node, matrix);
+  if (Math.abs(rx * scaleX - ry * scaleY) > 0.5) {
+    reader.note('non-circular ellipses');
+    return undefined;
+  }
+  const center = applyMatrix(matrix, reader.length(node, 'cx'), reader.length(node, 'cy'));
+  const radius = round(rx * scaleX);
+  return {
+    id: createId(),
+    type: 'circle',
+    x: round(center.x),
+    y: round(center.y),
+    width: radius * 2,
+    height: radius * 2,
+    rotation: angle,
+    zIndex: 0,
+    opacity: reader.opacity(node, style),
+    fill: style.fill,
+    stroke: style.stroke,
+    strokeWidth: style.stroke === 'transparent' ? 0 : round(style.strokeWidth * scaleX),
+    radius,
+  };
+};
+
+const TEXT_ALIGNS: Record<string, TextElement['align']> = {
+  start: 'left',
+  middle: 'center',
+  end: 'right',
+};
+
+/** Keywords map to their CSS weights; numbers are rounded onto the 100–900 scale. */
+const toFontWeight = (value: string): FontWeight => {
+  if (value === 'bold' || value === 'bolder') return 700;
+  if (value === 'lighter') return 300;
+  const weight = Math.round(Number(value) / 100) * 100;
+  return (Number.isFinite(weight) ? Math.min(Math.max(weight, 100), 900) : 400) as FontWeight;
+};
+
+const readText = (
+  reader: SvgReader,
+  node: Element,
+  { matrix, style }: WalkContext
+): TextElement | undefined => {
+  // Spans positioned on their own line become line breaks; inline spans join up.
+  const lines = [...node.childNodes].reduce<string[]>(
+    (result, child) => {
+      const content = (child.textContent ?? '').replace(/\s+/g, ' ');
+      const startsLine =
+        child instanceof Element && (child.hasAttribute('y') || child.hasAttribute('dy'));
+      if (startsLine && result.at(-1)?.trim()) return [...result, content.trim()];
+      result[result.length - 1] += content;
+      return result;
+    },
+    ['']
+  );
+  const text = lines.map((line) => line.trim()).join('\n');
+  if (!text) return undefined;
+  if (node.querySelector('tspan[style], tspan[fill], tspan[font-weight], tspan[font-size]')) {
+    reader.note('styled <tspan> runs (the text keeps one style)');
+  }
+
+  const { rotation: angle, scaleY } = reader.placement(node, matrix);
+  const fontSize = round(style.fontSize * scaleY);
+  const fontWeight = toFontWeight(style.fontWeight);
+  const font = `${fontWeight} ${fontSize}px ${style.fontFamily}`;
+  const width = round(
+    Math.max(...text.split('\n').map((line) => measureTextWidth(line, font))) + 2
+  );
+  const height = round(text.split('\n').length * fontSize);
+
+  // SVG positions text by its anchor on the baseline; elements by their top-left box.
+  const align = TEXT_ALIGNS[style.textAnchor] ?? 'left';
+  const anchorShift = { left: 0, center: width / 2, right: width }[align];
+  const baseline = reader.read(node, 'dominant-baseline');
+  const ascent =
+    baseline === 'middle' || baseline === 'central'
+      ? fontSize / 2
+      : baseline === 'hanging' || baseline === 'text-before-edge'
+        ? 0
+        : fontSize * 0.8;
+  // Text is often positioned by its first span rather than by the element itself.
+  const firstSpan = node.querySelector('tspan');
+  const anchor = {
+    x: reader.length(node.hasAttribute('x') || !firstSpan ? node : firstSpan, 'x'),
+    y: reader.length(node.hasAttribute('y') || !firstSpan ? node : firstSpan, 'y'),
+  };
+  const [a, b] = [Math.cos(toRadians(angle)), Math.sin(toRadians(angle))];
+  const origin = applyMatrix(matrix, anchor.x, anchor.y);
+  const offset = { x: -anchorShift, y: -ascent };
+
+  return {
+    id: createId(),
+    type: 'text',
+    x: round(origin.x + offset.x * a - offset.y * b),
+    y: round(origin.y + offset.x * b + offset.y * a),
+    width,
+    height,
+    rotation: angle,
+    zIndex: 0,
+    opacity: reader.opacity(node, style),
+    text,
+    fontFamily: style.fontFamily,
+    fontSize,
+    fontWeight,
+    fill: style.fill === 'transparent' ? '#000000' : style.fill,
+    align,
+    lineHeight: 1,
+    letterSpacing: 0,
+    sizing: 'fixed',
+  };
+};
+
+const readImage = (
+  reader: SvgReader,
+  node: Element,
+  { matrix, style }: WalkContext
+): ImageElement | undefined => {
+  const src = node.getAttribute('href') ?? node.getAttribute('xlink:href');
+  if (!src) {
+    reader.note('<image> elements without a source');
+    return undefined;
+  }
+  const aspect = node.getAttribute('preserveAspectRatio') ?? '';
+  if (aspect.startsWith('none')) reader.note('stretched images (fitted with "contain")');
+
+  const { rotation: angle, scaleX, scaleY } = reader.placement(node, matrix);
+  const origin = applyMatrix(matrix, reader.length(node, 'x'), reader.length(node, 'y'));
+  return {
+    id: createId(),
+    type: 'image',
+    x: round(origin.x),
+    y: round(origin.y),
+    width: round(reader.length(node, 'width') * scaleX),
+    height: round(reader.length(node, 'height') * scaleY),
+    rotation: angle,
+    zIndex: 0,
+    opacity: reader.opacity(node, style),
+    src,
+    fit: aspect.includes('slice') ? 'cover' : 'contain',
+  };
+};
+
+/** Reads a node's drawable children in document (stacking) order. */
+const readChildren = (reader: SvgReader, parent: Element, context: WalkContext) =>
+  normalizeZIndex(
+    [...parent.children].flatMap((child, index) => {
+      const element = readNode(reader, child, context);
+      return element ? [{ ...element, zIndex: index }] : [];
+    })
+  );
+
+const readNode = (
+  reader: SvgReader,
+  node: Element,
+  parent: WalkContext
+): DesignElement | undefined => {
+  const tag = node.localName;
+  if (IGNORED_TAGS.has(tag)) return undefined;
+  if (reader.read(node, 'display') === 'none' || reader.read(node, 'visibility') === 'hidden') {
+    return undefined;
+  }
+  for (const attribute of ['clip-path', 'mask', 'filter']) {
+    if (node.hasAttribute(attribute)) reader.note(`${attribute} on <${tag}> (ignored)`);
+  }
+
+  const context = {
+    matrix: multiply(parent.matrix, reader.transform(node)),
+    style: reader.style(node, parent.style),
+  };
+
+  switch (tag) {
+    case 'g':
+    case 'a': {
+      const children = readChildren(reader, node, context);
+      if (!children.length) return undefined;
+      // Children are already in the SVG's coordinates, so the group starts at the
+      // origin; refitting moves it onto its content.
+      const group: GroupElement = {
+        id: createId(),
+        type: 'group',
+        x: 0,
+        y: 0,
+        width: 0,
+        height: 0,
+        rotation: 0,
+        zIndex: 0,
+        opacity: round(Number(reader.read(node, 'opacity') ?? 1)),
+        children,
+      };
+      return group;
+    }
+    case 'rect':
+      return readRect(reader, node, context);
+    case 'circle':
+    case 'ellipse':
+      return readCircle(reader, node, context);
+    case 'text':
+      return readText(reader, node, context);
+    case 'image':
+      return readImage(reader, node, context);
+    default:
+      reader.note(UNSUPPORTED_TAG_NOTES[tag] ?? `<${tag}> elements`);
+      return undefined;
+  }
+};
+
+/**
+ * Maps an SVG document's rectangles, circles, text, images and groups onto design
+ * elements, in the SVG's viewport coordinates. Anything without an equivalent is left
+ * out and listed in `unsupported` rather than failing the import.
+ */
+export const parseSvg = (source: string): SvgImportResult => {
+  const parsed = new DOMParser().parseFromString(source, 'image/svg+xml');
+  const root = parsed.documentElement;
+  if (root.localName !== 'svg' || parsed.querySelector('parsererror')) {
+    throw new Error('This file is not a valid SVG document.');
+  }
+
+  const reader = createSvgReader();
+  const viewBox = (root.getAttribute('viewBox') ?? '')
+    .split(/[\s,]+/)
+    .filter(Boolean)
+    .map(Number);
+  const hasViewBox = viewBox.length === 4 && viewBox[2] > 0 && viewBox[3] > 0;
+  const width = reader.length(root, 'width', hasViewBox ? viewBox[2] : 0);
+  const height = reader.length(root, 'height', hasViewBox ? viewBox[3] : 0);
+
+  // Honour the displayed size: map the viewBox onto width × height, keeping its ratio.
+  const matrix: Matrix = hasViewBox
+    ? (() => {
+        const scale = Math.min(width / viewBox[2], height / viewBox[3]) || 1;
+        return [scale, 0, 0, scale, -viewBox[0] * scale, -viewBox[1] * scale];
+      })()
+    : IDENTITY;
+
+  const elements = refitGroups(
+    readChildren(reader, root, { matrix, style: reader.style(root, DEFAULT_STYLE) })
+  );
+  return { elements, width, height, unsupported: reader.getNotes() };
+};
@@ -0,0 +1,78 @@
+import type { Bounds, Point } from '../../../entities/design/lib/geometry';
+
+/** Screen pixels per design unit, plus where the design's origin sits on screen. */
+export interface Viewport {
+  zoom: number;
+  x: number;
+  y: number;
+}
+
+export interface Size {
+  width: number;
+  height: number;
+}
+
+export const MIN_ZOOM = 0.05;
+export const MAX_ZOOM = 8;
+export const ZOOM_PRESETS = [0.5, 1, 2];
+/** Space left around the design when fitting it to the screen. */
+const FIT_PADDING = 32;
+/** Zoom change per pixel of wheel travel. */
+const WHEEL_ZOOM_SPEED = 0.0015;
+/** Steps used by the zoom-in/out buttons and shortcuts. */
+const ZOOM_STEPS = [0.05, 0.1, 0.25, 0.5, 0.75, 1, 1.5, 2, 3, 4, 6, 8];
+
+export const clampZoom = (zoom: number) => Math.min(MAX_ZOOM, Math.max(MIN_ZOOM, zoom));
+
+/** Changes the zoom while keeping the design point under `anchor` (screen space) still. */
+export const zoomAround = (viewport: Viewport, anchor: Point, zoom: number): Viewport => {
+  const nextZoom = clampZoom(zoom);
+  const designPoint = toDesignPoint(viewport, anchor);
+  return {
+    zoom: nextZoom,
+    x: anchor.x - designPoint.x * nextZoom,
+    y: anchor.y - designPoint.y * nextZoom,
+  };
+};
+
+export const zoomByWheel = (viewport: Viewport, anchor: Point, deltaY: number) =>
+  zoomAround(viewport, anchor, viewport.zoom * Math.exp(-deltaY * WHEEL_ZOOM_SPEED));
+
+/** The next preset step above (`direction` 1) or below (-1) the current zoom. */
+export const stepZoom = (zoom: number, direction: 1 | -1) =>
+  direction > 0
+    ? (ZOOM_STEPS.find((step) => step > zoom + 0.001) ?? MAX_ZOOM)
+    : ([...ZOOM_STEPS].reverse().find((step) => step < zoom - 0.001) ?? MIN_ZOOM);
+
+/** Centres `bounds` in the screen at the given zoom. */
+export const centerOn = (bounds: Bounds, screen: Size, zoom: number): Viewport => ({
+  zoom,
+  x: (screen.width - bounds.width * zoom) / 2 - bounds.x * zoom,
+  y: (screen.height - bounds.height * zoom) / 2 - bounds.y * zoom,
+});
+
+/** The largest zoom (up to 100%) that shows the whole of `bounds`, centred. */
+export const fitToScreen = (bounds: Bounds, screen: Size): Viewport => {
+  const zoom = clampZoom(
+    Math.min(
+      1,
+      (screen.width - FIT_PADDING * 2) / Math.max(bounds.width, 1),
+      (screen.height - FIT_PADDING * 2) / Math.max(bounds.height, 1)
+    )
+  );
+  return centerOn(bounds, screen, zoom);
+};
+
+export const toDesignPoint = (viewport: Viewport, screenPoint: Point): Point => ({
+  x: (screenPoint.x - viewport.x) / viewport.zoom,
+  y: (screenPoint.y - viewport.y) / viewport.zoom,
+});
+
+/** The part of the design currently on screen, in design units. */
+export const getVisibleBounds = (viewport: Viewport, screen: Size): Bounds => ({
+  ...toDesignPoint(viewport, { x: 0, y: 0 }),
+  width: screen.width / viewport.zoom,
+  height: screen.height / viewport.zoom,
+});
+
+export const formatZoom = (zoom: number) => `${Math.round(zoom * 100)}%`;
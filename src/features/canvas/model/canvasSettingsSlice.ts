@@ -0,0 +1,36 @@
+import { createSlice, type PayloadAction } from '@reduxjs/toolkit';
+
+/** How the canvas helps with precise placement; shared by every design. */
+export interface CanvasSettings {
+  /** Snap moved elements to other elements, the design bounds and ruler guides. */
+  snapToObjects: boolean;
+  showGrid: boolean;
+  snapToGrid: boolean;
+  /** Grid spacing in design units. */
+  gridSize: number;
+  showRulers: boolean;
+}
+
+export const MIN_GRID_SIZE = 2;
+
+const initialState: CanvasSettings = {
+  snapToObjects: true,
+  showGrid: false,
+  snapToGrid: false,
+  gridSize: 8,
+  showRulers: true,
+};
+
+const canvasSettingsSlice = createSlice({
+  name: 'canvasSettings',
+  initialState,
+  reducers: {
+    canvasSettingsChanged(state, action: PayloadAction<Partial<CanvasSettings>>) {
+      Object.assign(state, action.payload);
+      state.gridSize = Math.max(MIN_GRID_SIZE, Math.round(state.gridSize));
+    },
+  },
+});
+
+export const { canvasSettingsChanged } = canvasSettingsSlice.actions;
+export default canvasSettingsSlice.reducer;
@@ -0,0 +1,165 @@
+import type { AppThunk, RootState } from '../../../app/store';
+import {
+  cloneWithNewIds,
+  findElementLocation,
+  isContainerElement,
+  sortByZIndex,
+} from '../../../entities/design/lib/elementTree';
+import { getElementBounds, unionBounds, type Point } from '../../../entities/design/lib/geometry';
+import { CURRENT_SCHEMA_VERSION } from '../../../entities/design/model/schema';
+import { addElements, deleteElements, insertElements } from '../../../entities/design/model/slice';
+import type { Design, DesignElement } from '../../../entities/design/model/types';
+import { toDetachedElement, type ClipboardPayload } from '../lib/clipboard';
+import { createTextElement, getNextZIndex } from '../lib/elementFactory';
+import { setSelection } from './selectionSlice';
+
+/** How far pastes and duplicates land from the original, so they are visibly new. */
+const PASTE_OFFSET = 16;
+
+const getActiveDesign = (state: RootState) =>
+  state.design.items.find((item) => item._id === state.design.activeDesignId);
+
+/** Every element id, bottom-most first, in the order the canvas paints them. */
+const getPaintOrder = (elements: DesignElement[]): string[] =>
+  sortByZIndex(elements).flatMap((element) => [
+    element.id,
+    ...(isContainerElement(element) ? getPaintOrder(element.children) : []),
+  ]);
+
+/**
+ * The selected layers in paint order, minus any inside another selected layer: those
+ * already come along with their container.
+ */
+const getSelectedLocations = (design: Design, selectedIds: string[]) => {
+  const order = getPaintOrder(design.elements);
+  return selectedIds
+    .flatMap((id) => findElementLocation(design.elements, id) ?? [])
+    .filter(({ ancestors }) => !ancestors.some((ancestor) => selectedIds.includes(ancestor.id)))
+    .sort((a, b) => order.indexOf(a.element.id) - order.indexOf(b.element.id));
+};
+
+/** Builds the clipboard payload for the current selection; nothing is written here. */
+export const copySelection =
+  (): AppThunk<ClipboardPayload | undefined> => (_dispatch, getState) => {
+    const state = getState();
+    const design = getActiveDesign(state);
+    if (!design) return undefined;
+    const locations = getSelectedLocations(design, state.selection.selectedIds);
+    if (!locations.length) return undefined;
+    return {
+      schemaVersion: CURRENT_SCHEMA_VERSION,
+      designId: design._id,
+      elements: locations.map((location, zIndex) => ({ ...toDetachedElement(location), zIndex })),
+    };
+  };
+
+/** Copies the selection, then removes the unlocked part of it as one undo step. */
+export const cutSelection = (): AppThunk<ClipboardPayload | undefined> => (dispatch, getState) => {
+  const payload = dispatch(copySelection());
+  const state = getState();
+  const design = getActiveDesign(state);
+  if (!payload || !design) return payload;
+  const elementIds = getSelectedLocations(design, state.selection.selectedIds)
+    .filter(({ element }) => !element.locked)
+    .map(({ element }) => element.id);
+  if (elementIds.length) dispatch(deleteElements({ designId: design._id, elementIds }));
+  dispatch(setSelection([]));
+  return payload;
+};
+
+/**
+ * Where pasted layers go. They keep their copied position, recentred first if they came
+ * from another design and would not fit this one, then step diagonally past any earlier
+ * paste still sitting there, so repeated pastes fan out instead of stacking.
+ */
+const getPasteOffset = (design: Design, payload: ClipboardPayload): Point => {
+  const bounds = unionBounds(payload.elements.map((element) => getElementBounds(element)));
+  const offset = { x: 0, y: 0 };
+  const fits =
+    bounds &&
+    bounds.x >= 0 &&
+    bounds.y >= 0 &&
+    bounds.x + bounds.width <= design.width &&
+    bounds.y + bounds.height <= design.height;
+  if (bounds && !fits && payload.designId !== design._id) {
+    offset.x = Math.round((design.width - bounds.width) / 2 - bounds.x);
+    offset.y = Math.round((design.height - bounds.height) / 2 - bounds.y);
+  }
+
+  const [first] = payload.elements;
+  const isTaken = (step: number) =>
+    design.elements.some(
+      (element) =>
+        element.type === first.type &&
+        element.x === first.x + offset.x + step * PASTE_OFFSET &&
+        element.y === first.y + offset.y + step * PASTE_OFFSET
+    );
+  let step = 0;
+  while (isTaken(step)) step += 1;
+  return { x: offset.x + step * PASTE_OFFSET, y: offset.y + step * PASTE_OFFSET };
+};
+
+/** Pastes copied layers on top of the active design with fresh ids, and selects them. */
+export const pasteElements =
+  (payload: ClipboardPayload): AppThunk =>
+  (dispatch, getState) => {
+    const design = getActiveDesign(getState());
+    if (!design) return;
+    const offset = getPasteOffset(design, payload);
+    const zIndex = getNextZIndex(design);
+    const elements = payload.elements.map((element, index) => ({
+      ...cloneWithNewIds(element),
+      x: element.x + offset.x,
+      y: element.y + offset.y,
+      zIndex: zIndex + index,
+    }));
+    dispatch(addElements({ designId: design._id, elements }));
+    dispatch(setSelection(elements.map((element) => element.id)));
+  };
+
+/** Pastes plain text from another app as a new text element in the middle of the design. */
+export const pasteText =
+  (text: string): AppThunk =>
+  (dispatch, getState) => {
+    const design = getActiveDesign(getState());
+    if (!design || !text.trim()) return;
+    const element = createTextElement({
+      text,
+      center: { x: design.width / 2, y: design.height / 2 },
+      design,
+      zIndex: getNextZIndex(design),
+    });
+    dispatch(addElements({ designId: design._id, elements: [element] }));
+    dispatch(setSelection([element.id]));
+  };
+
+/** Copies each element into its own container, directly above or below it. */
+const insertCopies =
+  (elementIds: string[], offset: number, placement: 'above' | 'below'): AppThunk<string[]> =>
+  (dispatch, getState) => {
+    const design = getActiveDesign(getState());
+    if (!design) return [];
+    const insertions = getSelectedLocations(design, elementIds).map(({ element }) => ({
+      element: { ...cloneWithNewIds(element), x: element.x + offset, y: element.y + offset },
+      nextToId: element.id,
+      placement,
+    }));
+    if (insertions.length) dispatch(insertElements({ designId: design._id, insertions }));
+    return insertions.map(({ element }) => element.id);
+  };
+
+/** Ctrl/⌘+D: duplicates the selection just above and beside itself, and selects the copies. */
+export const duplicateSelection = (): AppThunk => (dispatch, getState) => {
+  const copyIds = dispatch(insertCopies(getState().selection.selectedIds, PASTE_OFFSET, 'above'));
+  if (copyIds.length) dispatch(setSelection(copyIds));
+};
+
+/**
+ * Alt-dragging duplicates: a copy stays behind, underneath, while the original (and
+ * the selection) moves on with the pointer.
+ */
+export const leaveCopiesBehind =
+  (elementIds: string[]): AppThunk =>
+  (dispatch) => {
+    dispatch(insertCopies(elementIds, 0, 'below'));
+  };
@@ -0,0 +1,52 @@
+import type { AppThunk } from '../../../app/store';
+import { findElementLocation } from '../../../entities/design/lib/elementTree';
+import { toLocalDelta, type Point } from '../../../entities/design/lib/geometry';
+import { deleteElements, updateElements } from '../../../entities/design/model/slice';
+import { setSelection } from './selectionSlice';
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+/** Removes the selected, unlocked layers as one undo step. */
+export const deleteSelection = (): AppThunk => (dispatch, getState) => {
+  const state = getState();
+  const design = state.design.items.find((item) => item._id === state.design.activeDesignId);
+  if (!design) return;
+  const elementIds = state.selection.selectedIds.filter((id) => {
+    const element = findElementLocation(design.elements, id)?.element;
+    return element && !element.locked;
+  });
+  if (!elementIds.length) return;
+  dispatch(deleteElements({ designId: design._id, elementIds }));
+  dispatch(setSelection(state.selection.selectedIds.filter((id) => !elementIds.includes(id))));
+};
+
+/**
+ * Moves the selected, unlocked layers by `delta` on screen axes, whatever the rotation
+ * of the containers they sit in. Repeated nudges merge into one undo step.
+ */
+export const nudgeSelection =
+  (delta: Point): AppThunk =>
+  (dispatch, getState) => {
+    const state = getState();
+    const design = state.design.items.find((item) => item._id === state.design.activeDesignId);
+    if (!design) return;
+    const { selectedIds } = state.selection;
+    const elements = selectedIds.flatMap((id) => {
+      const location = findElementLocation(design.elements, id);
+      if (!location || location.element.locked) return [];
+      // A layer inside another selected layer already moves with it.
+      if (location.ancestors.some((ancestor) => selectedIds.includes(ancestor.id))) return [];
+      const local = toLocalDelta(delta, location.ancestors);
+      const { element } = location;
+      return [{ ...element, x: round(element.x + local.x), y: round(element.y + local.y) }];
+    });
+    if (elements.length) dispatch(updateElements({ designId: design._id, elements }));
+  };
+
+/** Selects every visible top-level layer, like a marquee over the whole design. */
+export const selectAll = (): AppThunk => (dispatch, getState) => {
+  const state = getState();
+  const design = state.design.items.find((item) => item._id === state.design.activeDesignId);
+  if (!design) return;
+  dispatch(setSelection(design.elements.filter((element) => !element.hidden).map(({ id }) => id)));
+};
@@ -0,0 +1,51 @@
+import type { AppThunk } from '../../../app/store';
+import { findElementLocation, isContainerElement } from '../../../entities/design/lib/elementTree';
+import { unwrapContainers, wrapInContainer } from '../../../entities/design/model/slice';
+import type { ContainerElement } from '../../../entities/design/model/types';
+import { setSelection } from './selectionSlice';
+
+/**
+ * Wraps the selected layers in a new group or frame and selects it. Only layers that
+ * share a parent with the first selected one can be wrapped together.
+ */
+export const wrapSelection =
+  (type: ContainerElement['type']): AppThunk =>
+  (dispatch, getState) => {
+    const state = getState();
+    const design = state.design.items.find((item) => item._id === state.design.activeDesignId);
+    const [firstId] = state.selection.selectedIds;
+    const first = design && firstId ? findElementLocation(design.elements, firstId) : undefined;
+    if (!design || !first) return;
+
+    const elementIds = state.selection.selectedIds.filter((id) =>
+      first.siblings.some((element) => element.id === id && !element.locked)
+    );
+    if (!elementIds.length) return;
+
+    const containerId = crypto.randomUUID();
+    dispatch(wrapInContainer({ designId: design._id, elementIds, containerId, type }));
+    dispatch(setSelection([containerId]));
+  };
+
+/** Dissolves every selected group or frame and selects what was inside them. */
+export const unwrapSelection = (): AppThunk => (dispatch, getState) => {
+  const state = getState();
+  const design = state.design.items.find((item) => item._id === state.design.activeDesignId);
+  if (!design) return;
+
+  const containers = state.selection.selectedIds.flatMap((id) => {
+    const element = findElementLocation(design.elements, id)?.element;
+    return element && isContainerElement(element) && !element.locked ? [element] : [];
+  });
+  if (!containers.length) return;
+
+  dispatch(
+    unwrapContainers({
+      designId: design._id,
+      elementIds: containers.map((container) => container.id),
+    })
+  );
+  dispatch(
+    setSelection(containers.flatMap((container) => container.children.map((child) => child.id)))
+  );
+};
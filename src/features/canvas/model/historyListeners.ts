@@ -0,0 +1,79 @@
+import { startAppListening } from '../../../app/listenerMiddleware';
+import { flattenElements } from '../../../entities/design/lib/elementTree';
+import { isElementMutation } from '../../../entities/design/model/slice';
+import type { DesignElement } from '../../../entities/design/model/types';
+import { pushSnapshot } from './historySlice';
+
+const isSameValue = (a: unknown, b: unknown) =>
+  a === b || (typeof a === 'object' && JSON.stringify(a) === JSON.stringify(b));
+
+/**
+ * Summarises which element properties changed between two snapshots. Returns `null`
+ * for a no-op, and no merge key when elements were added or removed, since those
+ * should always be their own undo step.
+ */
+const describeChange = (previousTree: DesignElement[], nextTree: DesignElement[]) => {
+  // Nested edits are attributed to the element itself, not every container above it.
+  const previous = flattenElements(previousTree);
+  const next = flattenElements(nextTree);
+  const previousById = new Map(previous.map((element) => [element.id, element]));
+  if (previous.length !== next.length || next.some((el) => !previousById.has(el.id))) {
+    return { mergeKey: undefined };
+  }
+
+  const changes = next.flatMap((element) => {
+    const before = previousById.get(element.id) as Record<string, unknown> | undefined;
+    const after = element as unknown as Record<string, unknown>;
+    const keys = Object.keys({ ...before, ...after })
+      .filter((key) => key !== 'children' && !isSameValue(before?.[key], after[key]))
+      .sort();
+    return keys.length ? [`${element.id}:${keys.join(',')}`] : [];
+  });
+
+  return changes.length ? { mergeKey: changes.join('|') } : null;
+};
+
+export const registerHistoryListeners = () =>
+  startAppListening({
+    matcher: isElementMutation,
+    effect: (action, listenerApi) => {
+      const { designId } = action.payload;
+      const previous = listenerApi
+        .getOriginalState()
+        .design.items.find((design) => design._id === designId);
+      const next = listenerApi.getState().design.items.find((design) => design._id === designId);
+      if (!previous || !next) return;
+
+      // A resize (or guides swapped with the layers) is always its own step, and keeps
+      // the frame it is undone back to.
+      const isReframed =
+        previous.width !== next.width ||
+        previous.height !== next.height ||
+        previous.guides !== next.guides;
+      if (isReframed) {
+        const { width, height, guides } = previous;
+        listenerApi.dispatch(
+          pushSnapshot({
+            designId,
+            snapshot: previous.elements,
+            frame: { width, height, guides },
+            timestamp: new Date().toISOString(),
+          })
+        );
+        return;
+      }
+      if (previous.elements === next.elements) return;
+
+      const change = describeChange(previous.elements, next.elements);
+      if (!change) return;
+
+      listenerApi.dispatch(
+        pushSnapshot({
+          designId,
+          snapshot: previous.elements,
+          timestamp: new Date().toISOString(),
+          mergeKey: change.mergeKey,
+        })
+      );
+    },
+  });
@@ -0,0 +1,105 @@
+import { describe, expect, it } from 'vitest';
+
+import designReducer, {
+  applyRemoteOperations,
+  restoreElements,
+  updateElement,
+  upsertDesign,
+} from '../../../entities/design/model/slice';
+import type { RectElement } from '../../../entities/design/model/types';
+import historyReducer, { pushSnapshot, redo, undo } from './historySlice';
+
+const rect: RectElement = {
+  id: 'rect-1',
+  type: 'rect',
+  x: 0,
+  y: 0,
+  width: 100,
+  height: 100,
+  rotation: 0,
+  zIndex: 0,
+  opacity: 1,
+  fill: '#000000',
+  stroke: '#ffffff',
+  strokeWidth: 0,
+  radius: 0,
+};
+
+const designId = 'design-1';
+
+describe('history', () => {
+  it('keeps a collaborator edit to another property when undoing a local edit', () => {
+    let design = designReducer(
+      undefined,
+      upsertDesign({
+        _id: designId,
+        name: 'Card',
+        width: 500,
+        height: 500,
+        elements: [rect],
+        createdAt: '2026-01-01T00:00:00.000Z',
+        updatedAt: '2026-01-01T00:00:00.000Z',
+      })
+    );
+    const elementsOf = () => design.items.find((item) => item._id === designId)?.elements ?? [];
+
+    // Local edit to x, recorded the way the history listener records it.
+    let history = historyReducer(
+      undefined,
+      pushSnapshot({ designId, snapshot: elementsOf(), timestamp: new Date().toISOString() })
+    );
+    design = designReducer(design, updateElement({ designId, element: { ...rect, x: 50 } }));
+
+    const remoteEdit = applyRemoteOperations({
+      designId,
+      operations: [{ kind: 'update', elementId: rect.id, props: { fill: '#ff0000' } }],
+    });
+    design = designReducer(design, remoteEdit);
+    history = historyReducer(history, remoteEdit);
+
+    // What `undoDesign` does.
+    const entry = history.byDesignId[designId].past.at(-1);
+    history = historyReducer(history, undo({ designId, current: elementsOf() }));
+    design = designReducer(design, restoreElements({ designId, elements: entry?.snapshot ?? [] }));
+
+    expect(elementsOf()).toEqual([{ ...rect, fill: '#ff0000' }]);
+    expect(history.byDesignId[designId].future[0].snapshot).toEqual([
+      { ...rect, x: 50, fill: '#ff0000' },
+    ]);
+  });
+
+  it('leaves snapshots of other designs alone', () => {
+    const state = historyReducer(
+      historyReducer(
+        undefined,
+        pushSnapshot({ designId, snapshot: [rect], timestamp: new Date().toISOString() })
+      ),
+      applyRemoteOperations({
+        designId: 'design-2',
+        operations: [{ kind: 'delete', elementId: rect.id }],
+      })
+    );
+
+    expect(state.byDesignId[designId].past[0].snapshot).toEqual([rect]);
+  });
+
+  it('keeps the canvas size on resize steps only', () => {
+    const timestamp = new Date().toISOString();
+    const small = { width: 500, height: 500 };
+    const large = { width: 1000, height: 1000 };
+    let state = historyReducer(
+      undefined,
+      pushSnapshot({ designId, snapshot: [rect], frame: small, timestamp })
+    );
+    state = historyReducer(state, pushSnapshot({ designId, snapshot: [rect], timestamp }));
+
+    state = historyReducer(state, undo({ designId, current: [rect], frame: large }));
+    expect(state.byDesignId[designId].future[0].frame).toBeUndefined();
+
+    state = historyReducer(state, undo({ designId, current: [rect], frame: large }));
+    expect(state.byDesignId[designId].future[0].frame).toEqual(large);
+
+    state = historyReducer(state, redo({ designId, current: [rect], frame: small }));
+    expect(state.byDesignId[designId].past.at(-1)?.frame).toEqual(small);
+  });
+});
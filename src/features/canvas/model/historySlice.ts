@@ -1,21 +1,41 @@
 import { createSlice, type PayloadAction } from '@reduxjs/toolkit';
 
-import type { DesignElement } from '../../../entities/design/model/types';
+import { refitGroups } from '../../../entities/design/lib/grouping';
+import { applyOperations } from '../../../entities/design/lib/operations';
+import { applyRemoteOperations } from '../../../entities/design/model/slice';
+import type { DesignElement, DesignFrame } from '../../../entities/design/model/types';
+
+export const MAX_HISTORY_ENTRIES = 100;
+export const HISTORY_MERGE_WINDOW_MS = 1000;
 
 export interface HistoryEntry {
   designId: string;
   snapshot: DesignElement[];
+  /** The canvas the snapshot was laid out on; only kept by steps that resized it. */
+  frame?: DesignFrame;
   timestamp: string;
+  /** Consecutive entries sharing a key inside the merge window collapse into one step. */
+  mergeKey?: string;
 }
 
-interface HistoryState {
+interface DesignHistory {
   past: HistoryEntry[];
   future: HistoryEntry[];
 }
 
+interface HistoryState {
+  byDesignId: Record<string, DesignHistory>;
+}
+
 const initialState: HistoryState = {
-  past: [],
-  future: [],
+  byDesignId: {},
+};
+
+const getDesignHistory = (state: HistoryState, designId: string) => {
+  if (!state.byDesignId[designId]) {
+    state.byDesignId[designId] = { past: [], future: [] };
+  }
+  return state.byDesignId[designId];
 };
 
 const historySlice = createSlice({
@@ -23,28 +43,79 @@ const historySlice = createSlice({
   initialState,
   reducers: {
     pushSnapshot(state, action: PayloadAction<HistoryEntry>) {
-      state.past.push(action.payload);
-      state.future = [];
+      const entry = action.payload;
+      const history = getDesignHistory(state, entry.designId);
+      const last = history.past[history.past.length - 1];
+      history.future = [];
+
+      const canMerge =
+        last &&
+        entry.mergeKey !== undefined &&
+        last.mergeKey === entry.mergeKey &&
+        Date.parse(entry.timestamp) - Date.parse(last.timestamp) <= HISTORY_MERGE_WINDOW_MS;
+      if (canMerge) {
+        // Keep the older snapshot so one undo rewinds the whole burst.
+        last.timestamp = entry.timestamp;
+        return;
+      }
+
+      history.past.push(entry);
+      if (history.past.length > MAX_HISTORY_ENTRIES) {
+        history.past.splice(0, history.past.length - MAX_HISTORY_ENTRIES);
+      }
     },
-    undo(state) {
-      const entry = state.past.pop();
+    undo(
+      state,
+      action: PayloadAction<{ designId: string; current: DesignElement[]; frame?: DesignFrame }>
+    ) {
+      const { designId, current, frame } = action.payload;
+      const history = getDesignHistory(state, designId);
+      const entry = history.past.pop();
       if (entry) {
-        state.future.unshift(entry);
+        history.future.unshift({
+          designId,
+          snapshot: current,
+          frame: entry.frame && frame,
+          timestamp: new Date().toISOString(),
+        });
       }
     },
-    redo(state) {
-      const entry = state.future.shift();
+    redo(
+      state,
+      action: PayloadAction<{ designId: string; current: DesignElement[]; frame?: DesignFrame }>
+    ) {
+      const { designId, current, frame } = action.payload;
+      const history = getDesignHistory(state, designId);
+      const entry = history.future.shift();
       if (entry) {
-        state.past.push(entry);
+        history.past.push({
+          designId,
+          snapshot: current,
+          frame: entry.frame && frame,
+          timestamp: new Date().toISOString(),
+        });
       }
     },
-    clearHistory(state) {
-      state.past = [];
-      state.future = [];
+    clearHistory(state, action: PayloadAction<string | undefined>) {
+      if (action.payload) {
+        delete state.byDesignId[action.payload];
+      } else {
+        state.byDesignId = {};
+      }
     },
   },
+  extraReducers: (builder) => {
+    // Collaborators' edits are replayed onto every stored snapshot, so undo and redo only
+    // take back this tab's own changes instead of reverting theirs too.
+    builder.addCase(applyRemoteOperations, (state, action) => {
+      const history = state.byDesignId[action.payload.designId];
+      if (!history) return;
+      [...history.past, ...history.future].forEach((entry) => {
+        entry.snapshot = refitGroups(applyOperations(entry.snapshot, action.payload.operations));
+      });
+    });
+  },
 });
 
 export const { pushSnapshot, undo, redo, clearHistory } = historySlice.actions;
 export default historySlice.reducer;
-
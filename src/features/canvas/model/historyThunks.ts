@@ -0,0 +1,30 @@
+import type { AppThunk } from '../../../app/store';
+import { restoreElements } from '../../../entities/design/model/slice';
+import { redo, undo } from './historySlice';
+import { selectLastPastEntry, selectNextFutureEntry } from './selectors';
+
+export const undoDesign =
+  (designId: string): AppThunk =>
+  (dispatch, getState) => {
+    const state = getState();
+    const entry = selectLastPastEntry(state, designId);
+    const design = state.design.items.find((item) => item._id === designId);
+    if (!entry || !design) return;
+
+    const { width, height, guides } = design;
+    dispatch(undo({ designId, current: design.elements, frame: { width, height, guides } }));
+    dispatch(restoreElements({ designId, elements: entry.snapshot, frame: entry.frame }));
+  };
+
+export const redoDesign =
+  (designId: string): AppThunk =>
+  (dispatch, getState) => {
+    const state = getState();
+    const entry = selectNextFutureEntry(state, designId);
+    const design = state.design.items.find((item) => item._id === designId);
+    if (!entry || !design) return;
+
+    const { width, height, guides } = design;
+    dispatch(redo({ designId, current: design.elements, frame: { width, height, guides } }));
+    dispatch(restoreElements({ designId, elements: entry.snapshot, frame: entry.frame }));
+  };
@@ -0,0 +1,50 @@
+import type { AppThunk } from '../../../app/store';
+import type { Point } from '../../../entities/design/lib/geometry';
+import { addElements } from '../../../entities/design/model/slice';
+import type { ImageElement } from '../../../entities/design/model/types';
+import { isImageFile } from '../../../shared/lib/file';
+import { designsApi } from '../../designs/api/designsApi';
+import { createImageElement, getNextZIndex } from '../lib/elementFactory';
+import { loadImage } from '../lib/imageCache';
+import { setSelection } from './selectionSlice';
+
+/** Offset between several images dropped or pasted at once, so none hides another. */
+const CASCADE_OFFSET = 24;
+
+/**
+ * Uploads image files, adds them to the design centred on `position` (or the design's
+ * centre) as a single undo step, and selects them. Rejects with a readable message.
+ */
+export const insertImageFiles =
+  (designId: string, files: File[], position?: Point): AppThunk<Promise<void>> =>
+  async (dispatch, getState) => {
+    const images = files.filter(isImageFile);
+    if (!images.length) throw new Error('Only image files can be added to a design.');
+
+    const uploaded = await Promise.all(
+      images.map(async (file) => {
+        const asset = await dispatch(
+          designsApi.endpoints.uploadAsset.initiate({ designId, file })
+        ).unwrap();
+        return { src: asset.url, image: await loadImage(asset.url) };
+      })
+    );
+
+    const design = getState().design.items.find((item) => item._id === designId);
+    if (!design) return;
+
+    const center = position ?? { x: design.width / 2, y: design.height / 2 };
+    const zIndex = getNextZIndex(design);
+    const elements: ImageElement[] = uploaded.map(({ src, image }, index) =>
+      createImageElement({
+        src,
+        naturalSize: { width: image.naturalWidth, height: image.naturalHeight },
+        center: { x: center.x + index * CASCADE_OFFSET, y: center.y + index * CASCADE_OFFSET },
+        design,
+        zIndex: zIndex + index,
+      })
+    );
+
+    dispatch(addElements({ designId, elements }));
+    dispatch(setSelection(elements.map((element) => element.id)));
+  };
@@ -0,0 +1,59 @@
+import type { AppThunk } from '../../../app/store';
+import { findElementLocation } from '../../../entities/design/lib/elementTree';
+import {
+  arrangeElements,
+  moveElementNextTo,
+  type ArrangeCommand,
+} from '../../../entities/design/lib/ordering';
+import { updateElements } from '../../../entities/design/model/slice';
+import type { DesignElement } from '../../../entities/design/model/types';
+
+/** The elements `next` replaced in `siblings`, i.e. the ones whose zIndex changed. */
+const getChanged = (siblings: DesignElement[], next: DesignElement[]) =>
+  next.filter((element) => !siblings.includes(element));
+
+/**
+ * Moves the selected, unlocked layers forward, backward, to the front or to the back
+ * among their siblings. Selected layers in different containers are arranged
+ * separately within each.
+ */
+export const arrangeSelection =
+  (command: ArrangeCommand): AppThunk =>
+  (dispatch, getState) => {
+    const state = getState();
+    const design = state.design.items.find((item) => item._id === state.design.activeDesignId);
+    if (!design) return;
+
+    const byParent = new Map<string, { siblings: DesignElement[]; ids: string[] }>();
+    state.selection.selectedIds.forEach((id) => {
+      const location = findElementLocation(design.elements, id);
+      if (!location || location.element.locked) return;
+      const parentId = location.ancestors.at(-1)?.id ?? '';
+      const entry = byParent.get(parentId) ?? { siblings: location.siblings, ids: [] };
+      entry.ids.push(id);
+      byParent.set(parentId, entry);
+    });
+
+    const changed = [...byParent.values()].flatMap(({ siblings, ids }) =>
+      getChanged(siblings, arrangeElements(siblings, ids, command))
+    );
+    if (changed.length) dispatch(updateElements({ designId: design._id, elements: changed }));
+  };
+
+/** Drops a layer directly above or below a sibling; layers in other containers are ignored. */
+export const moveLayer =
+  (elementId: string, targetId: string, placement: 'above' | 'below'): AppThunk =>
+  (dispatch, getState) => {
+    const state = getState();
+    const design = state.design.items.find((item) => item._id === state.design.activeDesignId);
+    const location = design ? findElementLocation(design.elements, elementId) : undefined;
+    if (!design || !location || !location.siblings.some((sibling) => sibling.id === targetId)) {
+      return;
+    }
+
+    const changed = getChanged(
+      location.siblings,
+      moveElementNextTo(location.siblings, elementId, targetId, placement)
+    );
+    if (changed.length) dispatch(updateElements({ designId: design._id, elements: changed }));
+  };
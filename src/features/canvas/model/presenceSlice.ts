@@ -1,35 +1,46 @@
 import { createSlice, type PayloadAction } from '@reduxjs/toolkit';
 
 export interface CollaboratorPresence {
+  /** One per browser tab, so the same user in two tabs shows up twice. */
   id: string;
+  userId?: string;
   name: string;
   color: string;
+  /** Pointer position in design coordinates; absent while off the canvas. */
   cursor?: { x: number; y: number };
+  selectedIds?: string[];
   lastActiveAt: string;
 }
 
 interface PresenceState {
   collaborators: Record<string, CollaboratorPresence>;
-  isConnected: boolean;
+  /** When each collaborator was last heard from, by this client's clock. */
+  lastSeenAt: Record<string, number>;
 }
 
 const initialState: PresenceState = {
   collaborators: {},
-  isConnected: false,
+  lastSeenAt: {},
 };
 
 const presenceSlice = createSlice({
   name: 'presence',
   initialState,
   reducers: {
-    setConnectionState(state, action: PayloadAction<boolean>) {
-      state.isConnected = action.payload;
-    },
-    upsertCollaborator(state, action: PayloadAction<CollaboratorPresence>) {
-      state.collaborators[action.payload.id] = action.payload;
+    upsertCollaborator: {
+      reducer(state, action: PayloadAction<CollaboratorPresence, string, { receivedAt: number }>) {
+        state.collaborators[action.payload.id] = action.payload;
+        state.lastSeenAt[action.payload.id] = action.meta.receivedAt;
+      },
+      // Remote clocks drift, so idleness is measured from when we received the update.
+      prepare: (presence: CollaboratorPresence) => ({
+        payload: presence,
+        meta: { receivedAt: Date.now() },
+      }),
     },
     removeCollaborator(state, action: PayloadAction<string>) {
       delete state.collaborators[action.payload];
+      delete state.lastSeenAt[action.payload];
     },
     resetPresence() {
       return initialState;
@@ -37,7 +48,6 @@ const presenceSlice = createSlice({
   },
 });
 
-export const { setConnectionState, upsertCollaborator, removeCollaborator, resetPresence } =
-  presenceSlice.actions;
+export const { upsertCollaborator, removeCollaborator, resetPresence } = presenceSlice.actions;
 export default presenceSlice.reducer;
 
@@ -0,0 +1,44 @@
+import { createSlice, type PayloadAction } from '@reduxjs/toolkit';
+
+import { setActiveDesignId } from '../../../entities/design/model/slice';
+
+interface SelectionState {
+  selectedIds: string[];
+}
+
+const initialState: SelectionState = {
+  selectedIds: [],
+};
+
+const selectionSlice = createSlice({
+  name: 'selection',
+  initialState,
+  reducers: {
+    setSelection(state, action: PayloadAction<string[]>) {
+      state.selectedIds = action.payload;
+    },
+    toggleSelection(state, action: PayloadAction<string>) {
+      const id = action.payload;
+      state.selectedIds = state.selectedIds.includes(id)
+        ? state.selectedIds.filter((selectedId) => selectedId !== id)
+        : [...state.selectedIds, id];
+    },
+    addToSelection(state, action: PayloadAction<string[]>) {
+      action.payload.forEach((id) => {
+        if (!state.selectedIds.includes(id)) state.selectedIds.push(id);
+      });
+    },
+    clearSelection(state) {
+      state.selectedIds = [];
+    },
+  },
+  extraReducers: (builder) => {
+    builder.addCase(setActiveDesignId, (state) => {
+      state.selectedIds = [];
+    });
+  },
+});
+
+export const { setSelection, toggleSelection, addToSelection, clearSelection } =
+  selectionSlice.actions;
+export default selectionSlice.reducer;
@@ -0,0 +1,70 @@
+import { createSelector } from '@reduxjs/toolkit';
+
+import type { RootState } from '../../../app/store';
+import { selectActiveElementsById } from '../../../entities/design/model/selectors';
+import type { CollaboratorPresence } from './presenceSlice';
+
+export interface RemoteCollaborator extends CollaboratorPresence {
+  /** Local timestamp (ms) of the collaborator's latest update. */
+  lastSeenAt: number;
+}
+
+const selectDesignHistory = (state: RootState, designId?: string) =>
+  designId ? state.history.byDesignId[designId] : undefined;
+
+export const selectCanUndo = (state: RootState, designId?: string) =>
+  Boolean(selectDesignHistory(state, designId)?.past.length);
+
+export const selectCanRedo = (state: RootState, designId?: string) =>
+  Boolean(selectDesignHistory(state, designId)?.future.length);
+
+export const selectLastPastEntry = (state: RootState, designId: string) =>
+  selectDesignHistory(state, designId)?.past.at(-1);
+
+export const selectNextFutureEntry = (state: RootState, designId: string) =>
+  selectDesignHistory(state, designId)?.future[0];
+
+export const selectConnectionStatus = (state: RootState) => state.sync.connection;
+
+export const selectPendingChangeCount = (state: RootState, designId?: string) =>
+  designId ? (state.sync.byDesignId[designId]?.pending.length ?? 0) : 0;
+
+export const selectViewport = (state: RootState, designId?: string) =>
+  designId ? state.viewport.byDesignId[designId] : undefined;
+
+const selectRawSelectedIds = (state: RootState) => state.selection.selectedIds;
+
+/**
+ * Selected elements of the active design at any depth, in selection order; stale ids
+ * are dropped.
+ */
+export const selectSelectedElements = createSelector(
+  [selectActiveElementsById, selectRawSelectedIds],
+  (elementsById, selectedIds) =>
+    selectedIds.flatMap((id) => {
+      const element = elementsById.get(id);
+      return element ? [element] : [];
+    })
+);
+
+const isSameIdList = (a: string[], b: string[]) =>
+  a.length === b.length && a.every((id, index) => id === b[index]);
+
+export const selectSelectedIds = createSelector(
+  [selectSelectedElements],
+  (elements) => elements.map((element) => element.id),
+  // Element edits recreate the element objects; keep the id list stable across them.
+  { memoizeOptions: { resultEqualityCheck: isSameIdList } }
+);
+
+export const selectRemoteCollaborators = createSelector(
+  [
+    (state: RootState) => state.presence.collaborators,
+    (state: RootState) => state.presence.lastSeenAt,
+  ],
+  (collaborators, lastSeenAt): RemoteCollaborator[] =>
+    Object.values(collaborators).map((collaborator) => ({
+      ...collaborator,
+      lastSeenAt: lastSeenAt[collaborator.id] ?? 0,
+    }))
+);
@@ -0,0 +1,67 @@
+import type { AppThunk } from '../../../app/store';
+import { flattenElements } from '../../../entities/design/lib/elementTree';
+import { getElementBounds } from '../../../entities/design/lib/geometry';
+import { fitGroupToChildren } from '../../../entities/design/lib/grouping';
+import { scaleElement } from '../../../entities/design/lib/scaling';
+import { addElements } from '../../../entities/design/model/slice';
+import type { DesignElement } from '../../../entities/design/model/types';
+import { getNextZIndex } from '../lib/elementFactory';
+import { parseSvg } from '../lib/svgImport';
+import { setSelection } from './selectionSlice';
+
+export interface SvgImportReport {
+  fileName: string;
+  importedCount: number;
+  unsupported: string[];
+}
+
+/**
+ * Imports an SVG file as editable elements, grouped when there is more than one,
+ * centred in the design and scaled down if it would not fit. Resolves to a report of
+ * what was imported and what was left out.
+ */
+export const importSvgFile =
+  (designId: string, file: File): AppThunk<Promise<SvgImportReport>> =>
+  async (dispatch, getState) => {
+    const { elements, unsupported } = parseSvg(await file.text());
+    const design = getState().design.items.find((item) => item._id === designId);
+    if (!design) throw new Error('The design is no longer open.');
+    if (!elements.length) {
+      throw new Error(
+        unsupported.length
+          ? `Nothing in ${file.name} could be imported: ${unsupported.join('; ')}.`
+          : `${file.name} has no visible content.`
+      );
+    }
+
+    const imported: DesignElement =
+      elements.length === 1
+        ? elements[0]
+        : fitGroupToChildren({
+            id: crypto.randomUUID(),
+            type: 'group',
+            x: 0,
+            y: 0,
+            width: 0,
+            height: 0,
+            rotation: 0,
+            zIndex: 0,
+            opacity: 1,
+            children: elements,
+          });
+
+    const bounds = getElementBounds(imported);
+    const scale = Math.min(1, design.width / bounds.width, design.height / bounds.height);
+    const scaled = scale < 1 ? scaleElement(imported, scale, scale) : imported;
+    const scaledBounds = getElementBounds(scaled);
+    const element = {
+      ...scaled,
+      x: Math.round(scaled.x + (design.width - scaledBounds.width) / 2 - scaledBounds.x),
+      y: Math.round(scaled.y + (design.height - scaledBounds.height) / 2 - scaledBounds.y),
+      zIndex: getNextZIndex(design),
+    };
+
+    dispatch(addElements({ designId, elements: [element] }));
+    dispatch(setSelection([element.id]));
+    return { fileName: file.name, importedCount: flattenElements(elements).length, unsupported };
+  };
@@ -0,0 +1,71 @@
+import { startAppListening } from '../../../app/listenerMiddleware';
+import { diffElements } from '../../../entities/design/lib/operations';
+import { isLocalElementChange } from '../../../entities/design/model/slice';
+import { clientId } from '../../../shared/lib/clientId';
+import { clearQueuedBatches, persistQueuedBatch, removeQueuedBatch } from '../lib/operationQueue';
+import { batchAcknowledged, designResynced, localBatchCreated } from './syncSlice';
+import { sendBatch } from './syncThunks';
+
+/**
+ * Turns every local edit of the shared design into a stamped operation batch, which
+ * also carries the canvas size and guides when the edit changed them. The edit is
+ * already on screen; the batch stays queued (in memory and IndexedDB) until the server
+ * acknowledges it.
+ */
+export const registerSyncListeners = () => {
+  startAppListening({
+    matcher: isLocalElementChange,
+    effect: (action, listenerApi) => {
+      const { designId } = action.payload;
+      const state = listenerApi.getState();
+      if (state.sync.sessionDesignId !== designId) return;
+
+      const previous = listenerApi
+        .getOriginalState()
+        .design.items.find((design) => design._id === designId);
+      const next = state.design.items.find((design) => design._id === designId);
+      if (!previous || !next) return;
+
+      const operations = diffElements(previous.elements, next.elements);
+      const isReframed =
+        previous.width !== next.width ||
+        previous.height !== next.height ||
+        previous.guides !== next.guides;
+      if (!operations.length && !isReframed) return;
+
+      const { width, height, guides } = next;
+      const batch = {
+        batchId: crypto.randomUUID(),
+        designId,
+        clientId,
+        clock: state.sync.clock + 1,
+        operations,
+        ...(isReframed && { frame: { width, height, guides } }),
+      };
+      listenerApi.dispatch(localBatchCreated(batch));
+      // While offline or mid-replay the batch just waits its turn in the queue.
+      if (state.sync.connection === 'synced') listenerApi.dispatch(sendBatch(batch));
+    },
+  });
+
+  startAppListening({
+    actionCreator: localBatchCreated,
+    effect: async (action) => {
+      await persistQueuedBatch(action.payload);
+    },
+  });
+
+  startAppListening({
+    actionCreator: batchAcknowledged,
+    effect: async (action) => {
+      await removeQueuedBatch(action.payload.batchId);
+    },
+  });
+
+  startAppListening({
+    actionCreator: designResynced,
+    effect: async (action) => {
+      await clearQueuedBatches(action.payload.designId);
+    },
+  });
+};
@@ -0,0 +1,118 @@
+import { createSlice, type PayloadAction } from '@reduxjs/toolkit';
+
+import type { ElementOperationBatch } from '../../../services/socket/events';
+import { DESIGN_KEY, FRAME_KEY, isNewerStamp, recordStamps, type StampTable } from '../lib/lww';
+
+interface DesignSyncState {
+  stamps: StampTable;
+  /** Local batches the server has not acknowledged yet, oldest first. */
+  pending: ElementOperationBatch[];
+}
+
+/**
+ * `local` means realtime is not configured. `syncing` covers rejoining after a
+ * (re)connect: fetching the server's copy and replaying queued edits onto it.
+ */
+export type ConnectionStatus =
+  'local' | 'connecting' | 'offline' | 'reconnecting' | 'syncing' | 'synced';
+
+interface SyncState {
+  connection: ConnectionStatus;
+  /** Lamport clock: ahead of every operation this client has seen or sent. */
+  clock: number;
+  /** The design whose edits are currently shared with collaborators. */
+  sessionDesignId: string | null;
+  byDesignId: Record<string, DesignSyncState>;
+}
+
+const initialState: SyncState = {
+  connection: 'local',
+  clock: 0,
+  sessionDesignId: null,
+  byDesignId: {},
+};
+
+const ensureDesign = (state: SyncState, designId: string) => {
+  state.byDesignId[designId] ??= { stamps: {}, pending: [] };
+  return state.byDesignId[designId];
+};
+
+const recordBatch = (design: DesignSyncState, batch: ElementOperationBatch) => {
+  const stamp = { clock: batch.clock, clientId: batch.clientId };
+  batch.operations.forEach((operation) => recordStamps(design.stamps, operation, stamp));
+  if (batch.frame) {
+    const known = (design.stamps[DESIGN_KEY] ??= {});
+    if (isNewerStamp(stamp, known[FRAME_KEY])) known[FRAME_KEY] = stamp;
+  }
+};
+
+const syncSlice = createSlice({
+  name: 'sync',
+  initialState,
+  reducers: {
+    syncSessionStarted(state, action: PayloadAction<string>) {
+      state.sessionDesignId = action.payload;
+    },
+    syncSessionEnded(state) {
+      state.sessionDesignId = null;
+      state.connection = 'local';
+    },
+    connectionStatusChanged(state, action: PayloadAction<ConnectionStatus>) {
+      state.connection = action.payload;
+    },
+    /** Batches left in local storage by an earlier session; duplicates are skipped. */
+    queuedBatchesRestored(
+      state,
+      action: PayloadAction<{ designId: string; batches: ElementOperationBatch[] }>
+    ) {
+      const design = ensureDesign(state, action.payload.designId);
+      const known = new Set(design.pending.map((batch) => batch.batchId));
+      const restored = action.payload.batches.filter((batch) => !known.has(batch.batchId));
+      if (!restored.length) return;
+      restored.forEach((batch) => {
+        state.clock = Math.max(state.clock, batch.clock);
+        recordBatch(design, batch);
+      });
+      design.pending = [...restored, ...design.pending].sort((a, b) => a.clock - b.clock);
+    },
+    snapshotReceived(state, action: PayloadAction<{ clock: number }>) {
+      state.clock = Math.max(state.clock, action.payload.clock);
+    },
+    localBatchCreated(state, action: PayloadAction<ElementOperationBatch>) {
+      const design = ensureDesign(state, action.payload.designId);
+      state.clock = Math.max(state.clock, action.payload.clock);
+      recordBatch(design, action.payload);
+      design.pending.push(action.payload);
+    },
+    remoteBatchReceived(state, action: PayloadAction<ElementOperationBatch>) {
+      state.clock = Math.max(state.clock, action.payload.clock);
+      recordBatch(ensureDesign(state, action.payload.designId), action.payload);
+    },
+    batchAcknowledged(
+      state,
+      action: PayloadAction<{ designId: string; batchId: string; clock: number }>
+    ) {
+      const design = ensureDesign(state, action.payload.designId);
+      state.clock = Math.max(state.clock, action.payload.clock);
+      design.pending = design.pending.filter((batch) => batch.batchId !== action.payload.batchId);
+    },
+    /** The server's snapshot replaced local state, so nothing local is outstanding. */
+    designResynced(state, action: PayloadAction<{ designId: string; clock: number }>) {
+      state.clock = Math.max(state.clock, action.payload.clock);
+      ensureDesign(state, action.payload.designId).pending = [];
+    },
+  },
+});
+
+export const {
+  syncSessionStarted,
+  syncSessionEnded,
+  connectionStatusChanged,
+  queuedBatchesRestored,
+  snapshotReceived,
+  localBatchCreated,
+  remoteBatchReceived,
+  batchAcknowledged,
+  designResynced,
+} = syncSlice.actions;
+export default syncSlice.reducer;
@@ -0,0 +1,170 @@
+import type { AppThunk } from '../../../app/store';
+import { parseElements } from '../../../entities/design/lib/designDocument';
+import { refitGroups } from '../../../entities/design/lib/grouping';
+import { applyOperations } from '../../../entities/design/lib/operations';
+import {
+  applyRemoteDesignSize,
+  applyRemoteOperations,
+  receiveServerElements,
+} from '../../../entities/design/model/slice';
+import type { DesignSnapshot, ElementOperationBatch } from '../../../services/socket/events';
+import { designSnapshotSchema, operationAckSchema } from '../../../services/socket/schemas';
+import { createSocket } from '../../../services/socket/socketClient';
+import { clientId } from '../../../shared/lib/clientId';
+import { DESIGN_KEY, FRAME_KEY, filterWinningOperations, isNewerStamp } from '../lib/lww';
+import { loadQueuedBatches } from '../lib/operationQueue';
+import {
+  batchAcknowledged,
+  connectionStatusChanged,
+  designResynced,
+  queuedBatchesRestored,
+  remoteBatchReceived,
+  snapshotReceived,
+} from './syncSlice';
+
+/** How long to wait for the server to acknowledge a batch before leaving it pending. */
+const ACK_TIMEOUT_MS = 10_000;
+
+/** Batches currently awaiting an ack, so a replay never sends the same one twice. */
+const inFlightBatchIds = new Set<string>();
+
+/**
+ * Validates a `design:sync` reply, migrating its elements to the current schema. An
+ * invalid snapshot throws, so callers treat it like a missing one.
+ */
+const parseSnapshot = (payload: DesignSnapshot) => {
+  const snapshot = designSnapshotSchema.parse(payload);
+  return {
+    ...snapshot,
+    elements: parseElements(snapshot.elements, snapshot.schemaVersion, 'Design snapshot'),
+  };
+};
+
+/**
+ * Replaces local elements with the server's copy. Used when the server rejects an
+ * edit: its state is authoritative, and local optimistic changes are dropped.
+ */
+export const resyncDesign =
+  (designId: string): AppThunk<Promise<void>> =>
+  async (dispatch) => {
+    try {
+      const snapshot = parseSnapshot(
+        await createSocket().timeout(ACK_TIMEOUT_MS).emitWithAck('design:sync', { designId })
+      );
+      dispatch(receiveServerElements({ designId, elements: snapshot.elements }));
+      if (snapshot.frame) dispatch(applyRemoteDesignSize({ designId, ...snapshot.frame }));
+      dispatch(designResynced({ designId, clock: snapshot.clock }));
+    } catch {
+      // Still out of step; the next reconnect resyncs again.
+    }
+  };
+
+/**
+ * Sends a batch that has already been applied locally and resolves to whether the
+ * server accepted it. While disconnected nothing is sent: the batch stays queued and
+ * is replayed on reconnect. A rejection means the local copy diverged, so the design
+ * is re-fetched.
+ */
+export const sendBatch =
+  (batch: ElementOperationBatch): AppThunk<Promise<boolean>> =>
+  async (dispatch) => {
+    const socket = createSocket();
+    if (!socket.connected || inFlightBatchIds.has(batch.batchId)) return false;
+
+    inFlightBatchIds.add(batch.batchId);
+    try {
+      const response = operationAckSchema.parse(
+        await socket.timeout(ACK_TIMEOUT_MS).emitWithAck('element:ops', batch)
+      );
+      if (!response.ok) {
+        await dispatch(resyncDesign(batch.designId));
+        return false;
+      }
+      dispatch(
+        batchAcknowledged({
+          designId: batch.designId,
+          batchId: batch.batchId,
+          clock: response.clock,
+        })
+      );
+      return true;
+    } catch {
+      return false;
+    } finally {
+      inFlightBatchIds.delete(batch.batchId);
+    }
+  };
+
+/** Picks up edits a previous session queued but never got acknowledged. */
+export const restoreQueuedBatches =
+  (designId: string): AppThunk<Promise<void>> =>
+  async (dispatch) => {
+    const batches = await loadQueuedBatches(designId);
+    if (batches.length) dispatch(queuedBatchesRestored({ designId, batches }));
+  };
+
+/**
+ * Runs after every (re)connect: rejoins the design's room, adopts the server's copy
+ * with still-unacknowledged local edits replayed on top, then sends those edits in
+ * order. The server ignores batch ids it has already applied, so a batch whose ack
+ * was lost is harmless to resend.
+ */
+export const rejoinDesign =
+  (designId: string): AppThunk<Promise<void>> =>
+  async (dispatch, getState) => {
+    const socket = createSocket();
+    dispatch(connectionStatusChanged('syncing'));
+    socket.emit('design:join', { designId });
+
+    try {
+      const snapshot = parseSnapshot(
+        await socket.timeout(ACK_TIMEOUT_MS).emitWithAck('design:sync', { designId })
+      );
+      const pending = getState().sync.byDesignId[designId]?.pending ?? [];
+      const elements = pending.reduce(
+        (tree, batch) => applyOperations(tree, batch.operations),
+        snapshot.elements
+      );
+      dispatch(receiveServerElements({ designId, elements: refitGroups(elements) }));
+      // A resize still queued here is newer than the server's size.
+      if (snapshot.frame && !pending.some((batch) => batch.frame)) {
+        dispatch(applyRemoteDesignSize({ designId, ...snapshot.frame }));
+      }
+      dispatch(snapshotReceived({ clock: snapshot.clock }));
+    } catch {
+      // Without a snapshot, replaying still gets local edits to the server.
+    }
+
+    // Re-read the queue each time: edits made during the replay join the end of it.
+    const attempted = new Set<string>();
+    for (;;) {
+      const next = getState().sync.byDesignId[designId]?.pending.find(
+        (batch) => !attempted.has(batch.batchId)
+      );
+      if (!next || !socket.connected) break;
+      attempted.add(next.batchId);
+      if (!(await dispatch(sendBatch(next)))) break;
+    }
+
+    if (socket.connected && getState().sync.sessionDesignId === designId) {
+      dispatch(connectionStatusChanged('synced'));
+    }
+  };
+
+/** Applies the parts of a collaborator's batch that win against what we already have. */
+export const receiveRemoteBatch =
+  (batch: ElementOperationBatch): AppThunk =>
+  (dispatch, getState) => {
+    if (batch.clientId === clientId) return;
+
+    const stamps = getState().sync.byDesignId[batch.designId]?.stamps ?? {};
+    const stamp = { clock: batch.clock, clientId: batch.clientId };
+    const operations = filterWinningOperations(batch.operations, stamp, stamps);
+    if (batch.frame && isNewerStamp(stamp, stamps[DESIGN_KEY]?.[FRAME_KEY])) {
+      dispatch(applyRemoteDesignSize({ designId: batch.designId, ...batch.frame }));
+    }
+    if (operations.length) {
+      dispatch(applyRemoteOperations({ designId: batch.designId, operations }));
+    }
+    dispatch(remoteBatchReceived(batch));
+  };
@@ -0,0 +1,25 @@
+import { createSlice, type PayloadAction } from '@reduxjs/toolkit';
+
+/** What a plain drag on the canvas does: select and move, or pan the view. */
+export type CanvasTool = 'select' | 'hand';
+
+interface ToolState {
+  tool: CanvasTool;
+}
+
+const initialState: ToolState = {
+  tool: 'select',
+};
+
+const toolSlice = createSlice({
+  name: 'tool',
+  initialState,
+  reducers: {
+    toolChanged(state, action: PayloadAction<CanvasTool>) {
+      state.tool = action.payload;
+    },
+  },
+});
+
+export const { toolChanged } = toolSlice.actions;
+export default toolSlice.reducer;
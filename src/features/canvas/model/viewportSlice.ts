@@ -0,0 +1,30 @@
+import { createSlice, type PayloadAction } from '@reduxjs/toolkit';
+
+import type { Size, Viewport } from '../lib/viewport';
+
+interface ViewportState {
+  /** Missing until a design is first shown; it then opens fitted to the screen. */
+  byDesignId: Record<string, Viewport>;
+  /** The canvas's size on screen, so keyboard zoom can keep its centre in place. */
+  screen?: Size;
+}
+
+const initialState: ViewportState = {
+  byDesignId: {},
+};
+
+const viewportSlice = createSlice({
+  name: 'viewport',
+  initialState,
+  reducers: {
+    viewportChanged(state, action: PayloadAction<{ designId: string; viewport: Viewport }>) {
+      state.byDesignId[action.payload.designId] = action.payload.viewport;
+    },
+    screenResized(state, action: PayloadAction<Size>) {
+      state.screen = action.payload;
+    },
+  },
+});
+
+export const { viewportChanged, screenResized } = viewportSlice.actions;
+export default viewportSlice.reducer;
@@ -0,0 +1,33 @@
+import type { AppThunk } from '../../../app/store';
+import type { Bounds } from '../../../entities/design/lib/geometry';
+import { fitToScreen, stepZoom, zoomAround, type Size, type Viewport } from '../lib/viewport';
+import { viewportChanged } from './viewportSlice';
+
+/** Applies `change` to the active design's viewport; needs the canvas to have been measured. */
+const changeViewport =
+  (change: (viewport: Viewport, screen: Size, artboard: Bounds) => Viewport): AppThunk =>
+  (dispatch, getState) => {
+    const state = getState();
+    const design = state.design.items.find((item) => item._id === state.design.activeDesignId);
+    const { screen } = state.viewport;
+    if (!design || !screen) return;
+    const artboard = { x: 0, y: 0, width: design.width, height: design.height };
+    const current = state.viewport.byDesignId[design._id] ?? fitToScreen(artboard, screen);
+    dispatch(
+      viewportChanged({ designId: design._id, viewport: change(current, screen, artboard) })
+    );
+  };
+
+const centerOf = (screen: Size) => ({ x: screen.width / 2, y: screen.height / 2 });
+
+/** Steps the zoom in or out, keeping the middle of the screen still. */
+export const zoomStep = (direction: 1 | -1): AppThunk =>
+  changeViewport((viewport, screen) =>
+    zoomAround(viewport, centerOf(screen), stepZoom(viewport.zoom, direction))
+  );
+
+export const zoomToLevel = (zoom: number): AppThunk =>
+  changeViewport((viewport, screen) => zoomAround(viewport, centerOf(screen), zoom));
+
+export const zoomToFit = (): AppThunk =>
+  changeViewport((_viewport, screen, artboard) => fitToScreen(artboard, screen));
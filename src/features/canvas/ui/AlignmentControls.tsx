@@ -0,0 +1,75 @@
+import type { Alignment, DistributeAxis } from '../lib/alignment';
+
+interface AlignmentControlsProps {
+  selectionSize: number;
+  disabled?: boolean;
+  onAlign: (alignment: Alignment) => void;
+  onDistribute: (axis: DistributeAxis) => void;
+}
+
+const ALIGN_ACTIONS: { value: Alignment; label: string; title: string }[] = [
+  { value: 'left', label: '⇤', title: 'Align left' },
+  { value: 'center', label: '↔', title: 'Align horizontal centers' },
+  { value: 'right', label: '⇥', title: 'Align right' },
+  { value: 'top', label: '⤒', title: 'Align top' },
+  { value: 'middle', label: '↕', title: 'Align vertical middles' },
+  { value: 'bottom', label: '⤓', title: 'Align bottom' },
+];
+
+const buttonClassName =
+  'rounded-lg border border-slate-800 bg-slate-950/60 px-2 py-1.5 text-sm text-slate-200 transition hover:border-slate-600 disabled:cursor-not-allowed disabled:opacity-40';
+
+export const AlignmentControls = ({
+  selectionSize,
+  disabled,
+  onAlign,
+  onDistribute,
+}: AlignmentControlsProps) => {
+  const canDistribute = selectionSize >= 3 && !disabled;
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <p className="text-xs font-semibold uppercase tracking-widest text-slate-400">Align</p>
+        <span className="text-xs text-slate-500">
+          {selectionSize === 1 ? 'to canvas' : 'to selection'}
+        </span>
+      </div>
+      <div className="grid grid-cols-6 gap-1">
+        {ALIGN_ACTIONS.map((action) => (
+          <button
+            key={action.value}
+            type="button"
+            title={action.title}
+            aria-label={action.title}
+            disabled={disabled}
+            onClick={() => onAlign(action.value)}
+            className={buttonClassName}
+          >
+            {action.label}
+          </button>
+        ))}
+      </div>
+      <div className="grid grid-cols-2 gap-1">
+        <button
+          type="button"
+          disabled={!canDistribute}
+          title="Needs at least three layers"
+          onClick={() => onDistribute('horizontal')}
+          className={`${buttonClassName} text-xs`}
+        >
+          Distribute horizontally
+        </button>
+        <button
+          type="button"
+          disabled={!canDistribute}
+          title="Needs at least three layers"
+          onClick={() => onDistribute('vertical')}
+          className={`${buttonClassName} text-xs`}
+        >
+          Distribute vertically
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,62 @@
+import type { ComponentProps } from 'react';
+import { Group, Image as KonvaImage, Rect, Text } from 'react-konva';
+
+import type { ImageElement } from '../../../entities/design/model/types';
+import { useCachedImage } from '../hooks/useCachedImage';
+import type { ImageStatus } from '../lib/imageCache';
+import { getImageLayout } from '../lib/imageFit';
+
+type CanvasImageProps = ComponentProps<typeof Group> & {
+  element: ImageElement;
+};
+
+const statusLabel: Record<ImageStatus, string> = {
+  empty: 'No image source',
+  loaded: '',
+  loading: 'Loading image…',
+  error: 'Image failed to load',
+};
+
+/**
+ * Draws an image element as a group sized to the element box, so the box (not the
+ * fitted bitmap) is what gets hit-tested, selected and transformed.
+ */
+export const CanvasImage = ({ element, ...groupProps }: CanvasImageProps) => {
+  const { status, image } = useCachedImage(element.src);
+  const box = { width: element.width, height: element.height };
+
+  return (
+    <Group {...groupProps}>
+      {status === 'loaded' && image ? (
+        <>
+          <Rect {...box} fill="transparent" />
+          <KonvaImage
+            image={image}
+            {...getImageLayout(element.fit, image, box)}
+            listening={false}
+          />
+        </>
+      ) : (
+        <>
+          <Rect
+            {...box}
+            fill={status === 'error' ? 'rgba(244, 63, 94, 0.08)' : '#1f2937'}
+            stroke={status === 'error' ? '#f43f5e' : '#0ea5e9'}
+            strokeWidth={2}
+            dash={status === 'loading' ? undefined : [12, 8]}
+          />
+          <Text
+            {...box}
+            text={statusLabel[status]}
+            fontSize={14}
+            fill={status === 'error' ? '#fda4af' : '#94a3b8'}
+            align="center"
+            verticalAlign="middle"
+            padding={8}
+            listening={false}
+          />
+        </>
+      )}
+    </Group>
+  );
+};
@@ -1,20 +1,512 @@
-import { Layer, Rect, Stage, Text, Circle } from 'react-konva';
+import { useEffect, useRef, useState, type DragEvent, type ReactNode, type RefObject } from 'react';
+import type Konva from 'konva';
+import {
+  Circle,
+  Group,
+  Label,
+  Layer,
+  Line,
+  Rect,
+  Shape,
+  Stage,
+  Tag,
+  Text,
+  Transformer,
+} from 'react-konva';
 
-import type { Design, DesignElement } from '../../../entities/design/model/types';
+import {
+  findElementLocation,
+  flattenElements,
+  sortByZIndex,
+} from '../../../entities/design/lib/elementTree';
+import {
+  boundsFromPoints,
+  boundsIntersect,
+  getElementBounds,
+  getElementCorners,
+  toDesignSpace,
+  unionBounds,
+  type Bounds,
+  type Point,
+} from '../../../entities/design/lib/geometry';
+import { layoutText } from '../../../entities/design/lib/textLayout';
+import type {
+  ContainerElement,
+  Design,
+  DesignElement,
+  DesignGuide,
+  TextElement,
+} from '../../../entities/design/model/types';
+import {
+  applyBoxClientRect,
+  bakeFrameScale,
+  bakeTextScale,
+  FRAME_BACKGROUND_NAME,
+  getDesignPointerPosition,
+  getElementFromNode,
+  MIN_ELEMENT_SIZE,
+} from '../lib/konvaUtils';
+import { useCanvasViewport } from '../hooks/useCanvasViewport';
+import { RULER_SIZE } from '../lib/rulers';
+import { findElementIdForNode, getDrillTarget, getSelectionTarget } from '../lib/selectionTarget';
+import {
+  getSnapTargets,
+  snapMove,
+  SNAP_DISTANCE,
+  type SnapLine,
+  type SpacingMark,
+} from '../lib/snapping';
+import { getVisibleBounds, type Size, type Viewport } from '../lib/viewport';
+import type { CanvasSettings } from '../model/canvasSettingsSlice';
+import type { RemoteCollaborator } from '../model/selectors';
+import { CanvasImage } from './CanvasImage';
+import { Minimap } from './Minimap';
+import { PresenceLayer } from './PresenceLayer';
+import { RichText } from './RichText';
+import { Rulers } from './Rulers';
+import { TextEditor, type TextContent } from './TextEditor';
+import { ZoomControls } from './ZoomControls';
 
 interface CanvasStageProps {
   design: Design;
-  selectedElementId?: string;
-  onSelectElement: (elementId: string) => void;
+  selectedIds: string[];
+  onSelectionChange: (elementIds: string[]) => void;
+  onElementsChange: (elements: DesignElement[]) => void;
+  onFilesDrop?: (files: File[], position: Point) => void;
+  collaborators?: RemoteCollaborator[];
+  /** Pointer position in design space, or `undefined` once it leaves the canvas. */
+  onCursorMove?: (position: Point | undefined) => void;
+  /** Receives the Konva stage, e.g. so exports can render from it. */
+  stageRef?: RefObject<Konva.Stage | null>;
+  /**
+   * While set, a click picks a design-space point (and the innermost element under it)
+   * instead of selecting, e.g. to drop a comment pin.
+   */
+  onPointPick?: (position: Point, elementId?: string) => void;
+  /** Extra layers drawn above everything else, e.g. comment pins. */
+  children?: ReactNode;
+  /** Pan and zoom; until set, the design is fitted to the screen. */
+  viewport?: Viewport;
+  onViewportChange: (viewport: Viewport) => void;
+  /** Reports the canvas's size on screen whenever it changes. */
+  onScreenResize?: (size: Size) => void;
+  /** The hand tool is on: dragging anywhere pans the view. */
+  isHandTool?: boolean;
+  /** Only pan and zoom, e.g. while previewing an old version. */
+  isReadOnly?: boolean;
+  settings: CanvasSettings;
+  onGuidesChange?: (guides: DesignGuide[]) => void;
+  /** Alt-dragging duplicates; called once as the drag starts, with the dragged ids. */
+  onDuplicateDrag?: (elementIds: string[]) => void;
+}
+
+const CORNER_ANCHORS = ['top-left', 'top-right', 'bottom-left', 'bottom-right'];
+const ALL_ANCHORS = [
+  ...CORNER_ANCHORS,
+  'top-center',
+  'middle-left',
+  'middle-right',
+  'bottom-center',
+];
+/** Auto-height text only resizes sideways; its height follows the content. */
+const SIDE_ANCHORS = ['middle-left', 'middle-right'];
+const ROTATION_SNAPS = [0, 45, 90, 135, 180, 225, 270, 315];
+const SELECTION_COLOR = '#38bdf8';
+const ARTBOARD_COLOR = '#1e293b';
+const GRID_COLOR = 'rgba(148, 163, 184, 0.12)';
+/** Grid lines closer than this on screen are hidden rather than drawn as a solid wash. */
+const MIN_GRID_SPACING = 6;
+const GUIDE_COLOR = '#f43f5e';
+const SMART_GUIDE_COLOR = '#ec4899';
+/** Pointer travel below this is treated as a click on empty canvas, not a marquee. */
+const MARQUEE_THRESHOLD = 3;
+
+const isAdditiveEvent = (event: MouseEvent | TouchEvent) => event.shiftKey;
+
+/** Ctrl/⌘ reaches through groups to the element under the pointer. */
+const isDeepSelectEvent = (event: MouseEvent | TouchEvent) => event.metaKey || event.ctrlKey;
+
+/** Alt held as a drag starts leaves a copy behind. */
+const isDuplicateDragEvent = (event: Konva.KonvaEventObject<Event>) =>
+  event.evt instanceof MouseEvent && event.evt.altKey;
+
+/** Ctrl/⌘ held mid-drag moves freely, without snapping. */
+const isSnapBypassEvent = (event?: Event) =>
+  event instanceof MouseEvent && (event.metaKey || event.ctrlKey);
+
+type KonvaPointerEvent = Konva.KonvaEventObject<MouseEvent | TouchEvent>;
+
+/**
+ * One drag of the selection: where each dragged node started on screen, and the
+ * selection's box and snap targets at that moment.
+ */
+interface DragSession {
+  primaryId: string;
+  box: Bounds;
+  targets: Bounds[];
+  starts: Map<string, Point>;
+  /** The snapped move so far, in design units; every dragged node follows it. */
+  delta: Point;
 }
 
 export const CanvasStage = ({
   design,
-  selectedElementId,
-  onSelectElement,
+  selectedIds,
+  onSelectionChange,
+  onElementsChange,
+  onFilesDrop,
+  collaborators = [],
+  onCursorMove,
+  stageRef: externalStageRef,
+  onPointPick,
+  children,
+  viewport: storedViewport,
+  onViewportChange,
+  onScreenResize,
+  isHandTool,
+  isReadOnly = false,
+  settings,
+  onGuidesChange,
+  onDuplicateDrag,
 }: CanvasStageProps) => {
-  const renderElement = (element: DesignElement) => {
-    const isSelected = element.id === selectedElementId;
+  const localStageRef = useRef<Konva.Stage>(null);
+  const stageRef = externalStageRef ?? localStageRef;
+  const nodesRef = useRef(new Map<string, Konva.Node>());
+  const transformerRef = useRef<Konva.Transformer>(null);
+  const pendingCommitRef = useRef<Set<string> | null>(null);
+  const marqueeRef = useRef<{ origin: { x: number; y: number }; additive: boolean } | null>(null);
+  const [marquee, setMarquee] = useState<Bounds | null>(null);
+  const [isGesturing, setIsGesturing] = useState(false);
+  const dragSessionRef = useRef<DragSession | null>(null);
+  const [smartGuides, setSmartGuides] = useState<{ lines: SnapLine[]; spacings: SpacingMark[] }>();
+  const [editingTextId, setEditingTextId] = useState<string | null>(null);
+  const {
+    containerRef,
+    size,
+    viewport,
+    isPanReady,
+    isPanning,
+    handleWheel,
+    startPan,
+    handlePinch,
+    zoomTo,
+    zoomIn,
+    zoomOut,
+    fit,
+    navigateTo,
+  } = useCanvasViewport({
+    artboard: design,
+    viewport: storedViewport,
+    onViewportChange,
+    onScreenResize,
+    isHandTool,
+  });
+
+  const elementsById = new Map(
+    flattenElements(design.elements).map((element) => [element.id, element])
+  );
+  const selectedLocations = selectedIds.flatMap(
+    (id) => findElementLocation(design.elements, id) ?? []
+  );
+  const selectedElements = selectedLocations.map((location) => location.element);
+  const transformableIds = selectedElements
+    .filter((element) => !element.locked && !element.hidden && element.id !== editingTextId)
+    .map((element) => element.id)
+    .join(',');
+  const hasCircle = selectedElements.some((element) => element.type === 'circle');
+  const isAutoHeightText =
+    selectedElements.length === 1 &&
+    selectedElements[0].type === 'text' &&
+    selectedElements[0].sizing === 'auto-height';
+  const editingLocation =
+    editingTextId && selectedIds.includes(editingTextId)
+      ? findElementLocation(design.elements, editingTextId)
+      : undefined;
+  // Editing ends if the text is deselected or removed without the editor committing.
+  if (editingTextId && !editingLocation) setEditingTextId(null);
+
+  useEffect(() => {
+    const transformer = transformerRef.current;
+    if (!transformer) return;
+    const nodes = transformableIds.split(',').flatMap((id) => nodesRef.current.get(id) ?? []);
+    transformer.nodes(nodes);
+    transformer.getLayer()?.batchDraw();
+  }, [transformableIds, design.elements]);
+
+  const registerNode = (element: DesignElement) => (node: Konva.Node | null) => {
+    if (!node) {
+      nodesRef.current.delete(element.id);
+      return;
+    }
+    if (element.type === 'frame') applyBoxClientRect(node as Konva.Group);
+    nodesRef.current.set(element.id, node);
+  };
+
+  /**
+   * A multi-node drag or transform fires one end event per node; collect them and
+   * commit the whole gesture as a single batched update.
+   */
+  const scheduleCommit = (elementId: string) => {
+    if (pendingCommitRef.current) {
+      pendingCommitRef.current.add(elementId);
+      return;
+    }
+    const elementIds = new Set([elementId]);
+    pendingCommitRef.current = elementIds;
+    queueMicrotask(() => {
+      pendingCommitRef.current = null;
+      dragSessionRef.current = null;
+      setIsGesturing(false);
+      setSmartGuides(undefined);
+      const changed = [...elementIds].flatMap((id) => {
+        const element = elementsById.get(id);
+        const node = nodesRef.current.get(id);
+        return element && node ? [getElementFromNode(element, node)] : [];
+      });
+      if (changed.length) onElementsChange(changed);
+    });
+  };
+
+  const startDragSession = (elementId: string, isDuplicating: boolean) => {
+    if (dragSessionRef.current) return;
+    const ids = selectedIds.includes(elementId)
+      ? selectedLocations.filter(({ element }) => !element.locked).map(({ element }) => element.id)
+      : [elementId];
+    const box = unionBounds(
+      ids.flatMap((id) => {
+        const location = findElementLocation(design.elements, id);
+        return location ? [getElementBounds(location.element, location.ancestors)] : [];
+      })
+    );
+    if (!box) return;
+    const starts = new Map(
+      ids.flatMap((id) => {
+        const node = nodesRef.current.get(id);
+        return node ? [[id, node.getAbsolutePosition()] as const] : [];
+      })
+    );
+    dragSessionRef.current = {
+      primaryId: elementId,
+      box,
+      targets: getSnapTargets(design.elements, new Set(ids)),
+      starts,
+      delta: { x: 0, y: 0 },
+    };
+    if (isDuplicating) onDuplicateDrag?.(ids);
+  };
+
+  /**
+   * Konva asks every dragged node where it should go. The node the pointer grabbed
+   * works out the snapped move; the rest of the selection follows that same move.
+   */
+  const boundDrag = (elementId: string, position: Point, event?: Event): Point => {
+    const session = dragSessionRef.current;
+    const start = session?.starts.get(elementId);
+    if (!session || !start) return position;
+
+    if (elementId === session.primaryId) {
+      const delta = {
+        x: (position.x - start.x) / viewport.zoom,
+        y: (position.y - start.y) / viewport.zoom,
+      };
+      const isSnapping =
+        (settings.snapToObjects || settings.snapToGrid) && !isSnapBypassEvent(event);
+      if (isSnapping) {
+        const result = snapMove(session.box, delta, {
+          targets: session.targets,
+          artboard: design,
+          guides: design.guides ?? [],
+          snapToObjects: settings.snapToObjects,
+          gridSize: settings.snapToGrid ? settings.gridSize : undefined,
+          threshold: SNAP_DISTANCE / viewport.zoom,
+        });
+        session.delta = result.delta;
+        setSmartGuides({ lines: result.lines, spacings: result.spacings });
+      } else {
+        session.delta = delta;
+        setSmartGuides(undefined);
+      }
+    }
+
+    return {
+      x: start.x + session.delta.x * viewport.zoom,
+      y: start.y + session.delta.y * viewport.zoom,
+    };
+  };
+
+  /** The hit element's ancestors (outermost first) followed by the element itself. */
+  const getHitChain = (target: Konva.Node) => {
+    const id = findElementIdForNode(target, (candidate) => elementsById.has(candidate));
+    const location = id ? findElementLocation(design.elements, id) : undefined;
+    return location ? [...location.ancestors, location.element] : [];
+  };
+
+  const handleStagePointerDown = (event: KonvaPointerEvent) => {
+    if (event.evt instanceof MouseEvent ? startPan(event.evt) : handlePinch(event.evt)) return;
+    if (isReadOnly) return;
+
+    if (onPointPick) {
+      const position = getDesignPointerPosition(stageRef.current);
+      if (position) onPointPick(position, getHitChain(event.target).at(-1)?.id);
+      return;
+    }
+
+    if (event.target === event.target.getStage()) {
+      const origin = getDesignPointerPosition(stageRef.current);
+      if (!origin) return;
+      marqueeRef.current = { origin, additive: isAdditiveEvent(event.evt) };
+      setMarquee({ ...origin, width: 0, height: 0 });
+      return;
+    }
+
+    const target = getSelectionTarget(
+      getHitChain(event.target),
+      selectedIds,
+      isDeepSelectEvent(event.evt)
+    );
+    if (!target) return;
+    const isSelected = selectedIds.includes(target.id);
+    if (isAdditiveEvent(event.evt)) {
+      onSelectionChange(
+        isSelected ? selectedIds.filter((id) => id !== target.id) : [...selectedIds, target.id]
+      );
+    } else if (!isSelected) {
+      onSelectionChange([target.id]);
+    }
+  };
+
+  const handleStageClick = (event: KonvaPointerEvent) => {
+    if (onPointPick || event.target === event.target.getStage() || isAdditiveEvent(event.evt)) {
+      return;
+    }
+    // Pressing on a member of a multi-selection keeps the group so it can be dragged;
+    // a plain click without dragging narrows the selection back down to that element.
+    const target = getSelectionTarget(
+      getHitChain(event.target),
+      selectedIds,
+      isDeepSelectEvent(event.evt)
+    );
+    if (target && selectedIds.length > 1) onSelectionChange([target.id]);
+  };
+
+  /** Double-clicking a selected text edits it; anywhere else it drills into groups. */
+  const handleStageDoubleClick = (event: KonvaPointerEvent) => {
+    if (isReadOnly) return;
+    const chain = getHitChain(event.target);
+    const hit = chain.at(-1);
+    if (!onPointPick && hit?.type === 'text' && !hit.locked && selectedIds.includes(hit.id)) {
+      onSelectionChange([hit.id]);
+      setEditingTextId(hit.id);
+      return;
+    }
+    const target = getDrillTarget(chain, selectedIds);
+    if (target) onSelectionChange([target.id]);
+  };
+
+  const commitTextEdit = (element: TextElement, { text, runs }: TextContent) => {
+    setEditingTextId(null);
+    if (text !== element.text || JSON.stringify(runs) !== JSON.stringify(element.runs ?? [])) {
+      onElementsChange([{ ...element, text, runs }]);
+    }
+  };
+
+  /** Maps the edited element's box onto the screen, through any rotated containers. */
+  const renderTextEditor = () => {
+    if (editingLocation?.element.type !== 'text') return null;
+    const { element, ancestors } = editingLocation;
+    const origin = toDesignSpace({ x: element.x, y: element.y }, ancestors);
+    const rotation = [...ancestors, element].reduce((total, item) => total + item.rotation, 0);
+    return (
+      <TextEditor
+        key={element.id}
+        element={element}
+        placement={{
+          x: viewport.x + origin.x * viewport.zoom,
+          y: viewport.y + origin.y * viewport.zoom,
+          rotation,
+          zoom: viewport.zoom,
+        }}
+        onCommit={(content) => commitTextEdit(element, content)}
+      />
+    );
+  };
+
+  const handleStagePointerMove = (event: KonvaPointerEvent) => {
+    if (!(event.evt instanceof MouseEvent) && handlePinch(event.evt)) {
+      // A second finger turns the gesture into a pinch; drop any marquee it started.
+      marqueeRef.current = null;
+      setMarquee(null);
+      return;
+    }
+    const start = marqueeRef.current;
+    const pointer = getDesignPointerPosition(stageRef.current);
+    if (pointer) onCursorMove?.(pointer);
+    if (!start || !pointer) return;
+    setMarquee(boundsFromPoints(start.origin, pointer));
+  };
+
+  const handleStagePointerLeave = () => {
+    finishMarquee();
+    onCursorMove?.(undefined);
+  };
+
+  const finishMarquee = () => {
+    const start = marqueeRef.current;
+    marqueeRef.current = null;
+    setMarquee(null);
+    if (!start) return;
+
+    const pointer = getDesignPointerPosition(stageRef.current) ?? start.origin;
+    const area = boundsFromPoints(start.origin, pointer);
+    if (area.width < MARQUEE_THRESHOLD && area.height < MARQUEE_THRESHOLD) {
+      if (!start.additive) onSelectionChange([]);
+      return;
+    }
+
+    // Like clicks, the marquee picks whole top-level layers rather than their contents.
+    const hits = design.elements
+      .filter((element) => !element.hidden && boundsIntersect(area, getElementBounds(element)))
+      .map((element) => element.id);
+    onSelectionChange(
+      start.additive ? [...selectedIds, ...hits.filter((id) => !selectedIds.includes(id))] : hits
+    );
+  };
+
+  const renderElements = (elements: DesignElement[], ancestors: ContainerElement[]) =>
+    sortByZIndex(elements).map((element) => renderElement(element, ancestors));
+
+  const renderElement = (element: DesignElement, ancestors: ContainerElement[]) => {
+    // Only what a click would select can be dragged, so pressing on a child of a
+    // group drags the whole group unless the user has drilled into it.
+    const isDraggable =
+      !isReadOnly &&
+      !onPointPick &&
+      !isPanReady &&
+      !element.locked &&
+      (selectedIds.includes(element.id) ||
+        getSelectionTarget([...ancestors, element], selectedIds) === element);
+    // Drag and transform events bubble up through parent groups; only the node the
+    // gesture actually moved should be committed.
+    const commitNode = (event: Konva.KonvaEventObject<Event>) => {
+      if (event.target === event.currentTarget) scheduleCommit(element.id);
+    };
+    const interactionProps = {
+      id: element.id,
+      ref: registerNode(element),
+      draggable: isDraggable,
+      // The text editor overlay stands in for a text node while it is being edited.
+      visible: !element.hidden && element.id !== editingTextId,
+      dragBoundFunc: (position: Point, event?: Event) => boundDrag(element.id, position, event),
+      onDragStart: (event: Konva.KonvaEventObject<Event>) => {
+        if (event.target === event.currentTarget) {
+          startDragSession(element.id, isDuplicateDragEvent(event));
+        }
+        setIsGesturing(true);
+      },
+      onTransformStart: () => setIsGesturing(true),
+      onDragEnd: commitNode,
+      onTransformEnd: commitNode,
+    };
     const commonProps = {
       x: element.x,
       y: element.y,
@@ -23,23 +515,56 @@ export const CanvasStage = ({
       rotation: element.rotation,
       opacity: element.opacity,
       listening: true,
-      onClick: () => onSelectElement(element.id),
+      ...interactionProps,
     };
 
     switch (element.type) {
+      case 'group':
+        return (
+          <Group
+            key={element.id}
+            x={element.x}
+            y={element.y}
+            rotation={element.rotation}
+            opacity={element.opacity}
+            {...interactionProps}
+          >
+            {renderElements(element.children, [...ancestors, element])}
+          </Group>
+        );
+      case 'frame':
+        return (
+          <Group
+            key={element.id}
+            {...commonProps}
+            {...(element.clipContent
+              ? { clipX: 0, clipY: 0, clipWidth: element.width, clipHeight: element.height }
+              : {})}
+            onTransform={(event) => {
+              if (event.target === event.currentTarget) bakeFrameScale(event.target);
+            }}
+          >
+            <Rect
+              name={FRAME_BACKGROUND_NAME}
+              width={element.width}
+              height={element.height}
+              fill={element.fill}
+            />
+            {renderElements(element.children, [...ancestors, element])}
+          </Group>
+        );
       case 'text':
         return (
-          <Text
+          <RichText
             key={element.id}
+            element={element}
             {...commonProps}
-            text={element.text}
-            fontFamily={element.fontFamily}
-            fontSize={element.fontSize}
-            fontStyle={element.fontWeight}
-            fill={element.fill}
-            align={element.align}
-            shadowColor={isSelected ? '#38bdf8' : 'transparent'}
-            shadowBlur={isSelected ? 20 : 0}
+            onTransform={(event) => {
+              bakeTextScale(event.target);
+              if (element.sizing === 'auto-height') {
+                event.target.height(Math.ceil(layoutText(element, event.target.width()).height));
+              }
+            }}
           />
         );
       case 'rect':
@@ -49,8 +574,8 @@ export const CanvasStage = ({
             {...commonProps}
             cornerRadius={element.radius}
             fill={element.fill}
-            stroke={isSelected ? '#38bdf8' : element.stroke}
-            strokeWidth={isSelected ? element.strokeWidth + 2 : element.strokeWidth}
+            stroke={element.stroke}
+            strokeWidth={element.strokeWidth}
           />
         );
       case 'circle':
@@ -63,37 +588,292 @@ export const CanvasStage = ({
             rotation={element.rotation}
             opacity={element.opacity}
             fill={element.fill}
-            stroke={isSelected ? '#38bdf8' : element.stroke}
-            strokeWidth={isSelected ? element.strokeWidth + 2 : element.strokeWidth}
-            onClick={() => onSelectElement(element.id)}
+            stroke={element.stroke}
+            strokeWidth={element.strokeWidth}
+            {...interactionProps}
           />
         );
       case 'image':
       default:
-        return (
-          <Rect
-            key={element.id}
-            {...commonProps}
-            fill="#1f2937"
-            stroke={isSelected ? '#38bdf8' : '#0ea5e9'}
-            strokeWidth={2}
-            dash={[12, 8]}
-          />
-        );
+        return <CanvasImage key={element.id} element={element} {...commonProps} />;
+    }
+  };
+
+  /** Outlines live on the UI layer, so nested elements are mapped into design space. */
+  const renderSelectionOutline = ({
+    element,
+    ancestors,
+  }: {
+    element: DesignElement;
+    ancestors: ContainerElement[];
+  }) => {
+    const outlineProps = {
+      key: element.id,
+      stroke: element.locked ? '#f59e0b' : SELECTION_COLOR,
+      strokeWidth: 1,
+      strokeScaleEnabled: false,
+      dash: selectedElements.length > 1 || element.locked ? [4, 4] : undefined,
+      listening: false,
+    };
+    if (element.type === 'circle') {
+      const center = toDesignSpace({ x: element.x, y: element.y }, ancestors);
+      return <Circle {...outlineProps} {...center} radius={element.radius} />;
     }
+    const corners = getElementCorners(element).map((corner) => toDesignSpace(corner, ancestors));
+    return (
+      <Line {...outlineProps} points={corners.flatMap((corner) => [corner.x, corner.y])} closed />
+    );
+  };
+
+  const guides = design.guides ?? [];
+  const visible = size ? getVisibleBounds(viewport, size) : undefined;
+
+  const addGuide = (axis: DesignGuide['axis'], position: number) =>
+    onGuidesChange?.([...guides, { id: crypto.randomUUID(), axis, position }]);
+
+  /** Dropping a guide back onto its ruler removes it. */
+  const moveGuide = (guide: DesignGuide, node: Konva.Node) => {
+    const screen = node.getAbsolutePosition()[guide.axis];
+    const isOnRuler = settings.showRulers && screen <= RULER_SIZE;
+    onGuidesChange?.(
+      isOnRuler
+        ? guides.filter((other) => other.id !== guide.id)
+        : guides.map((other) =>
+            other.id === guide.id
+              ? { ...other, position: Math.round((screen - viewport[guide.axis]) / viewport.zoom) }
+              : other
+          )
+    );
+  };
+
+  const renderGuide = (guide: DesignGuide) => {
+    if (!visible) return null;
+    const isVertical = guide.axis === 'x';
+    return (
+      <Line
+        key={guide.id}
+        x={isVertical ? guide.position : 0}
+        y={isVertical ? 0 : guide.position}
+        points={
+          isVertical
+            ? [0, visible.y, 0, visible.y + visible.height]
+            : [visible.x, 0, visible.x + visible.width, 0]
+        }
+        stroke={GUIDE_COLOR}
+        strokeWidth={1}
+        strokeScaleEnabled={false}
+        hitStrokeWidth={8 / viewport.zoom}
+        draggable={!!onGuidesChange && !onPointPick && !isPanReady}
+        // Guides only ever slide across their own axis.
+        dragBoundFunc={(position) =>
+          isVertical ? { x: position.x, y: viewport.y } : { x: viewport.x, y: position.y }
+        }
+        onMouseEnter={(event) => {
+          const container = event.target.getStage()?.container();
+          if (container) container.style.cursor = isVertical ? 'col-resize' : 'row-resize';
+        }}
+        onMouseLeave={(event) => {
+          const container = event.target.getStage()?.container();
+          if (container) container.style.cursor = '';
+        }}
+        onDragEnd={(event) => moveGuide(guide, event.target)}
+      />
+    );
   };
 
+  const renderSpacing = (spacing: SpacingMark, index: number) => {
+    const isHorizontal = spacing.axis === 'x';
+    const middle = (spacing.start + spacing.end) / 2;
+    const points = isHorizontal
+      ? [spacing.start, spacing.offset, spacing.end, spacing.offset]
+      : [spacing.offset, spacing.start, spacing.offset, spacing.end];
+    return (
+      <Group key={`spacing-${index}`} listening={false}>
+        <Line
+          points={points}
+          stroke={SMART_GUIDE_COLOR}
+          strokeWidth={1}
+          strokeScaleEnabled={false}
+        />
+        <Label
+          x={isHorizontal ? middle : spacing.offset}
+          y={isHorizontal ? spacing.offset : middle}
+          scaleX={1 / viewport.zoom}
+          scaleY={1 / viewport.zoom}
+        >
+          <Tag fill={SMART_GUIDE_COLOR} cornerRadius={3} />
+          <Text
+            text={String(Math.round(spacing.end - spacing.start))}
+            fontSize={10}
+            fill="#fff"
+            padding={3}
+          />
+        </Label>
+      </Group>
+    );
+  };
+
+  const handleDragOver = (event: DragEvent<HTMLDivElement>) => {
+    if (!onFilesDrop || !event.dataTransfer.types.includes('Files')) return;
+    event.preventDefault();
+    event.dataTransfer.dropEffect = 'copy';
+  };
+
+  const handleDrop = (event: DragEvent<HTMLDivElement>) => {
+    const stage = stageRef.current;
+    const files = Array.from(event.dataTransfer.files);
+    if (!onFilesDrop || !stage || !files.length) return;
+    event.preventDefault();
+    stage.setPointersPositions(event.nativeEvent);
+    const position = getDesignPointerPosition(stage);
+    if (position) onFilesDrop(files, position);
+  };
+
+  const cursor = isPanning
+    ? 'grabbing'
+    : isPanReady
+      ? 'grab'
+      : onPointPick
+        ? 'crosshair'
+        : undefined;
+
   return (
-    <div className="h-full w-full overflow-auto rounded-2xl border border-slate-800 bg-slate-900/80 p-4 shadow-inner shadow-slate-950/50">
-      <div
-        className="mx-auto max-w-full"
-        style={{ width: design.width, height: design.height }}
+    <div
+      ref={containerRef}
+      onDragOver={handleDragOver}
+      onDrop={handleDrop}
+      className="relative h-[70vh] min-h-[420px] w-full overflow-hidden rounded-2xl border border-slate-800 bg-slate-900/80 shadow-inner shadow-slate-950/50"
+      style={{ cursor }}
+    >
+      <Stage
+        ref={stageRef}
+        width={size?.width ?? 0}
+        height={size?.height ?? 0}
+        x={viewport.x}
+        y={viewport.y}
+        scaleX={viewport.zoom}
+        scaleY={viewport.zoom}
+        onWheel={handleWheel}
+        onMouseDown={handleStagePointerDown}
+        onTouchStart={handleStagePointerDown}
+        onClick={handleStageClick}
+        onTap={handleStageClick}
+        onDblClick={handleStageDoubleClick}
+        onDblTap={handleStageDoubleClick}
+        onMouseMove={handleStagePointerMove}
+        onTouchMove={handleStagePointerMove}
+        onMouseUp={finishMarquee}
+        onTouchEnd={finishMarquee}
+        onMouseLeave={handleStagePointerLeave}
       >
-        <Stage width={design.width} height={design.height} className="rounded-xl bg-slate-800">
-          <Layer>{design.elements.map(renderElement)}</Layer>
-        </Stage>
-      </div>
+        <Layer name="artboard" listening={false}>
+          <Rect
+            width={design.width}
+            height={design.height}
+            fill={ARTBOARD_COLOR}
+            shadowColor="#020617"
+            shadowBlur={24}
+            shadowOpacity={0.6}
+          />
+          {settings.showGrid && settings.gridSize * viewport.zoom >= MIN_GRID_SPACING && (
+            <Shape
+              sceneFunc={(context, shape) => {
+                context.beginPath();
+                for (let x = settings.gridSize; x < design.width; x += settings.gridSize) {
+                  context.moveTo(x, 0);
+                  context.lineTo(x, design.height);
+                }
+                for (let y = settings.gridSize; y < design.height; y += settings.gridSize) {
+                  context.moveTo(0, y);
+                  context.lineTo(design.width, y);
+                }
+                context.strokeShape(shape);
+              }}
+              stroke={GRID_COLOR}
+              strokeWidth={1}
+              strokeScaleEnabled={false}
+            />
+          )}
+        </Layer>
+        <Layer name="content">{renderElements(design.elements, [])}</Layer>
+        <PresenceLayer
+          elements={design.elements}
+          collaborators={collaborators}
+          zoom={viewport.zoom}
+        />
+        <Layer name="ui">
+          {guides.map(renderGuide)}
+          {smartGuides?.lines.map((line) => (
+            <Line
+              key={`${line.axis}-${line.position}`}
+              points={
+                line.axis === 'x'
+                  ? [line.position, line.start, line.position, line.end]
+                  : [line.start, line.position, line.end, line.position]
+              }
+              stroke={SMART_GUIDE_COLOR}
+              strokeWidth={1}
+              strokeScaleEnabled={false}
+              listening={false}
+            />
+          ))}
+          {smartGuides?.spacings.map(renderSpacing)}
+          {!isGesturing && selectedLocations.map(renderSelectionOutline)}
+          {marquee && (
+            <Rect
+              {...marquee}
+              fill="rgba(56, 189, 248, 0.12)"
+              stroke={SELECTION_COLOR}
+              strokeWidth={1}
+              strokeScaleEnabled={false}
+              listening={false}
+            />
+          )}
+          <Transformer
+            ref={transformerRef}
+            rotateEnabled
+            flipEnabled={false}
+            // Free resize by default; Konva locks the aspect ratio while Shift is held.
+            // Circles only have a radius, so any selection containing one keeps its ratio.
+            keepRatio={hasCircle}
+            enabledAnchors={
+              hasCircle ? CORNER_ANCHORS : isAutoHeightText ? SIDE_ANCHORS : ALL_ANCHORS
+            }
+            rotationSnaps={ROTATION_SNAPS}
+            borderStroke={SELECTION_COLOR}
+            anchorStroke={SELECTION_COLOR}
+            anchorFill="#0f172a"
+            anchorSize={10}
+            boundBoxFunc={(oldBox, newBox) =>
+              Math.abs(newBox.width) < MIN_ELEMENT_SIZE ||
+              Math.abs(newBox.height) < MIN_ELEMENT_SIZE
+                ? oldBox
+                : newBox
+            }
+          />
+        </Layer>
+        {children}
+      </Stage>
+      {renderTextEditor()}
+      {size && (
+        <>
+          {settings.showRulers && (
+            <Rulers viewport={viewport} screen={size} onGuideCreate={addGuide} />
+          )}
+          <div className={`absolute bottom-3 ${settings.showRulers ? 'left-8' : 'left-3'}`}>
+            <Minimap design={design} viewport={viewport} screen={size} onNavigate={navigateTo} />
+          </div>
+          <div className="absolute bottom-3 right-3">
+            <ZoomControls
+              zoom={viewport.zoom}
+              onZoomTo={zoomTo}
+              onZoomIn={zoomIn}
+              onZoomOut={zoomOut}
+              onFit={fit}
+            />
+          </div>
+        </>
+      )}
     </div>
   );
 };
-
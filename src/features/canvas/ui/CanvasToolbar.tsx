@@ -0,0 +1,121 @@
+import { useRef, type ReactNode } from 'react';
+
+import type { SvgImportReport } from '../model/svgThunks';
+
+interface CanvasToolbarProps {
+  isUploading?: boolean;
+  isImportingSvg?: boolean;
+  error?: string | null;
+  svgImportReport?: SvgImportReport | null;
+  onAddImages: (files: File[]) => void;
+  onImportSvg: (file: File) => void;
+  onDismissError: () => void;
+  /** Extra controls shown at the end of the toolbar, e.g. view options. */
+  children?: ReactNode;
+}
+
+const toolButtonClassName =
+  'rounded-lg border border-slate-800 bg-slate-950/60 px-3 py-1.5 text-xs font-medium text-slate-200 transition hover:border-slate-600 disabled:cursor-not-allowed disabled:opacity-40';
+
+export const CanvasToolbar = ({
+  isUploading,
+  isImportingSvg,
+  error,
+  svgImportReport,
+  onAddImages,
+  onImportSvg,
+  onDismissError,
+  children,
+}: CanvasToolbarProps) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const svgInputRef = useRef<HTMLInputElement>(null);
+
+  return (
+    <div className="flex flex-wrap items-center gap-3 rounded-2xl border border-slate-800 bg-slate-900/70 px-4 py-2">
+      <button
+        type="button"
+        onClick={() => fileInputRef.current?.click()}
+        disabled={isUploading}
+        title="Add image (you can also drop or paste images onto the canvas)"
+        className={toolButtonClassName}
+      >
+        Add image
+      </button>
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept="image/*"
+        multiple
+        hidden
+        onChange={(event) => {
+          onAddImages(Array.from(event.target.files ?? []));
+          // Allow picking the same file again.
+          event.target.value = '';
+        }}
+      />
+      <button
+        type="button"
+        onClick={() => svgInputRef.current?.click()}
+        disabled={isImportingSvg}
+        title="Import an SVG as editable shapes, text and images"
+        className={toolButtonClassName}
+      >
+        Import SVG
+      </button>
+      <input
+        ref={svgInputRef}
+        type="file"
+        accept=".svg,image/svg+xml"
+        hidden
+        onChange={(event) => {
+          const file = event.target.files?.[0];
+          if (file) onImportSvg(file);
+          event.target.value = '';
+        }}
+      />
+      {children && <div className="ml-auto">{children}</div>}
+      {isUploading && <span className="text-xs text-slate-400">Uploading image…</span>}
+      {isImportingSvg && <span className="text-xs text-slate-400">Importing SVG…</span>}
+      {error && (
+        <p className="flex items-center gap-2 text-xs text-rose-400" role="alert">
+          {error}
+          <button
+            type="button"
+            onClick={onDismissError}
+            aria-label="Dismiss error"
+            className="text-rose-300 transition hover:text-rose-100"
+          >
+            ✕
+          </button>
+        </p>
+      )}
+      {svgImportReport && (
+        <div className="w-full space-y-1 text-xs" role="status">
+          <p className="flex items-center gap-2 text-slate-300">
+            Imported {svgImportReport.importedCount}{' '}
+            {svgImportReport.importedCount === 1 ? 'element' : 'elements'} from{' '}
+            {svgImportReport.fileName}.
+            <button
+              type="button"
+              onClick={onDismissError}
+              aria-label="Dismiss import report"
+              className="text-slate-500 transition hover:text-slate-200"
+            >
+              ✕
+            </button>
+          </p>
+          {svgImportReport.unsupported.length > 0 && (
+            <div className="text-amber-300">
+              <p>Not imported or approximated:</p>
+              <ul className="list-inside list-disc text-amber-200/80">
+                {svgImportReport.unsupported.map((note) => (
+                  <li key={note}>{note}</li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,58 @@
+import { MIN_GRID_SIZE, type CanvasSettings } from '../model/canvasSettingsSlice';
+
+interface CanvasViewOptionsProps {
+  settings: CanvasSettings;
+  onChange: (changes: Partial<CanvasSettings>) => void;
+}
+
+const toggleClassName = (isOn: boolean) =>
+  `rounded-lg border px-2.5 py-1.5 text-xs font-medium transition ${
+    isOn
+      ? 'border-sky-500/70 bg-sky-500/10 text-sky-200'
+      : 'border-slate-800 bg-slate-950/60 text-slate-400 hover:border-slate-600'
+  }`;
+
+export const CanvasViewOptions = ({ settings, onChange }: CanvasViewOptionsProps) => {
+  const toggle = (
+    key: 'snapToObjects' | 'showGrid' | 'snapToGrid' | 'showRulers',
+    label: string,
+    title: string
+  ) => (
+    <button
+      type="button"
+      aria-pressed={settings[key]}
+      onClick={() => onChange({ [key]: !settings[key] })}
+      title={title}
+      className={toggleClassName(settings[key])}
+    >
+      {label}
+    </button>
+  );
+
+  return (
+    <div className="flex flex-wrap items-center gap-1.5" role="group" aria-label="View options">
+      {toggle(
+        'snapToObjects',
+        'Snap',
+        'Snap to other elements, the design edges and guides (hold Ctrl/⌘ while dragging to move freely)'
+      )}
+      {toggle('showGrid', 'Grid', 'Show the layout grid')}
+      {toggle('snapToGrid', 'Snap to grid', 'Round moves onto the grid when nothing else is close')}
+      <label className="flex items-center gap-1 text-xs text-slate-500">
+        <input
+          type="number"
+          min={MIN_GRID_SIZE}
+          value={settings.gridSize}
+          onChange={(event) => {
+            const gridSize = event.target.valueAsNumber;
+            if (Number.isFinite(gridSize)) onChange({ gridSize });
+          }}
+          aria-label="Grid size"
+          className="w-12 rounded-md border border-slate-800 bg-slate-950/60 px-1.5 py-1 text-xs text-slate-200"
+        />
+        px
+      </label>
+      {toggle('showRulers', 'Rulers', 'Show rulers; drag from them to add guides')}
+    </div>
+  );
+};
@@ -0,0 +1,47 @@
+import type { ConnectionStatus } from '../model/syncSlice';
+
+interface ConnectionBannerProps {
+  status: ConnectionStatus;
+  /** Local edits the server has not acknowledged yet. */
+  pendingCount: number;
+}
+
+const changesLabel = (count: number) => `${count} ${count === 1 ? 'change' : 'changes'}`;
+
+export const ConnectionBanner = ({ status, pendingCount }: ConnectionBannerProps) => {
+  if (status === 'local') return null;
+
+  if (status === 'offline' || status === 'reconnecting') {
+    return (
+      <p
+        role="status"
+        className="w-full rounded-xl border border-amber-400/40 bg-amber-400/10 px-4 py-2 text-sm text-amber-200"
+      >
+        {status === 'offline' ? 'You are offline.' : 'Connection lost — reconnecting…'}{' '}
+        {pendingCount
+          ? `${changesLabel(pendingCount)} saved on this device will sync when you're back.`
+          : 'Keep editing; changes will sync when you reconnect.'}
+      </p>
+    );
+  }
+
+  const label =
+    status === 'connecting'
+      ? 'Connecting…'
+      : status === 'syncing'
+        ? 'Syncing…'
+        : pendingCount
+          ? `Saving ${changesLabel(pendingCount)}…`
+          : 'All changes synced';
+
+  return (
+    <span role="status" className="flex items-center gap-2 text-xs text-slate-400">
+      <span
+        className={`inline-block h-2 w-2 rounded-full ${
+          status === 'synced' && !pendingCount ? 'bg-emerald-400' : 'animate-pulse bg-sky-400'
+        }`}
+      />
+      {label}
+    </span>
+  );
+};
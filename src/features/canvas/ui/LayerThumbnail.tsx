@@ -0,0 +1,66 @@
+import type { DesignElement } from '../../../entities/design/model/types';
+
+const SIZE = 28;
+
+/** A tiny preview of a layer: its colours and shape, the image itself, or a type glyph. */
+export const LayerThumbnail = ({ element }: { element: DesignElement }) => {
+  const frameClassName =
+    'flex shrink-0 items-center justify-center overflow-hidden rounded-md border border-slate-800 bg-slate-950';
+  const style = { width: SIZE, height: SIZE };
+
+  switch (element.type) {
+    case 'image':
+      return (
+        <span className={frameClassName} style={style}>
+          <img
+            src={element.src}
+            alt=""
+            className={`h-full w-full ${element.fit === 'cover' ? 'object-cover' : 'object-contain'}`}
+          />
+        </span>
+      );
+    case 'rect':
+    case 'circle': {
+      // Keep the shape's proportions inside the square.
+      const scale = (SIZE - 10) / Math.max(element.width, element.height, 1);
+      return (
+        <span className={frameClassName} style={style}>
+          <span
+            style={{
+              width: Math.max(element.width * scale, 4),
+              height: Math.max(element.height * scale, 4),
+              backgroundColor: element.fill,
+              border: element.strokeWidth ? `1px solid ${element.stroke}` : undefined,
+              borderRadius: element.type === 'circle' ? '50%' : Math.min(element.radius * scale, 6),
+            }}
+          />
+        </span>
+      );
+    }
+    case 'text':
+      return (
+        <span
+          className={`${frameClassName} font-semibold`}
+          style={{ ...style, color: element.fill, fontFamily: element.fontFamily }}
+        >
+          T
+        </span>
+      );
+    case 'frame':
+      return (
+        <span className={`${frameClassName} text-slate-400`} style={style}>
+          <span
+            className="h-3.5 w-3.5 rounded-sm border border-slate-500"
+            style={{ backgroundColor: element.fill }}
+          />
+        </span>
+      );
+    case 'group':
+    default:
+      return (
+        <span className={`${frameClassName} text-xs text-slate-400`} style={style}>
+          ⧉
+        </span>
+      );
+  }
+};
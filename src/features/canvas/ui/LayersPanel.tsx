@@ -1,51 +1,297 @@
+import { useState, type DragEvent, type KeyboardEvent, type MouseEvent } from 'react';
+
+import { isContainerElement } from '../../../entities/design/lib/elementTree';
+import { getLayerName } from '../../../entities/design/lib/labels';
+import type { ArrangeCommand } from '../../../entities/design/lib/ordering';
 import type { DesignElement } from '../../../entities/design/model/types';
+import { LayerThumbnail } from './LayerThumbnail';
+
+type DropPlacement = 'above' | 'below';
 
 interface LayersPanelProps {
   elements: DesignElement[];
-  selectedElementId?: string;
-  onSelect: (id: string) => void;
+  selectedIds: string[];
+  onSelectionChange: (ids: string[]) => void;
+  /** Renames, hides/shows and locks/unlocks layers. */
+  onElementsChange: (elements: DesignElement[]) => void;
+  onArrange: (command: ArrangeCommand) => void;
+  /** Drops a layer above or below one of its siblings. */
+  onMoveLayer: (elementId: string, targetId: string, placement: DropPlacement) => void;
+}
+
+interface LayerRow {
+  element: DesignElement;
+  depth: number;
+  parentId?: string;
+}
+
+interface DropTarget {
+  targetId: string;
+  placement: DropPlacement;
 }
 
-const elementTypeLabel: Record<DesignElement['type'], string> = {
-  text: 'Text',
-  rect: 'Rectangle',
-  circle: 'Circle',
-  image: 'Image',
+/** Topmost first, with children listed under their container unless it is collapsed. */
+const getVisibleRows = (
+  elements: DesignElement[],
+  collapsedIds: Set<string>,
+  depth = 0,
+  parentId?: string
+): LayerRow[] =>
+  [...elements]
+    .sort((a, b) => b.zIndex - a.zIndex)
+    .flatMap((element) => [
+      { element, depth, parentId },
+      ...(isContainerElement(element) && !collapsedIds.has(element.id)
+        ? getVisibleRows(element.children, collapsedIds, depth + 1, element.id)
+        : []),
+    ]);
+
+const countElements = (elements: DesignElement[]): number =>
+  elements.reduce(
+    (total, element) =>
+      total + 1 + (isContainerElement(element) ? countElements(element.children) : 0),
+    0
+  );
+
+/** A second line that tells similar layers apart: text content, or size and contents. */
+const describeLayer = (element: DesignElement) => {
+  if (element.type === 'text') return element.text.split('\n')[0] || 'Empty text';
+  const size = `${Math.round(element.width)} × ${Math.round(element.height)}`;
+  if (isContainerElement(element)) {
+    const count = element.children.length;
+    return `${size} · ${count} ${count === 1 ? 'layer' : 'layers'}`;
+  }
+  return size;
 };
 
-export const LayersPanel = ({ elements, selectedElementId, onSelect }: LayersPanelProps) => (
-  <section className="flex flex-col gap-3 rounded-2xl border border-slate-800 bg-slate-900/70 p-4">
-    <header className="flex items-center justify-between">
-      <h2 className="text-sm font-semibold uppercase tracking-widest text-slate-400">Layers</h2>
-      <span className="text-xs text-slate-500">{elements.length} items</span>
-    </header>
-    <div className="space-y-2">
-      {[...elements]
-        .sort((a, b) => b.zIndex - a.zIndex)
-        .map((element) => {
-          const isSelected = element.id === selectedElementId;
+const ARRANGE_ACTIONS: { command: ArrangeCommand; label: string; title: string }[] = [
+  { command: 'front', label: '⤒', title: 'Bring to front (Alt+Ctrl/⌘ ])' },
+  { command: 'forward', label: '↑', title: 'Bring forward (Ctrl/⌘ ])' },
+  { command: 'backward', label: '↓', title: 'Send backward (Ctrl/⌘ [)' },
+  { command: 'back', label: '⤓', title: 'Send to back (Alt+Ctrl/⌘ [)' },
+];
+
+const iconButtonClassName =
+  'w-6 shrink-0 rounded-md py-1 text-xs text-slate-500 transition hover:bg-slate-800 hover:text-slate-200';
+
+export const LayersPanel = ({
+  elements,
+  selectedIds,
+  onSelectionChange,
+  onElementsChange,
+  onArrange,
+  onMoveLayer,
+}: LayersPanelProps) => {
+  const [collapsedIds, setCollapsedIds] = useState(() => new Set<string>());
+  const [renamingId, setRenamingId] = useState<string | null>(null);
+  const [draggedId, setDraggedId] = useState<string | null>(null);
+  const [dropTarget, setDropTarget] = useState<DropTarget | null>(null);
+  const rows = getVisibleRows(elements, collapsedIds);
+  const total = countElements(elements);
+  const draggedRow = rows.find((row) => row.element.id === draggedId);
+
+  const toggleCollapsed = (id: string) =>
+    setCollapsedIds((current) => {
+      const next = new Set(current);
+      if (!next.delete(id)) next.add(id);
+      return next;
+    });
+
+  const handleClick = (event: MouseEvent<HTMLButtonElement>, id: string) => {
+    if (event.metaKey || event.ctrlKey) {
+      onSelectionChange(
+        selectedIds.includes(id)
+          ? selectedIds.filter((selectedId) => selectedId !== id)
+          : [...selectedIds, id]
+      );
+      return;
+    }
+
+    const anchorId = selectedIds[selectedIds.length - 1];
+    if (event.shiftKey && anchorId) {
+      // Shift extends from the most recently selected row, in panel order.
+      const orderedIds = rows.map((row) => row.element.id);
+      const from = orderedIds.indexOf(anchorId);
+      const to = orderedIds.indexOf(id);
+      if (from >= 0) {
+        const range = orderedIds.slice(Math.min(from, to), Math.max(from, to) + 1);
+        onSelectionChange([
+          ...selectedIds.filter((selectedId) => !range.includes(selectedId)),
+          ...range,
+        ]);
+        return;
+      }
+    }
+
+    onSelectionChange([id]);
+  };
+
+  const rename = (element: DesignElement, name: string) => {
+    setRenamingId(null);
+    // An empty name goes back to the type label; it is kept as '' so collaborators see it too.
+    const trimmed = name.trim();
+    if (trimmed !== (element.name ?? '')) onElementsChange([{ ...element, name: trimmed }]);
+  };
+
+  const handleRenameKeyDown = (event: KeyboardEvent<HTMLInputElement>, element: DesignElement) => {
+    if (event.key === 'Escape') event.currentTarget.value = element.name ?? '';
+    if (event.key === 'Enter' || event.key === 'Escape') event.currentTarget.blur();
+  };
+
+  // Only siblings can be reordered against each other; moving between containers
+  // would change the layer's coordinate space.
+  const handleDragOver = (event: DragEvent<HTMLDivElement>, row: LayerRow) => {
+    if (!draggedRow || draggedRow.parentId !== row.parentId) return;
+    event.preventDefault();
+    event.dataTransfer.dropEffect = 'move';
+    const box = event.currentTarget.getBoundingClientRect();
+    setDropTarget({
+      targetId: row.element.id,
+      placement: event.clientY < box.top + box.height / 2 ? 'above' : 'below',
+    });
+  };
+
+  const handleDrop = (event: DragEvent<HTMLDivElement>) => {
+    event.preventDefault();
+    if (draggedId && dropTarget && dropTarget.targetId !== draggedId) {
+      onMoveLayer(draggedId, dropTarget.targetId, dropTarget.placement);
+    }
+    setDraggedId(null);
+    setDropTarget(null);
+  };
+
+  return (
+    <section className="flex flex-col gap-3 rounded-2xl border border-slate-800 bg-slate-900/70 p-4">
+      <header className="flex items-center justify-between">
+        <h2 className="text-sm font-semibold uppercase tracking-widest text-slate-400">Layers</h2>
+        <span className="text-xs text-slate-500">
+          {selectedIds.length > 1 ? `${selectedIds.length} of ${total} selected` : `${total} items`}
+        </span>
+      </header>
+      <div className="flex gap-1" role="toolbar" aria-label="Arrange">
+        {ARRANGE_ACTIONS.map(({ command, label, title }) => (
+          <button
+            key={command}
+            type="button"
+            onClick={() => onArrange(command)}
+            disabled={!selectedIds.length}
+            title={title}
+            aria-label={title}
+            className="flex-1 rounded-lg border border-slate-800 bg-slate-950/60 py-1 text-xs text-slate-300 transition hover:border-slate-600 disabled:cursor-not-allowed disabled:opacity-40"
+          >
+            {label}
+          </button>
+        ))}
+      </div>
+      <div className="space-y-2" role="tree">
+        {rows.map((row) => {
+          const { element, depth } = row;
+          const isSelected = selectedIds.includes(element.id);
+          const isContainer = isContainerElement(element);
+          const isCollapsed = collapsedIds.has(element.id);
+          const name = getLayerName(element);
+          const dropPlacement =
+            dropTarget?.targetId === element.id && draggedId !== element.id
+              ? dropTarget.placement
+              : undefined;
           return (
-            <button
+            <div
               key={element.id}
-              type="button"
-              onClick={() => onSelect(element.id)}
-              className={`w-full rounded-xl border px-3 py-2 text-left transition ${
-                isSelected
-                  ? 'border-sky-500/80 bg-sky-500/10 text-slate-50'
-                  : 'border-slate-800 bg-slate-900/80 text-slate-300 hover:border-slate-700'
-              }`}
+              role="treeitem"
+              aria-level={depth + 1}
+              aria-expanded={isContainer ? !isCollapsed : undefined}
+              aria-selected={isSelected}
+              draggable={renamingId !== element.id}
+              onDragStart={(event) => {
+                event.dataTransfer.effectAllowed = 'move';
+                event.dataTransfer.setData('text/plain', element.id);
+                setDraggedId(element.id);
+              }}
+              onDragOver={(event) => handleDragOver(event, row)}
+              onDrop={handleDrop}
+              onDragEnd={() => {
+                setDraggedId(null);
+                setDropTarget(null);
+              }}
+              className={`relative flex items-center gap-1 ${draggedId === element.id ? 'opacity-40' : ''}`}
+              style={{ paddingLeft: depth * 12 }}
             >
-              <p className="text-sm font-semibold">{elementTypeLabel[element.type]}</p>
-              <p className="text-xs text-slate-500">
-                id:{' '}
-                <span className="font-mono text-slate-400">
-                  {element.id.length > 10 ? `${element.id.slice(0, 10)}…` : element.id}
-                </span>
-              </p>
-            </button>
+              {dropPlacement && (
+                <span
+                  className={`pointer-events-none absolute left-0 right-0 h-0.5 rounded bg-sky-400 ${
+                    dropPlacement === 'above' ? '-top-1' : '-bottom-1'
+                  }`}
+                />
+              )}
+              {isContainer ? (
+                <button
+                  type="button"
+                  onClick={() => toggleCollapsed(element.id)}
+                  aria-label={isCollapsed ? 'Expand layer' : 'Collapse layer'}
+                  className="w-5 shrink-0 text-xs text-slate-500 transition hover:text-slate-200"
+                >
+                  {isCollapsed ? '▸' : '▾'}
+                </button>
+              ) : (
+                <span className="w-5 shrink-0" />
+              )}
+              <div
+                className={`flex min-w-0 flex-1 items-center gap-2 rounded-xl border px-2 py-1.5 transition ${
+                  isSelected
+                    ? 'border-sky-500/80 bg-sky-500/10 text-slate-50'
+                    : 'border-slate-800 bg-slate-900/80 text-slate-300 hover:border-slate-700'
+                } ${element.hidden ? 'opacity-50' : ''}`}
+              >
+                <LayerThumbnail element={element} />
+                {renamingId === element.id ? (
+                  <input
+                    autoFocus
+                    defaultValue={element.name ?? ''}
+                    placeholder={name}
+                    onFocus={(event) => event.target.select()}
+                    onBlur={(event) => rename(element, event.target.value)}
+                    onKeyDown={(event) => handleRenameKeyDown(event, element)}
+                    aria-label="Layer name"
+                    className="min-w-0 flex-1 rounded-md border border-slate-700 bg-slate-950 px-1.5 py-0.5 text-sm text-slate-100"
+                  />
+                ) : (
+                  <button
+                    type="button"
+                    onClick={(event) => handleClick(event, element.id)}
+                    onDoubleClick={() => setRenamingId(element.id)}
+                    aria-pressed={isSelected}
+                    title="Double-click to rename"
+                    className="min-w-0 flex-1 select-none text-left"
+                  >
+                    <p className="truncate text-sm font-semibold">{name}</p>
+                    <p className="truncate text-xs text-slate-500">{describeLayer(element)}</p>
+                  </button>
+                )}
+                <button
+                  type="button"
+                  onClick={() => onElementsChange([{ ...element, hidden: !element.hidden }])}
+                  aria-pressed={!!element.hidden}
+                  aria-label={element.hidden ? `Show ${name}` : `Hide ${name}`}
+                  title={element.hidden ? 'Show' : 'Hide'}
+                  className={iconButtonClassName}
+                >
+                  {element.hidden ? '◌' : '◉'}
+                </button>
+                <button
+                  type="button"
+                  onClick={() => onElementsChange([{ ...element, locked: !element.locked }])}
+                  aria-pressed={!!element.locked}
+                  aria-label={element.locked ? `Unlock ${name}` : `Lock ${name}`}
+                  title={element.locked ? 'Unlock' : 'Lock'}
+                  className={`${iconButtonClassName} ${element.locked ? 'text-amber-400' : ''}`}
+                >
+                  {element.locked ? '🔒' : '🔓'}
+                </button>
+              </div>
+            </div>
           );
         })}
-    </div>
-  </section>
-);
-
+      </div>
+    </section>
+  );
+};
@@ -0,0 +1,71 @@
+import { useRef, type PointerEvent } from 'react';
+
+import { getElementBounds, unionBounds, type Point } from '../../../entities/design/lib/geometry';
+import type { Design } from '../../../entities/design/model/types';
+import { getVisibleBounds, type Size, type Viewport } from '../lib/viewport';
+
+interface MinimapProps {
+  design: Design;
+  viewport: Viewport;
+  screen: Size;
+  /** Centres the canvas on a design point. */
+  onNavigate: (point: Point) => void;
+}
+
+const MINIMAP_WIDTH = 160;
+const MINIMAP_MAX_HEIGHT = 120;
+
+/** The whole design in miniature with the visible area outlined; click or drag to move. */
+export const Minimap = ({ design, viewport, screen, onNavigate }: MinimapProps) => {
+  const svgRef = useRef<SVGSVGElement>(null);
+  const isDraggingRef = useRef(false);
+
+  const artboard = { x: 0, y: 0, width: design.width, height: design.height };
+  const elementBounds = design.elements.map((element) => getElementBounds(element));
+  const area = unionBounds([artboard, ...elementBounds]) ?? artboard;
+  const visible = getVisibleBounds(viewport, screen);
+  const height = Math.min(MINIMAP_MAX_HEIGHT, (MINIMAP_WIDTH * area.height) / area.width);
+
+  const navigate = (event: PointerEvent<SVGSVGElement>) => {
+    const matrix = svgRef.current?.getScreenCTM()?.inverse();
+    if (!matrix) return;
+    const point = new DOMPoint(event.clientX, event.clientY).matrixTransform(matrix);
+    onNavigate({ x: point.x, y: point.y });
+  };
+
+  return (
+    <svg
+      ref={svgRef}
+      role="img"
+      aria-label="Minimap"
+      width={MINIMAP_WIDTH}
+      height={height}
+      viewBox={`${area.x} ${area.y} ${area.width} ${area.height}`}
+      preserveAspectRatio="xMidYMid meet"
+      className="cursor-pointer rounded-xl border border-slate-700 bg-slate-950/90 shadow-lg shadow-slate-950/60"
+      onPointerDown={(event) => {
+        isDraggingRef.current = true;
+        event.currentTarget.setPointerCapture(event.pointerId);
+        navigate(event);
+      }}
+      onPointerMove={(event) => {
+        if (isDraggingRef.current) navigate(event);
+      }}
+      onPointerUp={() => {
+        isDraggingRef.current = false;
+      }}
+    >
+      <rect {...artboard} fill="#1e293b" />
+      {elementBounds.map((bounds, index) => (
+        <rect key={design.elements[index].id} {...bounds} fill="#64748b" fillOpacity={0.6} />
+      ))}
+      <rect
+        {...visible}
+        fill="rgba(56, 189, 248, 0.08)"
+        stroke="#38bdf8"
+        strokeWidth={2}
+        vectorEffect="non-scaling-stroke"
+      />
+    </svg>
+  );
+};
@@ -0,0 +1,97 @@
+import { useEffect, useState } from 'react';
+import { Group, Label, Layer, Line, Tag, Text } from 'react-konva';
+
+import { findElementLocation } from '../../../entities/design/lib/elementTree';
+import { getElementCorners, toDesignSpace } from '../../../entities/design/lib/geometry';
+import type { DesignElement } from '../../../entities/design/model/types';
+import type { RemoteCollaborator } from '../model/selectors';
+
+interface PresenceLayerProps {
+  elements: DesignElement[];
+  collaborators: RemoteCollaborator[];
+  /** Stage zoom; cursors and outlines keep their on-screen size regardless. */
+  zoom?: number;
+}
+
+/** A cursor that has not moved for this long starts fading out... */
+const CURSOR_IDLE_MS = 4000;
+/** ...and is gone this long after that. */
+const CURSOR_FADE_MS = 1500;
+const TICK_MS = 250;
+
+/** Arrow pointer outline with its tip at the origin. */
+const CURSOR_POINTS = [0, 0, 0, 16, 4.5, 12, 8, 19, 11, 17.5, 7.5, 11, 13, 11];
+
+const getCursorOpacity = (idleMs: number) =>
+  Math.min(1, Math.max(0, 1 - (idleMs - CURSOR_IDLE_MS) / CURSOR_FADE_MS));
+
+/** Collaborators' cursors and selections, drawn above everything and never hit-tested. */
+export const PresenceLayer = ({ elements, collaborators, zoom = 1 }: PresenceLayerProps) => {
+  const [now, setNow] = useState(() => Date.now());
+  const isAnyoneActive = collaborators.some(
+    (collaborator) =>
+      collaborator.cursor && now - collaborator.lastSeenAt < CURSOR_IDLE_MS + CURSOR_FADE_MS
+  );
+
+  useEffect(() => {
+    // Only tick while a cursor might still need to fade.
+    if (!isAnyoneActive) return undefined;
+    const timer = setInterval(() => setNow(Date.now()), TICK_MS);
+    return () => clearInterval(timer);
+  }, [isAnyoneActive]);
+
+  return (
+    <Layer name="presence" listening={false}>
+      {collaborators.map((collaborator) =>
+        (collaborator.selectedIds ?? []).flatMap((id) => {
+          const location = findElementLocation(elements, id);
+          if (!location) return [];
+          const corners = getElementCorners(location.element).map((corner) =>
+            toDesignSpace(corner, location.ancestors)
+          );
+          return [
+            <Line
+              key={`${collaborator.id}:${id}`}
+              points={corners.flatMap((corner) => [corner.x, corner.y])}
+              closed
+              stroke={collaborator.color}
+              strokeWidth={2}
+              strokeScaleEnabled={false}
+            />,
+          ];
+        })
+      )}
+      {collaborators.map((collaborator) => {
+        const opacity = getCursorOpacity(now - collaborator.lastSeenAt);
+        if (!collaborator.cursor || !opacity) return null;
+        return (
+          <Group
+            key={collaborator.id}
+            {...collaborator.cursor}
+            scaleX={1 / zoom}
+            scaleY={1 / zoom}
+            opacity={opacity}
+          >
+            <Line
+              points={CURSOR_POINTS}
+              closed
+              fill={collaborator.color}
+              stroke="#0f172a"
+              strokeWidth={1}
+            />
+            <Label x={12} y={20}>
+              <Tag fill={collaborator.color} cornerRadius={4} />
+              <Text
+                text={collaborator.name}
+                fontSize={12}
+                fontStyle="bold"
+                fill="#0f172a"
+                padding={4}
+              />
+            </Label>
+          </Group>
+        );
+      })}
+    </Layer>
+  );
+};
@@ -1,11 +1,71 @@
-import type { DesignElement } from '../../../entities/design/model/types';
+import { isContainerElement } from '../../../entities/design/lib/elementTree';
+import { scaleElement } from '../../../entities/design/lib/scaling';
+import type { ContainerElement, DesignElement } from '../../../entities/design/model/types';
+import type { Alignment, DistributeAxis } from '../lib/alignment';
+import { AlignmentControls } from './AlignmentControls';
+import { FrameSection } from './properties/FrameSection';
+import { ImageSection } from './properties/ImageSection';
+import { MixedSelectionSection, type MixedPatch } from './properties/MixedSelectionSection';
+import { ShapeSection } from './properties/ShapeSection';
+import { TextSection } from './properties/TextSection';
+import { TransformSection } from './properties/TransformSection';
 
 interface PropertiesPanelProps {
-  element?: DesignElement;
+  elements: DesignElement[];
+  onChange: (elements: DesignElement[]) => void;
+  onAlign: (alignment: Alignment) => void;
+  onDistribute: (axis: DistributeAxis) => void;
+  onWrap: (type: ContainerElement['type']) => void;
+  onUnwrap: () => void;
 }
 
-export const PropertiesPanel = ({ element }: PropertiesPanelProps) => {
-  if (!element) {
+const sectionTitleClassName = 'text-xs font-semibold uppercase tracking-widest text-slate-400';
+
+const appearanceTitle: Record<DesignElement['type'], string> = {
+  text: 'Typography',
+  image: 'Image',
+  rect: 'Appearance',
+  circle: 'Appearance',
+  group: 'Group',
+  frame: 'Frame',
+};
+
+const arrangeButtonClassName =
+  'rounded-lg border border-slate-800 bg-slate-950/60 px-2 py-1.5 text-xs text-slate-200 transition hover:border-slate-600 disabled:cursor-not-allowed disabled:opacity-40';
+
+/**
+ * A group's size always follows its children, so editing it scales the children
+ * instead of changing the box directly.
+ */
+const applyPatch = (element: DesignElement, patch: Partial<DesignElement>) => {
+  const next = { ...element, ...patch } as DesignElement;
+  if (next.type !== 'group' || (next.width === element.width && next.height === element.height)) {
+    return next;
+  }
+  const scaleX = element.width ? next.width / element.width : 1;
+  const scaleY = element.height ? next.height / element.height : 1;
+  return { ...next, children: next.children.map((child) => scaleElement(child, scaleX, scaleY)) };
+};
+
+const applyMixedPatch = (element: DesignElement, patch: MixedPatch) => {
+  const next = applyPatch(element, patch);
+  if (element.type === 'circle') {
+    // Circles are sized by radius; a shared width/height edit leaves them alone.
+    next.width = element.width;
+    next.height = element.height;
+  }
+  return next;
+};
+
+export const PropertiesPanel = ({
+  elements,
+  onChange,
+  onAlign,
+  onDistribute,
+  onWrap,
+  onUnwrap,
+}: PropertiesPanelProps) => {
+  if (!elements.length) {
     return (
       <section className="rounded-2xl border border-slate-800 bg-slate-900/70 p-4 text-center text-sm text-slate-500">
         Select a layer to inspect its properties.
@@ -13,43 +73,115 @@ export const PropertiesPanel = ({ element }: PropertiesPanelProps) => {
     );
   }
 
+  const [element] = elements;
+  const isMixed = elements.length > 1;
+  const unlocked = elements.filter((item) => !item.locked);
+  const isLocked = unlocked.length === 0;
+  const update =
+    <T extends DesignElement>(current: T) =>
+    (patch: Partial<T>) =>
+      onChange([applyPatch(current, patch)]);
+  const hasContainer = unlocked.some(isContainerElement);
+
   return (
     <section className="space-y-4 rounded-2xl border border-slate-800 bg-slate-900/70 p-4">
-      <header>
-        <p className="text-xs uppercase tracking-widest text-slate-500">Properties</p>
-        <h3 className="text-lg font-semibold text-slate-50">{element.type} layer</h3>
-      </header>
-      <div className="grid grid-cols-2 gap-4 text-sm text-slate-300">
+      <header className="flex items-start justify-between gap-3">
         <div>
-          <p className="text-xs uppercase text-slate-500">Position</p>
-          <p>
-            x: {element.x}px · y: {element.y}px
-          </p>
-        </div>
-        <div>
-          <p className="text-xs uppercase text-slate-500">Size</p>
-          <p>
-            {element.width} × {element.height}px
-          </p>
-        </div>
-        <div>
-          <p className="text-xs uppercase text-slate-500">Rotation</p>
-          <p>{element.rotation}°</p>
-        </div>
-        <div>
-          <p className="text-xs uppercase text-slate-500">Opacity</p>
-          <p>{Math.round(element.opacity * 100)}%</p>
+          <p className="text-xs uppercase tracking-widest text-slate-500">Properties</p>
+          <h3 className="text-lg font-semibold text-slate-50">
+            {isMixed ? `${elements.length} layers` : `${element.type} layer`}
+          </h3>
         </div>
+        <button
+          type="button"
+          onClick={() => onChange(elements.map((item) => ({ ...item, locked: !isLocked })))}
+          aria-pressed={isLocked}
+          className={`rounded-full border px-3 py-1 text-xs font-semibold transition ${
+            isLocked
+              ? 'border-amber-400/60 bg-amber-400/10 text-amber-300'
+              : 'border-slate-700 text-slate-400 hover:border-slate-500'
+          }`}
+        >
+          {isLocked ? 'Locked' : 'Lock'}
+        </button>
+      </header>
+      {isLocked && (
+        <p className="rounded-xl border border-amber-400/30 bg-amber-400/5 px-3 py-2 text-xs text-amber-200">
+          {isMixed ? 'These layers are locked.' : 'This layer is locked.'} Unlock to edit
+          properties.
+        </p>
+      )}
+      {isMixed && !isLocked && unlocked.length < elements.length && (
+        <p className="text-xs text-slate-500">
+          Locked layers in the selection are skipped when editing.
+        </p>
+      )}
+      <AlignmentControls
+        selectionSize={elements.length}
+        disabled={isLocked}
+        onAlign={onAlign}
+        onDistribute={onDistribute}
+      />
+      <div className="grid grid-cols-3 gap-1">
+        <button
+          type="button"
+          title="Group selection (Ctrl/⌘+G)"
+          disabled={isLocked}
+          onClick={() => onWrap('group')}
+          className={arrangeButtonClassName}
+        >
+          Group
+        </button>
+        <button
+          type="button"
+          title="Frame selection (Alt+Ctrl/⌘+G)"
+          disabled={isLocked}
+          onClick={() => onWrap('frame')}
+          className={arrangeButtonClassName}
+        >
+          Frame
+        </button>
+        <button
+          type="button"
+          title="Ungroup (Shift+Ctrl/⌘+G)"
+          disabled={!hasContainer}
+          onClick={onUnwrap}
+          className={arrangeButtonClassName}
+        >
+          Ungroup
+        </button>
       </div>
-      {element.type === 'text' && (
-        <div className="rounded-xl border border-slate-800 bg-slate-950/70 p-3 text-sm text-slate-200">
-          <p className="font-semibold text-slate-100">Preview</p>
-          <p style={{ fontFamily: element.fontFamily, fontWeight: element.fontWeight }}>
-            {element.text}
-          </p>
-        </div>
+      {isMixed ? (
+        <MixedSelectionSection
+          elements={elements}
+          disabled={isLocked}
+          onChange={(patch) => onChange(unlocked.map((item) => applyMixedPatch(item, patch)))}
+        />
+      ) : (
+        <>
+          <div className="space-y-2">
+            <p className={sectionTitleClassName}>Layout</p>
+            <TransformSection element={element} disabled={isLocked} onChange={update(element)} />
+          </div>
+          {element.type !== 'group' && (
+            <div className="space-y-2">
+              <p className={sectionTitleClassName}>{appearanceTitle[element.type]}</p>
+              {element.type === 'text' && (
+                <TextSection element={element} disabled={isLocked} onChange={update(element)} />
+              )}
+              {(element.type === 'rect' || element.type === 'circle') && (
+                <ShapeSection element={element} disabled={isLocked} onChange={update(element)} />
+              )}
+              {element.type === 'image' && (
+                <ImageSection element={element} disabled={isLocked} onChange={update(element)} />
+              )}
+              {element.type === 'frame' && (
+                <FrameSection element={element} disabled={isLocked} onChange={update(element)} />
+              )}
+            </div>
+          )}
+        </>
       )}
     </section>
   );
 };
-
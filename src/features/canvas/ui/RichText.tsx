@@ -0,0 +1,58 @@
+import type { ComponentProps } from 'react';
+import { Shape } from 'react-konva';
+
+import { layoutText, toCssFont, type TextLayout } from '../../../entities/design/lib/textLayout';
+import type { TextElement } from '../../../entities/design/model/types';
+
+type RichTextProps = ComponentProps<typeof Shape> & {
+  element: TextElement;
+};
+
+const layoutCache = new WeakMap<TextElement, { width: number; layout: TextLayout }>();
+
+/** Konva redraws far more often than text changes; lay each element out once per width. */
+const getLayout = (element: TextElement, width: number) => {
+  const cached = layoutCache.get(element);
+  if (cached?.width === width) return cached.layout;
+  const layout = layoutText(element, width);
+  layoutCache.set(element, { width, layout });
+  return layout;
+};
+
+/**
+ * Draws a text element with its styled runs. The layout is taken at the node's live
+ * width, so text reflows while a side handle is dragged. The whole box is hit-tested,
+ * not just the glyphs.
+ */
+export const RichText = ({ element, ...shapeProps }: RichTextProps) => (
+  <Shape
+    {...shapeProps}
+    fill={element.fill}
+    sceneFunc={(context, shape) => {
+      const { lines } = getLayout(element, shape.width());
+      context.setAttr('textBaseline', 'alphabetic');
+      context.setAttr('textAlign', 'left');
+      lines.forEach((line) =>
+        line.fragments.forEach(({ text, x, style }) => {
+          context.setAttr('font', toCssFont(style));
+          context.setAttr('fillStyle', style.fill);
+          if (!element.letterSpacing) {
+            context.fillText(text, x, line.baseline);
+            return;
+          }
+          let charX = x;
+          for (const char of text) {
+            context.fillText(char, charX, line.baseline);
+            charX += context.measureText(char).width + element.letterSpacing;
+          }
+        })
+      );
+    }}
+    hitFunc={(context, shape) => {
+      context.beginPath();
+      context.rect(0, 0, shape.width(), shape.height());
+      context.closePath();
+      context.fillStrokeShape(shape);
+    }}
+  />
+);
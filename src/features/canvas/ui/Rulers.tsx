@@ -0,0 +1,115 @@
+import { useState, type PointerEvent } from 'react';
+
+import type { DesignGuide } from '../../../entities/design/model/types';
+import { getRulerTicks, RULER_SIZE } from '../lib/rulers';
+import { toDesignPoint, type Size, type Viewport } from '../lib/viewport';
+
+interface RulersProps {
+  viewport: Viewport;
+  screen: Size;
+  /** Dragging out of a ruler creates a guide across the other axis. */
+  onGuideCreate: (axis: DesignGuide['axis'], position: number) => void;
+}
+
+interface DraftGuide {
+  axis: DesignGuide['axis'];
+  /** Screen pixels from the canvas edge. */
+  offset: number;
+}
+
+const rulerClassName = 'absolute overflow-hidden bg-slate-950/90 text-slate-500 select-none';
+
+export const Rulers = ({ viewport, screen, onGuideCreate }: RulersProps) => {
+  const [draft, setDraft] = useState<DraftGuide | null>(null);
+
+  const getOffset = (event: PointerEvent<Element>, axis: DesignGuide['axis']) => {
+    const container = event.currentTarget.parentElement?.getBoundingClientRect();
+    if (!container) return 0;
+    return axis === 'x' ? event.clientX - container.left : event.clientY - container.top;
+  };
+
+  /** The top ruler makes horizontal guides (fixed y); the left one vertical guides. */
+  const startDraft = (event: PointerEvent<Element>, axis: DesignGuide['axis']) => {
+    if (event.button !== 0) return;
+    event.currentTarget.setPointerCapture(event.pointerId);
+    setDraft({ axis, offset: getOffset(event, axis) });
+  };
+
+  const moveDraft = (event: PointerEvent<Element>) => {
+    if (draft) setDraft({ ...draft, offset: getOffset(event, draft.axis) });
+  };
+
+  const finishDraft = () => {
+    setDraft(null);
+    // Letting go over the ruler again cancels.
+    if (!draft || draft.offset <= RULER_SIZE) return;
+    const point = toDesignPoint(viewport, { x: draft.offset, y: draft.offset });
+    onGuideCreate(draft.axis, Math.round(draft.axis === 'x' ? point.x : point.y));
+  };
+
+  const draftHandlers = {
+    onPointerMove: moveDraft,
+    onPointerUp: finishDraft,
+    onPointerCancel: () => setDraft(null),
+  };
+
+  return (
+    <>
+      <svg
+        className={`${rulerClassName} left-0 top-0 cursor-row-resize border-b border-slate-800`}
+        width={screen.width}
+        height={RULER_SIZE}
+        onPointerDown={(event) => startDraft(event, 'y')}
+        {...draftHandlers}
+        aria-label="Horizontal ruler; drag down to add a guide"
+      >
+        {getRulerTicks(viewport.x, viewport.zoom, screen.width).map((tick) => (
+          <g key={tick.value} transform={`translate(${tick.offset} 0)`}>
+            <line y1={RULER_SIZE - 6} y2={RULER_SIZE} stroke="currentColor" />
+            <text x={3} y={10} fontSize={9} fill="currentColor">
+              {tick.value}
+            </text>
+          </g>
+        ))}
+      </svg>
+      <svg
+        className={`${rulerClassName} left-0 top-0 cursor-col-resize border-r border-slate-800`}
+        width={RULER_SIZE}
+        height={screen.height}
+        onPointerDown={(event) => startDraft(event, 'x')}
+        {...draftHandlers}
+        aria-label="Vertical ruler; drag right to add a guide"
+      >
+        {getRulerTicks(viewport.y, viewport.zoom, screen.height).map((tick) => (
+          <g key={tick.value} transform={`translate(0 ${tick.offset})`}>
+            <line x1={RULER_SIZE - 6} x2={RULER_SIZE} stroke="currentColor" />
+            <text
+              x={13}
+              y={3}
+              fontSize={9}
+              fill="currentColor"
+              transform="rotate(-90 13 3)"
+              textAnchor="end"
+            >
+              {tick.value}
+            </text>
+          </g>
+        ))}
+      </svg>
+      <div
+        className="absolute left-0 top-0 border-b border-r border-slate-800 bg-slate-950"
+        style={{ width: RULER_SIZE, height: RULER_SIZE }}
+      />
+      {draft && draft.offset > RULER_SIZE && (
+        <div
+          className="pointer-events-none absolute bg-rose-500"
+          style={
+            draft.axis === 'x'
+              ? { left: draft.offset, top: 0, width: 1, height: screen.height }
+              : { top: draft.offset, left: 0, height: 1, width: screen.width }
+          }
+        />
+      )}
+    </>
+  );
+};
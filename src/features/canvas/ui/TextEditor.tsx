@@ -0,0 +1,368 @@
+import {
+  useEffect,
+  useLayoutEffect,
+  useRef,
+  useState,
+  type CSSProperties,
+  type FocusEvent,
+  type KeyboardEvent,
+} from 'react';
+
+import { fontWeightLabel } from '../../../entities/design/lib/labels';
+import {
+  applyRunStyle,
+  getBaseStyle,
+  getTextSegments,
+  toRuns,
+  type RunStyle,
+  type TextStyle,
+} from '../../../entities/design/lib/textRuns';
+import type { FontWeight, TextElement, TextRun } from '../../../entities/design/model/types';
+
+/** Where the element's top-left corner sits on screen, and how it is turned and zoomed. */
+export interface TextEditorPlacement {
+  x: number;
+  y: number;
+  rotation: number;
+  zoom: number;
+}
+
+export interface TextContent {
+  text: string;
+  runs: TextRun[];
+}
+
+interface TextEditorProps {
+  element: TextElement;
+  placement: TextEditorPlacement;
+  /** Called once, when focus leaves the editor or Escape is pressed. */
+  onCommit: (content: TextContent) => void;
+}
+
+interface TextSelection {
+  start: number;
+  end: number;
+}
+
+/** Spans carry their resolved style as JSON so edits can be read back into runs. */
+const STYLE_ATTRIBUTE = 'data-style';
+
+const FONT_WEIGHT_OPTIONS = Object.entries(fontWeightLabel);
+
+const toCss = (style: TextStyle): CSSProperties => ({
+  fontWeight: style.fontWeight,
+  fontStyle: style.italic ? 'italic' : 'normal',
+  fontSize: style.fontSize,
+  color: style.fill,
+});
+
+/** Replaces the editor's DOM with one span per styled segment. */
+const renderContent = (root: HTMLElement, element: TextElement) => {
+  const spans = getTextSegments(element).map(({ text, style }) => {
+    const span = document.createElement('span');
+    span.textContent = text;
+    span.setAttribute(STYLE_ATTRIBUTE, JSON.stringify(style));
+    span.style.fontWeight = String(style.fontWeight);
+    span.style.fontStyle = style.italic ? 'italic' : 'normal';
+    span.style.fontSize = `${style.fontSize}px`;
+    span.style.color = style.fill;
+    return span;
+  });
+  // A trailing line break only gets a line of its own when something follows it.
+  root.replaceChildren(
+    ...spans,
+    ...(element.text.endsWith('\n') ? [document.createElement('br')] : [])
+  );
+};
+
+/** Reads text and runs back out of whatever DOM the browser left after an edit. */
+const readContent = (root: HTMLElement, element: TextElement): TextContent => {
+  let text = '';
+  const styles: RunStyle[] = [];
+  const walker = document.createTreeWalker(root, NodeFilter.SHOW_TEXT);
+  for (let node = walker.nextNode(); node; node = walker.nextNode()) {
+    const value = (node.textContent ?? '').replace(/\u00a0/g, ' ');
+    const attribute = node.parentElement
+      ?.closest(`[${STYLE_ATTRIBUTE}]`)
+      ?.getAttribute(STYLE_ATTRIBUTE);
+    // Text typed outside every span (e.g. after deleting everything) takes the element's style.
+    const style: RunStyle = attribute ? JSON.parse(attribute) : {};
+    text += value;
+    styles.push(...Array.from({ length: value.length }, () => style));
+  }
+  return { text, runs: toRuns(styles, getBaseStyle(element)) };
+};
+
+const getTextOffset = (root: HTMLElement, node: Node, offset: number) => {
+  const range = document.createRange();
+  range.selectNodeContents(root);
+  range.setEnd(node, offset);
+  return range.toString().length;
+};
+
+const readSelection = (root: HTMLElement): TextSelection | undefined => {
+  const selection = document.getSelection();
+  if (!selection?.rangeCount) return undefined;
+  const range = selection.getRangeAt(0);
+  if (!root.contains(range.startContainer) || !root.contains(range.endContainer)) return undefined;
+  return {
+    start: getTextOffset(root, range.startContainer, range.startOffset),
+    end: getTextOffset(root, range.endContainer, range.endOffset),
+  };
+};
+
+/** The DOM position of a character offset; a boundary belongs to the text before it. */
+const findPosition = (root: HTMLElement, offset: number) => {
+  const walker = document.createTreeWalker(root, NodeFilter.SHOW_TEXT);
+  let remaining = offset;
+  for (let node = walker.nextNode(); node; node = walker.nextNode()) {
+    const length = node.textContent?.length ?? 0;
+    if (remaining <= length) return { node, offset: remaining };
+    remaining -= length;
+  }
+  return { node: root, offset: root.childNodes.length };
+};
+
+const restoreSelection = (root: HTMLElement, { start, end }: TextSelection) => {
+  const selection = document.getSelection();
+  if (!selection) return;
+  const from = findPosition(root, start);
+  const to = findPosition(root, end);
+  const range = document.createRange();
+  range.setStart(from.node, from.offset);
+  range.setEnd(to.node, to.offset);
+  selection.removeAllRanges();
+  selection.addRange(range);
+};
+
+/** The style new text would get at the selection: that of its first character. */
+const getStyleAt = (element: TextElement, { start, end }: TextSelection): TextStyle => {
+  let index = start === end ? start - 1 : start;
+  const segments = getTextSegments(element);
+  for (const segment of segments) {
+    if (index < segment.text.length) return segment.style;
+    index -= segment.text.length;
+  }
+  return segments.at(index < 0 ? 0 : -1)?.style ?? getBaseStyle(element);
+};
+
+const toolbarButtonClassName = (isActive: boolean) =>
+  `h-7 w-7 rounded-md text-sm transition ${
+    isActive ? 'bg-sky-500/20 text-sky-200' : 'text-slate-300 hover:bg-slate-800'
+  }`;
+
+/**
+ * Edits a text element in place, overlaid on its canvas node. Styles applied from the
+ * mini toolbar (or Ctrl/⌘ B and I) cover the selected characters, or the whole text when
+ * nothing is selected. The DOM is normalised back into spans after every edit.
+ */
+export const TextEditor = ({ element, placement, onCommit }: TextEditorProps) => {
+  const wrapperRef = useRef<HTMLDivElement>(null);
+  const editorRef = useRef<HTMLDivElement>(null);
+  const initialElementRef = useRef(element);
+  const contentRef = useRef<TextContent>({ text: element.text, runs: element.runs ?? [] });
+  const selectionRef = useRef<TextSelection>({ start: 0, end: element.text.length });
+  const committedRef = useRef(false);
+  const [activeStyle, setActiveStyle] = useState(() => getBaseStyle(element));
+  const [sizeDraft, setSizeDraft] = useState<string | null>(null);
+
+  const withContent = (content: TextContent): TextElement => ({ ...element, ...content });
+
+  useLayoutEffect(() => {
+    const editor = editorRef.current;
+    if (!editor) return;
+    renderContent(editor, initialElementRef.current);
+    editor.focus();
+    restoreSelection(editor, selectionRef.current);
+  }, []);
+
+  useEffect(() => {
+    // Toolbar controls take focus away from the text, so remember the last selection in it.
+    const handleSelectionChange = () => {
+      const editor = editorRef.current;
+      const selection = editor ? readSelection(editor) : undefined;
+      if (!selection) return;
+      selectionRef.current = selection;
+      setActiveStyle(
+        getStyleAt({ ...initialElementRef.current, ...contentRef.current }, selection)
+      );
+    };
+    document.addEventListener('selectionchange', handleSelectionChange);
+    return () => document.removeEventListener('selectionchange', handleSelectionChange);
+  }, []);
+
+  /** Re-renders the DOM from `content`, keeping the selection where it was. */
+  const update = (content: TextContent) => {
+    const editor = editorRef.current;
+    if (!editor) return;
+    contentRef.current = content;
+    renderContent(editor, withContent(content));
+    // Only put the caret back while typing; a focused toolbar control keeps its focus.
+    if (document.activeElement === editor) restoreSelection(editor, selectionRef.current);
+    setActiveStyle(getStyleAt(withContent(content), selectionRef.current));
+  };
+
+  const handleInput = () => {
+    const editor = editorRef.current;
+    if (!editor) return;
+    selectionRef.current = readSelection(editor) ?? selectionRef.current;
+    update(readContent(editor, element));
+  };
+
+  const insertText = (value: string) => {
+    const selection = document.getSelection();
+    if (!selection?.rangeCount) return;
+    const range = selection.getRangeAt(0);
+    range.deleteContents();
+    const node = document.createTextNode(value);
+    range.insertNode(node);
+    range.setStartAfter(node);
+    range.collapse(true);
+    selection.removeAllRanges();
+    selection.addRange(range);
+    handleInput();
+  };
+
+  const applyStyle = (patch: RunStyle) => {
+    const { text } = contentRef.current;
+    const { start, end } = selectionRef.current;
+    const [from, to] = start === end ? [0, text.length] : [start, end];
+    update({ text, runs: applyRunStyle(withContent(contentRef.current), from, to, patch) });
+  };
+
+  const toggleBold = () => applyStyle({ fontWeight: activeStyle.fontWeight >= 600 ? 400 : 700 });
+  const toggleItalic = () => applyStyle({ italic: !activeStyle.italic });
+
+  const commit = () => {
+    if (committedRef.current) return;
+    committedRef.current = true;
+    onCommit(contentRef.current);
+  };
+
+  const handleBlur = (event: FocusEvent<HTMLDivElement>) => {
+    if (!wrapperRef.current?.contains(event.relatedTarget as Node | null)) commit();
+  };
+
+  const handleKeyDown = (event: KeyboardEvent<HTMLDivElement>) => {
+    if (event.key === 'Escape') {
+      event.preventDefault();
+      commit();
+      return;
+    }
+    if (event.key === 'Enter') {
+      // Browsers wrap new lines in <div>s; plain line breaks keep offsets simple.
+      event.preventDefault();
+      insertText('\n');
+      return;
+    }
+    if (!(event.metaKey || event.ctrlKey)) return;
+    const key = event.key.toLowerCase();
+    if (key === 'b' || key === 'i' || key === 'u') {
+      event.preventDefault();
+      if (key === 'b') toggleBold();
+      if (key === 'i') toggleItalic();
+    }
+  };
+
+  const sizeValue = sizeDraft ?? String(activeStyle.fontSize);
+
+  return (
+    <div ref={wrapperRef} onBlur={handleBlur}>
+      <div
+        role="toolbar"
+        aria-label="Text style"
+        className="absolute z-10 flex items-center gap-1 rounded-lg border border-slate-700 bg-slate-900/95 p-1 shadow-lg shadow-slate-950/60"
+        style={{ left: Math.max(placement.x, 4), top: Math.max(placement.y - 44, 4) }}
+        // Keep the text selection when pressing buttons.
+        onMouseDown={(event) => {
+          if (event.target instanceof HTMLButtonElement) event.preventDefault();
+        }}
+      >
+        <select
+          value={activeStyle.fontWeight}
+          onChange={(event) => applyStyle({ fontWeight: Number(event.target.value) as FontWeight })}
+          aria-label="Weight"
+          className="h-7 rounded-md border border-slate-700 bg-slate-950 px-1 text-xs text-slate-200"
+        >
+          {FONT_WEIGHT_OPTIONS.map(([value, label]) => (
+            <option key={value} value={value}>
+              {label}
+            </option>
+          ))}
+        </select>
+        <input
+          type="number"
+          min={1}
+          max={999}
+          value={sizeValue}
+          onChange={(event) => {
+            setSizeDraft(event.target.value);
+            const fontSize = Number(event.target.value);
+            if (fontSize >= 1 && fontSize <= 999) applyStyle({ fontSize });
+          }}
+          onBlur={() => setSizeDraft(null)}
+          aria-label="Size"
+          className="h-7 w-14 rounded-md border border-slate-700 bg-slate-950 px-1 text-xs text-slate-200"
+        />
+        <button
+          type="button"
+          onClick={toggleBold}
+          aria-pressed={activeStyle.fontWeight >= 600}
+          title="Bold (Ctrl/⌘ B)"
+          className={`${toolbarButtonClassName(activeStyle.fontWeight >= 600)} font-bold`}
+        >
+          B
+        </button>
+        <button
+          type="button"
+          onClick={toggleItalic}
+          aria-pressed={activeStyle.italic}
+          title="Italic (Ctrl/⌘ I)"
+          className={`${toolbarButtonClassName(activeStyle.italic)} italic`}
+        >
+          I
+        </button>
+        <input
+          type="color"
+          value={activeStyle.fill.length === 7 ? activeStyle.fill : '#000000'}
+          onChange={(event) => applyStyle({ fill: event.target.value })}
+          aria-label="Colour"
+          className="h-7 w-7 cursor-pointer rounded-md border border-slate-700 bg-slate-950"
+        />
+      </div>
+      <div
+        ref={editorRef}
+        contentEditable
+        suppressContentEditableWarning
+        role="textbox"
+        aria-multiline
+        aria-label="Edit text"
+        spellCheck={false}
+        onInput={(event) => {
+          // Re-rendering mid-composition would cancel the IME's pending input.
+          if (!(event.nativeEvent as InputEvent).isComposing) handleInput();
+        }}
+        onCompositionEnd={handleInput}
+        onKeyDown={handleKeyDown}
+        onPaste={(event) => {
+          event.preventDefault();
+          insertText(event.clipboardData.getData('text/plain').replace(/\r\n?/g, '\n'));
+        }}
+        onDrop={(event) => event.preventDefault()}
+        className="absolute left-0 top-0 cursor-text whitespace-pre-wrap break-words outline-none"
+        style={{
+          width: element.width,
+          minHeight: element.height,
+          transform: `translate(${placement.x}px, ${placement.y}px) rotate(${placement.rotation}deg) scale(${placement.zoom})`,
+          transformOrigin: '0 0',
+          fontFamily: element.fontFamily,
+          ...toCss(getBaseStyle(element)),
+          textAlign: element.align,
+          lineHeight: element.lineHeight,
+          letterSpacing: element.letterSpacing,
+          opacity: element.opacity,
+        }}
+      />
+    </div>
+  );
+};
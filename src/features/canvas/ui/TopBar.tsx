@@ -1,21 +1,78 @@
+import type { SaveStatus } from '../../designs/model/autosaveSlice';
+import type { ConnectionStatus } from '../model/syncSlice';
+import { ConnectionBanner } from './ConnectionBanner';
+
 interface TopBarProps {
   title: string;
   isDirty?: boolean;
+  /** Autosave state; takes precedence over `isDirty` when given. */
+  saveStatus?: SaveStatus;
+  canUndo?: boolean;
+  canRedo?: boolean;
+  connectionStatus?: ConnectionStatus;
+  pendingChanges?: number;
   onUndo: () => void;
   onRedo: () => void;
   onShare: () => void;
+  onExport?: () => void;
+  onResize?: () => void;
+  /** Opens or closes the version history sidebar. */
+  onToggleHistory?: () => void;
+  isHistoryOpen?: boolean;
+  onRetrySave?: () => void;
 }
 
-export const TopBar = ({ title, isDirty, onRedo, onShare, onUndo }: TopBarProps) => (
+const saveBadges: Record<Exclude<SaveStatus, 'error'>, { label: string; className: string }> = {
+  dirty: { label: 'Unsaved', className: 'bg-amber-400/20 text-amber-300' },
+  saving: { label: 'Saving…', className: 'bg-sky-400/20 text-sky-300' },
+  saved: { label: 'Saved', className: 'bg-emerald-400/10 text-emerald-300' },
+  conflict: { label: 'Save conflict', className: 'bg-rose-400/20 text-rose-300' },
+};
+
+export const TopBar = ({
+  title,
+  isDirty,
+  saveStatus = isDirty ? 'dirty' : undefined,
+  canUndo = true,
+  canRedo = true,
+  connectionStatus = 'local',
+  pendingChanges = 0,
+  onRedo,
+  onShare,
+  onExport,
+  onResize,
+  onToggleHistory,
+  isHistoryOpen = false,
+  onUndo,
+  onRetrySave,
+}: TopBarProps) => (
   <header className="flex flex-wrap items-center justify-between gap-4 rounded-2xl border border-slate-800 bg-slate-900/70 px-6 py-4 shadow-lg shadow-slate-950/50 backdrop-blur">
     <div>
       <p className="text-xs uppercase tracking-widest text-slate-500">Active design</p>
       <div className="flex items-center gap-3">
         <h1 className="text-xl font-semibold text-slate-50">{title}</h1>
-        {isDirty && (
-          <span className="rounded-full bg-amber-400/20 px-3 py-1 text-xs font-semibold text-amber-300">
-            Unsaved
-          </span>
+        {saveStatus === 'error' ? (
+          <button
+            type="button"
+            onClick={onRetrySave}
+            title="Retry saving"
+            className="rounded-full bg-rose-400/20 px-3 py-1 text-xs font-semibold text-rose-300 transition hover:bg-rose-400/30"
+          >
+            Save failed · Retry
+          </button>
+        ) : (
+          saveStatus && (
+            <span
+              className={`rounded-full px-3 py-1 text-xs font-semibold ${saveBadges[saveStatus].className}`}
+            >
+              {saveBadges[saveStatus].label}
+            </span>
+          )
+        )}
+        {(connectionStatus === 'synced' ||
+          connectionStatus === 'syncing' ||
+          connectionStatus === 'connecting') && (
+          <ConnectionBanner status={connectionStatus} pendingCount={pendingChanges} />
         )}
       </div>
     </div>
@@ -23,17 +80,53 @@ export const TopBar = ({ title, isDirty, onRedo, onShare, onUndo }: TopBarProps)
       <button
         type="button"
         onClick={onUndo}
-        className="rounded-xl border border-slate-700 px-4 py-2 text-sm font-medium text-slate-200 transition hover:border-slate-500 hover:bg-slate-800"
+        disabled={!canUndo}
+        title="Undo (Ctrl/⌘+Z)"
+        className="rounded-xl border border-slate-700 px-4 py-2 text-sm font-medium text-slate-200 transition hover:border-slate-500 hover:bg-slate-800 disabled:cursor-not-allowed disabled:opacity-40 disabled:hover:border-slate-700 disabled:hover:bg-transparent"
       >
         Undo
       </button>
       <button
         type="button"
         onClick={onRedo}
-        className="rounded-xl border border-slate-700 px-4 py-2 text-sm font-medium text-slate-200 transition hover:border-slate-500 hover:bg-slate-800"
+        disabled={!canRedo}
+        title="Redo (Shift+Ctrl/⌘+Z)"
+        className="rounded-xl border border-slate-700 px-4 py-2 text-sm font-medium text-slate-200 transition hover:border-slate-500 hover:bg-slate-800 disabled:cursor-not-allowed disabled:opacity-40 disabled:hover:border-slate-700 disabled:hover:bg-transparent"
       >
         Redo
       </button>
+      {onResize && (
+        <button
+          type="button"
+          onClick={onResize}
+          className="rounded-xl border border-slate-700 px-4 py-2 text-sm font-medium text-slate-200 transition hover:border-slate-500 hover:bg-slate-800"
+        >
+          Resize
+        </button>
+      )}
+      {onToggleHistory && (
+        <button
+          type="button"
+          onClick={onToggleHistory}
+          aria-pressed={isHistoryOpen}
+          className={`rounded-xl border px-4 py-2 text-sm font-medium transition ${
+            isHistoryOpen
+              ? 'border-sky-500/80 bg-sky-500/10 text-slate-50'
+              : 'border-slate-700 text-slate-200 hover:border-slate-500 hover:bg-slate-800'
+          }`}
+        >
+          History
+        </button>
+      )}
+      {onExport && (
+        <button
+          type="button"
+          onClick={onExport}
+          className="rounded-xl border border-slate-700 px-4 py-2 text-sm font-medium text-slate-200 transition hover:border-slate-500 hover:bg-slate-800"
+        >
+          Export
+        </button>
+      )}
       <button
         type="button"
         onClick={onShare}
@@ -42,6 +135,8 @@ export const TopBar = ({ title, isDirty, onRedo, onShare, onUndo }: TopBarProps)
         Share
       </button>
     </div>
+    {(connectionStatus === 'offline' || connectionStatus === 'reconnecting') && (
+      <ConnectionBanner status={connectionStatus} pendingCount={pendingChanges} />
+    )}
   </header>
 );
-
@@ -0,0 +1,91 @@
+import { useState, type KeyboardEvent } from 'react';
+
+import { formatZoom, MAX_ZOOM, MIN_ZOOM, ZOOM_PRESETS } from '../lib/viewport';
+
+interface ZoomControlsProps {
+  zoom: number;
+  onZoomTo: (zoom: number) => void;
+  onZoomIn: () => void;
+  onZoomOut: () => void;
+  onFit: () => void;
+}
+
+const buttonClassName =
+  'rounded-md px-2 py-1 text-xs font-medium text-slate-300 transition hover:bg-slate-800 hover:text-slate-50 disabled:cursor-not-allowed disabled:opacity-40';
+
+export const ZoomControls = ({ zoom, onZoomTo, onZoomIn, onZoomOut, onFit }: ZoomControlsProps) => {
+  // `null` while not editing, so wheel and pinch zooms show straight through.
+  const [draft, setDraft] = useState<string | null>(null);
+
+  const commit = () => {
+    const percent = Number.parseFloat(draft ?? '');
+    if (Number.isFinite(percent) && percent > 0) onZoomTo(percent / 100);
+    setDraft(null);
+  };
+
+  const handleKeyDown = (event: KeyboardEvent<HTMLInputElement>) => {
+    if (event.key === 'Enter') event.currentTarget.blur();
+    if (event.key === 'Escape') {
+      setDraft(null);
+      event.currentTarget.blur();
+    }
+  };
+
+  return (
+    <div className="flex items-center gap-0.5 rounded-xl border border-slate-700 bg-slate-900/90 p-1 shadow-lg shadow-slate-950/60 backdrop-blur">
+      <button
+        type="button"
+        onClick={onZoomOut}
+        disabled={zoom <= MIN_ZOOM}
+        aria-label="Zoom out"
+        title="Zoom out (Ctrl/⌘ −)"
+        className={buttonClassName}
+      >
+        −
+      </button>
+      <input
+        aria-label="Zoom level"
+        value={draft ?? formatZoom(zoom)}
+        onFocus={(event) => {
+          setDraft(String(Math.round(zoom * 100)));
+          event.currentTarget.select();
+        }}
+        onChange={(event) => setDraft(event.target.value)}
+        onBlur={commit}
+        onKeyDown={handleKeyDown}
+        className="w-14 rounded-md bg-transparent px-1 py-1 text-center text-xs font-semibold tabular-nums text-slate-100 outline-none focus:bg-slate-950"
+      />
+      <button
+        type="button"
+        onClick={onZoomIn}
+        disabled={zoom >= MAX_ZOOM}
+        aria-label="Zoom in"
+        title="Zoom in (Ctrl/⌘ +)"
+        className={buttonClassName}
+      >
+        +
+      </button>
+      <span className="mx-1 h-4 w-px bg-slate-700" />
+      <button
+        type="button"
+        onClick={onFit}
+        title="Fit to screen (Shift 1)"
+        className={buttonClassName}
+      >
+        Fit
+      </button>
+      {ZOOM_PRESETS.map((preset) => (
+        <button
+          key={preset}
+          type="button"
+          onClick={() => onZoomTo(preset)}
+          aria-pressed={Math.abs(zoom - preset) < 0.001}
+          title={preset === 1 ? 'Actual size (Ctrl/⌘ 0)' : undefined}
+          className={buttonClassName}
+        >
+          {formatZoom(preset)}
+        </button>
+      ))}
+    </div>
+  );
+};
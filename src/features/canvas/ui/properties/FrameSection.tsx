@@ -0,0 +1,27 @@
+import type { FrameElement } from '../../../../entities/design/model/types';
+import { ColorField } from '../../../../shared/ui/ColorField';
+import { ToggleField } from '../../../../shared/ui/ToggleField';
+
+interface FrameSectionProps {
+  element: FrameElement;
+  disabled?: boolean;
+  onChange: (patch: Partial<FrameElement>) => void;
+}
+
+export const FrameSection = ({ element, disabled, onChange }: FrameSectionProps) => (
+  <div className="space-y-3">
+    <ColorField
+      label="Background"
+      value={element.fill === 'transparent' ? undefined : element.fill}
+      placeholder="None"
+      disabled={disabled}
+      onChange={(fill) => onChange({ fill })}
+    />
+    <ToggleField
+      label="Clip content"
+      checked={element.clipContent}
+      disabled={disabled}
+      onChange={(clipContent) => onChange({ clipContent })}
+    />
+  </div>
+);
@@ -0,0 +1,44 @@
+import type { ImageElement } from '../../../../entities/design/model/types';
+import { SelectField } from '../../../../shared/ui/SelectField';
+import { TextField } from '../../../../shared/ui/TextField';
+
+interface ImageSectionProps {
+  element: ImageElement;
+  disabled?: boolean;
+  onChange: (patch: Partial<ImageElement>) => void;
+}
+
+const FIT_OPTIONS: { value: ImageElement['fit']; label: string }[] = [
+  { value: 'contain', label: 'Contain' },
+  { value: 'cover', label: 'Cover' },
+];
+
+const isValidSource = (src: string) => {
+  if (!src || src.startsWith('data:image/')) return true;
+  try {
+    const url = new URL(src, window.location.href);
+    return url.protocol === 'http:' || url.protocol === 'https:' || url.protocol === 'blob:';
+  } catch {
+    return false;
+  }
+};
+
+export const ImageSection = ({ element, disabled, onChange }: ImageSectionProps) => (
+  <div className="space-y-3">
+    <TextField
+      label="Source"
+      value={element.src}
+      placeholder="https://…"
+      disabled={disabled}
+      error={isValidSource(element.src) ? undefined : 'Enter an http(s) or data: URL'}
+      onChange={(src) => onChange({ src })}
+    />
+    <SelectField
+      label="Fit"
+      value={element.fit}
+      options={FIT_OPTIONS}
+      disabled={disabled}
+      onChange={(fit) => onChange({ fit })}
+    />
+  </div>
+);
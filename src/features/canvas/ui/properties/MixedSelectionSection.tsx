@@ -0,0 +1,168 @@
+import type { BaseElement, DesignElement } from '../../../../entities/design/model/types';
+import { ColorField } from '../../../../shared/ui/ColorField';
+import { NumberField } from '../../../../shared/ui/NumberField';
+
+/** Properties that can be bulk-edited when every selected element supports them. */
+export type MixedPatch = Partial<
+  Pick<BaseElement, 'x' | 'y' | 'width' | 'height' | 'rotation' | 'opacity'> & {
+    fill: string;
+    stroke: string;
+    strokeWidth: number;
+    fontSize: number;
+  }
+>;
+
+interface MixedSelectionSectionProps {
+  elements: DesignElement[];
+  disabled?: boolean;
+  onChange: (patch: MixedPatch) => void;
+}
+
+const MIXED = 'Mixed';
+
+/** The value every element shares, or `undefined` when they differ. */
+const getSharedValue = <T,>(elements: DesignElement[], read: (element: DesignElement) => T) => {
+  const first = read(elements[0]);
+  return elements.every((element) => read(element) === first) ? first : undefined;
+};
+
+const sectionTitleClassName = 'text-xs font-semibold uppercase tracking-widest text-slate-400';
+
+export const MixedSelectionSection = ({
+  elements,
+  disabled,
+  onChange,
+}: MixedSelectionSectionProps) => {
+  const sized = elements.filter((element) => element.type !== 'circle');
+  const filled = elements.every((element) => 'fill' in element);
+  const stroked = elements.every((element) => element.type === 'rect' || element.type === 'circle');
+  const texts = elements.every((element) => element.type === 'text');
+
+  const opacity = getSharedValue(elements, (element) => element.opacity);
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-2">
+        <p className={sectionTitleClassName}>Layout</p>
+        <div className="grid grid-cols-2 gap-3">
+          <NumberField
+            label="X"
+            value={getSharedValue(elements, (element) => element.x)}
+            placeholder={MIXED}
+            suffix="px"
+            disabled={disabled}
+            onChange={(x) => onChange({ x })}
+          />
+          <NumberField
+            label="Y"
+            value={getSharedValue(elements, (element) => element.y)}
+            placeholder={MIXED}
+            suffix="px"
+            disabled={disabled}
+            onChange={(y) => onChange({ y })}
+          />
+          {sized.length > 0 && (
+            <>
+              <NumberField
+                label="Width"
+                value={getSharedValue(sized, (element) => element.width)}
+                placeholder={MIXED}
+                min={1}
+                suffix="px"
+                disabled={disabled}
+                onChange={(width) => onChange({ width })}
+              />
+              <NumberField
+                label="Height"
+                value={getSharedValue(sized, (element) => element.height)}
+                placeholder={MIXED}
+                min={1}
+                suffix="px"
+                disabled={disabled}
+                onChange={(height) => onChange({ height })}
+              />
+            </>
+          )}
+          <NumberField
+            label="Rotation"
+            value={getSharedValue(elements, (element) => element.rotation)}
+            placeholder={MIXED}
+            min={-360}
+            max={360}
+            precision={1}
+            suffix="°"
+            disabled={disabled}
+            onChange={(rotation) => onChange({ rotation })}
+          />
+          <NumberField
+            label="Opacity"
+            value={opacity === undefined ? undefined : Math.round(opacity * 100)}
+            placeholder={MIXED}
+            min={0}
+            max={100}
+            suffix="%"
+            disabled={disabled}
+            onChange={(value) => onChange({ opacity: value / 100 })}
+          />
+        </div>
+      </div>
+      {(filled || texts) && (
+        <div className="space-y-2">
+          <p className={sectionTitleClassName}>Appearance</p>
+          {filled && (
+            <ColorField
+              label="Fill"
+              value={getSharedValue(elements, (element) =>
+                'fill' in element ? element.fill : undefined
+              )}
+              placeholder={MIXED}
+              disabled={disabled}
+              onChange={(fill) => onChange({ fill })}
+            />
+          )}
+          {stroked && (
+            <div className="grid grid-cols-2 gap-3">
+              <ColorField
+                label="Stroke"
+                value={getSharedValue(elements, (element) =>
+                  element.type === 'rect' || element.type === 'circle' ? element.stroke : undefined
+                )}
+                placeholder={MIXED}
+                disabled={disabled}
+                onChange={(stroke) => onChange({ stroke })}
+              />
+              <NumberField
+                label="Stroke width"
+                value={getSharedValue(elements, (element) =>
+                  element.type === 'rect' || element.type === 'circle'
+                    ? element.strokeWidth
+                    : undefined
+                )}
+                placeholder={MIXED}
+                min={0}
+                max={200}
+                suffix="px"
+                disabled={disabled}
+                onChange={(strokeWidth) => onChange({ strokeWidth })}
+              />
+            </div>
+          )}
+          {texts && (
+            <NumberField
+              label="Font size"
+              value={getSharedValue(elements, (element) =>
+                element.type === 'text' ? element.fontSize : undefined
+              )}
+              placeholder={MIXED}
+              min={1}
+              max={999}
+              suffix="px"
+              disabled={disabled}
+              onChange={(fontSize) => onChange({ fontSize })}
+            />
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
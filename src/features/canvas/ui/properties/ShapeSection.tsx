@@ -0,0 +1,60 @@
+import type { CircleElement, RectElement } from '../../../../entities/design/model/types';
+import { ColorField } from '../../../../shared/ui/ColorField';
+import { NumberField } from '../../../../shared/ui/NumberField';
+
+type ShapeElement = RectElement | CircleElement;
+
+interface ShapeSectionProps {
+  element: ShapeElement;
+  disabled?: boolean;
+  onChange: (patch: Partial<ShapeElement>) => void;
+}
+
+export const ShapeSection = ({ element, disabled, onChange }: ShapeSectionProps) => (
+  <div className="space-y-3">
+    <ColorField
+      label="Fill"
+      value={element.fill}
+      disabled={disabled}
+      onChange={(fill) => onChange({ fill })}
+    />
+    <ColorField
+      label="Stroke"
+      value={element.stroke}
+      disabled={disabled}
+      onChange={(stroke) => onChange({ stroke })}
+    />
+    <div className="grid grid-cols-2 gap-3">
+      <NumberField
+        label="Stroke width"
+        value={element.strokeWidth}
+        min={0}
+        max={200}
+        suffix="px"
+        disabled={disabled}
+        onChange={(strokeWidth) => onChange({ strokeWidth })}
+      />
+      {element.type === 'circle' ? (
+        <NumberField
+          label="Radius"
+          value={element.radius}
+          min={1}
+          suffix="px"
+          disabled={disabled}
+          // Keep the bounding box in step with the radius the circle is drawn with.
+          onChange={(radius) => onChange({ radius, width: radius * 2, height: radius * 2 })}
+        />
+      ) : (
+        <NumberField
+          label="Corner radius"
+          value={element.radius}
+          min={0}
+          max={Math.floor(Math.min(element.width, element.height) / 2)}
+          suffix="px"
+          disabled={disabled}
+          onChange={(radius) => onChange({ radius })}
+        />
+      )}
+    </div>
+  </div>
+);
@@ -0,0 +1,125 @@
+import { fontWeightLabel } from '../../../../entities/design/lib/labels';
+import { replaceText } from '../../../../entities/design/lib/textRuns';
+import type { FontWeight, TextElement } from '../../../../entities/design/model/types';
+import { ColorField } from '../../../../shared/ui/ColorField';
+import { NumberField } from '../../../../shared/ui/NumberField';
+import { SelectField } from '../../../../shared/ui/SelectField';
+import { TextField } from '../../../../shared/ui/TextField';
+import { ToggleField } from '../../../../shared/ui/ToggleField';
+
+interface TextSectionProps {
+  element: TextElement;
+  disabled?: boolean;
+  onChange: (patch: Partial<TextElement>) => void;
+}
+
+const FONT_FAMILIES = ['Inter', 'Arial', 'Helvetica', 'Georgia', 'Times New Roman', 'Courier New'];
+
+const FONT_WEIGHT_OPTIONS = Object.entries(fontWeightLabel).map(([value, label]) => ({
+  value,
+  label,
+}));
+
+const ALIGN_OPTIONS: { value: TextElement['align']; label: string }[] = [
+  { value: 'left', label: 'Left' },
+  { value: 'center', label: 'Center' },
+  { value: 'right', label: 'Right' },
+];
+
+const SIZING_OPTIONS: { value: TextElement['sizing']; label: string }[] = [
+  { value: 'auto-height', label: 'Auto height' },
+  { value: 'fixed', label: 'Fixed box' },
+];
+
+export const TextSection = ({ element, disabled, onChange }: TextSectionProps) => {
+  const fontOptions = (
+    FONT_FAMILIES.includes(element.fontFamily)
+      ? FONT_FAMILIES
+      : [element.fontFamily, ...FONT_FAMILIES]
+  ).map((family) => ({ value: family, label: family }));
+
+  return (
+    <div className="space-y-3">
+      <TextField
+        label="Text"
+        multiline
+        value={element.text}
+        disabled={disabled}
+        // Ranges that were styled on the canvas stay on the characters they covered.
+        onChange={(text) => onChange({ text, runs: replaceText(element, text) })}
+      />
+      <div className="grid grid-cols-2 gap-3">
+        <SelectField
+          label="Font"
+          value={element.fontFamily}
+          options={fontOptions}
+          disabled={disabled}
+          onChange={(fontFamily) => onChange({ fontFamily })}
+        />
+        <NumberField
+          label="Size"
+          value={element.fontSize}
+          min={1}
+          max={999}
+          suffix="px"
+          disabled={disabled}
+          onChange={(fontSize) => onChange({ fontSize })}
+        />
+        <SelectField
+          label="Weight"
+          value={String(element.fontWeight)}
+          options={FONT_WEIGHT_OPTIONS}
+          disabled={disabled}
+          onChange={(fontWeight) => onChange({ fontWeight: Number(fontWeight) as FontWeight })}
+        />
+        <SelectField
+          label="Align"
+          value={element.align}
+          options={ALIGN_OPTIONS}
+          disabled={disabled}
+          onChange={(align) => onChange({ align })}
+        />
+        <NumberField
+          label="Line height"
+          value={element.lineHeight}
+          min={0.5}
+          max={5}
+          step={0.1}
+          precision={2}
+          disabled={disabled}
+          onChange={(lineHeight) => onChange({ lineHeight })}
+        />
+        <NumberField
+          label="Letter spacing"
+          value={element.letterSpacing}
+          min={-50}
+          max={100}
+          step={0.5}
+          precision={1}
+          suffix="px"
+          disabled={disabled}
+          onChange={(letterSpacing) => onChange({ letterSpacing })}
+        />
+        <SelectField
+          label="Sizing"
+          value={element.sizing}
+          options={SIZING_OPTIONS}
+          disabled={disabled}
+          onChange={(sizing) => onChange({ sizing })}
+        />
+      </div>
+      <ToggleField
+        label="Italic"
+        checked={!!element.italic}
+        disabled={disabled}
+        onChange={(italic) => onChange({ italic })}
+      />
+      <ColorField
+        label="Fill"
+        value={element.fill}
+        disabled={disabled}
+        onChange={(fill) => onChange({ fill })}
+      />
+    </div>
+  );
+};
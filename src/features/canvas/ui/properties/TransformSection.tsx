@@ -0,0 +1,67 @@
+import type { BaseElement, DesignElement } from '../../../../entities/design/model/types';
+import { NumberField } from '../../../../shared/ui/NumberField';
+
+interface TransformSectionProps {
+  element: DesignElement;
+  disabled?: boolean;
+  onChange: (patch: Partial<BaseElement>) => void;
+}
+
+export const TransformSection = ({ element, disabled, onChange }: TransformSectionProps) => (
+  <div className="grid grid-cols-2 gap-3">
+    <NumberField
+      label="X"
+      value={element.x}
+      suffix="px"
+      disabled={disabled}
+      onChange={(x) => onChange({ x })}
+    />
+    <NumberField
+      label="Y"
+      value={element.y}
+      suffix="px"
+      disabled={disabled}
+      onChange={(y) => onChange({ y })}
+    />
+    {/* Circles are sized through their radius in the appearance section. */}
+    {element.type !== 'circle' && (
+      <>
+        <NumberField
+          label="Width"
+          value={element.width}
+          min={1}
+          suffix="px"
+          disabled={disabled}
+          onChange={(width) => onChange({ width })}
+        />
+        <NumberField
+          label="Height"
+          value={element.height}
+          min={1}
+          suffix="px"
+          disabled={disabled}
+          onChange={(height) => onChange({ height })}
+        />
+      </>
+    )}
+    <NumberField
+      label="Rotation"
+      value={element.rotation}
+      min={-360}
+      max={360}
+      precision={1}
+      suffix="°"
+      disabled={disabled}
+      onChange={(rotation) => onChange({ rotation })}
+    />
+    <NumberField
+      label="Opacity"
+      value={Math.round(element.opacity * 100)}
+      min={0}
+      max={100}
+      suffix="%"
+      disabled={disabled}
+      onChange={(opacity) => onChange({ opacity: opacity / 100 })}
+    />
+  </div>
+);
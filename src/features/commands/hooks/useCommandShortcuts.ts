@@ -0,0 +1,31 @@
+import { useEffect } from 'react';
+
+import { useAppDispatch, useAppSelector } from '../../../app/hooks';
+import { isEditableTarget } from '../../../shared/lib/dom';
+import { toKeyBinding } from '../lib/keyBindings';
+import { runCommand } from '../model/commandThunks';
+import { findCommand } from '../model/registry';
+import { selectCommandIdsByBinding, selectCommandOverlay } from '../model/selectors';
+
+/** Runs the command bound to each key press, per the current (possibly custom) bindings. */
+export const useCommandShortcuts = () => {
+  const dispatch = useAppDispatch();
+  const commandIds = useAppSelector(selectCommandIdsByBinding);
+  const overlay = useAppSelector(selectCommandOverlay);
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.defaultPrevented) return;
+      const binding = toKeyBinding(event);
+      const command = binding ? findCommand(commandIds.get(binding) ?? '') : undefined;
+      if (!command) return;
+      if (command.context === 'canvas' && (overlay || isEditableTarget(event.target))) return;
+
+      event.preventDefault();
+      dispatch(runCommand(command.id));
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [commandIds, dispatch, overlay]);
+};
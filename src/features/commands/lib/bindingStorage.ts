@@ -0,0 +1,23 @@
+import type { KeyBinding } from './keyBindings';
+
+const STORAGE_KEY = 'design-collab:key-bindings';
+
+/** Bindings the user changed, by command id; commands not listed keep their defaults. */
+export type CustomBindings = Record<string, KeyBinding[]>;
+
+export const loadCustomBindings = (): CustomBindings => {
+  try {
+    const stored: unknown = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? '{}');
+    return stored && typeof stored === 'object' ? (stored as CustomBindings) : {};
+  } catch {
+    return {};
+  }
+};
+
+export const saveCustomBindings = (bindings: CustomBindings) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(bindings));
+  } catch {
+    // Private mode or quota: custom bindings just reset on reload.
+  }
+};
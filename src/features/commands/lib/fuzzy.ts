@@ -0,0 +1,36 @@
+const WORD_BOUNDARY = /[\s\-_/.·]/;
+
+/**
+ * How well `query` matches `text` as an in-order subsequence, ignoring case and spaces
+ * in the query. Runs of consecutive characters and matches at the start of a word score
+ * higher, and shorter texts win ties. Returns `undefined` when it does not match at all.
+ */
+export const fuzzyScore = (query: string, text: string): number | undefined => {
+  const needle = query.toLowerCase().replace(/\s+/g, '');
+  const haystack = text.toLowerCase();
+  let score = 0;
+  let from = 0;
+  let previous = -2;
+  for (const char of needle) {
+    const index = haystack.indexOf(char, from);
+    if (index < 0) return undefined;
+    score += 1;
+    if (index === previous + 1) score += 2;
+    if (index === 0 || WORD_BOUNDARY.test(haystack[index - 1])) score += 3;
+    previous = index;
+    from = index + 1;
+  }
+  return score - haystack.length / 100;
+};
+
+/** Items that match `query`, best first; everything, in order, for an empty query. */
+export const fuzzyFilter = <T>(items: T[], query: string, getText: (item: T) => string): T[] => {
+  if (!query.trim()) return items;
+  return items
+    .flatMap((item) => {
+      const score = fuzzyScore(query, getText(item));
+      return score === undefined ? [] : [{ item, score }];
+    })
+    .sort((a, b) => b.score - a.score)
+    .map(({ item }) => item);
+};
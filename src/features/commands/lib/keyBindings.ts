@@ -0,0 +1,73 @@
+/**
+ * Key bindings are strings such as `Mod+Shift+Z` or `Mod+Alt+]`: modifiers in the order
+ * Mod, Alt, Shift, then one key. `Mod` is ⌘ on macOS and Ctrl elsewhere, though either
+ * is accepted everywhere, as the editor always has.
+ */
+export type KeyBinding = string;
+
+/** Keys are read from `event.code`, so bindings stay put across keyboard layouts. */
+const CODE_KEYS: Record<string, string> = {
+  BracketLeft: '[',
+  BracketRight: ']',
+  Equal: '=',
+  Minus: '-',
+  Slash: '/',
+  Backslash: '\\',
+  Comma: ',',
+  Period: '.',
+  Semicolon: ';',
+  Quote: "'",
+  Backquote: '`',
+  NumpadAdd: '=',
+  NumpadSubtract: '-',
+};
+
+const MODIFIER_CODES = /^(Shift|Control|Alt|Meta|OS)(Left|Right)?$/;
+
+const readKey = (code: string) => {
+  if (code.startsWith('Key')) return code.slice(3);
+  if (code.startsWith('Digit')) return code.slice(5);
+  return CODE_KEYS[code] ?? code;
+};
+
+/** The binding a key press spells, or `undefined` for a lone modifier. */
+export const toKeyBinding = (event: KeyboardEvent): KeyBinding | undefined => {
+  if (!event.code || MODIFIER_CODES.test(event.code)) return undefined;
+  return [
+    event.metaKey || event.ctrlKey ? 'Mod' : '',
+    event.altKey ? 'Alt' : '',
+    event.shiftKey ? 'Shift' : '',
+    readKey(event.code),
+  ]
+    .filter(Boolean)
+    .join('+');
+};
+
+export const isMacPlatform = () =>
+  typeof navigator !== 'undefined' && /Mac|iPhone|iPad/.test(navigator.userAgent);
+
+const MAC_SYMBOLS: Record<string, string> = { Mod: '⌘', Alt: '⌥', Shift: '⇧' };
+
+const KEY_LABELS: Record<string, string> = {
+  ArrowUp: '↑',
+  ArrowDown: '↓',
+  ArrowLeft: '←',
+  ArrowRight: '→',
+  Backspace: '⌫',
+  Delete: 'Del',
+  Escape: 'Esc',
+  Enter: '↵',
+  Space: 'Space',
+};
+
+/** `⌘⇧Z` on macOS, `Ctrl+Shift+Z` elsewhere. */
+export const formatKeyBinding = (binding: KeyBinding, isMac = isMacPlatform()) => {
+  const parts = binding.split('+');
+  // A binding on the plus key itself ends with an empty part.
+  const key = parts.at(-1) || '+';
+  const modifiers = parts.slice(0, -1).filter(Boolean);
+  const label = KEY_LABELS[key] ?? key;
+  return isMac
+    ? [...modifiers.map((modifier) => MAC_SYMBOLS[modifier] ?? modifier), label].join('')
+    : [...modifiers.map((modifier) => (modifier === 'Mod' ? 'Ctrl' : modifier)), label].join('+');
+};
@@ -0,0 +1,44 @@
+import type { AppThunk } from '../../../app/store';
+import type { KeyBinding } from '../lib/keyBindings';
+import { keyBindingsChanged } from './commandsSlice';
+import { findCommand } from './registry';
+import { selectKeyBindings } from './selectors';
+
+export const runCommand =
+  (commandId: string): AppThunk =>
+  (dispatch) => {
+    const command = findCommand(commandId);
+    if (command) dispatch(command.run);
+  };
+
+/**
+ * Adds `binding` to a command. A binding runs one command only, so any other command
+ * holding it loses it.
+ */
+export const assignKeyBinding =
+  (commandId: string, binding: KeyBinding): AppThunk =>
+  (dispatch, getState) => {
+    const bindings = selectKeyBindings(getState());
+    for (const [otherId, keys] of Object.entries(bindings)) {
+      if (otherId !== commandId && keys.includes(binding)) {
+        dispatch(
+          keyBindingsChanged({
+            commandId: otherId,
+            bindings: keys.filter((key) => key !== binding),
+          })
+        );
+      }
+    }
+    const keys = bindings[commandId] ?? [];
+    if (!keys.includes(binding)) {
+      dispatch(keyBindingsChanged({ commandId, bindings: [...keys, binding] }));
+    }
+  };
+
+/** Removes one binding from a command, leaving it with its others. */
+export const removeKeyBinding =
+  (commandId: string, binding: KeyBinding): AppThunk =>
+  (dispatch, getState) => {
+    const keys = selectKeyBindings(getState())[commandId] ?? [];
+    dispatch(keyBindingsChanged({ commandId, bindings: keys.filter((key) => key !== binding) }));
+  };
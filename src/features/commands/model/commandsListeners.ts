@@ -0,0 +1,14 @@
+import { isAnyOf } from '@reduxjs/toolkit';
+
+import { startAppListening } from '../../../app/listenerMiddleware';
+import { saveCustomBindings } from '../lib/bindingStorage';
+import { keyBindingsChanged, keyBindingsReset } from './commandsSlice';
+
+/** Keeps custom key bindings in localStorage so they survive a reload. */
+export const registerCommandsListeners = () =>
+  startAppListening({
+    matcher: isAnyOf(keyBindingsChanged, keyBindingsReset),
+    effect: (_action, listenerApi) => {
+      saveCustomBindings(listenerApi.getState().commands.customBindings);
+    },
+  });
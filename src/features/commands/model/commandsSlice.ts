@@ -0,0 +1,47 @@
+import { createSlice, type PayloadAction } from '@reduxjs/toolkit';
+
+import { loadCustomBindings, type CustomBindings } from '../lib/bindingStorage';
+import type { KeyBinding } from '../lib/keyBindings';
+
+export type CommandOverlay = 'palette' | 'shortcuts' | 'resize';
+
+interface CommandsState {
+  /** Bindings the user changed, kept in this browser; the rest come from the registry. */
+  customBindings: CustomBindings;
+  overlay?: CommandOverlay;
+}
+
+const initialState: CommandsState = {
+  customBindings: loadCustomBindings(),
+};
+
+const commandsSlice = createSlice({
+  name: 'commands',
+  initialState,
+  reducers: {
+    keyBindingsChanged(
+      state,
+      action: PayloadAction<{ commandId: string; bindings: KeyBinding[] }>
+    ) {
+      state.customBindings[action.payload.commandId] = action.payload.bindings;
+    },
+    keyBindingsReset(state, action: PayloadAction<string | undefined>) {
+      if (action.payload) {
+        delete state.customBindings[action.payload];
+      } else {
+        state.customBindings = {};
+      }
+    },
+    /** Opens `overlay`, or closes it when it is already open. */
+    overlayToggled(state, action: PayloadAction<CommandOverlay>) {
+      state.overlay = state.overlay === action.payload ? undefined : action.payload;
+    },
+    overlayClosed(state) {
+      state.overlay = undefined;
+    },
+  },
+});
+
+export const { keyBindingsChanged, keyBindingsReset, overlayToggled, overlayClosed } =
+  commandsSlice.actions;
+export default commandsSlice.reducer;
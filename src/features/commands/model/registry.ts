@@ -0,0 +1,298 @@
+import type { AppThunk } from '../../../app/store';
+import { canvasSettingsChanged } from '../../canvas/model/canvasSettingsSlice';
+import { duplicateSelection } from '../../canvas/model/clipboardThunks';
+import { deleteSelection, nudgeSelection, selectAll } from '../../canvas/model/editThunks';
+import { unwrapSelection, wrapSelection } from '../../canvas/model/groupingThunks';
+import { redoDesign, undoDesign } from '../../canvas/model/historyThunks';
+import { arrangeSelection } from '../../canvas/model/layerThunks';
+import { clearSelection } from '../../canvas/model/selectionSlice';
+import { toolChanged } from '../../canvas/model/toolSlice';
+import { zoomStep, zoomToFit, zoomToLevel } from '../../canvas/model/viewportThunks';
+import { pinPlacementToggled } from '../../comments/model/commentsSlice';
+import { historyPanelToggled } from '../../versions/model/versionsSlice';
+import type { KeyBinding } from '../lib/keyBindings';
+import { overlayToggled } from './commandsSlice';
+
+export type CommandCategory = 'Edit' | 'Arrange' | 'View' | 'Tools' | 'General';
+
+/**
+ * Where a command's shortcut works. `canvas` commands stand aside while typing in a
+ * field or while the palette is open, so keys like Backspace and arrows keep their
+ * usual meaning there; `any` commands fire regardless.
+ */
+export type CommandContext = 'canvas' | 'any';
+
+export interface Command {
+  id: string;
+  title: string;
+  category: CommandCategory;
+  context: CommandContext;
+  defaultKeys: KeyBinding[];
+  /** Commands too fine-grained to pick from a list, such as nudges, stay out of the palette. */
+  hiddenFromPalette?: boolean;
+  run: AppThunk;
+}
+
+const withActiveDesign =
+  (run: (designId: string) => AppThunk): AppThunk =>
+  (dispatch, getState) => {
+    const { activeDesignId } = getState().design;
+    if (activeDesignId) dispatch(run(activeDesignId));
+  };
+
+const nudge = (direction: string, x: number, y: number, distance: number): Command => ({
+  id: `edit.nudge${direction}${distance}`,
+  title: `Nudge ${direction.toLowerCase()} ${distance}px`,
+  category: 'Edit',
+  context: 'canvas',
+  defaultKeys: [`${distance > 1 ? 'Shift+' : ''}Arrow${direction}`],
+  hiddenFromPalette: true,
+  run: (dispatch) => dispatch(nudgeSelection({ x: x * distance, y: y * distance })),
+});
+
+const zoomTo = (percent: number, defaultKeys: KeyBinding[] = []): Command => ({
+  id: `view.zoom${percent}`,
+  title: `Zoom to ${percent}%`,
+  category: 'View',
+  context: 'canvas',
+  defaultKeys,
+  run: (dispatch) => dispatch(zoomToLevel(percent / 100)),
+});
+
+/** Every editor action that can be bound to keys or run from the command palette. */
+export const COMMANDS: Command[] = [
+  {
+    id: 'edit.undo',
+    title: 'Undo',
+    category: 'Edit',
+    context: 'canvas',
+    defaultKeys: ['Mod+Z'],
+    run: withActiveDesign(undoDesign),
+  },
+  {
+    id: 'edit.redo',
+    title: 'Redo',
+    category: 'Edit',
+    context: 'canvas',
+    defaultKeys: ['Mod+Shift+Z', 'Mod+Y'],
+    run: withActiveDesign(redoDesign),
+  },
+  {
+    id: 'edit.delete',
+    title: 'Delete selection',
+    category: 'Edit',
+    context: 'canvas',
+    defaultKeys: ['Delete', 'Backspace'],
+    run: (dispatch) => dispatch(deleteSelection()),
+  },
+  {
+    id: 'edit.duplicate',
+    title: 'Duplicate selection',
+    category: 'Edit',
+    context: 'canvas',
+    defaultKeys: ['Mod+D'],
+    run: (dispatch) => dispatch(duplicateSelection()),
+  },
+  {
+    id: 'edit.selectAll',
+    title: 'Select all',
+    category: 'Edit',
+    context: 'canvas',
+    defaultKeys: ['Mod+A'],
+    run: (dispatch) => dispatch(selectAll()),
+  },
+  {
+    id: 'edit.deselect',
+    title: 'Deselect',
+    category: 'Edit',
+    context: 'canvas',
+    defaultKeys: ['Escape'],
+    run: (dispatch) => dispatch(clearSelection()),
+  },
+  nudge('Up', 0, -1, 1),
+  nudge('Down', 0, 1, 1),
+  nudge('Left', -1, 0, 1),
+  nudge('Right', 1, 0, 1),
+  nudge('Up', 0, -1, 10),
+  nudge('Down', 0, 1, 10),
+  nudge('Left', -1, 0, 10),
+  nudge('Right', 1, 0, 10),
+  {
+    id: 'arrange.forward',
+    title: 'Bring forward',
+    category: 'Arrange',
+    context: 'canvas',
+    defaultKeys: ['Mod+]'],
+    run: (dispatch) => dispatch(arrangeSelection('forward')),
+  },
+  {
+    id: 'arrange.backward',
+    title: 'Send backward',
+    category: 'Arrange',
+    context: 'canvas',
+    defaultKeys: ['Mod+['],
+    run: (dispatch) => dispatch(arrangeSelection('backward')),
+  },
+  {
+    id: 'arrange.front',
+    title: 'Bring to front',
+    category: 'Arrange',
+    context: 'canvas',
+    defaultKeys: ['Mod+Alt+]'],
+    run: (dispatch) => dispatch(arrangeSelection('front')),
+  },
+  {
+    id: 'arrange.back',
+    title: 'Send to back',
+    category: 'Arrange',
+    context: 'canvas',
+    defaultKeys: ['Mod+Alt+['],
+    run: (dispatch) => dispatch(arrangeSelection('back')),
+  },
+  {
+    id: 'arrange.group',
+    title: 'Group selection',
+    category: 'Arrange',
+    context: 'canvas',
+    defaultKeys: ['Mod+G'],
+    run: (dispatch) => dispatch(wrapSelection('group')),
+  },
+  {
+    id: 'arrange.frame',
+    title: 'Frame selection',
+    category: 'Arrange',
+    context: 'canvas',
+    defaultKeys: ['Mod+Alt+G'],
+    run: (dispatch) => dispatch(wrapSelection('frame')),
+  },
+  {
+    id: 'arrange.ungroup',
+    title: 'Ungroup',
+    category: 'Arrange',
+    context: 'canvas',
+    defaultKeys: ['Mod+Shift+G'],
+    run: (dispatch) => dispatch(unwrapSelection()),
+  },
+  {
+    id: 'view.zoomIn',
+    title: 'Zoom in',
+    category: 'View',
+    context: 'canvas',
+    defaultKeys: ['Mod+=', 'Mod+Shift+='],
+    run: (dispatch) => dispatch(zoomStep(1)),
+  },
+  {
+    id: 'view.zoomOut',
+    title: 'Zoom out',
+    category: 'View',
+    context: 'canvas',
+    defaultKeys: ['Mod+-'],
+    run: (dispatch) => dispatch(zoomStep(-1)),
+  },
+  {
+    id: 'view.zoomFit',
+    title: 'Zoom to fit',
+    category: 'View',
+    context: 'canvas',
+    defaultKeys: ['Shift+1'],
+    run: (dispatch) => dispatch(zoomToFit()),
+  },
+  zoomTo(50),
+  zoomTo(100, ['Mod+0']),
+  zoomTo(200),
+  {
+    id: 'view.grid',
+    title: 'Show or hide layout grid',
+    category: 'View',
+    context: 'canvas',
+    defaultKeys: ["Mod+'"],
+    run: (dispatch, getState) =>
+      dispatch(canvasSettingsChanged({ showGrid: !getState().canvasSettings.showGrid })),
+  },
+  {
+    id: 'view.rulers',
+    title: 'Show or hide rulers',
+    category: 'View',
+    context: 'canvas',
+    defaultKeys: ['Shift+R'],
+    run: (dispatch, getState) =>
+      dispatch(canvasSettingsChanged({ showRulers: !getState().canvasSettings.showRulers })),
+  },
+  {
+    id: 'view.history',
+    title: 'Show or hide version history',
+    category: 'View',
+    context: 'canvas',
+    defaultKeys: ['Mod+Alt+H'],
+    run: (dispatch) => dispatch(historyPanelToggled()),
+  },
+  {
+    id: 'tools.select',
+    title: 'Move tool',
+    category: 'Tools',
+    context: 'canvas',
+    defaultKeys: ['V'],
+    run: (dispatch) => {
+      dispatch(toolChanged('select'));
+      dispatch(pinPlacementToggled(false));
+    },
+  },
+  {
+    id: 'tools.hand',
+    title: 'Hand tool',
+    category: 'Tools',
+    context: 'canvas',
+    defaultKeys: ['H'],
+    run: (dispatch) => {
+      dispatch(toolChanged('hand'));
+      dispatch(pinPlacementToggled(false));
+    },
+  },
+  {
+    id: 'tools.comment',
+    title: 'Comment tool',
+    category: 'Tools',
+    context: 'canvas',
+    defaultKeys: ['C'],
+    run: (dispatch) => {
+      dispatch(toolChanged('select'));
+      dispatch(pinPlacementToggled(true));
+    },
+  },
+  {
+    id: 'general.resize',
+    title: 'Resize design',
+    category: 'General',
+    context: 'canvas',
+    defaultKeys: ['Mod+Alt+R'],
+    run: (dispatch) => dispatch(overlayToggled('resize')),
+  },
+  {
+    id: 'general.palette',
+    title: 'Command palette',
+    category: 'General',
+    context: 'any',
+    defaultKeys: ['Mod+K'],
+    hiddenFromPalette: true,
+    run: (dispatch) => dispatch(overlayToggled('palette')),
+  },
+  {
+    id: 'general.shortcuts',
+    title: 'Keyboard shortcuts',
+    category: 'General',
+    context: 'any',
+    defaultKeys: ['Mod+/'],
+    run: (dispatch) => dispatch(overlayToggled('shortcuts')),
+  },
+];
+
+export const COMMAND_CATEGORIES: CommandCategory[] = [
+  'Edit',
+  'Arrange',
+  'View',
+  'Tools',
+  'General',
+];
+
+export const findCommand = (commandId: string) =>
+  COMMANDS.find((command) => command.id === commandId);
@@ -0,0 +1,27 @@
+import { createSelector } from '@reduxjs/toolkit';
+
+import type { RootState } from '../../../app/store';
+import type { KeyBinding } from '../lib/keyBindings';
+import { COMMANDS } from './registry';
+
+const selectCustomBindings = (state: RootState) => state.commands.customBindings;
+
+export const selectCommandOverlay = (state: RootState) => state.commands.overlay;
+
+/** Each command's current bindings: the user's where changed, the registry's otherwise. */
+export const selectKeyBindings = createSelector(
+  [selectCustomBindings],
+  (customBindings): Record<string, KeyBinding[]> =>
+    Object.fromEntries(
+      COMMANDS.map((command) => [command.id, customBindings[command.id] ?? command.defaultKeys])
+    )
+);
+
+/** Which command each binding runs, for looking up key presses. */
+export const selectCommandIdsByBinding = createSelector([selectKeyBindings], (bindings) => {
+  const commandIds = new Map<KeyBinding, string>();
+  for (const [commandId, keys] of Object.entries(bindings)) {
+    for (const key of keys) commandIds.set(key, commandId);
+  }
+  return commandIds;
+});
@@ -0,0 +1,26 @@
+import { useAppDispatch, useAppSelector } from '../../../app/hooks';
+import { selectActiveDesign } from '../../../entities/design/model/selectors';
+import { ResizeDialog } from '../../designs/ui/ResizeDialog';
+import { useCommandShortcuts } from '../hooks/useCommandShortcuts';
+import { overlayClosed } from '../model/commandsSlice';
+import { selectCommandOverlay } from '../model/selectors';
+import { CommandPalette } from './CommandPalette';
+import { ShortcutSheet } from './ShortcutSheet';
+
+/**
+ * Listens for command shortcuts app-wide and shows the palette, cheat sheet or resize
+ * dialog when open.
+ */
+export const CommandCenter = () => {
+  useCommandShortcuts();
+  const dispatch = useAppDispatch();
+  const overlay = useAppSelector(selectCommandOverlay);
+  const activeDesign = useAppSelector(selectActiveDesign);
+
+  if (overlay === 'palette') return <CommandPalette />;
+  if (overlay === 'shortcuts') return <ShortcutSheet />;
+  if (overlay === 'resize' && activeDesign) {
+    return <ResizeDialog design={activeDesign} onClose={() => dispatch(overlayClosed())} />;
+  }
+  return null;
+};
@@ -0,0 +1,154 @@
+import { useState, type KeyboardEvent } from 'react';
+
+import { useAppDispatch, useAppSelector } from '../../../app/hooks';
+import { selectDesigns } from '../../../entities/design/model/selectors';
+import { setActiveDesignId } from '../../../entities/design/model/slice';
+import type { Design } from '../../../entities/design/model/types';
+import { fuzzyFilter } from '../lib/fuzzy';
+import { formatKeyBinding } from '../lib/keyBindings';
+import { runCommand } from '../model/commandThunks';
+import { overlayClosed } from '../model/commandsSlice';
+import { COMMANDS, type Command } from '../model/registry';
+import { selectKeyBindings } from '../model/selectors';
+
+type PaletteItem = { kind: 'command'; command: Command } | { kind: 'design'; design: Design };
+
+const PALETTE_COMMANDS = COMMANDS.filter((command) => !command.hiddenFromPalette);
+
+const MAX_RESULTS = 12;
+
+const getItemText = (item: PaletteItem) =>
+  item.kind === 'command'
+    ? `${item.command.category} ${item.command.title}`
+    : `Open design ${item.design.name}`;
+
+const getItemKey = (item: PaletteItem) =>
+  item.kind === 'command' ? `command:${item.command.id}` : `design:${item.design._id}`;
+
+/** Cmd/Ctrl+K: fuzzy-searches editor commands and designs, and runs or opens the pick. */
+export const CommandPalette = () => {
+  const dispatch = useAppDispatch();
+  const designs = useAppSelector(selectDesigns);
+  const bindings = useAppSelector(selectKeyBindings);
+  const [query, setQuery] = useState('');
+  const [activeIndex, setActiveIndex] = useState(0);
+
+  const items = fuzzyFilter<PaletteItem>(
+    [
+      ...PALETTE_COMMANDS.map((command) => ({ kind: 'command' as const, command })),
+      ...designs.map((design) => ({ kind: 'design' as const, design })),
+    ],
+    query,
+    getItemText
+  ).slice(0, MAX_RESULTS);
+  const highlighted = Math.min(activeIndex, items.length - 1);
+
+  const close = () => dispatch(overlayClosed());
+
+  const choose = (item: PaletteItem) => {
+    // Close first, so canvas commands see no overlay in the way.
+    close();
+    if (item.kind === 'command') {
+      dispatch(runCommand(item.command.id));
+    } else {
+      dispatch(setActiveDesignId(item.design._id));
+    }
+  };
+
+  const handleKeyDown = (event: KeyboardEvent<HTMLInputElement>) => {
+    if (event.key === 'ArrowDown' || event.key === 'ArrowUp') {
+      event.preventDefault();
+      if (!items.length) return;
+      const step = event.key === 'ArrowDown' ? 1 : -1;
+      setActiveIndex((highlighted + step + items.length) % items.length);
+    } else if (event.key === 'Enter') {
+      event.preventDefault();
+      if (items[highlighted]) choose(items[highlighted]);
+    } else if (event.key === 'Escape') {
+      event.preventDefault();
+      close();
+    }
+  };
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-start justify-center bg-slate-950/70 p-4 pt-[15vh] backdrop-blur-sm"
+      onMouseDown={(event) => {
+        if (event.target === event.currentTarget) close();
+      }}
+    >
+      <section
+        role="dialog"
+        aria-modal="true"
+        aria-label="Command palette"
+        className="flex w-full max-w-lg flex-col overflow-hidden rounded-2xl border border-slate-700 bg-slate-900 shadow-2xl shadow-slate-950/60"
+      >
+        <input
+          autoFocus
+          value={query}
+          onChange={(event) => {
+            setQuery(event.target.value);
+            setActiveIndex(0);
+          }}
+          onKeyDown={handleKeyDown}
+          placeholder="Search commands and designs…"
+          role="combobox"
+          aria-expanded="true"
+          aria-controls="command-palette-results"
+          aria-activedescendant={
+            items[highlighted] ? `command-palette-${getItemKey(items[highlighted])}` : undefined
+          }
+          className="border-b border-slate-800 bg-transparent px-4 py-3 text-sm text-slate-100 outline-none placeholder:text-slate-500"
+        />
+        <ul id="command-palette-results" role="listbox" className="max-h-80 overflow-y-auto p-2">
+          {items.map((item, index) => (
+            <li
+              key={getItemKey(item)}
+              id={`command-palette-${getItemKey(item)}`}
+              role="option"
+              aria-selected={index === highlighted}
+              onMouseEnter={() => setActiveIndex(index)}
+              onMouseDown={(event) => {
+                // Keep focus in the input until the pick is made.
+                event.preventDefault();
+                choose(item);
+              }}
+              className={`flex cursor-pointer items-center justify-between gap-3 rounded-lg px-3 py-2 text-sm ${
+                index === highlighted ? 'bg-sky-500/15 text-slate-50' : 'text-slate-300'
+              }`}
+            >
+              {item.kind === 'command' ? (
+                <>
+                  <span>
+                    <span className="text-slate-500">{item.command.category}: </span>
+                    {item.command.title}
+                  </span>
+                  {bindings[item.command.id]?.[0] && (
+                    <kbd className="font-sans text-xs text-slate-400">
+                      {formatKeyBinding(bindings[item.command.id][0])}
+                    </kbd>
+                  )}
+                </>
+              ) : (
+                <>
+                  <span>
+                    <span className="text-slate-500">Open: </span>
+                    {item.design.name}
+                  </span>
+                  <span className="text-xs text-slate-500">
+                    {item.design.width} × {item.design.height}
+                  </span>
+                </>
+              )}
+            </li>
+          ))}
+          {!items.length && (
+            <li className="px-3 py-6 text-center text-sm text-slate-500">
+              Nothing matches “{query}”.
+            </li>
+          )}
+        </ul>
+      </section>
+    </div>
+  );
+};
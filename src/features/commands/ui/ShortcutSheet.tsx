@@ -0,0 +1,159 @@
+import { useEffect, useState, type KeyboardEvent } from 'react';
+
+import { useAppDispatch, useAppSelector } from '../../../app/hooks';
+import { formatKeyBinding, toKeyBinding } from '../lib/keyBindings';
+import { assignKeyBinding, removeKeyBinding } from '../model/commandThunks';
+import { keyBindingsReset, overlayClosed } from '../model/commandsSlice';
+import { COMMAND_CATEGORIES, COMMANDS, findCommand } from '../model/registry';
+import { selectCommandIdsByBinding, selectKeyBindings } from '../model/selectors';
+
+const smallButtonClassName =
+  'rounded-md px-1.5 py-0.5 text-xs text-slate-400 transition hover:bg-slate-800 hover:text-slate-100';
+
+/**
+ * Cheat sheet of every command and its shortcuts, generated from the registry. Bindings
+ * can be added, removed and reset here; a new one is recorded from the next key press.
+ */
+export const ShortcutSheet = () => {
+  const dispatch = useAppDispatch();
+  const bindings = useAppSelector(selectKeyBindings);
+  const commandIds = useAppSelector(selectCommandIdsByBinding);
+  const customBindings = useAppSelector((state) => state.commands.customBindings);
+  const [recordingId, setRecordingId] = useState<string>();
+  const [notice, setNotice] = useState<string>();
+
+  useEffect(() => {
+    const handleKeyDown = (event: globalThis.KeyboardEvent) => {
+      if (event.key === 'Escape') dispatch(overlayClosed());
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [dispatch]);
+
+  const handleRecordKeyDown = (event: KeyboardEvent<HTMLButtonElement>, commandId: string) => {
+    // The key being recorded must not also run its current command or close the sheet.
+    event.preventDefault();
+    event.stopPropagation();
+    if (event.key === 'Escape') {
+      setRecordingId(undefined);
+      return;
+    }
+    const binding = toKeyBinding(event.nativeEvent);
+    if (!binding) return;
+    const previousOwner = findCommand(commandIds.get(binding) ?? '');
+    setNotice(
+      previousOwner && previousOwner.id !== commandId
+        ? `${formatKeyBinding(binding)} no longer runs “${previousOwner.title}”.`
+        : undefined
+    );
+    dispatch(assignKeyBinding(commandId, binding));
+    setRecordingId(undefined);
+  };
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-center justify-center bg-slate-950/70 p-4 backdrop-blur-sm"
+      onMouseDown={(event) => {
+        if (event.target === event.currentTarget) dispatch(overlayClosed());
+      }}
+    >
+      <section
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="shortcut-sheet-title"
+        className="flex max-h-[85vh] w-full max-w-3xl flex-col gap-4 rounded-2xl border border-slate-700 bg-slate-900 p-6 shadow-2xl shadow-slate-950/60"
+      >
+        <header className="flex items-center justify-between gap-4">
+          <h2 id="shortcut-sheet-title" className="text-lg font-semibold text-slate-50">
+            Keyboard shortcuts
+          </h2>
+          <div className="flex items-center gap-2">
+            <button
+              type="button"
+              disabled={!Object.keys(customBindings).length}
+              onClick={() => {
+                dispatch(keyBindingsReset());
+                setNotice(undefined);
+              }}
+              className={`${smallButtonClassName} disabled:opacity-40`}
+            >
+              Reset all
+            </button>
+            <button
+              type="button"
+              onClick={() => dispatch(overlayClosed())}
+              className={smallButtonClassName}
+            >
+              Close
+            </button>
+          </div>
+        </header>
+        {notice && <p className="text-xs text-amber-300">{notice}</p>}
+
+        <div className="grid gap-x-8 gap-y-6 overflow-y-auto sm:grid-cols-2">
+          {COMMAND_CATEGORIES.map((category) => (
+            <div key={category} className="flex flex-col gap-1">
+              <h3 className="text-xs font-semibold uppercase tracking-wide text-slate-500">
+                {category}
+              </h3>
+              {COMMANDS.filter((command) => command.category === category).map((command) => (
+                <div
+                  key={command.id}
+                  className="group flex items-center justify-between gap-3 py-1 text-sm"
+                >
+                  <span className="text-slate-300">{command.title}</span>
+                  <span className="flex flex-wrap items-center justify-end gap-1">
+                    {bindings[command.id].map((binding) => (
+                      <kbd
+                        key={binding}
+                        className="flex items-center gap-1 rounded-md border border-slate-700 bg-slate-950/60 px-1.5 py-0.5 font-sans text-xs text-slate-200"
+                      >
+                        {formatKeyBinding(binding)}
+                        <button
+                          type="button"
+                          aria-label={`Remove ${formatKeyBinding(binding)} from ${command.title}`}
+                          onClick={() => dispatch(removeKeyBinding(command.id, binding))}
+                          className="hidden text-slate-500 hover:text-slate-100 group-hover:inline"
+                        >
+                          ×
+                        </button>
+                      </kbd>
+                    ))}
+                    {recordingId === command.id ? (
+                      <button
+                        type="button"
+                        autoFocus
+                        onKeyDown={(event) => handleRecordKeyDown(event, command.id)}
+                        onBlur={() => setRecordingId(undefined)}
+                        className="rounded-md border border-sky-500/80 bg-sky-500/10 px-1.5 py-0.5 text-xs text-sky-200"
+                      >
+                        Press keys…
+                      </button>
+                    ) : (
+                      <button
+                        type="button"
+                        onClick={() => setRecordingId(command.id)}
+                        className={`${smallButtonClassName} invisible group-hover:visible focus:visible`}
+                      >
+                        Add
+                      </button>
+                    )}
+                    {customBindings[command.id] && (
+                      <button
+                        type="button"
+                        onClick={() => dispatch(keyBindingsReset(command.id))}
+                        className={smallButtonClassName}
+                      >
+                        Reset
+                      </button>
+                    )}
+                  </span>
+                </div>
+              ))}
+            </div>
+          ))}
+        </div>
+      </section>
+    </div>
+  );
+};
@@ -1,10 +1,57 @@
-import type { Comment } from '../../../entities/comment/model/types';
+import { z } from 'zod';
+
+import { commentSchema } from '../../../entities/comment/model/schema';
+import type { Comment, CommentStatus } from '../../../entities/comment/model/types';
 import { baseApi } from '../../../shared/api/baseApi';
 
+type CommentBody = Pick<Comment, 'text' | 'authorId' | 'authorName' | 'mentions'>;
+
+/** Stands in for a comment until the server confirms it. */
+const createPendingComment = (
+  designId: string,
+  body: CommentBody & Pick<Comment, 'anchor' | 'parentId'>
+): Comment => ({
+  ...body,
+  _id: `pending-${crypto.randomUUID()}`,
+  designId,
+  createdAt: new Date().toISOString(),
+  isPending: true,
+});
+
+/** Inserts or replaces a comment; `replaceId` also drops the stand-in it confirms. */
+const withComment = (comment: Comment, replaceId?: string) => (comments: Comment[]) => [
+  ...comments.filter((item) => item._id !== comment._id && item._id !== replaceId),
+  comment,
+];
+
+/** Removes a comment and, for a thread root, its replies. */
+const withoutComment = (commentId: string) => (comments: Comment[]) =>
+  comments.filter((item) => item._id !== commentId && item.parentId !== commentId);
+
+/**
+ * Shows a new comment straight away, swaps in the server's copy once saved and takes
+ * it back out if the post fails.
+ */
+const postOptimistically = async (
+  pending: Comment,
+  queryFulfilled: Promise<{ data: Comment }>,
+  updateComments: (recipe: (comments: Comment[]) => Comment[]) => void
+) => {
+  updateComments(withComment(pending));
+  try {
+    const { data } = await queryFulfilled;
+    updateComments(withComment(data, pending._id));
+  } catch {
+    updateComments(withoutComment(pending._id));
+  }
+};
+
 export const commentsApi = baseApi.injectEndpoints({
   endpoints: (builder) => ({
+    /** Every comment on the design, thread roots and replies alike. */
     getComments: builder.query<Comment[], string>({
       query: (designId) => `/designs/${designId}/comments`,
+      responseSchema: z.array(commentSchema),
       providesTags: (result, _error, designId) =>
         result
           ? [
@@ -15,19 +62,76 @@ export const commentsApi = baseApi.injectEndpoints({
     }),
     addComment: builder.mutation<
       Comment,
-      { designId: string; body: Pick<Comment, 'text' | 'authorName' | 'mentions'> }
+      { designId: string; body: CommentBody & Pick<Comment, 'anchor'> }
     >({
       query: ({ designId, body }) => ({
         url: `/designs/${designId}/comments`,
         method: 'POST',
         body,
       }),
-      invalidatesTags: (_result, _error, { designId }) => [
-        { type: 'CommentList', id: designId },
-      ],
+      responseSchema: commentSchema,
+      async onQueryStarted({ designId, body }, { dispatch, queryFulfilled }) {
+        await postOptimistically(createPendingComment(designId, body), queryFulfilled, (recipe) =>
+          dispatch(commentsApi.util.updateQueryData('getComments', designId, recipe))
+        );
+      },
+    }),
+    addReply: builder.mutation<Comment, { designId: string; commentId: string; body: CommentBody }>(
+      {
+        query: ({ designId, commentId, body }) => ({
+          url: `/designs/${designId}/comments/${commentId}/replies`,
+          method: 'POST',
+          body,
+        }),
+        responseSchema: commentSchema,
+        async onQueryStarted({ designId, commentId, body }, { dispatch, queryFulfilled }) {
+          await postOptimistically(
+            createPendingComment(designId, { ...body, parentId: commentId }),
+            queryFulfilled,
+            (recipe) => dispatch(commentsApi.util.updateQueryData('getComments', designId, recipe))
+          );
+        },
+      }
+    ),
+    /** Resolves or reopens a thread; applied to the cached list straight away. */
+    setCommentStatus: builder.mutation<
+      Comment,
+      { designId: string; commentId: string; status: CommentStatus }
+    >({
+      query: ({ designId, commentId, status }) => ({
+        url: `/designs/${designId}/comments/${commentId}`,
+        method: 'PATCH',
+        body: { status },
+      }),
+      responseSchema: commentSchema,
+      async onQueryStarted({ designId, commentId, status }, { dispatch, queryFulfilled }) {
+        const patch = dispatch(
+          commentsApi.util.updateQueryData('getComments', designId, (comments) => {
+            const comment = comments.find((item) => item._id === commentId);
+            if (comment) comment.status = status;
+          })
+        );
+        try {
+          const { data } = await queryFulfilled;
+          dispatch(commentsApi.util.updateQueryData('getComments', designId, withComment(data)));
+        } catch {
+          patch.undo();
+        }
+      },
     }),
   }),
 });
 
-export const { useGetCommentsQuery, useAddCommentMutation } = commentsApi;
+/** Applies a comment created or edited elsewhere, e.g. from a realtime event. */
+export const upsertCachedComment = (comment: Comment) =>
+  commentsApi.util.updateQueryData('getComments', comment.designId, withComment(comment));
+
+export const removeCachedComment = (designId: string, commentId: string) =>
+  commentsApi.util.updateQueryData('getComments', designId, withoutComment(commentId));
 
+export const {
+  useGetCommentsQuery,
+  useAddCommentMutation,
+  useAddReplyMutation,
+  useSetCommentStatusMutation,
+} = commentsApi;
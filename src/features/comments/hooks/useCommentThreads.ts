@@ -0,0 +1,14 @@
+import { useMemo } from 'react';
+
+import { groupCommentThreads } from '../../../entities/comment/lib/threads';
+import { env } from '../../../shared/config/env';
+import { useGetCommentsQuery } from '../api/commentsApi';
+
+/** The design's comments grouped into numbered threads. */
+export const useCommentThreads = (designId?: string) => {
+  const { data, isFetching } = useGetCommentsQuery(designId ?? '', {
+    skip: !env.isApiConfigured || !designId,
+  });
+  const threads = useMemo(() => groupCommentThreads(data ?? []), [data]);
+  return { threads, isFetching };
+};
@@ -0,0 +1,43 @@
+import { useEffect } from 'react';
+
+import { useAppDispatch } from '../../../app/hooks';
+import { commentSchema } from '../../../entities/comment/model/schema';
+import type { Comment } from '../../../entities/comment/model/types';
+import type { CommentDeleted } from '../../../services/socket/events';
+import { commentDeletedSchema, validatePayload } from '../../../services/socket/schemas';
+import { createSocket } from '../../../services/socket/socketClient';
+import { env } from '../../../shared/config/env';
+import { removeCachedComment, upsertCachedComment } from '../api/commentsApi';
+
+/**
+ * Keeps the design's cached comments current with what teammates post, edit and
+ * delete. Relies on the canvas session having joined the design's room.
+ */
+export const useCommentsRealtime = (designId?: string) => {
+  const dispatch = useAppDispatch();
+
+  useEffect(() => {
+    if (!designId || !env.isRealtimeConfigured || !env.isApiConfigured) return undefined;
+
+    const socket = createSocket();
+    const handleUpsert = (payload: Comment) => {
+      const comment = validatePayload(commentSchema, payload);
+      if (comment?.designId === designId) dispatch(upsertCachedComment(comment));
+    };
+    const handleDeleted = (payload: CommentDeleted) => {
+      const deleted = validatePayload(commentDeletedSchema, payload);
+      if (deleted?.designId === designId) {
+        dispatch(removeCachedComment(designId, deleted.commentId));
+      }
+    };
+
+    socket.on('comment:created', handleUpsert);
+    socket.on('comment:updated', handleUpsert);
+    socket.on('comment:deleted', handleDeleted);
+    return () => {
+      socket.off('comment:created', handleUpsert);
+      socket.off('comment:updated', handleUpsert);
+      socket.off('comment:deleted', handleDeleted);
+    };
+  }, [designId, dispatch]);
+};
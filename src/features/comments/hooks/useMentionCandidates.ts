@@ -0,0 +1,24 @@
+import { useMemo } from 'react';
+
+import { useAppSelector } from '../../../app/hooks';
+import { getLocalUser } from '../../../entities/user/lib/localUser';
+import { env } from '../../../shared/config/env';
+import { selectRemoteCollaborators } from '../../canvas/model/selectors';
+import { useSearchUsersQuery } from '../../users/api/usersApi';
+import { getMentionCandidates } from '../lib/mentionCandidates';
+
+/** Suggestions for the `@query` being typed; empty while no mention is in progress. */
+export const useMentionCandidates = (query?: string) => {
+  const collaborators = useAppSelector(selectRemoteCollaborators);
+  const { data: users } = useSearchUsersQuery(query ?? '', {
+    skip: query === undefined || !env.isApiConfigured,
+  });
+
+  return useMemo(
+    () =>
+      query === undefined
+        ? []
+        : getMentionCandidates(query, collaborators, users ?? [], getLocalUser().id),
+    [collaborators, query, users]
+  );
+};
@@ -0,0 +1,37 @@
+import { useEffect, useState } from 'react';
+
+import type { Comment } from '../../../entities/comment/model/types';
+import { loadLastReadAt, saveLastReadAt } from '../lib/readState';
+
+/**
+ * Teammates' comments newer than the last one seen here. Everything counts as read
+ * while `isViewing`, and on a first visit to the design.
+ */
+export const useUnreadCommentCount = (
+  designId: string,
+  comments: Comment[],
+  currentUserId: string,
+  isViewing: boolean
+) => {
+  const [lastReadAt, setLastReadAt] = useState(() => loadLastReadAt(designId));
+  const latest = comments.reduce<string | undefined>(
+    (newest, comment) =>
+      !comment.isPending && (!newest || comment.createdAt > newest) ? comment.createdAt : newest,
+    undefined
+  );
+
+  if (latest && (!lastReadAt || (isViewing && latest > lastReadAt))) {
+    setLastReadAt(latest);
+  }
+
+  useEffect(() => {
+    if (lastReadAt) saveLastReadAt(designId, lastReadAt);
+  }, [designId, lastReadAt]);
+
+  return lastReadAt
+    ? comments.filter(
+        (comment) =>
+          !comment.isPending && comment.authorId !== currentUserId && comment.createdAt > lastReadAt
+      ).length
+    : 0;
+};
@@ -0,0 +1,59 @@
+import type { CollaboratorPresence } from '../../canvas/model/presenceSlice';
+import type { DirectoryUser } from '../../../entities/user/model/types';
+
+export interface MentionCandidate {
+  userId?: string;
+  username: string;
+  name: string;
+  /** Set for people currently in the design. */
+  color?: string;
+}
+
+const MAX_CANDIDATES = 6;
+
+/** A handle for people who only have a display name, e.g. "Guest 4F2A" → "guest-4f2a". */
+export const toMentionHandle = (name: string) =>
+  name
+    .trim()
+    .toLowerCase()
+    .replace(/\s+/g, '-')
+    .replace(/[^\w.-]/g, '');
+
+const matches = (candidate: MentionCandidate, query: string) => {
+  const needle = query.toLowerCase();
+  return (
+    candidate.username.toLowerCase().includes(needle) ||
+    candidate.name.toLowerCase().includes(needle)
+  );
+};
+
+/**
+ * People to suggest for `@query`: collaborators in the design first, then matches from
+ * the users directory. Each person appears once, and `excludeUserId` (you) not at all.
+ */
+export const getMentionCandidates = (
+  query: string,
+  collaborators: CollaboratorPresence[],
+  users: DirectoryUser[],
+  excludeUserId?: string
+): MentionCandidate[] => {
+  const candidates = [
+    ...collaborators.map((collaborator) => ({
+      userId: collaborator.userId,
+      username: toMentionHandle(collaborator.name),
+      name: collaborator.name,
+      color: collaborator.color,
+    })),
+    ...users.map((user) => ({ userId: user.id, username: user.username, name: user.name })),
+  ];
+
+  const seen = new Set<string>();
+  return candidates
+    .filter((candidate) => {
+      const key = candidate.userId ?? candidate.username;
+      if (!candidate.username || seen.has(key) || candidate.userId === excludeUserId) return false;
+      seen.add(key);
+      return matches(candidate, query);
+    })
+    .slice(0, MAX_CANDIDATES);
+};
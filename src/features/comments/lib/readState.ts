@@ -0,0 +1,23 @@
+const STORAGE_KEY = 'design-collab:comments-read';
+
+type ReadState = Record<string, string>;
+
+const loadReadState = (): ReadState => {
+  try {
+    const stored: unknown = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? '{}');
+    return stored && typeof stored === 'object' ? (stored as ReadState) : {};
+  } catch {
+    return {};
+  }
+};
+
+/** Creation time of the newest comment this browser has seen on the design. */
+export const loadLastReadAt = (designId: string): string | undefined => loadReadState()[designId];
+
+export const saveLastReadAt = (designId: string, readAt: string) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify({ ...loadReadState(), [designId]: readAt }));
+  } catch {
+    // Private mode or quota: unread counts just reset on reload.
+  }
+};
@@ -0,0 +1,29 @@
+import { getThreadStatus, type CommentThread } from '../../../entities/comment/lib/threads';
+import type { CommentFilter } from '../model/commentsSlice';
+
+interface FilterContext {
+  selectedIds: string[];
+  /** The signed-in (or guest) user, for "mentions me". */
+  userId: string;
+}
+
+const mentionsUser = (thread: CommentThread, userId: string) =>
+  [thread.root, ...thread.replies].some((comment) =>
+    comment.mentions.some((mention) => mention.userId === userId)
+  );
+
+/**
+ * Threads shown for a filter: "element" means pinned to one of the selected elements,
+ * "mentions" that someone in the thread mentioned you.
+ */
+export const filterThreads = (
+  threads: CommentThread[],
+  filter: CommentFilter,
+  { selectedIds, userId }: FilterContext
+) =>
+  threads.filter((thread) => {
+    if (filter === 'mentions') return mentionsUser(thread, userId);
+    if (filter !== 'element') return getThreadStatus(thread) === filter;
+    const { anchor } = thread.root;
+    return anchor?.type === 'element' && selectedIds.includes(anchor.elementId);
+  });
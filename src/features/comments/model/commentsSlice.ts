@@ -0,0 +1,48 @@
+import { createSlice, type PayloadAction } from '@reduxjs/toolkit';
+
+import type { CommentAnchor } from '../../../entities/comment/model/types';
+import { setActiveDesignId } from '../../../entities/design/model/slice';
+
+export type CommentFilter = 'open' | 'resolved' | 'element' | 'mentions';
+
+interface CommentsState {
+  /** While on, clicking the canvas drops a pin instead of selecting. */
+  isPlacingPin: boolean;
+  /** Where the comment being written will be pinned. */
+  draftAnchor?: CommentAnchor;
+  activeThreadId?: string;
+  filter: CommentFilter;
+}
+
+const initialState: CommentsState = {
+  isPlacingPin: false,
+  filter: 'open',
+};
+
+const commentsSlice = createSlice({
+  name: 'comments',
+  initialState,
+  reducers: {
+    pinPlacementToggled(state, action: PayloadAction<boolean | undefined>) {
+      state.isPlacingPin = action.payload ?? !state.isPlacingPin;
+    },
+    draftAnchorSet(state, action: PayloadAction<CommentAnchor | undefined>) {
+      state.draftAnchor = action.payload;
+      state.isPlacingPin = false;
+      if (action.payload) state.activeThreadId = undefined;
+    },
+    threadActivated(state, action: PayloadAction<string | undefined>) {
+      state.activeThreadId = action.payload;
+    },
+    commentFilterChanged(state, action: PayloadAction<CommentFilter>) {
+      state.filter = action.payload;
+    },
+  },
+  extraReducers: (builder) => {
+    builder.addCase(setActiveDesignId, (state) => ({ ...initialState, filter: state.filter }));
+  },
+});
+
+export const { pinPlacementToggled, draftAnchorSet, threadActivated, commentFilterChanged } =
+  commentsSlice.actions;
+export default commentsSlice.reducer;
@@ -0,0 +1,103 @@
+import type Konva from 'konva';
+import { Label, Layer, Tag, Text } from 'react-konva';
+
+import { resolveCommentAnchor } from '../../../entities/comment/lib/anchors';
+import { getThreadStatus, type CommentThread } from '../../../entities/comment/lib/threads';
+import type { CommentAnchor } from '../../../entities/comment/model/types';
+import type { DesignElement } from '../../../entities/design/model/types';
+
+interface CommentPinsLayerProps {
+  threads: CommentThread[];
+  elements: DesignElement[];
+  activeThreadId?: string;
+  /** Where the comment being written will go; drawn as a "+" pin. */
+  draftAnchor?: CommentAnchor;
+  /** Stage zoom; pins keep their on-screen size regardless. */
+  zoom?: number;
+  onThreadSelect: (threadId: string) => void;
+}
+
+const PIN_COLORS = {
+  open: '#f59e0b',
+  resolved: '#64748b',
+  active: '#38bdf8',
+};
+
+const setCursor = (event: Konva.KonvaEventObject<MouseEvent>, cursor: string) => {
+  const container = event.target.getStage()?.container();
+  if (container) container.style.cursor = cursor;
+};
+
+/** Numbered pins for pinned threads; each pin's tip sits on its anchor. */
+export const CommentPinsLayer = ({
+  threads,
+  elements,
+  activeThreadId,
+  draftAnchor,
+  zoom = 1,
+  onThreadSelect,
+}: CommentPinsLayerProps) => {
+  const draftPosition = draftAnchor && resolveCommentAnchor(draftAnchor, elements);
+  return (
+    <Layer name="comments">
+      {threads.flatMap((thread) => {
+        const { anchor } = thread.root;
+        if (!anchor) return [];
+        const position = resolveCommentAnchor(anchor, elements);
+        const isActive = thread.root._id === activeThreadId;
+        return [
+          <Label
+            key={thread.root._id}
+            x={position.x}
+            y={position.y}
+            scaleX={1 / zoom}
+            scaleY={1 / zoom}
+            opacity={position.isDetached ? 0.6 : 1}
+            onClick={() => onThreadSelect(thread.root._id)}
+            onTap={() => onThreadSelect(thread.root._id)}
+            onMouseEnter={(event) => setCursor(event, 'pointer')}
+            onMouseLeave={(event) => setCursor(event, '')}
+          >
+            <Tag
+              fill={isActive ? PIN_COLORS.active : PIN_COLORS[getThreadStatus(thread)]}
+              stroke="#0f172a"
+              strokeWidth={1}
+              dash={position.isDetached ? [3, 2] : undefined}
+              cornerRadius={10}
+              pointerDirection="down"
+              pointerWidth={8}
+              pointerHeight={6}
+            />
+            <Text
+              text={String(thread.number)}
+              fontSize={12}
+              fontStyle="bold"
+              fill="#0f172a"
+              padding={5}
+            />
+          </Label>,
+        ];
+      })}
+      {draftPosition && (
+        <Label
+          x={draftPosition.x}
+          y={draftPosition.y}
+          scaleX={1 / zoom}
+          scaleY={1 / zoom}
+          listening={false}
+        >
+          <Tag
+            fill={PIN_COLORS.active}
+            stroke="#0f172a"
+            strokeWidth={1}
+            cornerRadius={10}
+            pointerDirection="down"
+            pointerWidth={8}
+            pointerHeight={6}
+          />
+          <Text text="+" fontSize={12} fontStyle="bold" fill="#0f172a" padding={5} />
+        </Label>
+      )}
+    </Layer>
+  );
+};
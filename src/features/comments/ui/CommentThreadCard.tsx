@@ -0,0 +1,137 @@
+import { useEffect, useRef, useState, type FormEvent } from 'react';
+
+import { getThreadStatus, type CommentThread } from '../../../entities/comment/lib/threads';
+import { findMentions } from '../../../entities/comment/lib/mentions';
+import type { Comment, CommentMention, CommentStatus } from '../../../entities/comment/model/types';
+import { findElement } from '../../../entities/design/lib/elementTree';
+import { elementTypeLabel } from '../../../entities/design/lib/labels';
+import type { DesignElement } from '../../../entities/design/model/types';
+import type { MentionCandidate } from '../lib/mentionCandidates';
+import { MentionText } from './MentionText';
+import { MentionTextarea } from './MentionTextarea';
+
+interface CommentThreadCardProps {
+  thread: CommentThread;
+  elements: DesignElement[];
+  currentUserId: string;
+  isActive: boolean;
+  onActivate: () => void;
+  /** Resolves once the reply is saved; rejects to restore the draft. */
+  onReply: (text: string, mentions: CommentMention[]) => Promise<void>;
+  onStatusChange: (status: CommentStatus) => void;
+}
+
+const getAnchorLabel = ({ anchor }: Comment, elements: DesignElement[]) => {
+  if (!anchor) return 'Whole design';
+  if (anchor.type === 'point') return 'On canvas';
+  const element = findElement(elements, anchor.elementId);
+  return element ? `On ${elementTypeLabel[element.type].toLowerCase()}` : 'Element deleted';
+};
+
+const CommentBody = ({ comment, currentUserId }: { comment: Comment; currentUserId: string }) => (
+  <div className={comment.isPending ? 'opacity-60' : undefined}>
+    <p className="flex items-baseline justify-between gap-2">
+      <span className="font-semibold text-slate-100">
+        {comment.authorId === currentUserId ? 'You' : comment.authorName}
+      </span>
+      <span className="text-xs text-slate-500">
+        {comment.isPending ? 'Sending…' : new Date(comment.createdAt).toLocaleString()}
+      </span>
+    </p>
+    <MentionText text={comment.text} mentions={comment.mentions} currentUserId={currentUserId} />
+  </div>
+);
+
+export const CommentThreadCard = ({
+  thread,
+  elements,
+  currentUserId,
+  isActive,
+  onActivate,
+  onReply,
+  onStatusChange,
+}: CommentThreadCardProps) => {
+  const articleRef = useRef<HTMLElement>(null);
+  const [reply, setReply] = useState('');
+  const [mentioned, setMentioned] = useState<MentionCandidate[]>([]);
+  const status = getThreadStatus(thread);
+
+  useEffect(() => {
+    // Pins activate threads from the canvas; bring the thread into view.
+    if (isActive) articleRef.current?.scrollIntoView({ block: 'nearest', behavior: 'smooth' });
+  }, [isActive]);
+
+  const handleReply = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    if (!reply.trim()) return;
+    // The reply shows up as pending straight away; the draft comes back if it fails.
+    setReply('');
+    setMentioned([]);
+    try {
+      await onReply(reply, findMentions(reply, mentioned));
+    } catch {
+      setReply(reply);
+      setMentioned(mentioned);
+    }
+  };
+
+  return (
+    <article
+      ref={articleRef}
+      onClick={onActivate}
+      className={`space-y-2 rounded-xl border p-3 text-sm text-slate-200 transition ${
+        isActive ? 'border-sky-500/80 bg-sky-500/5' : 'border-slate-800 bg-slate-950/50'
+      } ${status === 'resolved' ? 'opacity-70' : ''}`}
+    >
+      <header className="flex items-center gap-2 text-xs text-slate-500">
+        <span
+          className={`flex h-5 min-w-5 items-center justify-center rounded-full px-1 font-bold text-slate-950 ${
+            status === 'resolved' ? 'bg-slate-500' : 'bg-amber-500'
+          }`}
+        >
+          {thread.number}
+        </span>
+        <span className="flex-1 truncate">{getAnchorLabel(thread.root, elements)}</span>
+        <button
+          type="button"
+          disabled={thread.root.isPending}
+          onClick={(event) => {
+            event.stopPropagation();
+            onStatusChange(status === 'open' ? 'resolved' : 'open');
+          }}
+          className="rounded-lg border border-slate-700 px-2 py-0.5 font-medium text-slate-300 transition hover:border-slate-500 disabled:cursor-not-allowed disabled:opacity-40"
+        >
+          {status === 'open' ? 'Resolve' : 'Reopen'}
+        </button>
+      </header>
+      <CommentBody comment={thread.root} currentUserId={currentUserId} />
+      {thread.replies.length > 0 && (
+        <div className="space-y-2 border-l border-slate-800 pl-3">
+          {thread.replies.map((comment) => (
+            <CommentBody key={comment._id} comment={comment} currentUserId={currentUserId} />
+          ))}
+        </div>
+      )}
+      {isActive && status === 'open' && !thread.root.isPending && (
+        <form onSubmit={handleReply} className="space-y-2">
+          <MentionTextarea
+            value={reply}
+            onChange={setReply}
+            onMention={(candidate) => setMentioned((current) => [...current, candidate])}
+            placeholder="Reply, or @mention someone"
+            className="h-14 w-full resize-none rounded-lg border border-slate-800 bg-slate-950/70 px-2 py-1 text-sm text-slate-100 outline-none focus:border-sky-500"
+          />
+          <div className="flex justify-end">
+            <button
+              type="submit"
+              disabled={!reply.trim()}
+              className="rounded-lg bg-sky-500/90 px-3 py-1 text-xs font-semibold text-white transition hover:bg-sky-400/90 disabled:cursor-not-allowed disabled:opacity-40"
+            >
+              Reply
+            </button>
+          </div>
+        </form>
+      )}
+    </article>
+  );
+};
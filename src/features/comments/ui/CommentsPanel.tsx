@@ -1,92 +1,240 @@
-import { useMemo, useState } from 'react';
+import { useEffect, useRef, useState } from 'react';
 import type { FormEvent } from 'react';
 
-import { useAddCommentMutation, useGetCommentsQuery } from '../api/commentsApi';
+import { useAppDispatch, useAppSelector } from '../../../app/hooks';
+import {
+  useAddCommentMutation,
+  useAddReplyMutation,
+  useSetCommentStatusMutation,
+} from '../api/commentsApi';
+import { findMentions } from '../../../entities/comment/lib/mentions';
 import type { Comment } from '../../../entities/comment/model/types';
+import { findElement } from '../../../entities/design/lib/elementTree';
+import { elementTypeLabel } from '../../../entities/design/lib/labels';
+import type { DesignElement } from '../../../entities/design/model/types';
+import { getLocalUser } from '../../../entities/user/lib/localUser';
 import { env } from '../../../shared/config/env';
+import { useIsOnScreen } from '../../../shared/hooks/useIsOnScreen';
+import { useCommentThreads } from '../hooks/useCommentThreads';
+import { useUnreadCommentCount } from '../hooks/useUnreadCommentCount';
+import type { MentionCandidate } from '../lib/mentionCandidates';
+import { filterThreads } from '../lib/threadFilters';
+import {
+  commentFilterChanged,
+  draftAnchorSet,
+  pinPlacementToggled,
+  threadActivated,
+  type CommentFilter,
+} from '../model/commentsSlice';
+import { CommentThreadCard } from './CommentThreadCard';
+import { MentionTextarea } from './MentionTextarea';
 
 interface CommentsPanelProps {
   designId: string;
+  elements: DesignElement[];
+  selectedIds: string[];
 }
 
-export const CommentsPanel = ({ designId }: CommentsPanelProps) => {
-  const { data, isFetching } = useGetCommentsQuery(designId, {
-    skip: !env.isApiConfigured || !designId,
-  });
-  const [addComment, { isLoading }] = useAddCommentMutation();
+const FILTERS: { value: CommentFilter; label: string }[] = [
+  { value: 'open', label: 'Open' },
+  { value: 'resolved', label: 'Resolved' },
+  { value: 'element', label: 'This element' },
+  { value: 'mentions', label: 'Mentions me' },
+];
+
+export const CommentsPanel = ({ designId, elements, selectedIds }: CommentsPanelProps) => {
+  const dispatch = useAppDispatch();
+  const { threads, isFetching } = useCommentThreads(designId);
+  const { isPlacingPin, draftAnchor, activeThreadId, filter } = useAppSelector(
+    (state) => state.comments
+  );
+  const [addComment] = useAddCommentMutation();
+  const [addReply] = useAddReplyMutation();
+  const [setCommentStatus] = useSetCommentStatusMutation();
   const [message, setMessage] = useState('');
+  const [mentioned, setMentioned] = useState<MentionCandidate[]>([]);
 
-  const comments = useMemo(() => data ?? [], [data]);
+  const listRef = useRef<HTMLDivElement>(null);
+  const isViewing = useIsOnScreen(listRef);
+  const currentUser = getLocalUser();
+  const currentUserId = currentUser.id;
+  const filterContext = { selectedIds, userId: currentUserId };
+  const visibleThreads = filterThreads(threads, filter, filterContext);
+  const counts = Object.fromEntries(
+    FILTERS.map(({ value }) => [value, filterThreads(threads, value, filterContext).length])
+  ) as Record<CommentFilter, number>;
+  const unreadCount = useUnreadCommentCount(
+    designId,
+    threads.flatMap((thread) => [thread.root, ...thread.replies]),
+    currentUserId,
+    isViewing
+  );
+  const draftElement =
+    draftAnchor?.type === 'element' ? findElement(elements, draftAnchor.elementId) : undefined;
+
+  useEffect(() => {
+    if (!isPlacingPin) return undefined;
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') dispatch(pinPlacementToggled(false));
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [dispatch, isPlacingPin]);
 
   const handleSubmit = async (event: FormEvent<HTMLFormElement>) => {
     event.preventDefault();
     if (!message.trim()) return;
 
-    const optimisticComment: Pick<Comment, 'text' | 'authorName' | 'mentions'> = {
+    const optimisticComment: Pick<
+      Comment,
+      'text' | 'authorId' | 'authorName' | 'mentions' | 'anchor'
+    > = {
       text: message,
-      authorName: 'You',
-      mentions: [],
+      authorId: currentUser.id,
+      authorName: currentUser.name,
+      mentions: findMentions(message, mentioned),
+      anchor: draftAnchor,
     };
 
-    setMessage('');
-
     if (env.isApiConfigured) {
+      // The comment is listed as pending right away; the draft comes back if it fails.
+      setMessage('');
+      setMentioned([]);
+      dispatch(draftAnchorSet(undefined));
+      if (filter !== 'open') dispatch(commentFilterChanged('open'));
       try {
-        await addComment({ designId, body: optimisticComment }).unwrap();
+        const comment = await addComment({ designId, body: optimisticComment }).unwrap();
+        dispatch(threadActivated(comment._id));
       } catch {
         setMessage(optimisticComment.text);
+        setMentioned(mentioned);
+        dispatch(draftAnchorSet(optimisticComment.anchor));
       }
     }
   };
 
   return (
     <section className="flex h-full flex-col rounded-2xl border border-slate-800 bg-slate-900/70">
-      <header className="border-b border-slate-800 px-4 py-3">
-        <p className="text-sm font-semibold uppercase tracking-widest text-slate-400">Comments</p>
+      <header className="space-y-3 border-b border-slate-800 px-4 py-3">
+        <p className="flex items-center justify-between">
+          <span className="text-sm font-semibold uppercase tracking-widest text-slate-400">
+            Comments
+          </span>
+          {unreadCount > 0 && (
+            <span className="rounded-full bg-sky-500 px-2 py-0.5 text-xs font-semibold text-white">
+              {unreadCount} new
+            </span>
+          )}
+        </p>
         {!env.isApiConfigured && (
           <p className="text-xs text-amber-400">
             Set <code className="font-mono">VITE_API_URL</code> to enable live data.
           </p>
         )}
+        <div className="grid grid-cols-2 gap-1" role="tablist">
+          {FILTERS.map((option) => (
+            <button
+              key={option.value}
+              type="button"
+              role="tab"
+              aria-selected={filter === option.value}
+              onClick={() => dispatch(commentFilterChanged(option.value))}
+              className={`rounded-lg border px-2 py-1 text-xs transition ${
+                filter === option.value
+                  ? 'border-sky-500/80 bg-sky-500/10 text-slate-50'
+                  : 'border-slate-800 bg-slate-950/60 text-slate-400 hover:border-slate-600'
+              }`}
+            >
+              {option.label} <span className="text-slate-500">{counts[option.value]}</span>
+            </button>
+          ))}
+        </div>
       </header>
-      <div className="flex-1 space-y-3 overflow-y-auto px-4 py-3">
-        {isFetching && (
-          <p className="text-xs text-slate-500">Loading comments from the API…</p>
-        )}
-        {!comments.length && !isFetching && (
-          <p className="text-xs text-slate-500">No comments yet. Start the conversation!</p>
+      <div ref={listRef} className="flex-1 space-y-3 overflow-y-auto px-4 py-3">
+        {isFetching && <p className="text-xs text-slate-500">Loading comments from the API…</p>}
+        {!visibleThreads.length && !isFetching && (
+          <p className="text-xs text-slate-500">
+            {filter === 'element'
+              ? selectedIds.length
+                ? 'No comments are pinned to the selection.'
+                : 'Select an element to see its comments.'
+              : filter === 'mentions'
+                ? 'Nobody has mentioned you yet.'
+                : filter === 'resolved'
+                  ? 'No resolved comments.'
+                  : 'No comments yet. Start the conversation!'}
+          </p>
         )}
-        {comments.map((comment) => (
-          <article
-            key={comment._id}
-            className="rounded-xl border border-slate-800 bg-slate-950/50 p-3 text-sm text-slate-200"
-          >
-            <p className="font-semibold text-slate-100">{comment.authorName}</p>
-            <p className="text-slate-300">{comment.text}</p>
-            <p className="text-xs text-slate-500">
-              {new Date(comment.createdAt).toLocaleString()}
-            </p>
-          </article>
+        {visibleThreads.map((thread) => (
+          <CommentThreadCard
+            key={thread.root._id}
+            thread={thread}
+            elements={elements}
+            currentUserId={currentUserId}
+            isActive={thread.root._id === activeThreadId}
+            onActivate={() => dispatch(threadActivated(thread.root._id))}
+            onReply={async (text, mentions) => {
+              await addReply({
+                designId,
+                commentId: thread.root._id,
+                body: { text, authorId: currentUser.id, authorName: currentUser.name, mentions },
+              }).unwrap();
+            }}
+            onStatusChange={(status) =>
+              setCommentStatus({ designId, commentId: thread.root._id, status })
+            }
+          />
         ))}
       </div>
       <form onSubmit={handleSubmit} className="border-t border-slate-800 p-4">
-        <textarea
+        <MentionTextarea
           className="h-20 w-full resize-none rounded-xl border border-slate-800 bg-slate-950/70 p-3 text-sm text-slate-100 outline-none focus:border-sky-500"
           placeholder="Leave a comment or @mention a teammate"
           value={message}
-          onChange={(event) => setMessage(event.target.value)}
+          onChange={setMessage}
+          onMention={(candidate) => setMentioned((current) => [...current, candidate])}
         />
-        <div className="mt-2 flex justify-end">
+        <div className="mt-2 flex items-center justify-between gap-2">
+          {draftAnchor ? (
+            <p className="flex min-w-0 items-center gap-2 text-xs text-slate-400">
+              <span className="truncate">
+                Pinned to{' '}
+                {draftElement
+                  ? `a ${elementTypeLabel[draftElement.type].toLowerCase()}`
+                  : 'the canvas'}
+              </span>
+              <button
+                type="button"
+                onClick={() => dispatch(draftAnchorSet(undefined))}
+                className="text-slate-500 transition hover:text-slate-200"
+              >
+                Unpin
+              </button>
+            </p>
+          ) : (
+            <button
+              type="button"
+              aria-pressed={isPlacingPin}
+              onClick={() => dispatch(pinPlacementToggled())}
+              title="Click the canvas to pin the comment to a spot or element"
+              className={`rounded-lg border px-3 py-1.5 text-xs font-medium transition ${
+                isPlacingPin
+                  ? 'border-amber-500/80 bg-amber-500/10 text-amber-200'
+                  : 'border-slate-800 bg-slate-950/60 text-slate-300 hover:border-slate-600'
+              }`}
+            >
+              {isPlacingPin ? 'Click the canvas… (Esc)' : 'Pin to canvas'}
+            </button>
+          )}
           <button
             type="submit"
-            disabled={!message.trim() || isLoading}
+            disabled={!message.trim()}
             className="rounded-xl bg-sky-500/90 px-4 py-2 text-sm font-semibold text-white shadow-sm shadow-sky-500/40 transition hover:bg-sky-400/90 disabled:cursor-not-allowed disabled:opacity-40"
           >
-            {isLoading ? 'Sending…' : 'Comment'}
+            Comment
           </button>
         </div>
       </form>
     </section>
   );
 };
-
@@ -0,0 +1,30 @@
+import { splitMentions } from '../../../entities/comment/lib/mentions';
+import type { CommentMention } from '../../../entities/comment/model/types';
+
+interface MentionTextProps {
+  text: string;
+  mentions: CommentMention[];
+  /** Mentions of this user stand out from the rest. */
+  currentUserId?: string;
+}
+
+export const MentionText = ({ text, mentions, currentUserId }: MentionTextProps) => (
+  <p className="whitespace-pre-wrap text-slate-300">
+    {splitMentions(text, mentions).map((segment, index) =>
+      segment.mention ? (
+        <span
+          key={index}
+          className={`rounded px-1 font-medium ${
+            currentUserId && segment.mention.userId === currentUserId
+              ? 'bg-amber-500/20 text-amber-200'
+              : 'bg-sky-500/15 text-sky-300'
+          }`}
+        >
+          {segment.text}
+        </span>
+      ) : (
+        segment.text
+      )
+    )}
+  </p>
+);
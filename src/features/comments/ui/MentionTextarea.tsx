@@ -0,0 +1,120 @@
+import { useId, useRef, useState, type KeyboardEvent, type SyntheticEvent } from 'react';
+
+import { getMentionQuery } from '../../../entities/comment/lib/mentions';
+import { useMentionCandidates } from '../hooks/useMentionCandidates';
+import type { MentionCandidate } from '../lib/mentionCandidates';
+
+interface MentionTextareaProps {
+  value: string;
+  onChange: (value: string) => void;
+  /** Called when a suggestion is picked, so the caller can record who was mentioned. */
+  onMention: (candidate: MentionCandidate) => void;
+  placeholder?: string;
+  className?: string;
+}
+
+/** A textarea that suggests people while typing `@`, navigable with the arrow keys. */
+export const MentionTextarea = ({
+  value,
+  onChange,
+  onMention,
+  placeholder,
+  className,
+}: MentionTextareaProps) => {
+  const listId = useId();
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const [caret, setCaret] = useState<number | null>(null);
+  const [highlighted, setHighlighted] = useState(0);
+  /** The `@` the user dismissed with Escape; stays closed until they type another. */
+  const [dismissedStart, setDismissedStart] = useState<number>();
+
+  const query = caret === null ? undefined : getMentionQuery(value, caret);
+  const isOpen = Boolean(query) && query?.start !== dismissedStart;
+  const candidates = useMentionCandidates(isOpen ? query?.query : undefined);
+  const showList = isOpen && candidates.length > 0;
+  const activeIndex = Math.min(highlighted, candidates.length - 1);
+
+  const trackCaret = (event: SyntheticEvent<HTMLTextAreaElement>) =>
+    setCaret(event.currentTarget.selectionStart);
+
+  const pick = (candidate: MentionCandidate) => {
+    if (!query || caret === null) return;
+    const inserted = `@${candidate.username} `;
+    const nextCaret = query.start + inserted.length;
+    onChange(value.slice(0, query.start) + inserted + value.slice(caret));
+    onMention(candidate);
+    setCaret(nextCaret);
+    setHighlighted(0);
+    requestAnimationFrame(() => textareaRef.current?.setSelectionRange(nextCaret, nextCaret));
+  };
+
+  const handleKeyDown = (event: KeyboardEvent<HTMLTextAreaElement>) => {
+    if (!showList) return;
+    if (event.key === 'ArrowDown' || event.key === 'ArrowUp') {
+      event.preventDefault();
+      const step = event.key === 'ArrowDown' ? 1 : -1;
+      setHighlighted((activeIndex + step + candidates.length) % candidates.length);
+    } else if (event.key === 'Enter' || event.key === 'Tab') {
+      event.preventDefault();
+      pick(candidates[activeIndex]);
+    } else if (event.key === 'Escape') {
+      // Keep Escape from also cancelling whatever the panel is doing.
+      event.stopPropagation();
+      setDismissedStart(query?.start);
+    }
+  };
+
+  return (
+    <div className="relative">
+      <textarea
+        ref={textareaRef}
+        role="combobox"
+        aria-expanded={showList}
+        aria-controls={listId}
+        aria-autocomplete="list"
+        aria-activedescendant={showList ? `${listId}-${activeIndex}` : undefined}
+        className={className}
+        placeholder={placeholder}
+        value={value}
+        onChange={(event) => {
+          onChange(event.target.value);
+          trackCaret(event);
+          setHighlighted(0);
+        }}
+        onSelect={trackCaret}
+        onKeyDown={handleKeyDown}
+        onBlur={() => setCaret(null)}
+      />
+      {showList && (
+        <ul
+          id={listId}
+          role="listbox"
+          className="absolute bottom-full left-0 right-0 z-20 mb-1 overflow-hidden rounded-xl border border-slate-700 bg-slate-900 py-1 shadow-xl shadow-slate-950/60"
+        >
+          {candidates.map((candidate, index) => (
+            <li
+              key={candidate.userId ?? candidate.username}
+              id={`${listId}-${index}`}
+              role="option"
+              aria-selected={index === activeIndex}
+              // Keep focus (and the caret) in the textarea.
+              onMouseDown={(event) => event.preventDefault()}
+              onClick={() => pick(candidate)}
+              onMouseEnter={() => setHighlighted(index)}
+              className={`flex cursor-pointer items-center gap-2 px-3 py-1.5 text-sm ${
+                index === activeIndex ? 'bg-sky-500/15 text-slate-50' : 'text-slate-300'
+              }`}
+            >
+              <span
+                className="inline-block h-2 w-2 shrink-0 rounded-full"
+                style={{ backgroundColor: candidate.color ?? '#475569' }}
+              />
+              <span className="truncate font-medium">{candidate.name}</span>
+              <span className="truncate text-xs text-slate-500">@{candidate.username}</span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
@@ -1,40 +1,336 @@
+import type { FetchBaseQueryError, InfiniteData } from '@reduxjs/toolkit/query';
+import { z } from 'zod';
+
+import type { AppThunk } from '../../../app/store';
+import { migrateDesignDocument } from '../../../entities/design/lib/migrations';
+import { designSchema } from '../../../entities/design/model/schema';
 import type { Design } from '../../../entities/design/model/types';
+import {
+  designVersionSchema,
+  designVersionSummarySchema,
+} from '../../../entities/version/model/schema';
+import type {
+  DesignVersion,
+  DesignVersionKind,
+  DesignVersionSummary,
+} from '../../../entities/version/model/types';
 import { baseApi } from '../../../shared/api/baseApi';
+import { env } from '../../../shared/config/env';
+import { readFileAsDataUrl } from '../../../shared/lib/file';
+import { matchesDesignQuery, type DesignListQuery } from '../lib/designQuery';
+
+export interface DesignAsset {
+  url: string;
+}
+
+const designAssetSchema = z.object({ url: z.string().min(1) });
+
+/** One page of the dashboard listing; `total` counts every match, not just this page. */
+export interface DesignPage {
+  items: Design[];
+  total: number;
+}
+
+const designPageSchema = z.object({
+  items: z.array(designSchema),
+  total: z.number().int().nonnegative(),
+});
+
+export const DESIGN_PAGE_SIZE = 12;
+
+type DesignPages = InfiniteData<DesignPage, number>;
+
+/** Stored designs may predate the current schema; upgrade them before validation. */
+const migrateDesign = (response: unknown) => migrateDesignDocument(response) as Design;
+
+/** Version snapshots are stored designs too, and just as likely to predate the schema. */
+const migrateVersion = (response: unknown) =>
+  response && typeof response === 'object' && 'snapshot' in response
+    ? ({ ...response, snapshot: migrateDesign(response.snapshot) } as DesignVersion)
+    : (response as DesignVersion);
+
+const migrateDesignPage = (response: unknown) =>
+  response && typeof response === 'object' && 'items' in response && Array.isArray(response.items)
+    ? ({ ...response, items: response.items.map(migrateDesign) } as DesignPage)
+    : (response as DesignPage);
+
+/** Adds a design to the top of a listing it belongs in. */
+const withDesign = (design: Design) => (data: DesignPages, query: DesignListQuery) => {
+  if (!data.pages.length || !matchesDesignQuery(design, query)) return;
+  data.pages[0].items.unshift(design);
+  data.pages.forEach((page) => {
+    page.total += 1;
+  });
+};
+
+/** Swaps in a newer copy of a design wherever a listing shows it. */
+const withUpdatedDesign = (design: Design) => (data: DesignPages) => {
+  data.pages.forEach((page) => {
+    page.items = page.items.map((item) => (item._id === design._id ? design : item));
+  });
+};
+
+const withoutDesign = (designId: string) => (data: DesignPages) => {
+  if (!data.pages.some((page) => page.items.some((item) => item._id === designId))) return;
+  data.pages.forEach((page) => {
+    page.items = page.items.filter((item) => item._id !== designId);
+    page.total -= 1;
+  });
+};
+
+/**
+ * Applies `recipe` to every cached dashboard listing, whatever its search, sort or
+ * filter, and returns a function that undoes it.
+ */
+const patchDesignPages =
+  (recipe: (data: DesignPages, query: DesignListQuery) => void): AppThunk<() => void> =>
+  (dispatch, getState) => {
+    const patches = designsApi.util
+      .selectCachedArgsForQuery(getState(), 'getDesigns')
+      .map((query) =>
+        dispatch(
+          designsApi.util.updateQueryData('getDesigns', query, (data) => recipe(data, query))
+        )
+      );
+    return () => patches.forEach((patch) => patch.undo());
+  };
+
+/**
+ * Shows a design the server is about to store straight away, swaps in the server's
+ * copy once stored and takes it back out if the request fails.
+ */
+const addOptimistically = async (
+  design: Design,
+  queryFulfilled: Promise<{ data: Design }>,
+  dispatch: (thunk: AppThunk<() => void>) => () => void
+) => {
+  const undo = dispatch(patchDesignPages(withDesign(design)));
+  try {
+    const { data } = await queryFulfilled;
+    dispatch(patchDesignPages(withUpdatedDesign(data)));
+  } catch {
+    undo();
+  }
+};
+
+/** Without an asset server images are stored inline, so keep them reasonably small. */
+const MAX_INLINE_ASSET_BYTES = 2 * 1024 * 1024;
 
 export const designsApi = baseApi.injectEndpoints({
   endpoints: (builder) => ({
-    getDesigns: builder.query<Design[], void>({
-      query: () => '/designs',
+    /** The dashboard listing, searched, filtered and sorted by the server, a page at a time. */
+    getDesigns: builder.infiniteQuery<DesignPage, DesignListQuery, number>({
+      infiniteQueryOptions: {
+        initialPageParam: 1,
+        getNextPageParam: (lastPage, allPages, lastPageParam) =>
+          allPages.reduce((count, page) => count + page.items.length, 0) < lastPage.total
+            ? lastPageParam + 1
+            : undefined,
+      },
+      query: ({ queryArg: { search, sort, size }, pageParam }) => ({
+        url: '/designs',
+        params: {
+          search: search.trim() || undefined,
+          sort,
+          size: size === 'all' ? undefined : size,
+          page: pageParam,
+          limit: DESIGN_PAGE_SIZE,
+        },
+      }),
+      transformResponse: migrateDesignPage,
+      responseSchema: designPageSchema,
       providesTags: (result) =>
         result
           ? [
               { type: 'DesignList', id: 'LIST' },
-              ...result.map((design) => ({ type: 'Design' as const, id: design._id })),
+              ...result.pages.flatMap((page) =>
+                page.items.map((design) => ({ type: 'Design' as const, id: design._id }))
+              ),
             ]
           : [{ type: 'DesignList', id: 'LIST' }],
     }),
     getDesign: builder.query<Design, string>({
       query: (designId) => `/designs/${designId}`,
+      transformResponse: migrateDesign,
+      responseSchema: designSchema,
       providesTags: (_result, _error, designId) => [{ type: 'Design', id: designId }],
     }),
+    /**
+     * Autosave's write. With `updatedAt` set, the server answers 409 instead of writing
+     * when its copy is newer than that. The saved copy is patched into the caches rather
+     * than invalidating them, so saving never refetches every loaded dashboard page.
+     */
     updateDesign: builder.mutation<Design, Partial<Design> & Pick<Design, '_id'>>({
       query: ({ _id, ...body }) => ({
         url: `/designs/${_id}`,
         method: 'PUT',
         body,
       }),
-      invalidatesTags: (_result, _error, { _id }) => [
-        { type: 'Design', id: _id },
-        { type: 'DesignList', id: 'LIST' },
+      transformResponse: migrateDesign,
+      responseSchema: designSchema,
+      async onQueryStarted(_design, { dispatch, queryFulfilled }) {
+        try {
+          const { data } = await queryFulfilled;
+          dispatch(patchDesignPages(withUpdatedDesign(data)));
+          dispatch(designsApi.util.updateQueryData('getDesign', data._id, () => data));
+        } catch {
+          // Nothing changed on the server, so the caches are still right.
+        }
+      },
+    }),
+    /** Stores a design created here; its `_id` is generated on the client. */
+    createDesign: builder.mutation<Design, Design>({
+      query: (design) => ({
+        url: '/designs',
+        method: 'POST',
+        body: design,
+      }),
+      transformResponse: migrateDesign,
+      responseSchema: designSchema,
+      async onQueryStarted(design, { dispatch, queryFulfilled }) {
+        await addOptimistically(design, queryFulfilled, dispatch);
+      },
+    }),
+    renameDesign: builder.mutation<Design, { designId: string; name: string }>({
+      query: ({ designId, name }) => ({
+        url: `/designs/${designId}`,
+        method: 'PATCH',
+        body: { name },
+      }),
+      transformResponse: migrateDesign,
+      responseSchema: designSchema,
+      async onQueryStarted({ designId, name }, { dispatch, queryFulfilled }) {
+        const undo = dispatch(
+          patchDesignPages((data) => {
+            data.pages.forEach((page) => {
+              const design = page.items.find((item) => item._id === designId);
+              if (design) design.name = name;
+            });
+          })
+        );
+        try {
+          const { data } = await queryFulfilled;
+          dispatch(patchDesignPages(withUpdatedDesign(data)));
+        } catch {
+          undo();
+        }
+      },
+    }),
+    /** Copies the stored design under the new `_id` and `name`. */
+    duplicateDesign: builder.mutation<Design, { designId: string; copy: Design }>({
+      query: ({ designId, copy: { _id, name } }) => ({
+        url: `/designs/${designId}/duplicate`,
+        method: 'POST',
+        body: { _id, name },
+      }),
+      transformResponse: migrateDesign,
+      responseSchema: designSchema,
+      async onQueryStarted({ copy }, { dispatch, queryFulfilled }) {
+        await addOptimistically(copy, queryFulfilled, dispatch);
+      },
+    }),
+    deleteDesign: builder.mutation<void, string>({
+      query: (designId) => ({
+        url: `/designs/${designId}`,
+        method: 'DELETE',
+      }),
+      async onQueryStarted(designId, { dispatch, queryFulfilled }) {
+        const undo = dispatch(patchDesignPages(withoutDesign(designId)));
+        try {
+          await queryFulfilled;
+        } catch {
+          undo();
+        }
+      },
+    }),
+    /** The design's saved versions, newest first, without their content. */
+    getDesignVersions: builder.query<DesignVersionSummary[], string>({
+      query: (designId) => `/designs/${designId}/versions`,
+      transformResponse: (response: DesignVersionSummary[]) =>
+        [...response].sort((a, b) => Date.parse(b.createdAt) - Date.parse(a.createdAt)),
+      responseSchema: z.array(designVersionSummarySchema),
+      providesTags: (_result, _error, designId) => [{ type: 'DesignVersionList', id: designId }],
+    }),
+    getDesignVersion: builder.query<DesignVersion, { designId: string; versionId: string }>({
+      query: ({ designId, versionId }) => `/designs/${designId}/versions/${versionId}`,
+      transformResponse: migrateVersion,
+      responseSchema: designVersionSchema,
+      providesTags: (_result, _error, { versionId }) => [{ type: 'DesignVersion', id: versionId }],
+    }),
+    /** Stores `snapshot` as a new version; the server stamps its id and time. */
+    createDesignVersion: builder.mutation<
+      DesignVersion,
+      {
+        designId: string;
+        kind: DesignVersionKind;
+        name?: string;
+        authorName?: string;
+        snapshot: Design;
+      }
+    >({
+      query: ({ designId, ...body }) => ({
+        url: `/designs/${designId}/versions`,
+        method: 'POST',
+        body,
+      }),
+      transformResponse: migrateVersion,
+      responseSchema: designVersionSchema,
+      invalidatesTags: (_result, _error, { designId }) => [
+        { type: 'DesignVersionList', id: designId },
       ],
     }),
+    /**
+     * Uploads a file for use inside a design and returns the URL to reference it by.
+     * Falls back to an inline data URL when no API is configured.
+     */
+    uploadAsset: builder.mutation<DesignAsset, { designId: string; file: File }>({
+      responseSchema: designAssetSchema,
+      async queryFn({ designId, file }, _api, _extraOptions, baseQuery) {
+        if (!env.isApiConfigured) {
+          if (file.size > MAX_INLINE_ASSET_BYTES) {
+            return {
+              error: {
+                status: 'CUSTOM_ERROR',
+                error: 'Images over 2 MB need an asset server (set VITE_API_URL).',
+              } satisfies FetchBaseQueryError,
+            };
+          }
+          try {
+            return { data: { url: await readFileAsDataUrl(file) } };
+          } catch (error) {
+            return {
+              error: {
+                status: 'CUSTOM_ERROR',
+                error: error instanceof Error ? error.message : 'Could not read file',
+              } satisfies FetchBaseQueryError,
+            };
+          }
+        }
+
+        const body = new FormData();
+        body.append('file', file);
+        const result = await baseQuery({
+          url: `/designs/${designId}/assets`,
+          method: 'POST',
+          body,
+        });
+        return result.error ? { error: result.error } : { data: result.data as DesignAsset };
+      },
+    }),
   }),
 });
 
 export const {
-  useGetDesignsQuery,
+  useGetDesignsInfiniteQuery,
   useGetDesignQuery,
   useLazyGetDesignQuery,
   useUpdateDesignMutation,
+  useCreateDesignMutation,
+  useRenameDesignMutation,
+  useDuplicateDesignMutation,
+  useDeleteDesignMutation,
+  useUploadAssetMutation,
+  useGetDesignVersionsQuery,
+  useGetDesignVersionQuery,
+  useCreateDesignVersionMutation,
 } = designsApi;
-
@@ -0,0 +1,42 @@
+import { useEffect, useEffectEvent } from 'react';
+
+import { useAppDispatch, useAppSelector } from '../../../app/hooks';
+import { env } from '../../../shared/config/env';
+import { flushDesignOnUnload, saveDesign } from '../model/autosaveThunks';
+import { selectSaveStatus } from '../model/selectors';
+
+/**
+ * Saves right away when the tab is hidden, flushes with a keepalive request when it
+ * is closed, and asks the browser to confirm leaving while edits are unsaved.
+ */
+export const useAutosave = (designId?: string) => {
+  const dispatch = useAppDispatch();
+  const status = useAppSelector((state) => selectSaveStatus(state, designId));
+
+  const hasUnsavedChanges = useEffectEvent(() => status !== 'saved');
+
+  useEffect(() => {
+    if (!designId || !env.isApiConfigured) return undefined;
+
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === 'hidden') void dispatch(saveDesign(designId));
+    };
+    const handleBeforeUnload = (event: BeforeUnloadEvent) => {
+      if (hasUnsavedChanges()) event.preventDefault();
+    };
+    const handlePageHide = () => dispatch(flushDesignOnUnload(designId));
+
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+    window.addEventListener('beforeunload', handleBeforeUnload);
+    window.addEventListener('pagehide', handlePageHide);
+    return () => {
+      document.removeEventListener('visibilitychange', handleVisibilityChange);
+      window.removeEventListener('beforeunload', handleBeforeUnload);
+      window.removeEventListener('pagehide', handlePageHide);
+      // Switching designs should not strand the previous one's edits behind the debounce.
+      void dispatch(saveDesign(designId));
+    };
+  }, [designId, dispatch]);
+
+  return status;
+};
@@ -0,0 +1,39 @@
+import type { Design } from '../../../entities/design/model/types';
+
+export type DesignSort = 'updated' | 'created' | 'name';
+
+/** Designs by shape; within a tenth of square counts as square. */
+export type DesignSizeFilter = 'all' | 'square' | 'portrait' | 'landscape';
+
+/** What the dashboard lists; sent to the server as query parameters. */
+export interface DesignListQuery {
+  search: string;
+  sort: DesignSort;
+  size: DesignSizeFilter;
+}
+
+export const DEFAULT_DESIGN_QUERY: DesignListQuery = { search: '', sort: 'updated', size: 'all' };
+
+export const getDesignShape = ({ width, height }: Pick<Design, 'width' | 'height'>) => {
+  const ratio = width / height;
+  if (ratio > 1.1) return 'landscape';
+  if (ratio < 1 / 1.1) return 'portrait';
+  return 'square';
+};
+
+export const matchesDesignQuery = (design: Design, { search, size }: DesignListQuery) =>
+  design.name.toLowerCase().includes(search.trim().toLowerCase()) &&
+  (size === 'all' || getDesignShape(design) === size);
+
+/** Newest first for dates, A–Z for names, as the server sorts them. */
+export const compareDesigns =
+  (sort: DesignSort) =>
+  (a: Design, b: Design): number => {
+    if (sort === 'name') return a.name.localeCompare(b.name, undefined, { sensitivity: 'base' });
+    const key = sort === 'created' ? 'createdAt' : 'updatedAt';
+    return Date.parse(b[key]) - Date.parse(a[key]);
+  };
+
+/** The server's search, filter and sort, applied to designs kept only in this browser. */
+export const queryDesigns = (designs: Design[], query: DesignListQuery) =>
+  designs.filter((design) => matchesDesignQuery(design, query)).sort(compareDesigns(query.sort));
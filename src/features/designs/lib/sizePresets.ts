@@ -0,0 +1,20 @@
+export interface SizePreset {
+  id: string;
+  label: string;
+  width: number;
+  height: number;
+}
+
+/** Common canvas sizes, in design units (CSS pixels). */
+export const SIZE_PRESETS: SizePreset[] = [
+  { id: 'instagram-post', label: 'Instagram post', width: 1080, height: 1080 },
+  { id: 'instagram-story', label: 'Instagram story', width: 1080, height: 1920 },
+  { id: 'a4', label: 'A4 (96 dpi)', width: 794, height: 1123 },
+  { id: 'slide', label: 'Slide 16:9', width: 1920, height: 1080 },
+];
+
+export const MIN_DESIGN_SIZE = 16;
+export const MAX_DESIGN_SIZE = 8000;
+
+export const findSizePreset = (width: number, height: number) =>
+  SIZE_PRESETS.find((preset) => preset.width === width && preset.height === height);
@@ -0,0 +1,23 @@
+import { startAppListening } from '../../../app/listenerMiddleware';
+import { isLocalDesignChange } from '../../../entities/design/model/slice';
+import { env } from '../../../shared/config/env';
+import { saveDesign } from './autosaveThunks';
+
+/** Quiet period after the last edit before autosaving. */
+export const AUTOSAVE_DELAY_MS = 1500;
+
+/** Debounces local edits into `saveDesign`, separately for each design. */
+export const registerAutosaveListeners = () =>
+  startAppListening({
+    matcher: isLocalDesignChange,
+    effect: async (action, listenerApi) => {
+      if (!env.isApiConfigured) return;
+      const { designId } = action.payload;
+      const revision = listenerApi.getState().autosave.byDesignId[designId]?.revision;
+
+      await listenerApi.delay(AUTOSAVE_DELAY_MS);
+      // A later edit restarted the wait; its own listener saves.
+      if (listenerApi.getState().autosave.byDesignId[designId]?.revision !== revision) return;
+      await listenerApi.dispatch(saveDesign(designId));
+    },
+  });
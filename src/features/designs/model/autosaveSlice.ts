@@ -0,0 +1,134 @@
+import { createSlice, isAnyOf, type PayloadAction } from '@reduxjs/toolkit';
+
+import { isLocalDesignChange } from '../../../entities/design/model/slice';
+import type { Design } from '../../../entities/design/model/types';
+import { designsApi } from '../api/designsApi';
+
+/**
+ * `dirty` means local edits are waiting for the debounce; `conflict` means the server
+ * copy changed underneath us and autosave is paused until the user picks a side.
+ */
+export type SaveStatus = 'saved' | 'dirty' | 'saving' | 'error' | 'conflict';
+
+interface DesignSaveState {
+  status: SaveStatus;
+  /** Bumped by every local edit, so a finished save can tell if more edits arrived. */
+  revision: number;
+  savedRevision: number;
+  /** `updatedAt` of the server copy our local edits are based on. */
+  serverUpdatedAt?: string;
+  error?: string;
+  /** The newer server copy, while a conflict is unresolved. */
+  conflict?: Design;
+}
+
+interface AutosaveState {
+  byDesignId: Record<string, DesignSaveState>;
+}
+
+const initialState: AutosaveState = {
+  byDesignId: {},
+};
+
+const ensureDesign = (state: AutosaveState, designId: string) => {
+  state.byDesignId[designId] ??= { status: 'saved', revision: 0, savedRevision: 0 };
+  return state.byDesignId[designId];
+};
+
+/** The server copy of a design we just wrote ourselves is our baseline, edits or not. */
+const recordOwnWrite = (state: AutosaveState, design: Design) => {
+  ensureDesign(state, design._id).serverUpdatedAt = design.updatedAt;
+};
+
+/** Records the server copy as the new baseline, unless local edits are still unsaved. */
+const recordServerCopy = (state: AutosaveState, design: Design) => {
+  const entry = ensureDesign(state, design._id);
+  if (entry.status === 'saved') entry.serverUpdatedAt = design.updatedAt;
+};
+
+const autosaveSlice = createSlice({
+  name: 'autosave',
+  initialState,
+  reducers: {
+    saveStarted(state, action: PayloadAction<string>) {
+      const entry = ensureDesign(state, action.payload);
+      entry.status = 'saving';
+      entry.error = undefined;
+    },
+    saveSucceeded(
+      state,
+      action: PayloadAction<{ designId: string; revision: number; updatedAt: string }>
+    ) {
+      const entry = ensureDesign(state, action.payload.designId);
+      entry.savedRevision = action.payload.revision;
+      entry.serverUpdatedAt = action.payload.updatedAt;
+      entry.status = entry.revision > action.payload.revision ? 'dirty' : 'saved';
+    },
+    saveFailed(state, action: PayloadAction<{ designId: string; error: string }>) {
+      const entry = ensureDesign(state, action.payload.designId);
+      entry.status = 'error';
+      entry.error = action.payload.error;
+    },
+    saveConflicted(state, action: PayloadAction<Design>) {
+      const entry = ensureDesign(state, action.payload._id);
+      entry.status = 'conflict';
+      entry.conflict = action.payload;
+    },
+    /** Keep mine: our copy is now based on theirs, so the next save overwrites it. */
+    conflictOverridden(state, action: PayloadAction<string>) {
+      const entry = ensureDesign(state, action.payload);
+      if (!entry.conflict) return;
+      entry.serverUpdatedAt = entry.conflict.updatedAt;
+      entry.conflict = undefined;
+      entry.status = 'dirty';
+    },
+    /** Take theirs: the server copy replaced ours, so there is nothing left to save. */
+    conflictDiscarded(state, action: PayloadAction<string>) {
+      const entry = ensureDesign(state, action.payload);
+      if (!entry.conflict) return;
+      entry.serverUpdatedAt = entry.conflict.updatedAt;
+      entry.conflict = undefined;
+      entry.savedRevision = entry.revision;
+      entry.status = 'saved';
+    },
+  },
+  extraReducers: (builder) => {
+    builder
+      .addMatcher(isLocalDesignChange, (state, action) => {
+        const entry = ensureDesign(state, action.payload.designId);
+        entry.revision += 1;
+        // A conflict stays a conflict until the user resolves it.
+        if (entry.status === 'saved' || entry.status === 'error') entry.status = 'dirty';
+      })
+      .addMatcher(designsApi.endpoints.getDesigns.matchFulfilled, (state, action) => {
+        action.payload.pages.forEach((page) =>
+          page.items.forEach((design) => recordServerCopy(state, design))
+        );
+      })
+      .addMatcher(
+        isAnyOf(
+          designsApi.endpoints.getDesign.matchFulfilled,
+          designsApi.endpoints.updateDesign.matchFulfilled
+        ),
+        (state, action) => recordServerCopy(state, action.payload)
+      )
+      .addMatcher(
+        isAnyOf(
+          designsApi.endpoints.createDesign.matchFulfilled,
+          designsApi.endpoints.renameDesign.matchFulfilled,
+          designsApi.endpoints.duplicateDesign.matchFulfilled
+        ),
+        (state, action) => recordOwnWrite(state, action.payload)
+      );
+  },
+});
+
+export const {
+  saveStarted,
+  saveSucceeded,
+  saveFailed,
+  saveConflicted,
+  conflictOverridden,
+  conflictDiscarded,
+} = autosaveSlice.actions;
+export default autosaveSlice.reducer;
@@ -0,0 +1,150 @@
+import type { AppThunk, RootState } from '../../../app/store';
+import { upsertDesign } from '../../../entities/design/model/slice';
+import type { Design } from '../../../entities/design/model/types';
+import { getErrorMessage } from '../../../shared/api/errors';
+import { env } from '../../../shared/config/env';
+import { clearHistory } from '../../canvas/model/historySlice';
+import { designsApi } from '../api/designsApi';
+import {
+  conflictDiscarded,
+  conflictOverridden,
+  saveConflicted,
+  saveFailed,
+  saveStarted,
+  saveSucceeded,
+} from './autosaveSlice';
+
+const toSaveBody = ({ _id, name, width, height, elements, guides }: Design) => ({
+  _id,
+  name,
+  width,
+  height,
+  elements,
+  guides,
+});
+
+/**
+ * In a live realtime session collaborators' edits are merged operation by operation,
+ * so the server copy moving on is expected rather than a conflict.
+ */
+const isLiveSession = (state: RootState, designId: string) =>
+  state.sync.sessionDesignId === designId && state.sync.connection === 'synced';
+
+const isConflictResponse = (error: unknown) =>
+  Boolean(error && typeof error === 'object' && 'status' in error && error.status === 409);
+
+const fetchServerCopy =
+  (designId: string): AppThunk<Promise<Design | undefined>> =>
+  async (dispatch) => {
+    const result = await dispatch(
+      designsApi.endpoints.getDesign.initiate(designId, { subscribe: false, forceRefetch: true })
+    );
+    return result.data;
+  };
+
+/**
+ * Saves a design's unsaved edits through `updateDesign`. The save names the server copy
+ * our edits are based on; if a teammate saved in the meantime the server refuses it
+ * (409) and the save stops with a conflict instead of overwriting their work. Edits
+ * made while a save is in flight are picked up by a follow-up save.
+ */
+export const saveDesign =
+  (designId: string): AppThunk<Promise<void>> =>
+  async (dispatch, getState) => {
+    const state = getState();
+    const entry = state.autosave.byDesignId[designId];
+    const design = state.design.items.find((item) => item._id === designId);
+    if (!env.isApiConfigured || !entry || !design) return;
+    if (entry.status !== 'dirty' && entry.status !== 'error') return;
+
+    dispatch(saveStarted(designId));
+
+    const baseline = isLiveSession(state, designId) ? undefined : entry.serverUpdatedAt;
+    const result = await dispatch(
+      designsApi.endpoints.updateDesign.initiate({
+        ...toSaveBody(design),
+        ...(baseline && { updatedAt: baseline }),
+      })
+    );
+    if (result.error) {
+      const latest = isConflictResponse(result.error)
+        ? await dispatch(fetchServerCopy(designId))
+        : undefined;
+      dispatch(
+        latest
+          ? saveConflicted(latest)
+          : saveFailed({ designId, error: getErrorMessage(result.error, 'Could not save.') })
+      );
+      return;
+    }
+
+    dispatch(
+      saveSucceeded({ designId, revision: entry.revision, updatedAt: result.data.updatedAt })
+    );
+    if (getState().autosave.byDesignId[designId]?.status === 'dirty') {
+      await dispatch(saveDesign(designId));
+    }
+  };
+
+/**
+ * Last-chance save while the page is being unloaded. RTK Query requests are dropped
+ * with the page, so this goes through a `keepalive` fetch and skips the conflict check.
+ */
+export const flushDesignOnUnload =
+  (designId: string): AppThunk =>
+  (_dispatch, getState) => {
+    const state = getState();
+    const status = state.autosave.byDesignId[designId]?.status;
+    const design = state.design.items.find((item) => item._id === designId);
+    if (!env.isApiConfigured || !design) return;
+    if (status !== 'dirty' && status !== 'saving' && status !== 'error') return;
+
+    const { _id, ...body } = toSaveBody(design);
+    void fetch(`${env.apiUrl}/designs/${_id}`, {
+      method: 'PUT',
+      keepalive: true,
+      credentials: 'include',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+    }).catch(() => undefined);
+  };
+
+/**
+ * Adds listed designs this tab does not have yet, except those deleted here but still
+ * waiting out their undo window. Loaded designs are never replaced from listing data:
+ * a listing can predate edits made since, including collaborators' realtime ones.
+ */
+export const receiveServerDesigns =
+  (designs: Design[]): AppThunk =>
+  (dispatch, getState) => {
+    designs.forEach((design) => {
+      const state = getState();
+      const isLoaded = state.design.items.some((item) => item._id === design._id);
+      const isBeingDeleted = state.dashboard.pendingDeletions.some(
+        (pending) => pending._id === design._id
+      );
+      if (!isLoaded && !isBeingDeleted) dispatch(upsertDesign(design));
+    });
+  };
+
+/** Resolves a save conflict by overwriting the server copy with ours. */
+export const keepLocalDesign =
+  (designId: string): AppThunk<Promise<void>> =>
+  async (dispatch) => {
+    dispatch(conflictOverridden(designId));
+    await dispatch(saveDesign(designId));
+  };
+
+/**
+ * Resolves a save conflict by dropping our edits for the server copy. Undo history is
+ * cleared with them, since stepping back would resurrect the discarded edits.
+ */
+export const takeServerDesign =
+  (designId: string): AppThunk =>
+  (dispatch, getState) => {
+    const conflict = getState().autosave.byDesignId[designId]?.conflict;
+    if (!conflict) return;
+    dispatch(upsertDesign(conflict));
+    dispatch(clearHistory(designId));
+    dispatch(conflictDiscarded(designId));
+  };
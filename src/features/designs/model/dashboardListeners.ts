@@ -0,0 +1,51 @@
+import { startAppListening } from '../../../app/listenerMiddleware';
+import { upsertDesign } from '../../../entities/design/model/slice';
+import { getErrorMessage } from '../../../shared/api/errors';
+import { env } from '../../../shared/config/env';
+import { clearHistory } from '../../canvas/model/historySlice';
+import { designsApi } from '../api/designsApi';
+import {
+  designDeletionRequested,
+  designDeletionSettled,
+  designDeletionUndone,
+} from './dashboardSlice';
+
+/** How long a deleted design can be brought back before the server deletes it. */
+export const UNDO_DELETE_MS = 6000;
+
+/**
+ * Holds a deletion for the undo window, then deletes the design on the server. Undoing,
+ * or the server refusing, puts the design back in the workspace as it was.
+ */
+export const registerDashboardListeners = () =>
+  startAppListening({
+    actionCreator: designDeletionRequested,
+    effect: async ({ payload: design }, listenerApi) => {
+      const undone = await listenerApi.take(
+        (action) => designDeletionUndone.match(action) && action.payload === design._id,
+        UNDO_DELETE_MS
+      );
+      if (undone) {
+        listenerApi.dispatch(upsertDesign(design));
+        return;
+      }
+
+      if (env.isApiConfigured) {
+        const result = await listenerApi.dispatch(
+          designsApi.endpoints.deleteDesign.initiate(design._id)
+        );
+        if (result.error) {
+          listenerApi.dispatch(upsertDesign(design));
+          listenerApi.dispatch(
+            designDeletionSettled({
+              designId: design._id,
+              error: getErrorMessage(result.error, `Could not delete “${design.name}”.`),
+            })
+          );
+          return;
+        }
+      }
+      listenerApi.dispatch(clearHistory(design._id));
+      listenerApi.dispatch(designDeletionSettled({ designId: design._id }));
+    },
+  });
@@ -0,0 +1,46 @@
+import { createSlice, type PayloadAction } from '@reduxjs/toolkit';
+
+import type { Design } from '../../../entities/design/model/types';
+
+interface DashboardState {
+  /** Deleted designs that can still be brought back, oldest first. */
+  pendingDeletions: Design[];
+  deletionError?: string;
+}
+
+const initialState: DashboardState = {
+  pendingDeletions: [],
+};
+
+const withoutPending = (state: DashboardState, designId: string) => {
+  state.pendingDeletions = state.pendingDeletions.filter((design) => design._id !== designId);
+};
+
+const dashboardSlice = createSlice({
+  name: 'dashboard',
+  initialState,
+  reducers: {
+    designDeletionRequested(state, action: PayloadAction<Design>) {
+      state.pendingDeletions.push(action.payload);
+      state.deletionError = undefined;
+    },
+    designDeletionUndone(state, action: PayloadAction<string>) {
+      withoutPending(state, action.payload);
+    },
+    designDeletionSettled(state, action: PayloadAction<{ designId: string; error?: string }>) {
+      withoutPending(state, action.payload.designId);
+      state.deletionError = action.payload.error;
+    },
+    deletionErrorDismissed(state) {
+      state.deletionError = undefined;
+    },
+  },
+});
+
+export const {
+  designDeletionRequested,
+  designDeletionUndone,
+  designDeletionSettled,
+  deletionErrorDismissed,
+} = dashboardSlice.actions;
+export default dashboardSlice.reducer;
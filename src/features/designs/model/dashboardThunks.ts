@@ -0,0 +1,122 @@
+import type { AppThunk } from '../../../app/store';
+import {
+  removeDesign,
+  setActiveDesignId,
+  setDesignName,
+  upsertDesign,
+} from '../../../entities/design/model/slice';
+import type { Design } from '../../../entities/design/model/types';
+import { getErrorMessage } from '../../../shared/api/errors';
+import { env } from '../../../shared/config/env';
+import { designsApi } from '../api/designsApi';
+import { designDeletionRequested } from './dashboardSlice';
+
+type NewDesignFields = Partial<Pick<Design, 'name' | 'width' | 'height' | 'elements' | 'guides'>>;
+
+const DEFAULT_DESIGN_SIZE = 1080;
+
+/** Takes a design out of the workspace, closing it first if it is open. */
+const dropDesign =
+  (designId: string): AppThunk =>
+  (dispatch, getState) => {
+    if (getState().design.activeDesignId === designId) dispatch(setActiveDesignId(undefined));
+    dispatch(removeDesign(designId));
+  };
+
+/**
+ * Opens a design made here and stores it on the server. If the server refuses it, it
+ * is taken back out and the error is thrown.
+ */
+export const addDesign =
+  (design: Design): AppThunk<Promise<Design>> =>
+  async (dispatch) => {
+    dispatch(upsertDesign(design));
+    dispatch(setActiveDesignId(design._id));
+    if (!env.isApiConfigured) return design;
+
+    const result = await dispatch(designsApi.endpoints.createDesign.initiate(design));
+    if (result.error) {
+      dispatch(dropDesign(design._id));
+      throw new Error(getErrorMessage(result.error, `Could not create “${design.name}”.`));
+    }
+    return design;
+  };
+
+/** Starts a blank design, square unless `fields` say otherwise, and opens it. */
+export const createDesign =
+  (fields: NewDesignFields = {}): AppThunk<Promise<Design>> =>
+  (dispatch, getState) => {
+    const now = new Date().toISOString();
+    return dispatch(
+      addDesign({
+        name: `Untitled Design ${getState().design.items.length + 1}`,
+        width: DEFAULT_DESIGN_SIZE,
+        height: DEFAULT_DESIGN_SIZE,
+        elements: [],
+        ...fields,
+        _id: crypto.randomUUID(),
+        createdAt: now,
+        updatedAt: now,
+      })
+    );
+  };
+
+/** Renames a design here and on the server, going back to the old name if that fails. */
+export const renameDesign =
+  (designId: string, name: string): AppThunk<Promise<void>> =>
+  async (dispatch, getState) => {
+    const design = getState().design.items.find((item) => item._id === designId);
+    const nextName = name.trim();
+    if (!design || !nextName || nextName === design.name) return;
+
+    dispatch(setDesignName({ designId, name: nextName }));
+    if (!env.isApiConfigured) return;
+    const result = await dispatch(
+      designsApi.endpoints.renameDesign.initiate({ designId, name: nextName })
+    );
+    if (result.error) {
+      dispatch(setDesignName({ designId, name: design.name }));
+      throw new Error(getErrorMessage(result.error, `Could not rename “${design.name}”.`));
+    }
+  };
+
+/**
+ * Copies a design next to the original without opening it. The server copies its own
+ * stored design, so the copy is replaced by the server's once it answers.
+ */
+export const duplicateDesign =
+  (designId: string): AppThunk<Promise<Design | undefined>> =>
+  async (dispatch, getState) => {
+    const design = getState().design.items.find((item) => item._id === designId);
+    if (!design) return undefined;
+    const now = new Date().toISOString();
+    const copy: Design = {
+      ...design,
+      _id: crypto.randomUUID(),
+      name: `${design.name} copy`,
+      createdAt: now,
+      updatedAt: now,
+    };
+    dispatch(upsertDesign(copy));
+    if (!env.isApiConfigured) return copy;
+
+    const result = await dispatch(
+      designsApi.endpoints.duplicateDesign.initiate({ designId, copy })
+    );
+    if (result.error) {
+      dispatch(dropDesign(copy._id));
+      throw new Error(getErrorMessage(result.error, `Could not duplicate “${design.name}”.`));
+    }
+    dispatch(upsertDesign(result.data));
+    return result.data;
+  };
+
+/** Removes a design from the workspace; the server copy goes once the undo window closes. */
+export const deleteDesign =
+  (designId: string): AppThunk =>
+  (dispatch, getState) => {
+    const design = getState().design.items.find((item) => item._id === designId);
+    if (!design) return;
+    dispatch(dropDesign(designId));
+    dispatch(designDeletionRequested(design));
+  };
@@ -0,0 +1,26 @@
+import type { AppThunk } from '../../../app/store';
+import { parseDesignFile } from '../../../entities/design/lib/designDocument';
+import type { Design } from '../../../entities/design/model/types';
+import { addDesign } from './dashboardThunks';
+
+/**
+ * Opens a `.design.json` export as a new design, stored like any other. A file whose
+ * design is already in the workspace gets a fresh id, so importing never overwrites
+ * existing work.
+ */
+export const importDesignFile =
+  (file: File): AppThunk<Promise<Design>> =>
+  async (dispatch, getState) => {
+    const imported = parseDesignFile(await file.text());
+    const now = new Date().toISOString();
+    const isDuplicate = getState().design.items.some((item) => item._id === imported._id);
+    return dispatch(
+      addDesign({
+        ...imported,
+        _id: isDuplicate ? crypto.randomUUID() : imported._id,
+        name: isDuplicate ? `${imported.name} (imported)` : imported.name,
+        createdAt: now,
+        updatedAt: now,
+      })
+    );
+  };
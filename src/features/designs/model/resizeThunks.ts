@@ -0,0 +1,39 @@
+import type { AppThunk } from '../../../app/store';
+import { resizeDesignContent, type ResizeOptions } from '../../../entities/design/lib/resizing';
+import { setDesignSize } from '../../../entities/design/model/slice';
+import type { Design } from '../../../entities/design/model/types';
+import { addDesign } from './dashboardThunks';
+
+export interface ResizeDesignOptions extends ResizeOptions {
+  /** Leave the design as it is and open a resized copy instead. */
+  asCopy: boolean;
+}
+
+/**
+ * Changes a design's dimensions, refitting its layers and guides. Resizing in place is
+ * one undo step, which brings back the old size along with the layers.
+ */
+export const resizeDesign =
+  (designId: string, { asCopy, ...options }: ResizeDesignOptions): AppThunk<Promise<Design>> =>
+  async (dispatch, getState) => {
+    const design = getState().design.items.find((item) => item._id === designId);
+    if (!design) throw new Error('The design is no longer open.');
+    const resized = resizeDesignContent(design, options);
+
+    if (asCopy) {
+      const now = new Date().toISOString();
+      return dispatch(
+        addDesign({
+          ...design,
+          ...resized,
+          _id: crypto.randomUUID(),
+          name: `${design.name} (${resized.width} × ${resized.height})`,
+          createdAt: now,
+          updatedAt: now,
+        })
+      );
+    }
+
+    dispatch(setDesignSize({ designId, ...resized }));
+    return { ...design, ...resized };
+  };
@@ -0,0 +1,11 @@
+import type { RootState } from '../../../app/store';
+import type { SaveStatus } from './autosaveSlice';
+
+export const selectSaveState = (state: RootState, designId?: string) =>
+  designId ? state.autosave.byDesignId[designId] : undefined;
+
+export const selectSaveStatus = (state: RootState, designId?: string): SaveStatus =>
+  selectSaveState(state, designId)?.status ?? 'saved';
+
+export const selectSaveConflict = (state: RootState, designId?: string) =>
+  selectSaveState(state, designId)?.conflict;
@@ -0,0 +1,46 @@
+import { useAppDispatch, useAppSelector } from '../../../app/hooks';
+import { deletionErrorDismissed, designDeletionUndone } from '../model/dashboardSlice';
+
+/** Offers to bring back designs deleted moments ago, and reports deletes that failed. */
+export const DeletionToast = () => {
+  const dispatch = useAppDispatch();
+  const pendingDeletions = useAppSelector((state) => state.dashboard.pendingDeletions);
+  const deletionError = useAppSelector((state) => state.dashboard.deletionError);
+
+  if (!pendingDeletions.length && !deletionError) return null;
+
+  return (
+    <div
+      role="status"
+      className="fixed bottom-6 left-1/2 z-40 flex w-full max-w-sm -translate-x-1/2 flex-col gap-2 px-4"
+    >
+      {pendingDeletions.map((design) => (
+        <div
+          key={design._id}
+          className="flex items-center justify-between gap-3 rounded-xl border border-slate-700 bg-slate-900 px-4 py-3 text-sm text-slate-200 shadow-2xl shadow-slate-950/60"
+        >
+          <span className="truncate">Deleted “{design.name}”</span>
+          <button
+            type="button"
+            onClick={() => dispatch(designDeletionUndone(design._id))}
+            className="shrink-0 font-semibold text-sky-300 transition hover:text-sky-200"
+          >
+            Undo
+          </button>
+        </div>
+      ))}
+      {deletionError && (
+        <div className="flex items-center justify-between gap-3 rounded-xl border border-rose-500/40 bg-slate-900 px-4 py-3 text-sm text-rose-300 shadow-2xl shadow-slate-950/60">
+          <span>{deletionError}</span>
+          <button
+            type="button"
+            onClick={() => dispatch(deletionErrorDismissed())}
+            className="shrink-0 text-slate-400 transition hover:text-slate-100"
+          >
+            Dismiss
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
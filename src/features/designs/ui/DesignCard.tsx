@@ -0,0 +1,85 @@
+import { useState, type FormEvent } from 'react';
+
+import type { Design } from '../../../entities/design/model/types';
+
+interface DesignCardProps {
+  design: Design;
+  isActive: boolean;
+  onOpen: () => void;
+  onRename: (name: string) => void;
+  onDuplicate: () => void;
+  onDelete: () => void;
+}
+
+const actionClassName =
+  'rounded-full px-3 py-1 text-xs text-slate-400 transition hover:bg-slate-800 hover:text-slate-100';
+
+export const DesignCard = ({
+  design,
+  isActive,
+  onOpen,
+  onRename,
+  onDuplicate,
+  onDelete,
+}: DesignCardProps) => {
+  const [draftName, setDraftName] = useState<string>();
+
+  const handleRename = (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    if (draftName !== undefined) onRename(draftName);
+    setDraftName(undefined);
+  };
+
+  return (
+    <article
+      className={`flex flex-col gap-3 rounded-2xl border px-4 py-4 transition ${
+        isActive
+          ? 'border-sky-500 bg-sky-500/10 shadow-lg shadow-sky-500/20'
+          : 'border-slate-800 bg-slate-900/80 hover:border-slate-600'
+      }`}
+    >
+      {draftName === undefined ? (
+        <button type="button" onClick={onOpen} className="flex flex-col gap-3 text-left">
+          <p className="text-sm uppercase tracking-widest text-slate-500">
+            {new Date(design.updatedAt).toLocaleDateString()}
+          </p>
+          <h2 className="text-2xl font-semibold text-slate-50">{design.name}</h2>
+          <p className="text-sm text-slate-400">
+            {design.width}×{design.height} · {design.elements.length} layers
+          </p>
+        </button>
+      ) : (
+        <form onSubmit={handleRename} className="flex flex-col gap-3">
+          <p className="text-sm uppercase tracking-widest text-slate-500">Rename</p>
+          <input
+            autoFocus
+            value={draftName}
+            aria-label="Design name"
+            onChange={(event) => setDraftName(event.target.value)}
+            // Clicking away keeps the new name, like pressing Enter.
+            onBlur={(event) => event.currentTarget.form?.requestSubmit()}
+            onKeyDown={(event) => {
+              if (event.key === 'Escape') setDraftName(undefined);
+            }}
+            className="rounded-lg border border-sky-500 bg-slate-950/70 px-2 py-1 text-2xl font-semibold text-slate-50 outline-none"
+          />
+        </form>
+      )}
+      <div className="flex gap-1">
+        <button type="button" onClick={() => setDraftName(design.name)} className={actionClassName}>
+          Rename
+        </button>
+        <button type="button" onClick={onDuplicate} className={actionClassName}>
+          Duplicate
+        </button>
+        <button
+          type="button"
+          onClick={onDelete}
+          className={`${actionClassName} hover:text-rose-300`}
+        >
+          Delete
+        </button>
+      </div>
+    </article>
+  );
+};
@@ -1,40 +1,88 @@
-import { useEffect } from 'react';
+import { useEffect, useRef, useState, type ChangeEvent } from 'react';
 
 import { useAppDispatch, useAppSelector } from '../../../app/hooks';
 import { env } from '../../../shared/config/env';
-import { upsertDesign, setActiveDesignId } from '../../../entities/design/model/slice';
-import type { Design } from '../../../entities/design/model/types';
-import { useGetDesignsQuery } from '../api/designsApi';
+import { DESIGN_FILE_EXTENSION } from '../../../entities/design/lib/designDocument';
+import { setActiveDesignId } from '../../../entities/design/model/slice';
+import { getErrorMessage } from '../../../shared/api/errors';
+import { useIsOnScreen } from '../../../shared/hooks/useIsOnScreen';
+import { SelectField } from '../../../shared/ui/SelectField';
+import { useGetDesignsInfiniteQuery } from '../api/designsApi';
+import { useDebouncedValue } from '../hooks/useDebouncedValue';
+import { queryDesigns, type DesignSizeFilter, type DesignSort } from '../lib/designQuery';
+import { receiveServerDesigns } from '../model/autosaveThunks';
+import { deleteDesign, duplicateDesign, renameDesign } from '../model/dashboardThunks';
+import { importDesignFile } from '../model/designFileThunks';
+import { DeletionToast } from './DeletionToast';
+import { DesignCard } from './DesignCard';
+import { NewDesignDialog } from './NewDesignDialog';
+
+const SEARCH_DELAY_MS = 300;
+
+const SORT_OPTIONS: { value: DesignSort; label: string }[] = [
+  { value: 'updated', label: 'Last edited' },
+  { value: 'created', label: 'Date created' },
+  { value: 'name', label: 'Name' },
+];
+
+const SIZE_OPTIONS: { value: DesignSizeFilter; label: string }[] = [
+  { value: 'all', label: 'All sizes' },
+  { value: 'square', label: 'Square' },
+  { value: 'portrait', label: 'Portrait' },
+  { value: 'landscape', label: 'Landscape' },
+];
 
 export const DesignList = () => {
   const dispatch = useAppDispatch();
-  const { data, isFetching } = useGetDesignsQuery(undefined, {
-    skip: !env.isApiConfigured,
-  });
+  const [search, setSearch] = useState('');
+  const [sort, setSort] = useState<DesignSort>('updated');
+  const [size, setSize] = useState<DesignSizeFilter>('all');
+  const query = { search: useDebouncedValue(search, SEARCH_DELAY_MS), sort, size };
+  const { data, error, isFetching, hasNextPage, isFetchingNextPage, fetchNextPage } =
+    useGetDesignsInfiniteQuery(query, { skip: !env.isApiConfigured });
   const designs = useAppSelector((state) => state.design.items);
   const activeDesignId = useAppSelector((state) => state.design.activeDesignId);
+  const pendingDeletions = useAppSelector((state) => state.dashboard.pendingDeletions);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const sentinelRef = useRef<HTMLDivElement>(null);
+  const isSentinelOnScreen = useIsOnScreen(sentinelRef);
+  const [actionError, setActionError] = useState<string | null>(null);
+  const [isCreating, setIsCreating] = useState(false);
 
   useEffect(() => {
-    if (!data?.length) return;
-    data.forEach((design: Design) => dispatch(upsertDesign(design)));
+    if (!data) return;
+    dispatch(receiveServerDesigns(data.pages.flatMap((page) => page.items)));
   }, [data, dispatch]);
 
-  const handleCreateDesign = () => {
-    const now = new Date().toISOString();
-    const newDesign: Design = {
-      _id: crypto.randomUUID(),
-      name: `Untitled Design ${designs.length + 1}`,
-      width: 1080,
-      height: 1080,
-      elements: [],
-      createdAt: now,
-      updatedAt: now,
-    };
-    dispatch(upsertDesign(newDesign));
-    dispatch(setActiveDesignId(newDesign._id));
+  useEffect(() => {
+    if (isSentinelOnScreen && hasNextPage && !isFetching) void fetchNextPage();
+  }, [isSentinelOnScreen, hasNextPage, isFetching, fetchNextPage]);
+
+  /** Runs a dashboard action, showing what went wrong if it fails. */
+  const attempt = async (action: () => Promise<unknown>, fallback: string) => {
+    setActionError(null);
+    try {
+      await action();
+    } catch (actionFailure) {
+      setActionError(getErrorMessage(actionFailure, fallback));
+    }
+  };
+
+  const handleImportFile = (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    // Reset so picking the same file again still fires a change.
+    event.target.value = '';
+    if (!file) return;
+    void attempt(() => dispatch(importDesignFile(file)), `Could not import ${file.name}.`);
   };
 
-  const list = data?.length ? data : designs;
+  // Searching, sorting and filtering happen on the server when there is one.
+  const matches = data
+    ? data.pages.flatMap((page) => page.items)
+    : queryDesigns(designs, { search, sort, size });
+  const list = matches.filter(
+    (design) => !pendingDeletions.some((pending) => pending._id === design._id)
+  );
 
   return (
     <section className="space-y-6 rounded-3xl border border-slate-800 bg-gradient-to-b from-slate-900 via-slate-950 to-black p-8 shadow-2xl shadow-slate-950/60">
@@ -46,43 +94,94 @@ export const DesignList = () => {
             Manage drafts, jump back into the editor, and collaborate with teammates.
           </p>
         </div>
-        <button
-          type="button"
-          onClick={handleCreateDesign}
-          className="rounded-full bg-gradient-to-r from-purple-500 to-sky-500 px-6 py-3 text-sm font-semibold text-white shadow-lg shadow-purple-500/30 transition hover:shadow-sky-500/40"
-        >
-          New design
-        </button>
+        <div className="flex items-center gap-3">
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept={`${DESIGN_FILE_EXTENSION},application/json`}
+            className="hidden"
+            onChange={handleImportFile}
+          />
+          <button
+            type="button"
+            onClick={() => fileInputRef.current?.click()}
+            className="rounded-full border border-slate-700 px-6 py-3 text-sm font-semibold text-slate-200 transition hover:border-slate-500 hover:bg-slate-800"
+          >
+            Import
+          </button>
+          <button
+            type="button"
+            onClick={() => setIsCreating(true)}
+            className="rounded-full bg-gradient-to-r from-purple-500 to-sky-500 px-6 py-3 text-sm font-semibold text-white shadow-lg shadow-purple-500/30 transition hover:shadow-sky-500/40"
+          >
+            New design
+          </button>
+        </div>
       </header>
-      {isFetching && env.isApiConfigured && (
+      <div className="flex flex-wrap items-end gap-3">
+        <label className="flex min-w-[12rem] flex-1 flex-col gap-1">
+          <span className="text-xs uppercase tracking-wide text-slate-500">Search</span>
+          <input
+            type="search"
+            value={search}
+            onChange={(event) => setSearch(event.target.value)}
+            placeholder="Design name"
+            className="w-full rounded-lg border border-slate-800 bg-slate-950/70 px-2 py-1.5 text-sm text-slate-100 outline-none transition focus:border-sky-500"
+          />
+        </label>
+        <SelectField label="Sort by" value={sort} options={SORT_OPTIONS} onChange={setSort} />
+        <SelectField label="Size" value={size} options={SIZE_OPTIONS} onChange={setSize} />
+      </div>
+      {actionError && (
+        <p role="alert" className="whitespace-pre-line text-sm text-rose-300">
+          {actionError}
+        </p>
+      )}
+      {error && (
+        <p className="text-xs text-rose-300">
+          {getErrorMessage(error, 'Could not load designs.')} Showing designs in this browser.
+        </p>
+      )}
+      {isFetching && !isFetchingNextPage && env.isApiConfigured && (
         <p className="text-xs text-slate-500">Syncing with API…</p>
       )}
       <div className="grid gap-4 md:grid-cols-2">
-        {list.map((design) => {
-          const isActive = design._id === activeDesignId;
-          return (
-            <button
-              key={design._id}
-              type="button"
-              onClick={() => dispatch(setActiveDesignId(design._id))}
-              className={`flex flex-col gap-3 rounded-2xl border px-4 py-4 text-left transition ${
-                isActive
-                  ? 'border-sky-500 bg-sky-500/10 shadow-lg shadow-sky-500/20'
-                  : 'border-slate-800 bg-slate-900/80 hover:border-slate-600'
-              }`}
-            >
-              <p className="text-sm uppercase tracking-widest text-slate-500">
-                {new Date(design.updatedAt).toLocaleDateString()}
-              </p>
-              <h2 className="text-2xl font-semibold text-slate-50">{design.name}</h2>
-              <p className="text-sm text-slate-400">
-                {design.width}×{design.height} · {design.elements.length} layers
-              </p>
-            </button>
-          );
-        })}
+        {list.map((design) => (
+          <DesignCard
+            key={design._id}
+            design={design}
+            isActive={design._id === activeDesignId}
+            onOpen={() => dispatch(setActiveDesignId(design._id))}
+            onRename={(name) =>
+              void attempt(() => dispatch(renameDesign(design._id, name)), 'Could not rename.')
+            }
+            onDuplicate={() =>
+              void attempt(() => dispatch(duplicateDesign(design._id)), 'Could not duplicate.')
+            }
+            onDelete={() => dispatch(deleteDesign(design._id))}
+          />
+        ))}
       </div>
+      {!list.length && !isFetching && (
+        <p className="text-sm text-slate-500">
+          {search || size !== 'all' ? 'No designs match.' : 'No designs yet.'}
+        </p>
+      )}
+      {/* Scrolling this into view loads the next page. */}
+      <div ref={sentinelRef} className="flex justify-center">
+        {hasNextPage && (
+          <button
+            type="button"
+            disabled={isFetchingNextPage}
+            onClick={() => void fetchNextPage()}
+            className="rounded-full border border-slate-700 px-4 py-2 text-xs text-slate-300 transition hover:border-slate-500 hover:bg-slate-800 disabled:opacity-40"
+          >
+            {isFetchingNextPage ? 'Loading…' : 'Load more'}
+          </button>
+        )}
+      </div>
+      {isCreating && <NewDesignDialog onClose={() => setIsCreating(false)} />}
+      <DeletionToast />
     </section>
   );
 };
-
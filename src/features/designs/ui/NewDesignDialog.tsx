@@ -0,0 +1,87 @@
+import { useEffect, useState, type FormEvent } from 'react';
+
+import { useAppDispatch } from '../../../app/hooks';
+import { getErrorMessage } from '../../../shared/api/errors';
+import { TextField } from '../../../shared/ui/TextField';
+import { createDesign } from '../model/dashboardThunks';
+import { SIZE_PRESETS } from '../lib/sizePresets';
+import { SizePicker } from './SizePicker';
+
+interface NewDesignDialogProps {
+  onClose: () => void;
+}
+
+const buttonClassName =
+  'rounded-xl border border-slate-700 px-4 py-2 text-sm font-medium text-slate-200 transition hover:border-slate-500 hover:bg-slate-800';
+
+export const NewDesignDialog = ({ onClose }: NewDesignDialogProps) => {
+  const dispatch = useAppDispatch();
+  const [name, setName] = useState('');
+  const [size, setSize] = useState({
+    width: SIZE_PRESETS[0].width,
+    height: SIZE_PRESETS[0].height,
+  });
+  const [isCreating, setIsCreating] = useState(false);
+  const [error, setError] = useState<string>();
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') onClose();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [onClose]);
+
+  const handleCreate = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    setIsCreating(true);
+    setError(undefined);
+    try {
+      await dispatch(createDesign({ ...size, ...(name.trim() && { name: name.trim() }) }));
+      onClose();
+    } catch (createError) {
+      setError(getErrorMessage(createError, 'Could not create the design.'));
+      setIsCreating(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-slate-950/70 p-4 backdrop-blur-sm">
+      <form
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="new-design-dialog-title"
+        onSubmit={handleCreate}
+        className="flex w-full max-w-sm flex-col gap-4 rounded-2xl border border-slate-700 bg-slate-900 p-6 shadow-2xl shadow-slate-950/60"
+      >
+        <h2 id="new-design-dialog-title" className="text-lg font-semibold text-slate-50">
+          New design
+        </h2>
+
+        <div className="space-y-3">
+          <TextField label="Name" value={name} placeholder="Untitled Design" onChange={setName} />
+          <SizePicker width={size.width} height={size.height} onChange={setSize} />
+        </div>
+
+        {error && (
+          <p role="alert" className="text-sm text-rose-300">
+            {error}
+          </p>
+        )}
+
+        <footer className="flex justify-end gap-2">
+          <button type="button" onClick={onClose} className={buttonClassName}>
+            Cancel
+          </button>
+          <button
+            type="submit"
+            disabled={isCreating}
+            className="rounded-xl bg-gradient-to-r from-sky-500 to-indigo-500 px-4 py-2 text-sm font-semibold text-white shadow-lg shadow-sky-500/30 transition hover:shadow-indigo-500/40 disabled:cursor-wait disabled:opacity-60"
+          >
+            {isCreating ? 'Creating…' : 'Create'}
+          </button>
+        </footer>
+      </form>
+    </div>
+  );
+};
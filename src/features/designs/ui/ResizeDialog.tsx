@@ -0,0 +1,153 @@
+import { useEffect, useState } from 'react';
+
+import { useAppDispatch } from '../../../app/hooks';
+import type { ResizeAnchor, ResizeMode } from '../../../entities/design/lib/resizing';
+import type { Design } from '../../../entities/design/model/types';
+import { getErrorMessage } from '../../../shared/api/errors';
+import { fieldLabelClassName } from '../../../shared/ui/fieldStyles';
+import { ToggleField } from '../../../shared/ui/ToggleField';
+import { resizeDesign } from '../model/resizeThunks';
+import { SizePicker } from './SizePicker';
+
+interface ResizeDialogProps {
+  design: Design;
+  onClose: () => void;
+}
+
+const MODE_OPTIONS: { value: ResizeMode; label: string; hint: string }[] = [
+  { value: 'scale', label: 'Scale content', hint: 'Layers grow or shrink and spread out' },
+  { value: 'anchor', label: 'Keep layer sizes', hint: 'Layers stay pinned to a point' },
+];
+
+const ANCHOR_STEPS: ResizeAnchor['x'][] = [0, 0.5, 1];
+
+const ANCHORS: ResizeAnchor[] = ANCHOR_STEPS.flatMap((y) => ANCHOR_STEPS.map((x) => ({ x, y })));
+
+const buttonClassName =
+  'rounded-xl border border-slate-700 px-4 py-2 text-sm font-medium text-slate-200 transition hover:border-slate-500 hover:bg-slate-800';
+
+const optionClassName = (isSelected: boolean) =>
+  `rounded-lg border px-3 py-2 text-left text-sm transition ${
+    isSelected
+      ? 'border-sky-500/80 bg-sky-500/10 text-slate-50'
+      : 'border-slate-800 bg-slate-950/60 text-slate-300 hover:border-slate-600'
+  }`;
+
+/** Changes the design's canvas size, in place or as a copy, refitting its layers. */
+export const ResizeDialog = ({ design, onClose }: ResizeDialogProps) => {
+  const dispatch = useAppDispatch();
+  const [size, setSize] = useState({ width: design.width, height: design.height });
+  const [mode, setMode] = useState<ResizeMode>('scale');
+  const [anchor, setAnchor] = useState<ResizeAnchor>({ x: 0.5, y: 0.5 });
+  const [asCopy, setAsCopy] = useState(false);
+  const [isResizing, setIsResizing] = useState(false);
+  const [error, setError] = useState<string>();
+
+  const isUnchanged = size.width === design.width && size.height === design.height;
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') onClose();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [onClose]);
+
+  const handleResize = async () => {
+    setIsResizing(true);
+    setError(undefined);
+    try {
+      await dispatch(resizeDesign(design._id, { ...size, mode, anchor, asCopy }));
+      onClose();
+    } catch (resizeError) {
+      setError(getErrorMessage(resizeError, 'Could not resize the design.'));
+      setIsResizing(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-slate-950/70 p-4 backdrop-blur-sm">
+      <section
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="resize-dialog-title"
+        className="flex w-full max-w-sm flex-col gap-4 rounded-2xl border border-slate-700 bg-slate-900 p-6 shadow-2xl shadow-slate-950/60"
+      >
+        <header className="flex items-center justify-between">
+          <h2 id="resize-dialog-title" className="text-lg font-semibold text-slate-50">
+            Resize
+          </h2>
+          <span className="text-xs text-slate-500">
+            Now {design.width} × {design.height}
+          </span>
+        </header>
+
+        <div className="space-y-3">
+          <SizePicker width={size.width} height={size.height} onChange={setSize} />
+          <div className="grid grid-cols-2 gap-1">
+            {MODE_OPTIONS.map((option) => (
+              <button
+                key={option.value}
+                type="button"
+                aria-pressed={mode === option.value}
+                onClick={() => setMode(option.value)}
+                className={optionClassName(mode === option.value)}
+              >
+                {option.label}
+                <span className="block text-xs text-slate-500">{option.hint}</span>
+              </button>
+            ))}
+          </div>
+          {mode === 'anchor' && (
+            <div className="flex items-center justify-between">
+              <span className={fieldLabelClassName}>Anchor</span>
+              <div className="grid grid-cols-3 gap-1">
+                {ANCHORS.map((option) => {
+                  const isSelected = option.x === anchor.x && option.y === anchor.y;
+                  return (
+                    <button
+                      key={`${option.x}-${option.y}`}
+                      type="button"
+                      aria-label={`Anchor ${option.x * 100}% across, ${option.y * 100}% down`}
+                      aria-pressed={isSelected}
+                      onClick={() => setAnchor(option)}
+                      className={`h-5 w-5 rounded border transition ${
+                        isSelected
+                          ? 'border-sky-400 bg-sky-400'
+                          : 'border-slate-700 bg-slate-950/60 hover:border-slate-500'
+                      }`}
+                    />
+                  );
+                })}
+              </div>
+            </div>
+          )}
+          <ToggleField label="Resize a copy" checked={asCopy} onChange={setAsCopy} />
+          {!asCopy && (
+            <p className="text-xs text-slate-500">Resizing in place clears the undo history.</p>
+          )}
+        </div>
+
+        {error && (
+          <p role="alert" className="text-sm text-rose-300">
+            {error}
+          </p>
+        )}
+
+        <footer className="flex justify-end gap-2">
+          <button type="button" onClick={onClose} className={buttonClassName}>
+            Cancel
+          </button>
+          <button
+            type="button"
+            onClick={handleResize}
+            disabled={isResizing || isUnchanged}
+            className="rounded-xl bg-gradient-to-r from-sky-500 to-indigo-500 px-4 py-2 text-sm font-semibold text-white shadow-lg shadow-sky-500/30 transition hover:shadow-indigo-500/40 disabled:cursor-not-allowed disabled:opacity-60"
+          >
+            {isResizing ? 'Resizing…' : 'Resize'}
+          </button>
+        </footer>
+      </section>
+    </div>
+  );
+};
@@ -0,0 +1,113 @@
+import { useState } from 'react';
+
+import { diffDesigns, type ElementChange } from '../../../entities/design/lib/diff';
+import type { Design } from '../../../entities/design/model/types';
+
+interface SaveConflictDialogProps {
+  /** Our copy, with the edits that could not be saved. */
+  localDesign: Design;
+  /** The newer copy a teammate saved in the meantime. */
+  serverDesign: Design;
+  onKeepMine: () => void;
+  onTakeTheirs: () => void;
+}
+
+const changeLabel: Record<ElementChange['kind'], string> = {
+  added: 'Only in your copy',
+  removed: 'Only in theirs',
+  changed: 'Changed',
+};
+
+const changeClassName: Record<ElementChange['kind'], string> = {
+  added: 'text-emerald-300',
+  removed: 'text-rose-300',
+  changed: 'text-amber-300',
+};
+
+const shortId = (id: string) => (id.length > 10 ? `${id.slice(0, 10)}…` : id);
+
+export const SaveConflictDialog = ({
+  localDesign,
+  serverDesign,
+  onKeepMine,
+  onTakeTheirs,
+}: SaveConflictDialogProps) => {
+  const [isComparing, setIsComparing] = useState(false);
+  // Read as "what keeping mine would do to their copy".
+  const changes = isComparing ? diffDesigns(serverDesign, localDesign) : undefined;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-slate-950/70 p-4 backdrop-blur-sm">
+      <section
+        role="alertdialog"
+        aria-modal="true"
+        aria-labelledby="save-conflict-title"
+        className="flex max-h-[80vh] w-full max-w-lg flex-col gap-4 rounded-2xl border border-slate-700 bg-slate-900 p-6 shadow-2xl shadow-slate-950/60"
+      >
+        <header className="space-y-1">
+          <h2 id="save-conflict-title" className="text-lg font-semibold text-slate-50">
+            This design changed while you were editing
+          </h2>
+          <p className="text-sm text-slate-400">
+            Someone saved “{serverDesign.name}” at{' '}
+            {new Date(serverDesign.updatedAt).toLocaleTimeString()}. Autosave is paused until you
+            choose which copy to keep.
+          </p>
+        </header>
+
+        {changes && (
+          <div className="min-h-0 space-y-2 overflow-y-auto rounded-xl border border-slate-800 bg-slate-950/50 p-3 text-sm">
+            {changes.design.length > 0 && (
+              <p className="text-slate-300">
+                Design {changes.design.join(', ')} differ{changes.design.length === 1 ? 's' : ''}.
+              </p>
+            )}
+            {changes.elements.map((change) => (
+              <div key={change.elementId} className="flex items-baseline justify-between gap-3">
+                <p className="min-w-0 truncate text-slate-200">
+                  <span className="capitalize">{change.type}</span>{' '}
+                  <span className="font-mono text-xs text-slate-500">
+                    {shortId(change.elementId)}
+                  </span>
+                  {change.keys.length > 0 && (
+                    <span className="text-xs text-slate-500"> · {change.keys.join(', ')}</span>
+                  )}
+                </p>
+                <span className={`shrink-0 text-xs font-semibold ${changeClassName[change.kind]}`}>
+                  {changeLabel[change.kind]}
+                </span>
+              </div>
+            ))}
+            {!changes.design.length && !changes.elements.length && (
+              <p className="text-slate-400">The two copies have the same content.</p>
+            )}
+          </div>
+        )}
+
+        <footer className="flex flex-wrap justify-end gap-2">
+          <button
+            type="button"
+            onClick={() => setIsComparing((current) => !current)}
+            className="mr-auto rounded-xl border border-slate-700 px-4 py-2 text-sm font-medium text-slate-200 transition hover:border-slate-500 hover:bg-slate-800"
+          >
+            {isComparing ? 'Hide comparison' : 'Compare'}
+          </button>
+          <button
+            type="button"
+            onClick={onTakeTheirs}
+            className="rounded-xl border border-slate-700 px-4 py-2 text-sm font-medium text-slate-200 transition hover:border-slate-500 hover:bg-slate-800"
+          >
+            Take theirs
+          </button>
+          <button
+            type="button"
+            onClick={onKeepMine}
+            className="rounded-xl bg-gradient-to-r from-sky-500 to-indigo-500 px-4 py-2 text-sm font-semibold text-white shadow-lg shadow-sky-500/30 transition hover:shadow-indigo-500/40"
+          >
+            Keep mine
+          </button>
+        </footer>
+      </section>
+    </div>
+  );
+};
@@ -0,0 +1,77 @@
+import { useState } from 'react';
+
+import { fieldLabelClassName } from '../../../shared/ui/fieldStyles';
+import { NumberField } from '../../../shared/ui/NumberField';
+import { findSizePreset, MAX_DESIGN_SIZE, MIN_DESIGN_SIZE, SIZE_PRESETS } from '../lib/sizePresets';
+
+interface SizePickerProps {
+  width: number;
+  height: number;
+  onChange: (size: { width: number; height: number }) => void;
+}
+
+const optionClassName = (isSelected: boolean) =>
+  `flex flex-col rounded-lg border px-3 py-2 text-left text-sm transition ${
+    isSelected
+      ? 'border-sky-500/80 bg-sky-500/10 text-slate-50'
+      : 'border-slate-800 bg-slate-950/60 text-slate-300 hover:border-slate-600'
+  }`;
+
+/** Canvas size as a preset, or any width and height when set to custom. */
+export const SizePicker = ({ width, height, onChange }: SizePickerProps) => {
+  const preset = findSizePreset(width, height);
+  const [isCustom, setIsCustom] = useState(!preset);
+
+  return (
+    <div className="flex flex-col gap-2">
+      <span className={fieldLabelClassName}>Size</span>
+      <div className="grid grid-cols-2 gap-1">
+        {SIZE_PRESETS.map((option) => (
+          <button
+            key={option.id}
+            type="button"
+            aria-pressed={!isCustom && preset?.id === option.id}
+            onClick={() => {
+              setIsCustom(false);
+              onChange({ width: option.width, height: option.height });
+            }}
+            className={optionClassName(!isCustom && preset?.id === option.id)}
+          >
+            {option.label}
+            <span className="text-xs text-slate-500">
+              {option.width} × {option.height}
+            </span>
+          </button>
+        ))}
+        <button
+          type="button"
+          aria-pressed={isCustom}
+          onClick={() => setIsCustom(true)}
+          className={`${optionClassName(isCustom)} col-span-2`}
+        >
+          Custom
+        </button>
+      </div>
+      {isCustom && (
+        <div className="grid grid-cols-2 gap-2">
+          <NumberField
+            label="Width"
+            value={width}
+            min={MIN_DESIGN_SIZE}
+            max={MAX_DESIGN_SIZE}
+            suffix="px"
+            onChange={(value) => onChange({ width: value, height })}
+          />
+          <NumberField
+            label="Height"
+            value={height}
+            min={MIN_DESIGN_SIZE}
+            max={MAX_DESIGN_SIZE}
+            suffix="px"
+            onChange={(value) => onChange({ width, height: value })}
+          />
+        </div>
+      )}
+    </div>
+  );
+};
@@ -1,35 +1,111 @@
-import { useEffect, useState } from 'react';
+import { useCallback, useRef, useState } from 'react';
+import type Konva from 'konva';
 
 import { useAppDispatch, useAppSelector } from '../../../app/hooks';
+import { createCommentAnchor } from '../../../entities/comment/lib/anchors';
 import { selectActiveDesign } from '../../../entities/design/model/selectors';
+import { fitTextHeight } from '../../../entities/design/lib/textLayout';
+import { setGuides, updateElements } from '../../../entities/design/model/slice';
+import type { DesignElement } from '../../../entities/design/model/types';
+import { getLocalUser } from '../../../entities/user/lib/localUser';
+import { env } from '../../../shared/config/env';
 import { CanvasStage } from '../../canvas/ui/CanvasStage';
+import { CanvasToolbar } from '../../canvas/ui/CanvasToolbar';
+import { CanvasViewOptions } from '../../canvas/ui/CanvasViewOptions';
 import { LayersPanel } from '../../canvas/ui/LayersPanel';
 import { PropertiesPanel } from '../../canvas/ui/PropertiesPanel';
 import { TopBar } from '../../canvas/ui/TopBar';
 import { useCanvasRealtime } from '../../canvas/hooks/useCanvasRealtime';
+import { useClipboard } from '../../canvas/hooks/useClipboard';
+import { useImageInsertion } from '../../canvas/hooks/useImageInsertion';
+import { usePresenceBroadcast } from '../../canvas/hooks/usePresenceBroadcast';
+import { useSvgImport } from '../../canvas/hooks/useSvgImport';
+import { useCommentThreads } from '../../comments/hooks/useCommentThreads';
+import { useCommentsRealtime } from '../../comments/hooks/useCommentsRealtime';
+import { filterThreads } from '../../comments/lib/threadFilters';
+import { draftAnchorSet, threadActivated } from '../../comments/model/commentsSlice';
+import { CommentPinsLayer } from '../../comments/ui/CommentPinsLayer';
 import { CommentsPanel } from '../../comments/ui/CommentsPanel';
-import { redo, undo } from '../../canvas/model/historySlice';
+import { overlayToggled } from '../../commands/model/commandsSlice';
+import { useAutosave } from '../../designs/hooks/useAutosave';
+import { keepLocalDesign, saveDesign, takeServerDesign } from '../../designs/model/autosaveThunks';
+import { selectSaveConflict } from '../../designs/model/selectors';
+import { SaveConflictDialog } from '../../designs/ui/SaveConflictDialog';
+import { ExportDialog } from '../../export/ui/ExportDialog';
+import { useVersionPreview } from '../../versions/hooks/useVersionPreview';
+import { getVersionTitle } from '../../versions/lib/versionLabels';
+import { previewVersion } from '../../versions/model/versionThunks';
+import { historyPanelToggled } from '../../versions/model/versionsSlice';
+import { VersionDiffLayer } from '../../versions/ui/VersionDiffLayer';
+import { VersionHistoryPanel } from '../../versions/ui/VersionHistoryPanel';
+import { leaveCopiesBehind } from '../../canvas/model/clipboardThunks';
+import { unwrapSelection, wrapSelection } from '../../canvas/model/groupingThunks';
+import { arrangeSelection, moveLayer } from '../../canvas/model/layerThunks';
+import { redoDesign, undoDesign } from '../../canvas/model/historyThunks';
+import {
+  selectCanRedo,
+  selectCanUndo,
+  selectConnectionStatus,
+  selectPendingChangeCount,
+  selectRemoteCollaborators,
+  selectSelectedElements,
+  selectSelectedIds,
+  selectViewport,
+} from '../../canvas/model/selectors';
+import { canvasSettingsChanged } from '../../canvas/model/canvasSettingsSlice';
+import { setSelection } from '../../canvas/model/selectionSlice';
+import { screenResized, viewportChanged } from '../../canvas/model/viewportSlice';
+import type { Size, Viewport } from '../../canvas/lib/viewport';
+import {
+  alignElements,
+  distributeElements,
+  getAlignmentTarget,
+  type Alignment,
+  type DistributeAxis,
+} from '../../canvas/lib/alignment';
+
+const NO_SELECTION: string[] = [];
+const ignoreChange = () => undefined;
 
 export const EditorLayout = () => {
   const dispatch = useAppDispatch();
+  const stageRef = useRef<Konva.Stage>(null);
+  const [isExportOpen, setIsExportOpen] = useState(false);
   const collaborators = useAppSelector((state) => state.presence.collaborators);
   const activeDesign = useAppSelector(selectActiveDesign);
-  const [selectedElementId, setSelectedElementId] = useState<string | undefined>(
-    activeDesign?.elements[0]?.id
+  const canUndo = useAppSelector((state) => selectCanUndo(state, activeDesign?._id));
+  const canRedo = useAppSelector((state) => selectCanRedo(state, activeDesign?._id));
+  const connectionStatus = useAppSelector(selectConnectionStatus);
+  const pendingChanges = useAppSelector((state) =>
+    selectPendingChangeCount(state, activeDesign?._id)
+  );
+  const selectedIds = useAppSelector(selectSelectedIds);
+  const selectedElements = useAppSelector(selectSelectedElements);
+  const remoteCollaborators = useAppSelector(selectRemoteCollaborators);
+  const saveConflict = useAppSelector((state) => selectSaveConflict(state, activeDesign?._id));
+  const commentsUi = useAppSelector((state) => state.comments);
+  const canvasSettings = useAppSelector((state) => state.canvasSettings);
+  const tool = useAppSelector((state) => state.tool.tool);
+  const versionsUi = useAppSelector((state) => state.versions);
+  const preview = useVersionPreview(activeDesign);
+  const { threads } = useCommentThreads(activeDesign?._id);
+  const viewport = useAppSelector((state) => selectViewport(state, activeDesign?._id));
+  const activeDesignId = activeDesign?._id;
+  const handleViewportChange = useCallback(
+    (next: Viewport) => {
+      if (activeDesignId) dispatch(viewportChanged({ designId: activeDesignId, viewport: next }));
+    },
+    [activeDesignId, dispatch]
   );
+  const handleScreenResize = useCallback((size: Size) => dispatch(screenResized(size)), [dispatch]);
 
   useCanvasRealtime(activeDesign?._id);
-
-  useEffect(() => {
-    if (!activeDesign) {
-      setSelectedElementId(undefined);
-      return;
-    }
-    const hasSelectedElement = activeDesign.elements.some((el) => el.id === selectedElementId);
-    if (!hasSelectedElement) {
-      setSelectedElementId(activeDesign.elements[0]?.id);
-    }
-  }, [activeDesign, selectedElementId]);
+  useCommentsRealtime(activeDesign?._id);
+  const saveStatus = useAutosave(activeDesign?._id);
+  useClipboard(activeDesign?._id);
+  const imageInsertion = useImageInsertion(activeDesign?._id);
+  const svgImport = useSvgImport(activeDesign?._id);
+  const broadcastCursor = usePresenceBroadcast(activeDesign?._id, selectedIds);
 
   if (!activeDesign) {
     return (
@@ -39,7 +115,24 @@ export const EditorLayout = () => {
     );
   }
 
-  const selectedElement = activeDesign.elements.find((el) => el.id === selectedElementId);
+  const previewedVersion = preview.version;
+  const handleSelectionChange = (ids: string[]) => dispatch(setSelection(ids));
+
+  // Auto-height text is refitted on every change, whether its text, font or width moved.
+  const handleElementsChange = (elements: DesignElement[]) =>
+    dispatch(updateElements({ designId: activeDesign._id, elements: elements.map(fitTextHeight) }));
+
+  const handleAlign = (alignment: Alignment) => {
+    const movable = selectedElements.filter((element) => !element.locked);
+    const target = getAlignmentTarget(selectedElements, activeDesign);
+    if (!movable.length || !target) return;
+    handleElementsChange(alignElements(movable, alignment, target, activeDesign.elements));
+  };
+
+  const handleDistribute = (axis: DistributeAxis) => {
+    const movable = selectedElements.filter((element) => !element.locked);
+    handleElementsChange(distributeElements(movable, axis, activeDesign.elements));
+  };
 
   const handleShare = async () => {
     const shareData = {
@@ -57,17 +150,47 @@ export const EditorLayout = () => {
     <section className="space-y-6">
       <TopBar
         title={activeDesign.name}
-        isDirty={false}
-        onUndo={() => dispatch(undo())}
-        onRedo={() => dispatch(redo())}
+        saveStatus={env.isApiConfigured ? saveStatus : undefined}
+        canUndo={canUndo}
+        canRedo={canRedo}
+        connectionStatus={connectionStatus}
+        pendingChanges={pendingChanges}
+        onUndo={() => dispatch(undoDesign(activeDesign._id))}
+        onRedo={() => dispatch(redoDesign(activeDesign._id))}
         onShare={handleShare}
+        onExport={() => setIsExportOpen(true)}
+        onResize={() => dispatch(overlayToggled('resize'))}
+        onToggleHistory={() => dispatch(historyPanelToggled())}
+        isHistoryOpen={versionsUi.isPanelOpen}
+        onRetrySave={() => dispatch(saveDesign(activeDesign._id))}
       />
+      {isExportOpen && (
+        <ExportDialog
+          design={activeDesign}
+          selectedIds={selectedIds}
+          getStage={() => stageRef.current}
+          onClose={() => setIsExportOpen(false)}
+        />
+      )}
+      {saveConflict && (
+        <SaveConflictDialog
+          localDesign={activeDesign}
+          serverDesign={saveConflict}
+          onKeepMine={() => dispatch(keepLocalDesign(activeDesign._id))}
+          onTakeTheirs={() => dispatch(takeServerDesign(activeDesign._id))}
+        />
+      )}
       <div className="grid gap-4 lg:grid-cols-[240px_minmax(0,1fr)_320px]">
         <div className="space-y-4">
           <LayersPanel
             elements={activeDesign.elements}
-            selectedElementId={selectedElementId}
-            onSelect={setSelectedElementId}
+            selectedIds={selectedIds}
+            onSelectionChange={handleSelectionChange}
+            onElementsChange={handleElementsChange}
+            onArrange={(command) => dispatch(arrangeSelection(command))}
+            onMoveLayer={(elementId, targetId, placement) =>
+              dispatch(moveLayer(elementId, targetId, placement))
+            }
           />
           <section className="rounded-2xl border border-slate-800 bg-slate-900/70 p-4">
             <header className="flex items-center justify-between">
@@ -104,15 +227,122 @@ export const EditorLayout = () => {
             </div>
           </section>
         </div>
-        <CanvasStage
-          design={activeDesign}
-          selectedElementId={selectedElementId}
-          onSelectElement={setSelectedElementId}
-        />
-        <div className="space-y-4">
-          <PropertiesPanel element={selectedElement} />
-          <CommentsPanel designId={activeDesign._id} />
+        <div className="flex min-w-0 flex-col gap-3">
+          <CanvasToolbar
+            isUploading={imageInsertion.isUploading}
+            isImportingSvg={svgImport.isImporting}
+            error={imageInsertion.error ?? svgImport.error}
+            svgImportReport={svgImport.report}
+            onAddImages={(files) => imageInsertion.insertFiles(files)}
+            onImportSvg={svgImport.importFile}
+            onDismissError={() => {
+              imageInsertion.dismissError();
+              svgImport.dismiss();
+            }}
+          >
+            <CanvasViewOptions
+              settings={canvasSettings}
+              onChange={(changes) => dispatch(canvasSettingsChanged(changes))}
+            />
+          </CanvasToolbar>
+          {previewedVersion ? (
+            <>
+              <p className="flex flex-wrap items-center justify-between gap-2 rounded-xl border border-sky-500/40 bg-sky-500/10 px-4 py-2 text-sm text-sky-100">
+                <span>Previewing “{getVersionTitle(previewedVersion)}” · read-only</span>
+                <button
+                  type="button"
+                  onClick={() => dispatch(previewVersion(undefined))}
+                  className="text-xs font-medium text-sky-200 transition hover:text-white"
+                >
+                  Back to current
+                </button>
+              </p>
+              <CanvasStage
+                design={previewedVersion.snapshot}
+                selectedIds={NO_SELECTION}
+                onSelectionChange={ignoreChange}
+                onElementsChange={ignoreChange}
+                isReadOnly
+                stageRef={stageRef}
+                viewport={viewport}
+                onViewportChange={handleViewportChange}
+                onScreenResize={handleScreenResize}
+                isHandTool={tool === 'hand'}
+                settings={canvasSettings}
+              >
+                {versionsUi.isDiffShown && preview.changes && (
+                  <VersionDiffLayer
+                    changes={preview.changes}
+                    version={previewedVersion.snapshot}
+                    current={activeDesign}
+                  />
+                )}
+              </CanvasStage>
+            </>
+          ) : (
+            <CanvasStage
+              design={activeDesign}
+              selectedIds={selectedIds}
+              onSelectionChange={handleSelectionChange}
+              onElementsChange={handleElementsChange}
+              onFilesDrop={imageInsertion.insertFiles}
+              collaborators={remoteCollaborators}
+              onCursorMove={broadcastCursor}
+              stageRef={stageRef}
+              viewport={viewport}
+              onViewportChange={handleViewportChange}
+              onScreenResize={handleScreenResize}
+              isHandTool={tool === 'hand'}
+              settings={canvasSettings}
+              onGuidesChange={(guides) =>
+                dispatch(setGuides({ designId: activeDesign._id, guides }))
+              }
+              onDuplicateDrag={(elementIds) => dispatch(leaveCopiesBehind(elementIds))}
+              onPointPick={
+                commentsUi.isPlacingPin
+                  ? (position, elementId) =>
+                      dispatch(
+                        draftAnchorSet(
+                          createCommentAnchor(activeDesign.elements, position, elementId)
+                        )
+                      )
+                  : undefined
+              }
+            >
+              <CommentPinsLayer
+                threads={filterThreads(threads, commentsUi.filter, {
+                  selectedIds,
+                  userId: getLocalUser().id,
+                })}
+                elements={activeDesign.elements}
+                activeThreadId={commentsUi.activeThreadId}
+                draftAnchor={commentsUi.draftAnchor}
+                zoom={viewport?.zoom}
+                onThreadSelect={(threadId) => dispatch(threadActivated(threadId))}
+              />
+            </CanvasStage>
+          )}
         </div>
+        {versionsUi.isPanelOpen ? (
+          <VersionHistoryPanel design={activeDesign} />
+        ) : (
+          <div className="space-y-4">
+            <PropertiesPanel
+              elements={selectedElements}
+              onChange={handleElementsChange}
+              onAlign={handleAlign}
+              onDistribute={handleDistribute}
+              onWrap={(type) => dispatch(wrapSelection(type))}
+              onUnwrap={() => dispatch(unwrapSelection())}
+            />
+            <CommentsPanel
+              key={activeDesign._id}
+              designId={activeDesign._id}
+              elements={activeDesign.elements}
+              selectedIds={selectedIds}
+            />
+          </div>
+        )}
       </div>
     </section>
   );
@@ -0,0 +1,70 @@
+import type Konva from 'konva';
+
+import {
+  DESIGN_FILE_EXTENSION,
+  serializeDesignFile,
+} from '../../../entities/design/lib/designDocument';
+import type { Design } from '../../../entities/design/model/types';
+import { toFileName } from '../../../shared/lib/file';
+import { createPdf } from './pdf';
+import { getExportRegions, rasterizeDesign, type ExportOptions } from './rasterize';
+import { serializeDesignToSvg } from './svg';
+
+const FILE_EXTENSIONS: Record<ExportOptions['format'], string> = {
+  png: '.png',
+  jpeg: '.jpg',
+  pdf: '.pdf',
+  svg: '.svg',
+  json: DESIGN_FILE_EXTENSION,
+};
+
+/**
+ * Renders or serializes the design (or its selected elements) into a downloadable file.
+ * Design files always hold the whole design.
+ */
+export const exportDesign = async (
+  stage: Konva.Stage,
+  design: Design,
+  options: ExportOptions
+): Promise<{ blob: Blob; filename: string }> => {
+  if (options.format === 'json') {
+    // Always the whole design, so it can be imported again as-is.
+    return {
+      blob: new Blob([serializeDesignFile(design)], { type: 'application/json' }),
+      filename: `${toFileName(design.name)}${FILE_EXTENSIONS.json}`,
+    };
+  }
+
+  const regions = getExportRegions(design, options);
+  const isRaster = options.format === 'png' || options.format === 'jpeg';
+  const stem = [
+    toFileName(design.name),
+    options.elementIds?.length ? '-selection' : '',
+    isRaster && options.scale !== 1 ? `@${options.scale}x` : '',
+  ].join('');
+  const filename = `${stem}${FILE_EXTENSIONS[options.format]}`;
+
+  if (options.format === 'svg') {
+    const svg = await serializeDesignToSvg(design, {
+      viewBox: regions[0],
+      background: options.background,
+      embedImages: options.embedImages ?? true,
+      elementIds: options.elementIds,
+    });
+    return { blob: new Blob([svg], { type: 'image/svg+xml' }), filename };
+  }
+
+  const blobs = await rasterizeDesign(stage, design, regions, options);
+  if (isRaster) return { blob: blobs[0], filename };
+
+  const pages = await Promise.all(
+    blobs.map(async (blob, index) => ({
+      jpeg: new Uint8Array(await blob.arrayBuffer()),
+      imageWidth: regions[index].width * options.scale,
+      imageHeight: regions[index].height * options.scale,
+      width: regions[index].width,
+      height: regions[index].height,
+    }))
+  );
+  return { blob: createPdf(pages), filename };
+};
@@ -0,0 +1,83 @@
+export interface PdfPage {
+  /** Baseline JPEG bytes; embedded as-is through the DCTDecode filter. */
+  jpeg: Uint8Array;
+  /** Pixel size of the JPEG. */
+  imageWidth: number;
+  imageHeight: number;
+  /** Page size in CSS pixels; converted to points at 96 dpi. */
+  width: number;
+  height: number;
+}
+
+const POINTS_PER_PIXEL = 72 / 96;
+
+const encoder = new TextEncoder();
+
+const formatNumber = (value: number) => String(Math.round(value * 100) / 100);
+
+/**
+ * Writes a minimal PDF 1.4 file with one full-bleed JPEG per page. Each page takes
+ * three objects (page, content stream, image) after the catalog and page tree.
+ */
+export const createPdf = (pages: PdfPage[]): Blob => {
+  const chunks: Uint8Array[] = [];
+  const offsets: number[] = [];
+  let length = 0;
+
+  const write = (chunk: string | Uint8Array) => {
+    const bytes = typeof chunk === 'string' ? encoder.encode(chunk) : chunk;
+    chunks.push(bytes);
+    length += bytes.length;
+  };
+  const writeObject = (id: number, body: string, stream?: Uint8Array) => {
+    offsets[id] = length;
+    write(`${id} 0 obj\n${body}\n`);
+    if (stream) {
+      write('stream\n');
+      write(stream);
+      write('\nendstream\n');
+    }
+    write('endobj\n');
+  };
+
+  const pageIds = pages.map((_page, index) => 3 + index * 3);
+
+  write('%PDF-1.4\n');
+  // A comment with high-bit bytes tells transfer tools the file is binary.
+  write(new Uint8Array([0x25, 0xe2, 0xe3, 0xcf, 0xd3, 0x0a]));
+  writeObject(1, '<< /Type /Catalog /Pages 2 0 R >>');
+  writeObject(
+    2,
+    `<< /Type /Pages /Kids [${pageIds.map((id) => `${id} 0 R`).join(' ')}] /Count ${pages.length} >>`
+  );
+
+  pages.forEach((page, index) => {
+    const pageId = pageIds[index];
+    const width = formatNumber(page.width * POINTS_PER_PIXEL);
+    const height = formatNumber(page.height * POINTS_PER_PIXEL);
+    const content = encoder.encode(`q ${width} 0 0 ${height} 0 0 cm /Im0 Do Q`);
+
+    writeObject(
+      pageId,
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${width} ${height}] ` +
+        `/Resources << /XObject << /Im0 ${pageId + 2} 0 R >> >> /Contents ${pageId + 1} 0 R >>`
+    );
+    writeObject(pageId + 1, `<< /Length ${content.length} >>`, content);
+    writeObject(
+      pageId + 2,
+      `<< /Type /XObject /Subtype /Image /Width ${page.imageWidth} /Height ${page.imageHeight} ` +
+        `/ColorSpace /DeviceRGB /BitsPerComponent 8 /Filter /DCTDecode /Length ${page.jpeg.length} >>`,
+      page.jpeg
+    );
+  });
+
+  const xrefOffset = length;
+  const objectCount = offsets.length;
+  write(`xref\n0 ${objectCount}\n0000000000 65535 f \n`);
+  for (let id = 1; id < objectCount; id += 1) {
+    write(`${String(offsets[id]).padStart(10, '0')} 00000 n \n`);
+  }
+  write(`trailer\n<< /Size ${objectCount} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`);
+
+  return new Blob(chunks as BlobPart[], { type: 'application/pdf' });
+};
@@ -0,0 +1,158 @@
+import Konva from 'konva';
+
+import { findElementLocation, flattenElements } from '../../../entities/design/lib/elementTree';
+import { getElementBounds, unionBounds, type Bounds } from '../../../entities/design/lib/geometry';
+import type { Design } from '../../../entities/design/model/types';
+import { loadImage } from '../../canvas/lib/imageCache';
+import { FRAME_BACKGROUND_NAME } from '../../canvas/lib/konvaUtils';
+
+export type ExportFormat = 'png' | 'jpeg' | 'pdf' | 'svg' | 'json';
+
+export interface ExportOptions {
+  format: ExportFormat;
+  /** Output pixels per design pixel; ignored by SVG. */
+  scale: number;
+  /** JPEG quality, 0–1; also used for PDF pages. */
+  quality: number;
+  /** Fill behind the content; `null` keeps it transparent (PNG and SVG only). */
+  background: string | null;
+  /** SVG only: inline images rather than linking them. */
+  embedImages?: boolean;
+  /** Export only these elements; everything else is hidden. */
+  elementIds?: string[];
+}
+
+export interface ExportRegion extends Bounds {
+  name: string;
+}
+
+/** Whole pixels, so the output size is exact at every scale. */
+const snapBounds = ({ x, y, width, height }: Bounds): Bounds => {
+  const left = Math.floor(x);
+  const top = Math.floor(y);
+  return {
+    x: left,
+    y: top,
+    width: Math.max(1, Math.ceil(x + width) - left),
+    height: Math.max(1, Math.ceil(y + height) - top),
+  };
+};
+
+/**
+ * What to export: the selected elements' bounds, each top-level frame as its own PDF
+ * page (top to bottom, then left to right), or otherwise the whole design.
+ */
+export const getExportRegions = (
+  design: Design,
+  { format, elementIds }: Pick<ExportOptions, 'format' | 'elementIds'>
+): ExportRegion[] => {
+  if (elementIds?.length) {
+    const bounds = unionBounds(
+      elementIds.flatMap((id) => {
+        const location = findElementLocation(design.elements, id);
+        return location ? [getElementBounds(location.element, location.ancestors)] : [];
+      })
+    );
+    if (bounds) return [{ name: 'Selection', ...snapBounds(bounds) }];
+  }
+
+  const frames = design.elements.filter((element) => element.type === 'frame');
+  if (format === 'pdf' && frames.length) {
+    return frames
+      .map((frame, index) => ({
+        name: `Frame ${index + 1}`,
+        ...snapBounds(getElementBounds(frame)),
+      }))
+      .sort((a, b) => a.y - b.y || a.x - b.x);
+  }
+
+  return [{ name: design.name, x: 0, y: 0, width: design.width, height: design.height }];
+};
+
+/** Waits for every image in the design so none is captured as a placeholder. */
+const loadDesignImages = async (design: Design) => {
+  const sources = flattenElements(design.elements).flatMap((element) =>
+    element.type === 'image' && element.src ? [element.src] : []
+  );
+  await Promise.allSettled(sources.map(loadImage));
+  // Give the editor a frame to draw images that just finished loading.
+  await new Promise((resolve) => requestAnimationFrame(resolve));
+};
+
+/**
+ * Hides everything outside the exported elements: unrelated siblings, and the
+ * backgrounds of containers that only hold them.
+ */
+const isolateElements = (layer: Konva.Layer, design: Design, elementIds: string[]) => {
+  const keep = new Set<string>();
+  const ancestorIds = new Set<string>();
+  elementIds.forEach((id) => {
+    const location = findElementLocation(design.elements, id);
+    if (!location) return;
+    flattenElements([location.element]).forEach((element) => keep.add(element.id));
+    location.ancestors.forEach((ancestor) => ancestorIds.add(ancestor.id));
+  });
+
+  flattenElements(design.elements).forEach((element) => {
+    if (keep.has(element.id)) return;
+    const node = layer.findOne(`#${element.id}`);
+    if (!node) return;
+    if (ancestorIds.has(element.id)) {
+      (node as Konva.Group).findOne(`.${FRAME_BACKGROUND_NAME}`)?.hide();
+    } else {
+      node.hide();
+    }
+  });
+};
+
+/**
+ * Renders regions of the design from a copy of the editor's content layer, so the
+ * output is at design resolution regardless of on-screen zoom, and never includes
+ * selection outlines, transform handles or collaborators' cursors.
+ */
+export const rasterizeDesign = async (
+  sourceStage: Konva.Stage,
+  design: Design,
+  regions: ExportRegion[],
+  options: ExportOptions
+): Promise<Blob[]> => {
+  const source = sourceStage.findOne<Konva.Layer>('.content');
+  if (!source) throw new Error('The canvas is not ready yet.');
+  await loadDesignImages(design);
+
+  const container = document.createElement('div');
+  const stage = new Konva.Stage({ container, width: design.width, height: design.height });
+  try {
+    const layer = source.clone({ x: 0, y: 0, scaleX: 1, scaleY: 1, listening: false });
+    stage.add(layer);
+    if (options.elementIds?.length) isolateElements(layer, design, options.elementIds);
+
+    const background =
+      options.format === 'png' ? options.background : (options.background ?? '#ffffff');
+    const area = unionBounds(regions);
+    if (background && area) {
+      const fill = new Konva.Rect({ ...area, fill: background, listening: false });
+      layer.add(fill);
+      fill.moveToBottom();
+    }
+
+    const mimeType = options.format === 'png' ? 'image/png' : 'image/jpeg';
+    const blobs: Blob[] = [];
+    for (const region of regions) {
+      const blob = await stage.toBlob({
+        x: region.x,
+        y: region.y,
+        width: region.width,
+        height: region.height,
+        pixelRatio: options.scale,
+        mimeType,
+        quality: options.quality,
+      });
+      if (!(blob instanceof Blob)) throw new Error('The browser could not encode the image.');
+      blobs.push(blob);
+    }
+    return blobs;
+  } finally {
+    stage.destroy();
+  }
+};
@@ -0,0 +1,217 @@
+import {
+  findElementLocation,
+  flattenElements,
+  sortByZIndex,
+} from '../../../entities/design/lib/elementTree';
+import type { Bounds } from '../../../entities/design/lib/geometry';
+import { layoutText } from '../../../entities/design/lib/textLayout';
+import { getBaseStyle, type TextStyle } from '../../../entities/design/lib/textRuns';
+import type { Design, DesignElement, TextElement } from '../../../entities/design/model/types';
+import { readFileAsDataUrl } from '../../../shared/lib/file';
+
+export interface SvgExportOptions {
+  /** Area of the design to show; defaults to the whole design. */
+  viewBox?: Bounds;
+  /** Fill painted behind the content; omitted when `null`. */
+  background: string | null;
+  /** Inline images as data URLs so the file stands alone, instead of linking them. */
+  embedImages: boolean;
+  /** Export only these elements (with their containers' transforms, not backgrounds). */
+  elementIds?: string[];
+}
+
+const SVG_NAMESPACE = 'http://www.w3.org/2000/svg';
+
+const formatNumber = (value: number) => String(Math.round(value * 100) / 100);
+
+const escapeXml = (value: string) =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+
+/** `key="value"` pairs, skipping undefined values; numbers are rounded. */
+const attributes = (values: Record<string, string | number | undefined>) =>
+  Object.entries(values)
+    .flatMap(([key, value]) =>
+      value === undefined
+        ? []
+        : [`${key}="${escapeXml(typeof value === 'number' ? formatNumber(value) : value)}"`]
+    )
+    .join(' ');
+
+const paint = (color: string) => (color === 'transparent' || !color ? 'none' : color);
+
+/** Konva rotates around the node's origin, which matches translate-then-rotate. */
+const transformOf = (element: Pick<DesignElement, 'x' | 'y' | 'rotation'>) =>
+  [
+    element.x || element.y
+      ? `translate(${formatNumber(element.x)} ${formatNumber(element.y)})`
+      : '',
+    element.rotation ? `rotate(${formatNumber(element.rotation)})` : '',
+  ]
+    .filter(Boolean)
+    .join(' ') || undefined;
+
+const opacityOf = (element: DesignElement) => (element.opacity < 1 ? element.opacity : undefined);
+
+const strokeOf = (element: { stroke: string; strokeWidth: number }) =>
+  element.strokeWidth > 0 && paint(element.stroke) !== 'none'
+    ? { stroke: element.stroke, 'stroke-width': element.strokeWidth }
+    : {};
+
+/** Font attributes of a fragment that differ from the element's own. */
+const fragmentAttributes = (style: TextStyle, base: TextStyle) => ({
+  'font-size': style.fontSize !== base.fontSize ? style.fontSize : undefined,
+  'font-weight': style.fontWeight !== base.fontWeight ? style.fontWeight : undefined,
+  'font-style': style.italic !== base.italic ? (style.italic ? 'italic' : 'normal') : undefined,
+  fill: style.fill !== base.fill ? paint(style.fill) : undefined,
+});
+
+/** Every fragment is placed explicitly, from the same layout the canvas draws. */
+const serializeText = (element: TextElement) => {
+  const base = getBaseStyle(element);
+  const fragments = layoutText(element).lines.flatMap((line) =>
+    line.fragments.map(
+      ({ text, x, style }) =>
+        `<tspan ${attributes({ x, y: line.baseline, ...fragmentAttributes(style, base) })}>${escapeXml(text)}</tspan>`
+    )
+  );
+  return `<text ${attributes({
+    id: element.id,
+    transform: transformOf(element),
+    opacity: opacityOf(element),
+    'font-family': element.fontFamily,
+    'font-size': element.fontSize,
+    'font-weight': element.fontWeight,
+    'font-style': element.italic ? 'italic' : undefined,
+    'letter-spacing': element.letterSpacing || undefined,
+    'xml:space': 'preserve',
+    fill: paint(element.fill),
+  })}>${fragments.join('')}</text>`;
+};
+
+interface SerializeContext {
+  /** Image sources mapped to what to write in `href`. */
+  imageHrefs: Map<string, string>;
+  /** Elements to include; `undefined` includes everything. */
+  included?: Set<string>;
+  /** Containers kept only to position included descendants; their own paint is dropped. */
+  passThrough: Set<string>;
+}
+
+const serializeElement = (element: DesignElement, context: SerializeContext): string => {
+  if (context.included && !context.included.has(element.id)) return '';
+  const common = {
+    id: element.id,
+    transform: transformOf(element),
+    opacity: opacityOf(element),
+  };
+
+  switch (element.type) {
+    case 'group':
+      return `<g ${attributes(common)}>${serializeChildren(element.children, context)}</g>`;
+    case 'frame': {
+      const box = { width: element.width, height: element.height };
+      const clipId = `clip-${element.id}`;
+      const background = context.passThrough.has(element.id)
+        ? ''
+        : `<rect ${attributes({ ...box, fill: paint(element.fill) })}/>`;
+      const children = serializeChildren(element.children, context);
+      return element.clipContent
+        ? `<g ${attributes(common)}><clipPath ${attributes({ id: clipId })}><rect ${attributes(box)}/></clipPath>${background}<g clip-path="url(#${escapeXml(clipId)})">${children}</g></g>`
+        : `<g ${attributes(common)}>${background}${children}</g>`;
+    }
+    case 'text':
+      return serializeText(element);
+    case 'rect':
+      return `<rect ${attributes({
+        ...common,
+        width: element.width,
+        height: element.height,
+        rx: element.radius || undefined,
+        fill: paint(element.fill),
+        ...strokeOf(element),
+      })}/>`;
+    case 'circle':
+      return `<circle ${attributes({
+        ...common,
+        r: element.radius,
+        fill: paint(element.fill),
+        ...strokeOf(element),
+      })}/>`;
+    case 'image':
+    default:
+      return `<image ${attributes({
+        ...common,
+        width: element.width,
+        height: element.height,
+        href: context.imageHrefs.get(element.src) ?? element.src,
+        preserveAspectRatio: element.fit === 'cover' ? 'xMidYMid slice' : 'xMidYMid meet',
+      })}/>`;
+  }
+};
+
+const serializeChildren = (elements: DesignElement[], context: SerializeContext): string =>
+  sortByZIndex(elements)
+    .filter((element) => !element.hidden)
+    .map((element) => serializeElement(element, context))
+    .join('');
+
+/** Fetches images into data URLs; ones that cannot be fetched stay linked. */
+const embedImages = async (sources: string[]) => {
+  const entries = await Promise.all(
+    [...new Set(sources)].map(async (src): Promise<[string, string]> => {
+      if (src.startsWith('data:')) return [src, src];
+      try {
+        const response = await fetch(src);
+        if (!response.ok) return [src, src];
+        return [src, await readFileAsDataUrl(await response.blob())];
+      } catch {
+        return [src, src];
+      }
+    })
+  );
+  return new Map(entries);
+};
+
+/**
+ * Serializes a design to a standalone SVG document. Geometry is written in design
+ * pixels, mirroring how the canvas draws each element type.
+ */
+export const serializeDesignToSvg = async (
+  design: Design,
+  { viewBox, background, embedImages: shouldEmbed, elementIds }: SvgExportOptions
+): Promise<string> => {
+  const area = viewBox ?? { x: 0, y: 0, width: design.width, height: design.height };
+
+  const included = elementIds?.length ? new Set<string>() : undefined;
+  const passThrough = new Set<string>();
+  elementIds?.forEach((id) => {
+    const location = findElementLocation(design.elements, id);
+    if (!location) return;
+    flattenElements([location.element]).forEach((element) => included?.add(element.id));
+    location.ancestors.forEach((ancestor) => {
+      included?.add(ancestor.id);
+      passThrough.add(ancestor.id);
+    });
+  });
+  // Containers that are exported in their own right keep their paint.
+  elementIds?.forEach((id) => passThrough.delete(id));
+
+  const imageSources = flattenElements(design.elements).flatMap((element) =>
+    element.type === 'image' && element.src ? [element.src] : []
+  );
+  const imageHrefs = shouldEmbed ? await embedImages(imageSources) : new Map<string, string>();
+  const body = serializeChildren(design.elements, { imageHrefs, included, passThrough });
+  const backdrop = background ? `<rect ${attributes({ ...area, fill: background })}/>` : '';
+
+  return `<?xml version="1.0" encoding="UTF-8"?>\n<svg ${attributes({
+    xmlns: SVG_NAMESPACE,
+    width: area.width,
+    height: area.height,
+    viewBox: [area.x, area.y, area.width, area.height].map(formatNumber).join(' '),
+  })}>${backdrop}${body}</svg>\n`;
+};
@@ -0,0 +1,195 @@
+import { useEffect, useState } from 'react';
+import type Konva from 'konva';
+
+import type { Design } from '../../../entities/design/model/types';
+import { getErrorMessage } from '../../../shared/api/errors';
+import { downloadBlob } from '../../../shared/lib/file';
+import { ColorField } from '../../../shared/ui/ColorField';
+import { fieldLabelClassName } from '../../../shared/ui/fieldStyles';
+import { NumberField } from '../../../shared/ui/NumberField';
+import { SelectField } from '../../../shared/ui/SelectField';
+import { ToggleField } from '../../../shared/ui/ToggleField';
+import { exportDesign } from '../lib/exportDesign';
+import { getExportRegions, type ExportFormat } from '../lib/rasterize';
+
+interface ExportDialogProps {
+  design: Design;
+  selectedIds: string[];
+  /** The editor's stage; read when exporting, since it is not mounted during render. */
+  getStage: () => Konva.Stage | null;
+  onClose: () => void;
+}
+
+const FORMAT_OPTIONS: { value: ExportFormat; label: string }[] = [
+  { value: 'png', label: 'PNG' },
+  { value: 'jpeg', label: 'JPEG' },
+  { value: 'pdf', label: 'PDF' },
+  { value: 'svg', label: 'SVG' },
+  { value: 'json', label: 'Design file' },
+];
+
+const SCALE_OPTIONS = [1, 2, 3];
+
+const buttonClassName =
+  'rounded-xl border border-slate-700 px-4 py-2 text-sm font-medium text-slate-200 transition hover:border-slate-500 hover:bg-slate-800';
+
+export const ExportDialog = ({ design, selectedIds, getStage, onClose }: ExportDialogProps) => {
+  const [format, setFormat] = useState<ExportFormat>('png');
+  const [scale, setScale] = useState(2);
+  const [quality, setQuality] = useState(92);
+  const [isTransparent, setIsTransparent] = useState(true);
+  const [background, setBackground] = useState('#ffffff');
+  const [embedImages, setEmbedImages] = useState(true);
+  const [selectionOnly, setSelectionOnly] = useState(false);
+  const [isExporting, setIsExporting] = useState(false);
+  const [error, setError] = useState<string>();
+
+  const canBeTransparent = format === 'png' || format === 'svg';
+  const isRaster = format === 'png' || format === 'jpeg';
+  const isDesignFile = format === 'json';
+  const elementIds = selectionOnly && selectedIds.length && !isDesignFile ? selectedIds : undefined;
+  const regions = getExportRegions(design, { format, elementIds });
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') onClose();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [onClose]);
+
+  const handleExport = async () => {
+    const stage = getStage();
+    if (!stage) return;
+    setIsExporting(true);
+    setError(undefined);
+    try {
+      const { blob, filename } = await exportDesign(stage, design, {
+        format,
+        scale,
+        quality: quality / 100,
+        background: canBeTransparent && isTransparent ? null : background,
+        embedImages,
+        elementIds,
+      });
+      downloadBlob(blob, filename);
+      onClose();
+    } catch (exportError) {
+      // Usually a remote image served without CORS headers, which taints the canvas.
+      setError(getErrorMessage(exportError, 'Export failed.'));
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const summary =
+    format === 'pdf'
+      ? `${regions.length} ${regions.length === 1 ? 'page' : 'pages'}${
+          !elementIds && regions.length > 1 ? ', one per frame' : ''
+        }`
+      : isRaster
+        ? `${regions[0].width * scale} × ${regions[0].height * scale} px`
+        : isDesignFile
+          ? 'Editable, re-importable'
+          : `${regions[0].width} × ${regions[0].height} units`;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-slate-950/70 p-4 backdrop-blur-sm">
+      <section
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="export-dialog-title"
+        className="flex w-full max-w-sm flex-col gap-4 rounded-2xl border border-slate-700 bg-slate-900 p-6 shadow-2xl shadow-slate-950/60"
+      >
+        <header className="flex items-center justify-between">
+          <h2 id="export-dialog-title" className="text-lg font-semibold text-slate-50">
+            Export
+          </h2>
+          <span className="text-xs text-slate-500">{summary}</span>
+        </header>
+
+        <div className="space-y-3">
+          <SelectField
+            label="Format"
+            value={format}
+            options={FORMAT_OPTIONS}
+            onChange={setFormat}
+          />
+          {format !== 'svg' && !isDesignFile && (
+            <div className="flex flex-col gap-1">
+              <span className={fieldLabelClassName}>Scale</span>
+              <div className="grid grid-cols-3 gap-1">
+                {SCALE_OPTIONS.map((option) => (
+                  <button
+                    key={option}
+                    type="button"
+                    aria-pressed={scale === option}
+                    onClick={() => setScale(option)}
+                    className={`rounded-lg border px-2 py-1.5 text-sm transition ${
+                      scale === option
+                        ? 'border-sky-500/80 bg-sky-500/10 text-slate-50'
+                        : 'border-slate-800 bg-slate-950/60 text-slate-300 hover:border-slate-600'
+                    }`}
+                  >
+                    {option}x
+                  </button>
+                ))}
+              </div>
+            </div>
+          )}
+          {(format === 'jpeg' || format === 'pdf') && (
+            <NumberField
+              label="Quality"
+              value={quality}
+              min={10}
+              max={100}
+              suffix="%"
+              onChange={setQuality}
+            />
+          )}
+          {canBeTransparent && (
+            <ToggleField
+              label="Transparent background"
+              checked={isTransparent}
+              onChange={setIsTransparent}
+            />
+          )}
+          {!isDesignFile && (!canBeTransparent || !isTransparent) && (
+            <ColorField label="Background" value={background} onChange={setBackground} />
+          )}
+          {format === 'svg' && (
+            <ToggleField label="Embed images" checked={embedImages} onChange={setEmbedImages} />
+          )}
+          {!isDesignFile && (
+            <ToggleField
+              label={`Selection only${selectedIds.length ? ` (${selectedIds.length})` : ''}`}
+              checked={Boolean(elementIds)}
+              disabled={!selectedIds.length}
+              onChange={setSelectionOnly}
+            />
+          )}
+        </div>
+
+        {error && (
+          <p role="alert" className="text-sm text-rose-300">
+            {error}
+          </p>
+        )}
+
+        <footer className="flex justify-end gap-2">
+          <button type="button" onClick={onClose} className={buttonClassName}>
+            Cancel
+          </button>
+          <button
+            type="button"
+            onClick={handleExport}
+            disabled={isExporting}
+            className="rounded-xl bg-gradient-to-r from-sky-500 to-indigo-500 px-4 py-2 text-sm font-semibold text-white shadow-lg shadow-sky-500/30 transition hover:shadow-indigo-500/40 disabled:cursor-wait disabled:opacity-60"
+          >
+            {isExporting ? 'Exporting…' : 'Export'}
+          </button>
+        </footer>
+      </section>
+    </div>
+  );
+};
@@ -0,0 +1,19 @@
+import { z } from 'zod';
+
+import { directoryUserSchema } from '../../../entities/user/model/schema';
+import type { DirectoryUser } from '../../../entities/user/model/types';
+import { baseApi } from '../../../shared/api/baseApi';
+
+export const usersApi = baseApi.injectEndpoints({
+  endpoints: (builder) => ({
+    /** Teammates whose name or username matches `search`. */
+    searchUsers: builder.query<DirectoryUser[], string>({
+      query: (search) => ({ url: '/users', params: { search } }),
+      responseSchema: z.array(directoryUserSchema),
+      // Each keystroke is a new search; do not keep them all around.
+      keepUnusedDataFor: 30,
+    }),
+  }),
+});
+
+export const { useSearchUsersQuery } = usersApi;
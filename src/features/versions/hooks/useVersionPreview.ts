@@ -0,0 +1,30 @@
+import { skipToken } from '@reduxjs/toolkit/query';
+import { useMemo } from 'react';
+
+import { useAppSelector } from '../../../app/hooks';
+import { diffDesigns } from '../../../entities/design/lib/diff';
+import type { Design } from '../../../entities/design/model/types';
+import { env } from '../../../shared/config/env';
+import { useGetDesignVersionQuery } from '../../designs/api/designsApi';
+
+/**
+ * The version being previewed, if any, and what changed between it and `design` since:
+ * `added` elements exist only in the live design, `removed` ones only in the version.
+ */
+export const useVersionPreview = (design?: Design) => {
+  const previewVersionId = useAppSelector((state) => state.versions.previewVersionId);
+  const {
+    currentData: version,
+    isFetching,
+    error,
+  } = useGetDesignVersionQuery(
+    env.isApiConfigured && design && previewVersionId
+      ? { designId: design._id, versionId: previewVersionId }
+      : skipToken
+  );
+  const changes = useMemo(
+    () => (version && design ? diffDesigns(version.snapshot, design) : undefined),
+    [design, version]
+  );
+  return { previewVersionId, version, changes, isFetching, error };
+};
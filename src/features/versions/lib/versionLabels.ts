@@ -0,0 +1,9 @@
+import type { DesignVersionSummary } from '../../../entities/version/model/types';
+
+/** A named version's name; auto snapshots are known by when they were taken. */
+export const getVersionTitle = (version: DesignVersionSummary) =>
+  version.name?.trim() ||
+  `Snapshot ${new Date(version.createdAt).toLocaleString(undefined, {
+    dateStyle: 'medium',
+    timeStyle: 'short',
+  })}`;
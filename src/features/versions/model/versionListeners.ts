@@ -0,0 +1,41 @@
+import { startAppListening } from '../../../app/listenerMiddleware';
+import { designsApi } from '../../designs/api/designsApi';
+import { saveSucceeded } from '../../designs/model/autosaveSlice';
+import { saveVersion } from './versionThunks';
+
+/** How long after the last auto snapshot the next successful save takes another. */
+export const AUTO_SNAPSHOT_INTERVAL_MS = 60 * 60 * 1000;
+
+/** Designs with an auto snapshot on its way, so back-to-back saves take only one. */
+const snapshottingDesignIds = new Set<string>();
+
+/**
+ * Keeps an hourly trail of auto snapshots while a design is being edited and saved. The
+ * version list is only fetched when the time of the last snapshot is not known yet.
+ */
+export const registerVersionListeners = () =>
+  startAppListening({
+    actionCreator: saveSucceeded,
+    effect: async (action, listenerApi) => {
+      const { designId } = action.payload;
+      if (snapshottingDesignIds.has(designId)) return;
+      snapshottingDesignIds.add(designId);
+      try {
+        if (!(designId in listenerApi.getState().versions.lastAutoSnapshotAt)) {
+          const { error } = await listenerApi.dispatch(
+            designsApi.endpoints.getDesignVersions.initiate(designId, { subscribe: false })
+          );
+          if (error) return;
+        }
+        const lastSnapshotAt = listenerApi.getState().versions.lastAutoSnapshotAt[designId];
+        const age = lastSnapshotAt ? Date.now() - Date.parse(lastSnapshotAt) : Infinity;
+        if (age >= AUTO_SNAPSHOT_INTERVAL_MS) {
+          await listenerApi.dispatch(saveVersion(designId, { kind: 'auto' }));
+        }
+      } catch {
+        // A missed snapshot is retried on the next save.
+      } finally {
+        snapshottingDesignIds.delete(designId);
+      }
+    },
+  });
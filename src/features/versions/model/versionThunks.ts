@@ -0,0 +1,70 @@
+import type { AppThunk } from '../../../app/store';
+import { CURRENT_SCHEMA_VERSION } from '../../../entities/design/model/schema';
+import { setDesignSize } from '../../../entities/design/model/slice';
+import { getLocalUser } from '../../../entities/user/lib/localUser';
+import type { DesignVersion, DesignVersionKind } from '../../../entities/version/model/types';
+import { getErrorMessage } from '../../../shared/api/errors';
+import { env } from '../../../shared/config/env';
+import { setSelection } from '../../canvas/model/selectionSlice';
+import { designsApi } from '../../designs/api/designsApi';
+import { getVersionTitle } from '../lib/versionLabels';
+import { versionPreviewed } from './versionsSlice';
+
+/**
+ * Stores the design as it is on screen, unsaved edits included, as a new version. The
+ * design is read before anything is awaited, so callers may change it straight after.
+ */
+export const saveVersion =
+  (
+    designId: string,
+    { kind, name }: { kind: DesignVersionKind; name?: string }
+  ): AppThunk<Promise<DesignVersion>> =>
+  async (dispatch, getState) => {
+    const design = getState().design.items.find((item) => item._id === designId);
+    if (!env.isApiConfigured) throw new Error('Versions need a server (set VITE_API_URL).');
+    if (!design) throw new Error('This design is no longer open.');
+
+    const result = await dispatch(
+      designsApi.endpoints.createDesignVersion.initiate({
+        designId,
+        kind,
+        name: name?.trim() || undefined,
+        authorName: getLocalUser().name,
+        snapshot: { ...design, schemaVersion: CURRENT_SCHEMA_VERSION },
+      })
+    );
+    if (result.error) throw new Error(getErrorMessage(result.error, 'Could not save the version.'));
+    return result.data;
+  };
+
+/**
+ * Brings back a version's layers, guides and size; the change is saved and broadcast like
+ * any local edit, and is one step undo can take back. Undo history only lasts the
+ * session, so the design being replaced is first kept as a version too.
+ */
+export const restoreVersion =
+  (version: DesignVersion): AppThunk =>
+  (dispatch, getState) => {
+    const { designId } = version;
+    if (!getState().design.items.some((item) => item._id === designId)) return;
+
+    if (env.isApiConfigured) {
+      const name = `Before restoring “${getVersionTitle(version)}”`;
+      dispatch(saveVersion(designId, { kind: 'named', name })).catch(() => undefined);
+    }
+    const { width, height, elements, guides } = version.snapshot;
+    dispatch(setDesignSize({ designId, width, height, elements, guides: guides ?? [] }));
+    dispatch(setSelection([]));
+    dispatch(versionPreviewed(undefined));
+  };
+
+/**
+ * Shows a version read-only on the canvas, or the live design again for `undefined`.
+ * The selection is dropped so keyboard edits cannot reach layers hidden behind it.
+ */
+export const previewVersion =
+  (versionId: string | undefined): AppThunk =>
+  (dispatch) => {
+    dispatch(setSelection([]));
+    dispatch(versionPreviewed(versionId));
+  };
@@ -0,0 +1,60 @@
+import { createSlice, type PayloadAction } from '@reduxjs/toolkit';
+
+import { setActiveDesignId } from '../../../entities/design/model/slice';
+import { designsApi } from '../../designs/api/designsApi';
+
+interface VersionsState {
+  isPanelOpen: boolean;
+  /** While set, the canvas shows this version read-only instead of the live design. */
+  previewVersionId?: string;
+  /** Outline what changed between the previewed version and the live design. */
+  isDiffShown: boolean;
+  /**
+   * When each design's latest auto snapshot was taken, `null` if it has none. Filled in
+   * from the version list and from new auto snapshots; unknown designs are missing.
+   */
+  lastAutoSnapshotAt: Record<string, string | null>;
+}
+
+const initialState: VersionsState = {
+  isPanelOpen: false,
+  isDiffShown: true,
+  lastAutoSnapshotAt: {},
+};
+
+const versionsSlice = createSlice({
+  name: 'versions',
+  initialState,
+  reducers: {
+    historyPanelToggled(state, action: PayloadAction<boolean | undefined>) {
+      state.isPanelOpen = action.payload ?? !state.isPanelOpen;
+      if (!state.isPanelOpen) state.previewVersionId = undefined;
+    },
+    versionPreviewed(state, action: PayloadAction<string | undefined>) {
+      state.previewVersionId = action.payload;
+    },
+    versionDiffToggled(state) {
+      state.isDiffShown = !state.isDiffShown;
+    },
+  },
+  extraReducers: (builder) => {
+    builder
+      .addCase(setActiveDesignId, (state) => ({
+        ...initialState,
+        isPanelOpen: state.isPanelOpen,
+        isDiffShown: state.isDiffShown,
+        lastAutoSnapshotAt: state.lastAutoSnapshotAt,
+      }))
+      .addMatcher(designsApi.endpoints.getDesignVersions.matchFulfilled, (state, action) => {
+        const lastSnapshot = action.payload.find((version) => version.kind === 'auto');
+        state.lastAutoSnapshotAt[action.meta.arg.originalArgs] = lastSnapshot?.createdAt ?? null;
+      })
+      .addMatcher(designsApi.endpoints.createDesignVersion.matchFulfilled, (state, action) => {
+        const { designId, kind, createdAt } = action.payload;
+        if (kind === 'auto') state.lastAutoSnapshotAt[designId] = createdAt;
+      });
+  },
+});
+
+export const { historyPanelToggled, versionPreviewed, versionDiffToggled } = versionsSlice.actions;
+export default versionsSlice.reducer;
@@ -0,0 +1,43 @@
+import { Layer, Rect } from 'react-konva';
+
+import type { DesignChanges, ElementChange } from '../../../entities/design/lib/diff';
+import { findElementLocation } from '../../../entities/design/lib/elementTree';
+import { getElementBounds } from '../../../entities/design/lib/geometry';
+import type { Design } from '../../../entities/design/model/types';
+
+interface VersionDiffLayerProps {
+  changes: DesignChanges;
+  /** The version on the canvas; removed and changed elements are outlined where they were. */
+  version: Design;
+  /** The live design; added elements are outlined where they are now. */
+  current: Design;
+}
+
+const DIFF_COLORS: Record<ElementChange['kind'], string> = {
+  added: '#34d399',
+  removed: '#fb7185',
+  changed: '#fbbf24',
+};
+
+/** Outlines every element that differs between a previewed version and the live design. */
+export const VersionDiffLayer = ({ changes, version, current }: VersionDiffLayerProps) => (
+  <Layer name="version-diff" listening={false}>
+    {changes.elements.flatMap((change) => {
+      const source = change.kind === 'added' ? current : version;
+      const location = findElementLocation(source.elements, change.elementId);
+      if (!location) return [];
+      return [
+        <Rect
+          key={change.elementId}
+          {...getElementBounds(location.element, location.ancestors)}
+          stroke={DIFF_COLORS[change.kind]}
+          strokeWidth={2}
+          strokeScaleEnabled={false}
+          // Added elements are not drawn on the version's canvas, only their outline.
+          dash={change.kind === 'added' ? [6, 4] : undefined}
+          fill={`${DIFF_COLORS[change.kind]}1a`}
+        />,
+      ];
+    })}
+  </Layer>
+);
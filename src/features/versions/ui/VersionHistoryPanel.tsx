@@ -0,0 +1,202 @@
+import { useState, type FormEvent } from 'react';
+
+import { useAppDispatch, useAppSelector } from '../../../app/hooks';
+import type { ElementChange } from '../../../entities/design/lib/diff';
+import type { Design } from '../../../entities/design/model/types';
+import { getErrorMessage } from '../../../shared/api/errors';
+import { env } from '../../../shared/config/env';
+import { ToggleField } from '../../../shared/ui/ToggleField';
+import { useGetDesignVersionsQuery } from '../../designs/api/designsApi';
+import { useVersionPreview } from '../hooks/useVersionPreview';
+import { getVersionTitle } from '../lib/versionLabels';
+import { previewVersion, restoreVersion, saveVersion } from '../model/versionThunks';
+import { historyPanelToggled, versionDiffToggled } from '../model/versionsSlice';
+
+interface VersionHistoryPanelProps {
+  design: Design;
+}
+
+const changeLabel: Record<ElementChange['kind'], string> = {
+  added: 'added since',
+  removed: 'removed since',
+  changed: 'changed since',
+};
+
+const changeDotClassName: Record<ElementChange['kind'], string> = {
+  added: 'bg-emerald-400',
+  removed: 'bg-rose-400',
+  changed: 'bg-amber-400',
+};
+
+const CHANGE_KINDS: ElementChange['kind'][] = ['added', 'removed', 'changed'];
+
+const itemClassName = (isActive: boolean) =>
+  `w-full rounded-xl border px-3 py-2 text-left text-sm transition ${
+    isActive
+      ? 'border-sky-500/80 bg-sky-500/10 text-slate-50'
+      : 'border-slate-800 bg-slate-950/50 text-slate-200 hover:border-slate-600'
+  }`;
+
+/**
+ * Named versions and hourly snapshots of the design. Picking one previews it read-only
+ * on the canvas, optionally with its differences from the live design outlined.
+ */
+export const VersionHistoryPanel = ({ design }: VersionHistoryPanelProps) => {
+  const dispatch = useAppDispatch();
+  const isDiffShown = useAppSelector((state) => state.versions.isDiffShown);
+  const { data: versions = [], isFetching: isListing } = useGetDesignVersionsQuery(design._id, {
+    skip: !env.isApiConfigured,
+  });
+  const { previewVersionId, version, changes, isFetching, error } = useVersionPreview(design);
+  const [name, setName] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const [saveError, setSaveError] = useState<string>();
+
+  const handleSave = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    if (!name.trim()) return;
+    setIsSaving(true);
+    setSaveError(undefined);
+    try {
+      await dispatch(saveVersion(design._id, { kind: 'named', name }));
+      setName('');
+    } catch (versionError) {
+      setSaveError(getErrorMessage(versionError, 'Could not save the version.'));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <section className="flex h-full flex-col rounded-2xl border border-slate-800 bg-slate-900/70">
+      <header className="flex items-center justify-between border-b border-slate-800 px-4 py-3">
+        <span className="text-sm font-semibold uppercase tracking-widest text-slate-400">
+          Version history
+        </span>
+        <button
+          type="button"
+          onClick={() => dispatch(historyPanelToggled(false))}
+          className="text-xs text-slate-500 transition hover:text-slate-200"
+        >
+          Close
+        </button>
+      </header>
+
+      {!env.isApiConfigured ? (
+        <p className="px-4 py-3 text-xs text-amber-400">
+          Set <code className="font-mono">VITE_API_URL</code> to keep versions.
+        </p>
+      ) : (
+        <form onSubmit={handleSave} className="space-y-2 border-b border-slate-800 px-4 py-3">
+          <div className="flex gap-2">
+            <input
+              value={name}
+              onChange={(event) => setName(event.target.value)}
+              placeholder="Name this version"
+              className="min-w-0 flex-1 rounded-lg border border-slate-800 bg-slate-950/70 px-3 py-1.5 text-sm text-slate-100 outline-none focus:border-sky-500"
+            />
+            <button
+              type="submit"
+              disabled={!name.trim() || isSaving}
+              className="rounded-lg bg-sky-500/90 px-3 py-1.5 text-sm font-semibold text-white transition hover:bg-sky-400/90 disabled:cursor-not-allowed disabled:opacity-40"
+            >
+              {isSaving ? 'Saving…' : 'Save'}
+            </button>
+          </div>
+          {saveError && <p className="text-xs text-rose-300">{saveError}</p>}
+        </form>
+      )}
+
+      {previewVersionId && (
+        <div className="space-y-3 border-b border-slate-800 px-4 py-3 text-sm">
+          {isFetching && <p className="text-xs text-slate-500">Loading version…</p>}
+          {error && (
+            <p className="text-xs text-rose-300">
+              {getErrorMessage(error, 'Could not load the version.')}
+            </p>
+          )}
+          {version && changes && (
+            <>
+              <p className="font-semibold text-slate-100">{getVersionTitle(version)}</p>
+              <ToggleField
+                label="Highlight changes"
+                checked={isDiffShown}
+                onChange={() => dispatch(versionDiffToggled())}
+              />
+              <ul className="space-y-1 text-xs text-slate-400">
+                {CHANGE_KINDS.map((kind) => {
+                  const count = changes.elements.filter((change) => change.kind === kind).length;
+                  return (
+                    <li key={kind} className="flex items-center gap-2">
+                      <span className={`h-2 w-2 rounded-full ${changeDotClassName[kind]}`} />
+                      {count} {count === 1 ? 'layer' : 'layers'} {changeLabel[kind]}
+                    </li>
+                  );
+                })}
+                {changes.design.length > 0 && (
+                  <li>Design {changes.design.join(', ')} changed since.</li>
+                )}
+              </ul>
+              <div className="flex gap-2">
+                <button
+                  type="button"
+                  onClick={() => dispatch(restoreVersion(version))}
+                  className="flex-1 rounded-lg bg-gradient-to-r from-sky-500 to-indigo-500 px-3 py-1.5 text-sm font-semibold text-white shadow-lg shadow-sky-500/30 transition hover:shadow-indigo-500/40"
+                >
+                  Restore
+                </button>
+                <button
+                  type="button"
+                  onClick={() => dispatch(previewVersion(undefined))}
+                  className="flex-1 rounded-lg border border-slate-700 px-3 py-1.5 text-sm text-slate-200 transition hover:border-slate-500 hover:bg-slate-800"
+                >
+                  Back to current
+                </button>
+              </div>
+            </>
+          )}
+        </div>
+      )}
+
+      <div className="flex-1 space-y-2 overflow-y-auto px-4 py-3">
+        <button
+          type="button"
+          onClick={() => dispatch(previewVersion(undefined))}
+          className={itemClassName(!previewVersionId)}
+        >
+          <span className="block font-semibold">Current version</span>
+          <span className="text-xs text-slate-500">Live, editable</span>
+        </button>
+        {isListing && !versions.length && (
+          <p className="text-xs text-slate-500">Loading versions…</p>
+        )}
+        {env.isApiConfigured && !isListing && !versions.length && (
+          <p className="text-xs text-slate-500">
+            No versions yet. Name one above; snapshots are also taken hourly while you edit.
+          </p>
+        )}
+        {versions.map((item) => (
+          <button
+            key={item._id}
+            type="button"
+            onClick={() => dispatch(previewVersion(item._id))}
+            className={itemClassName(item._id === previewVersionId)}
+          >
+            <span className="flex items-center justify-between gap-2">
+              <span className="truncate font-semibold">{getVersionTitle(item)}</span>
+              {item.kind === 'auto' && (
+                <span className="shrink-0 rounded-full bg-slate-800 px-2 py-0.5 text-[10px] uppercase tracking-wide text-slate-400">
+                  Auto
+                </span>
+              )}
+            </span>
+            <span className="text-xs text-slate-500">
+              {item.kind === 'named' && `${new Date(item.createdAt).toLocaleString()} · `}
+              {item.authorName ?? 'Unknown author'}
+            </span>
+          </button>
+        ))}
+      </div>
+    </section>
+  );
+};
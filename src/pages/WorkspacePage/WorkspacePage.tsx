@@ -1,3 +1,4 @@
+import { CommandCenter } from '../../features/commands/ui/CommandCenter';
 import { DesignList } from '../../features/designs/ui/DesignList';
 import { EditorLayout } from '../../features/editor/ui/EditorLayout';
 
@@ -5,6 +6,7 @@ export const WorkspacePage = () => (
   <div className="mx-auto flex w-full max-w-6xl flex-col gap-8 px-6">
     <DesignList />
     <EditorLayout />
+    <CommandCenter />
   </div>
 );
 
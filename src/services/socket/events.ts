@@ -1,12 +1,58 @@
+import type { Comment } from '../../entities/comment/model/types';
+import type {
+  DesignElement,
+  DesignFrame,
+  ElementOperation,
+} from '../../entities/design/model/types';
 import type { CollaboratorPresence } from '../../features/canvas/model/presenceSlice';
 
+/** The operations behind one local edit, stamped with the sender's Lamport clock. */
+export interface ElementOperationBatch {
+  batchId: string;
+  designId: string;
+  clientId: string;
+  clock: number;
+  operations: ElementOperation[];
+  /** The new canvas size when the edit resized the design; the refitted layers are ops. */
+  frame?: DesignFrame;
+}
+
+/** The server's verdict on a batch; `clock` is the server's clock after applying it. */
+export type OperationAck = { ok: true; clock: number } | { ok: false; error: string };
+
+/** The server's authoritative copy of a design's elements. */
+export interface DesignSnapshot {
+  designId: string;
+  elements: DesignElement[];
+  clock: number;
+  /** Older servers omit this; their elements are treated as the first schema version. */
+  schemaVersion?: number;
+  /** The canvas size the elements are laid out on; older servers omit it. */
+  frame?: DesignFrame;
+}
+
+/** Deleting a thread root also deletes its replies. */
+export interface CommentDeleted {
+  designId: string;
+  commentId: string;
+}
+
+/** What this tab announces about itself to everyone else in the design. */
+export type PresenceUpdate = CollaboratorPresence & { designId: string };
+
 export type ServerToClientEvents = {
   'presence:update': (payload: CollaboratorPresence) => void;
   'presence:leave': (collaboratorId: string) => void;
+  'element:ops': (batch: ElementOperationBatch) => void;
+  'comment:created': (comment: Comment) => void;
+  'comment:updated': (comment: Comment) => void;
+  'comment:deleted': (payload: CommentDeleted) => void;
 };
 
 export type ClientToServerEvents = {
   'design:join': (payload: { designId: string }) => void;
   'design:leave': (payload: { designId: string }) => void;
+  'presence:update': (payload: PresenceUpdate) => void;
+  'design:sync': (payload: { designId: string }, ack: (snapshot: DesignSnapshot) => void) => void;
+  'element:ops': (batch: ElementOperationBatch, ack: (response: OperationAck) => void) => void;
 };
-
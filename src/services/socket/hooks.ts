@@ -3,7 +3,7 @@ import { useEffect } from 'react';
 import type { Socket } from 'socket.io-client';
 
 import { createSocket } from './socketClient';
-import type { ClientToServerEvents, ServerToClientEvents } from './events';
+import type { ServerToClientEvents } from './events';
 
 export const useSocketEvent = <K extends keyof ServerToClientEvents>(
   event: K,
@@ -13,14 +13,17 @@ export const useSocketEvent = <K extends keyof ServerToClientEvents>(
   useEffect(() => {
     if (!enabled) return undefined;
 
-    const socket = createSocket() as Socket<ServerToClientEvents, ClientToServerEvents>;
-    const listener = ((...args: Parameters<ServerToClientEvents[K]>) => {
+    // socket.io cannot narrow its listener type through a generic event key, so register
+    // on the untyped socket; `handler`'s signature already enforces the payload type.
+    const socket = createSocket() as unknown as Socket;
+    const eventName: string = event;
+    const listener = (...args: Parameters<ServerToClientEvents[K]>) => {
       handler(...args);
-    }) as ServerToClientEvents[K];
-    socket.on(event, listener);
+    };
+    socket.on(eventName, listener);
 
     return () => {
-      socket.off(event, listener);
+      socket.off(eventName, listener);
     };
   }, [event, handler, enabled]);
 };
@@ -0,0 +1,56 @@
+import { z } from 'zod';
+
+import { designGuideSchema, elementOperationSchema } from '../../entities/design/model/schema';
+import type { CollaboratorPresence } from '../../features/canvas/model/presenceSlice';
+import type { CommentDeleted, ElementOperationBatch, OperationAck } from './events';
+
+const designFrameSchema = z.object({
+  width: z.number().positive(),
+  height: z.number().positive(),
+  guides: z.array(designGuideSchema).optional(),
+});
+
+/** Validators for what other clients and the server send us; nothing is trusted as-is. */
+export const elementOperationBatchSchema: z.ZodType<ElementOperationBatch> = z.object({
+  batchId: z.string().min(1),
+  designId: z.string().min(1),
+  clientId: z.string().min(1),
+  clock: z.number().int().nonnegative(),
+  operations: z.array(elementOperationSchema),
+  frame: designFrameSchema.optional(),
+});
+
+export const operationAckSchema: z.ZodType<OperationAck> = z.union([
+  z.object({ ok: z.literal(true), clock: z.number().int().nonnegative() }),
+  z.object({ ok: z.literal(false), error: z.string() }),
+]);
+
+/** Elements are checked separately, after migrating from the snapshot's schema version. */
+export const designSnapshotSchema = z.object({
+  designId: z.string().min(1),
+  elements: z.array(z.unknown()),
+  clock: z.number().int().nonnegative(),
+  schemaVersion: z.number().int().positive().optional(),
+  frame: designFrameSchema.optional(),
+});
+
+export const collaboratorPresenceSchema: z.ZodType<CollaboratorPresence> = z.object({
+  id: z.string().min(1),
+  userId: z.string().optional(),
+  name: z.string(),
+  color: z.string(),
+  cursor: z.object({ x: z.number(), y: z.number() }).optional(),
+  selectedIds: z.array(z.string()).optional(),
+  lastActiveAt: z.string(),
+});
+
+export const commentDeletedSchema: z.ZodType<CommentDeleted> = z.object({
+  designId: z.string().min(1),
+  commentId: z.string().min(1),
+});
+
+/** Drops malformed payloads from other clients rather than letting them into the store. */
+export const validatePayload = <T>(schema: z.ZodType<T>, payload: unknown) => {
+  const result = schema.safeParse(payload);
+  return result.success ? result.data : undefined;
+};
@@ -1,6 +1,7 @@
 import { createApi, fetchBaseQuery } from "@reduxjs/toolkit/query/react";
 
 import { env } from "../config/env";
+import { formatIssues } from "../lib/validation";
 
 export const baseApi = createApi({
   reducerPath: "api",
@@ -8,6 +9,21 @@ export const baseApi = createApi({
     baseUrl: env.apiUrl,
     credentials: "include",
   }),
-  tagTypes: ["Design", "DesignList", "Comment", "CommentList"],
+  tagTypes: [
+    "Design",
+    "DesignList",
+    "DesignVersion",
+    "DesignVersionList",
+    "Comment",
+    "CommentList",
+  ],
+  // Responses that fail their endpoint's schema surface as ordinary request errors.
+  catchSchemaFailure: (error, info) => ({
+    status: "CUSTOM_ERROR" as const,
+    error: `Unexpected response from the server (${info.endpoint}):\n${formatIssues(
+      error.issues
+    ).join("\n")}`,
+    data: error.issues,
+  }),
   endpoints: () => ({}),
 });
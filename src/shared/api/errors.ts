@@ -0,0 +1,24 @@
+/**
+ * A message fit for the UI from whatever a failed request or thunk threw: RTK Query
+ * errors (`{ status, error }`, `{ status, data: { message } }` or `{ message }`), Errors,
+ * or strings.
+ */
+export const getErrorMessage = (error: unknown, fallback = 'Something went wrong.') => {
+  if (typeof error === 'string') return error;
+  if (error instanceof Error) return error.message;
+  if (error && typeof error === 'object') {
+    if ('error' in error && typeof error.error === 'string') return error.error;
+    // Serialized exceptions, e.g. from a response transform.
+    if ('message' in error && typeof error.message === 'string') return error.message;
+    if (
+      'data' in error &&
+      error.data &&
+      typeof error.data === 'object' &&
+      'message' in error.data &&
+      typeof error.data.message === 'string'
+    ) {
+      return error.data.message;
+    }
+  }
+  return fallback;
+};
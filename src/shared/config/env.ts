@@ -5,5 +5,7 @@ export const env = {
   apiUrl,
   socketUrl,
   isApiConfigured: Boolean(import.meta.env.VITE_API_URL),
+  /** Realtime collaboration needs a socket server; without one the editor works locally. */
+  isRealtimeConfigured: Boolean(import.meta.env.VITE_SOCKET_URL ?? import.meta.env.VITE_API_URL),
 };
 
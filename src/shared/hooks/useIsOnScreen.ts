@@ -0,0 +1,23 @@
+import { useEffect, useState, type RefObject } from 'react';
+
+/** Whether the element is scrolled into view while the tab is in the foreground. */
+export const useIsOnScreen = (ref: RefObject<HTMLElement | null>) => {
+  const [isIntersecting, setIsIntersecting] = useState(false);
+  const [isTabVisible, setIsTabVisible] = useState(() => document.visibilityState === 'visible');
+
+  useEffect(() => {
+    const element = ref.current;
+    if (!element) return undefined;
+    const observer = new IntersectionObserver(([entry]) => setIsIntersecting(entry.isIntersecting));
+    observer.observe(element);
+    return () => observer.disconnect();
+  }, [ref]);
+
+  useEffect(() => {
+    const handleVisibilityChange = () => setIsTabVisible(document.visibilityState === 'visible');
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+    return () => document.removeEventListener('visibilitychange', handleVisibilityChange);
+  }, []);
+
+  return isIntersecting && isTabVisible;
+};
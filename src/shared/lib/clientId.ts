@@ -0,0 +1,5 @@
+/**
+ * Identifies this browser tab in realtime traffic, so a tab can recognise its own
+ * operations. Distinct from the user: one person may have several tabs open.
+ */
+export const clientId = crypto.randomUUID();
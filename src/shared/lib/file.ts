@@ -0,0 +1,27 @@
+export const readFileAsDataUrl = (file: Blob) =>
+  new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error ?? new Error('Could not read file'));
+    reader.readAsDataURL(file);
+  });
+
+export const isImageFile = (file: File) => file.type.startsWith('image/');
+
+/** Saves a blob through a temporary object-URL link. */
+export const downloadBlob = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  // Revoke on the next task; some browsers start the download asynchronously.
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+};
+
+/** Lower-case, dash-separated file name stem, e.g. "Launch Post (v2)" → "launch-post-v2". */
+export const toFileName = (name: string, fallback = 'untitled') =>
+  name
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '') || fallback;
@@ -0,0 +1,26 @@
+/** Wraps an IDBRequest in a promise. */
+export const requestToPromise = <T>(request: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error ?? new Error('IndexedDB request failed'));
+  });
+
+/**
+ * Opens (and on first use creates) a database. `upgrade` runs whenever `version`
+ * is newer than what the browser has stored.
+ */
+export const openDatabase = (
+  name: string,
+  version: number,
+  upgrade: (database: IDBDatabase) => void
+) =>
+  new Promise<IDBDatabase>((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') {
+      reject(new Error('IndexedDB is not available'));
+      return;
+    }
+    const request = indexedDB.open(name, version);
+    request.onupgradeneeded = () => upgrade(request.result);
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error ?? new Error(`Could not open ${name}`));
+  });
@@ -0,0 +1,16 @@
+let context: CanvasRenderingContext2D | null | undefined;
+
+/**
+ * Width of a single line of text in CSS pixels, measured on a shared offscreen canvas.
+ * `font` is a CSS font shorthand, e.g. `bold 16px Inter`. Falls back to an estimate
+ * where no 2D canvas is available.
+ */
+export const measureTextWidth = (text: string, font: string) => {
+  context ??= document.createElement('canvas').getContext('2d');
+  if (!context) {
+    const fontSize = Number.parseFloat(/(\d+(?:\.\d+)?)px/.exec(font)?.[1] ?? '16');
+    return text.length * fontSize * 0.6;
+  }
+  context.font = font;
+  return context.measureText(text).width;
+};
@@ -0,0 +1,41 @@
+/**
+ * Calls `callback` at most once per `wait` ms. The first call runs immediately and
+ * the latest arguments of any calls in between run when the window closes.
+ */
+export const throttle = <Args extends unknown[]>(
+  callback: (...args: Args) => void,
+  wait: number
+) => {
+  let lastRun = 0;
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  let pendingArgs: Args | undefined;
+
+  const run = () => {
+    timer = undefined;
+    lastRun = Date.now();
+    if (pendingArgs) {
+      const args = pendingArgs;
+      pendingArgs = undefined;
+      callback(...args);
+    }
+  };
+
+  const throttled = (...args: Args) => {
+    pendingArgs = args;
+    if (timer) return;
+    const remaining = wait - (Date.now() - lastRun);
+    if (remaining <= 0) {
+      run();
+    } else {
+      timer = setTimeout(run, remaining);
+    }
+  };
+
+  throttled.cancel = () => {
+    if (timer) clearTimeout(timer);
+    timer = undefined;
+    pendingArgs = undefined;
+  };
+
+  return throttled;
+};
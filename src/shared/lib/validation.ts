@@ -0,0 +1,41 @@
+import type { z } from 'zod';
+
+/** The parts of a validation issue we report; matches zod and Standard Schema issues. */
+interface ValidationIssue {
+  message: string;
+  path?: readonly (PropertyKey | { key: PropertyKey })[];
+}
+
+/** `elements[2].children[0].fill`-style path for a validation issue. */
+const formatPath = (path: ValidationIssue['path'] = []) =>
+  path
+    .map((segment) => (typeof segment === 'object' ? segment.key : segment))
+    .reduce<string>(
+      (result, key) =>
+        typeof key === 'number'
+          ? `${result}[${key}]`
+          : result
+            ? `${result}.${String(key)}`
+            : String(key),
+      ''
+    );
+
+/** One readable line per issue, e.g. `elements[0].fontSize: Too small: expected number to be >0`. */
+export const formatIssues = (issues: readonly ValidationIssue[], limit = 5) => {
+  const lines = issues.slice(0, limit).map((issue) => {
+    const path = formatPath(issue.path);
+    return path ? `${path}: ${issue.message}` : issue.message;
+  });
+  if (issues.length > limit) lines.push(`…and ${issues.length - limit} more`);
+  return lines;
+};
+
+/**
+ * Validates `value`, throwing an Error whose message names what was being read and
+ * lists the problems, so it can be shown to users as-is.
+ */
+export const parseOrThrow = <T>(schema: z.ZodType<T>, value: unknown, what: string): T => {
+  const result = schema.safeParse(value);
+  if (result.success) return result.data;
+  throw new Error(`${what} is invalid:\n${formatIssues(result.error.issues).join('\n')}`);
+};
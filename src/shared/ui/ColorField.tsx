@@ -0,0 +1,78 @@
+import { useState } from 'react';
+
+import { fieldBorderClassName, fieldInputClassName, fieldLabelClassName } from './fieldStyles';
+
+interface ColorFieldProps {
+  label: string;
+  value: string | undefined;
+  onChange: (value: string) => void;
+  placeholder?: string;
+  disabled?: boolean;
+}
+
+const HEX_COLOR = /^#(?:[0-9a-f]{3}|[0-9a-f]{6})$/i;
+
+/** `<input type="color">` only understands #rrggbb, so expand the short form. */
+const toPickerValue = (value: string | undefined) => {
+  if (!value || !HEX_COLOR.test(value)) return '#000000';
+  if (value.length === 4) {
+    return `#${value
+      .slice(1)
+      .split('')
+      .map((char) => char + char)
+      .join('')}`.toLowerCase();
+  }
+  return value.toLowerCase();
+};
+
+export const ColorField = ({ label, value, onChange, placeholder, disabled }: ColorFieldProps) => {
+  const [draft, setDraft] = useState<string | null>(null);
+  const error =
+    draft !== null && !HEX_COLOR.test(draft.trim()) ? 'Use a hex colour like #2563eb' : undefined;
+
+  const commitDraft = () => {
+    if (draft !== null && !error && draft.trim() !== value) {
+      onChange(draft.trim());
+    }
+  };
+
+  return (
+    <label className="flex flex-col gap-1">
+      <span className={fieldLabelClassName}>{label}</span>
+      <div className="flex items-center gap-2">
+        <input
+          type="color"
+          aria-label={`${label} picker`}
+          value={toPickerValue(value)}
+          disabled={disabled}
+          onChange={(event) => onChange(event.target.value)}
+          className="h-8 w-9 shrink-0 cursor-pointer rounded-md border border-slate-800 bg-slate-950/70 p-0.5 disabled:cursor-not-allowed disabled:opacity-50"
+        />
+        <input
+          type="text"
+          value={draft ?? value ?? ''}
+          placeholder={placeholder}
+          disabled={disabled}
+          aria-invalid={Boolean(error)}
+          onFocus={() => setDraft(value ?? '')}
+          onChange={(event) => setDraft(event.target.value)}
+          onBlur={() => {
+            commitDraft();
+            setDraft(null);
+          }}
+          onKeyDown={(event) => {
+            if (event.key === 'Enter') {
+              commitDraft();
+              event.currentTarget.blur();
+            } else if (event.key === 'Escape') {
+              setDraft(null);
+              event.currentTarget.blur();
+            }
+          }}
+          className={`${fieldInputClassName} ${fieldBorderClassName(Boolean(error))} font-mono`}
+        />
+      </div>
+      {error && <span className="text-xs text-rose-400">{error}</span>}
+    </label>
+  );
+};
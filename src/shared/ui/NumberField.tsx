@@ -0,0 +1,144 @@
+import { useRef, useState } from 'react';
+import type { KeyboardEvent, PointerEvent } from 'react';
+
+import { fieldBorderClassName, fieldInputClassName, fieldLabelClassName } from './fieldStyles';
+
+interface NumberFieldProps {
+  label: string;
+  value: number | undefined;
+  onChange: (value: number) => void;
+  min?: number;
+  max?: number;
+  step?: number;
+  /** Decimal places kept when committing; defaults to whole numbers. */
+  precision?: number;
+  suffix?: string;
+  placeholder?: string;
+  disabled?: boolean;
+}
+
+/** Horizontal pointer travel (px) per `step` while scrubbing the label. */
+const SCRUB_PIXELS_PER_STEP = 2;
+
+const clamp = (value: number, min = -Infinity, max = Infinity) =>
+  Math.min(max, Math.max(min, value));
+
+export const NumberField = ({
+  label,
+  value,
+  onChange,
+  min,
+  max,
+  step = 1,
+  precision = 0,
+  suffix,
+  placeholder,
+  disabled,
+}: NumberFieldProps) => {
+  // `null` while not editing, so external updates (drags, undo) show straight through.
+  const [draft, setDraft] = useState<string | null>(null);
+  const scrubRef = useRef<{ startX: number; startValue: number } | null>(null);
+
+  const normalize = (next: number) => {
+    const factor = 10 ** precision;
+    return clamp(Math.round(next * factor) / factor, min, max);
+  };
+
+  const parsed = draft === null ? value : Number(draft);
+  const error =
+    draft === null
+      ? undefined
+      : draft.trim() === '' || Number.isNaN(parsed)
+        ? 'Enter a number'
+        : parsed !== undefined && min !== undefined && parsed < min
+          ? `Must be at least ${min}`
+          : parsed !== undefined && max !== undefined && parsed > max
+            ? `Must be at most ${max}`
+            : undefined;
+
+  const commitDraft = () => {
+    if (draft !== null && !error && parsed !== undefined && parsed !== value) {
+      onChange(normalize(parsed));
+    }
+  };
+
+  const handleKeyDown = (event: KeyboardEvent<HTMLInputElement>) => {
+    if (event.key === 'Enter') {
+      commitDraft();
+      event.currentTarget.blur();
+    } else if (event.key === 'Escape') {
+      setDraft(null);
+      event.currentTarget.blur();
+    } else if (event.key === 'ArrowUp' || event.key === 'ArrowDown') {
+      event.preventDefault();
+      const direction = event.key === 'ArrowUp' ? 1 : -1;
+      const next = normalize((value ?? 0) + direction * step * (event.shiftKey ? 10 : 1));
+      setDraft(String(next));
+      onChange(next);
+    }
+  };
+
+  const handlePointerDown = (event: PointerEvent<HTMLSpanElement>) => {
+    if (disabled || event.button !== 0) return;
+    event.preventDefault();
+    event.currentTarget.setPointerCapture(event.pointerId);
+    scrubRef.current = { startX: event.clientX, startValue: value ?? 0 };
+  };
+
+  const handlePointerMove = (event: PointerEvent<HTMLSpanElement>) => {
+    const scrub = scrubRef.current;
+    if (!scrub) return;
+    const steps = Math.round((event.clientX - scrub.startX) / SCRUB_PIXELS_PER_STEP);
+    const next = normalize(scrub.startValue + steps * step * (event.shiftKey ? 10 : 1));
+    if (next !== value) onChange(next);
+  };
+
+  const handlePointerUp = (event: PointerEvent<HTMLSpanElement>) => {
+    scrubRef.current = null;
+    event.currentTarget.releasePointerCapture(event.pointerId);
+  };
+
+  return (
+    <label className="flex flex-col gap-1">
+      <span
+        className={`${fieldLabelClassName} select-none ${disabled ? '' : 'cursor-ew-resize'}`}
+        title={disabled ? undefined : 'Drag to adjust (Shift for ×10)'}
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerCancel={handlePointerUp}
+      >
+        {label}
+      </span>
+      <div className="relative">
+        <input
+          type="text"
+          inputMode="decimal"
+          value={draft ?? (value === undefined ? '' : String(value))}
+          placeholder={placeholder}
+          disabled={disabled}
+          aria-invalid={Boolean(error)}
+          onFocus={(event) => {
+            setDraft(value === undefined ? '' : String(value));
+            event.currentTarget.select();
+          }}
+          onChange={(event) => setDraft(event.target.value)}
+          onBlur={() => {
+            commitDraft();
+            setDraft(null);
+          }}
+          onKeyDown={handleKeyDown}
+          className={`${fieldInputClassName} ${fieldBorderClassName(Boolean(error))} ${
+            suffix ? 'pr-7' : ''
+          }`}
+        />
+        {suffix && (
+          <span className="pointer-events-none absolute inset-y-0 right-2 flex items-center text-xs text-slate-500">
+            {suffix}
+          </span>
+        )}
+      </div>
+      {error && <span className="text-xs text-rose-400">{error}</span>}
+    </label>
+  );
+};
@@ -0,0 +1,40 @@
+import { fieldBorderClassName, fieldInputClassName, fieldLabelClassName } from './fieldStyles';
+
+interface SelectFieldProps<T extends string> {
+  label: string;
+  value: T | undefined;
+  options: { value: T; label: string }[];
+  onChange: (value: T) => void;
+  placeholder?: string;
+  disabled?: boolean;
+}
+
+export const SelectField = <T extends string>({
+  label,
+  value,
+  options,
+  onChange,
+  placeholder,
+  disabled,
+}: SelectFieldProps<T>) => (
+  <label className="flex flex-col gap-1">
+    <span className={fieldLabelClassName}>{label}</span>
+    <select
+      value={value ?? ''}
+      disabled={disabled}
+      onChange={(event) => onChange(event.target.value as T)}
+      className={`${fieldInputClassName} ${fieldBorderClassName(false)}`}
+    >
+      {value === undefined && (
+        <option value="" disabled>
+          {placeholder ?? 'Select…'}
+        </option>
+      )}
+      {options.map((option) => (
+        <option key={option.value} value={option.value}>
+          {option.label}
+        </option>
+      ))}
+    </select>
+  </label>
+);
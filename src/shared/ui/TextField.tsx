@@ -0,0 +1,48 @@
+import { fieldBorderClassName, fieldInputClassName, fieldLabelClassName } from './fieldStyles';
+
+interface TextFieldProps {
+  label: string;
+  value: string;
+  onChange: (value: string) => void;
+  multiline?: boolean;
+  placeholder?: string;
+  error?: string;
+  disabled?: boolean;
+}
+
+export const TextField = ({
+  label,
+  value,
+  onChange,
+  multiline,
+  placeholder,
+  error,
+  disabled,
+}: TextFieldProps) => {
+  const className = `${fieldInputClassName} ${fieldBorderClassName(Boolean(error))}`;
+
+  return (
+    <label className="flex flex-col gap-1">
+      <span className={fieldLabelClassName}>{label}</span>
+      {multiline ? (
+        <textarea
+          value={value}
+          placeholder={placeholder}
+          disabled={disabled}
+          onChange={(event) => onChange(event.target.value)}
+          className={`${className} h-20 resize-y`}
+        />
+      ) : (
+        <input
+          type="text"
+          value={value}
+          placeholder={placeholder}
+          disabled={disabled}
+          onChange={(event) => onChange(event.target.value)}
+          className={className}
+        />
+      )}
+      {error && <span className="text-xs text-rose-400">{error}</span>}
+    </label>
+  );
+};
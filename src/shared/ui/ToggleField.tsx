@@ -0,0 +1,21 @@
+import { fieldLabelClassName } from './fieldStyles';
+
+interface ToggleFieldProps {
+  label: string;
+  checked: boolean;
+  onChange: (checked: boolean) => void;
+  disabled?: boolean;
+}
+
+export const ToggleField = ({ label, checked, onChange, disabled }: ToggleFieldProps) => (
+  <label className="flex items-center justify-between gap-3">
+    <span className={fieldLabelClassName}>{label}</span>
+    <input
+      type="checkbox"
+      checked={checked}
+      disabled={disabled}
+      onChange={(event) => onChange(event.target.checked)}
+      className="h-4 w-4 accent-sky-500 disabled:cursor-not-allowed"
+    />
+  </label>
+);
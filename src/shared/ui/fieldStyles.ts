@@ -0,0 +1,7 @@
+export const fieldLabelClassName = 'text-xs uppercase tracking-wide text-slate-500';
+
+export const fieldInputClassName =
+  'w-full rounded-lg border bg-slate-950/70 px-2 py-1.5 text-sm text-slate-100 outline-none transition focus:border-sky-500 disabled:cursor-not-allowed disabled:text-slate-500';
+
+export const fieldBorderClassName = (hasError: boolean) =>
+  hasError ? 'border-rose-500' : 'border-slate-800';